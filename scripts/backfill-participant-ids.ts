@@ -0,0 +1,71 @@
+/**
+ * Backfill trips/{tripId}.participantIds and .roles from the participants array
+ *
+ * getUserTrips finds a user's trips with `participantIds array-contains userId`,
+ * and firestore.rules looks up the caller's role in `roles`, so trips written
+ * before those fields existed are invisible/read-only until backfilled.
+ * Safe to re-run: trips whose fields already match are skipped.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-participant-ids.ts [--dry-run]
+ */
+import { db } from './lib/firebase';
+
+// Firestore caps a write batch at 500 operations
+const MAX_BATCH_WRITES = 450;
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+async function main() {
+  console.log('👥 Backfilling trip participantIds and roles...');
+  if (DRY_RUN) {
+    console.log('   (dry run - nothing will be written)');
+  }
+  console.log('═══════════════════════════════════════\n');
+
+  const snapshot = await db.collection('trips').get();
+  const updates = snapshot.docs.flatMap((tripDoc) => {
+    const trip = tripDoc.data();
+    const participants: any[] = trip.participants || [];
+    const participantIds: string[] = participants.map((p) => p.userId);
+    const roles: Record<string, string> = Object.fromEntries(
+      participants.map((p) => [p.userId, p.role])
+    );
+    const currentIds: string[] = trip.participantIds || [];
+    const currentRoles: Record<string, string> = trip.roles || {};
+
+    const idsMatch =
+      currentIds.length === participantIds.length &&
+      currentIds.every((id, i) => id === participantIds[i]);
+    const rolesMatch =
+      Object.keys(currentRoles).length === participantIds.length &&
+      participantIds.every((id) => currentRoles[id] === roles[id]);
+    if (idsMatch && rolesMatch) {
+      return [];
+    }
+
+    const summary = participants.map((p) => `${p.userId} (${p.role})`).join(', ');
+    console.log(`   ${DRY_RUN ? '🔍' : '✅'} ${tripDoc.id}: ${summary || '(no participants)'}`);
+    return [{ ref: tripDoc.ref, participantIds, roles }];
+  });
+
+  if (!DRY_RUN) {
+    for (let i = 0; i < updates.length; i += MAX_BATCH_WRITES) {
+      const batch = db.batch();
+      updates
+        .slice(i, i + MAX_BATCH_WRITES)
+        .forEach(({ ref, participantIds, roles }) => batch.update(ref, { participantIds, roles }));
+      await batch.commit();
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(`✅ ${DRY_RUN ? 'Would update' : 'Updated'} ${updates.length} of ${snapshot.size} trip(s)\n`);
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
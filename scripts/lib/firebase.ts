@@ -0,0 +1,65 @@
+/**
+ * Firebase setup shared by the maintenance scripts
+ * Uses the Admin SDK with config from .env. The scripts work across every
+ * user's trips, so they run with admin access, which firestore.rules doesn't
+ * apply to, rather than as a signed-in user of the app.
+ *
+ * Against the real project, the Admin SDK needs credentials: a service account
+ * key (Firebase console > Project settings > Service accounts > Generate new
+ * private key) named by GOOGLE_APPLICATION_CREDENTIALS, or your own account
+ * after `gcloud auth application-default login`:
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=~/keys/trip-organizer-admin.json npm run verify:db
+ *
+ * Set VITE_USE_EMULATORS=true (in .env or inline) to run a script against
+ * the local Firestore and Storage emulators instead of the real project; no
+ * credentials are needed there:
+ *
+ *   VITE_USE_EMULATORS=true npm run seed
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import * as dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// Load .env file from the project root
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '..', '..', '.env') });
+
+export const USE_EMULATORS = process.env.VITE_USE_EMULATORS === 'true';
+
+const EMULATOR_HOST = process.env.VITE_EMULATOR_HOST || '127.0.0.1';
+const FIRESTORE_EMULATOR_PORT = 8080;
+const STORAGE_EMULATOR_PORT = 9199;
+
+// The Admin SDK talks to the emulators whenever these are set
+if (USE_EMULATORS) {
+  process.env.FIRESTORE_EMULATOR_HOST ||= `${EMULATOR_HOST}:${FIRESTORE_EMULATOR_PORT}`;
+  process.env.FIREBASE_STORAGE_EMULATOR_HOST ||= `${EMULATOR_HOST}:${STORAGE_EMULATOR_PORT}`;
+}
+
+// The emulator accepts any project ID
+export const projectId =
+  process.env.VITE_FIREBASE_PROJECT_ID || (USE_EMULATORS ? 'demo-trip-organizer' : undefined);
+
+export const app = initializeApp({
+  projectId,
+  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET || (projectId && `${projectId}.appspot.com`),
+});
+export const db = getFirestore(app);
+
+/**
+ * The Cloud Storage bucket, for scripts that manage published files
+ */
+export function getBucket() {
+  return getStorage(app).bucket();
+}
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  console.log(`🧪 Using Firestore emulator at ${process.env.FIRESTORE_EMULATOR_HOST}\n`);
+} else {
+  console.log(`☁️  Using Firestore project ${projectId}\n`);
+}
@@ -0,0 +1,31 @@
+/**
+ * Trip reads shared by the maintenance scripts
+ */
+import type { DocumentReference } from 'firebase-admin/firestore';
+import type { Day, Activity, Expense } from '../../src/types';
+
+function byCreatedAt(a: { createdAt: { toMillis(): number } }, b: { createdAt: { toMillis(): number } }) {
+  return a.createdAt.toMillis() - b.createdAt.toMillis();
+}
+
+/**
+ * A trip's days with their activities, sorted by date, as the app loads them
+ */
+export async function loadTripDays(tripRef: DocumentReference): Promise<Day[]> {
+  const days: Day[] = [];
+  const daysSnapshot = await tripRef.collection('days').get();
+  for (const dayDoc of daysSnapshot.docs) {
+    const activitiesSnapshot = await dayDoc.ref.collection('activities').get();
+    const activities = activitiesSnapshot.docs.map((activityDoc) => activityDoc.data() as Activity);
+    days.push({ ...(dayDoc.data() as Omit<Day, 'activities'>), activities: activities.sort(byCreatedAt) });
+  }
+  return days.sort((a, b) => a.date.toMillis() - b.date.toMillis());
+}
+
+/**
+ * A trip's expenses, oldest first
+ */
+export async function loadTripExpenses(tripRef: DocumentReference): Promise<Expense[]> {
+  const expensesSnapshot = await tripRef.collection('expenses').get();
+  return expensesSnapshot.docs.map((expenseDoc) => expenseDoc.data() as Expense).sort(byCreatedAt);
+}
@@ -0,0 +1,162 @@
+/**
+ * One-shot migration: nested trip days -> days/activities subcollections
+ *
+ * Before: trips/{tripId}.days[].activities[]
+ * After:  trips/{tripId}/days/{dayId}/activities/{activityId}
+ *
+ * Safe to re-run: documents are written with their existing IDs and the
+ * nested `days` field is only removed once its subcollection writes commit,
+ * in a transaction that first checks the trip hasn't changed since it was
+ * read. A trip changed meanwhile (by a client still on the old layout) is
+ * read again and migrated afresh.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-activities-to-subcollections.ts [--dry-run] [tripId...]
+ */
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from './lib/firebase';
+
+// Firestore caps a write batch at 500 operations
+const MAX_BATCH_WRITES = 450;
+
+// Reads of a trip that keeps changing while it's migrated, before giving up on it
+const MAX_ATTEMPTS = 5;
+
+const args = process.argv.slice(2);
+const DRY_RUN = args.includes('--dry-run');
+const ONLY_TRIP_IDS = args.filter((arg) => !arg.startsWith('--'));
+
+// data null deletes the document
+type Write = { ref: DocumentReference; data: DocumentData | null };
+
+type MigrationResult = { days: number; activities: number; migrated: boolean };
+
+/**
+ * Drop undefined fields - Firestore rejects them
+ */
+function clean(data: DocumentData): DocumentData {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+async function commitInBatches(writes: Write[]) {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(({ ref, data }) => {
+      if (data) batch.set(ref, data);
+      else batch.delete(ref);
+    });
+    await batch.commit();
+  }
+}
+
+async function migrateTrip(tripDoc: DocumentSnapshot, attempt = 1): Promise<MigrationResult> {
+  const trip = tripDoc.data();
+  if (!trip || !Array.isArray(trip.days)) {
+    console.log(`   ⏭️  ${tripDoc.id}: already migrated`);
+    return { days: 0, activities: 0, migrated: false };
+  }
+
+  const writes: Write[] = [];
+  let activityCount = 0;
+
+  trip.days.forEach((day: any) => {
+    const { activities = [], ...dayData } = day;
+    const dayRef = tripDoc.ref.collection('days').doc(day.dayId);
+    writes.push({ ref: dayRef, data: clean(dayData) });
+
+    activities.forEach((activity: any) => {
+      writes.push({
+        ref: dayRef.collection('activities').doc(activity.activityId),
+        data: clean(activity),
+      });
+      activityCount++;
+    });
+  });
+
+  // Read again after a change: drop what an earlier attempt wrote out that the
+  // trip no longer has, e.g. an activity removed meanwhile
+  if (attempt > 1) {
+    const written = new Set(writes.map(({ ref }) => ref.path));
+    for (const dayDoc of (await tripDoc.ref.collection('days').get()).docs) {
+      for (const activityDoc of (await dayDoc.ref.collection('activities').get()).docs) {
+        if (!written.has(activityDoc.ref.path)) writes.push({ ref: activityDoc.ref, data: null });
+      }
+      if (!written.has(dayDoc.ref.path)) writes.push({ ref: dayDoc.ref, data: null });
+    }
+  }
+
+  console.log(
+    `   ${DRY_RUN ? '🔍' : '✅'} ${tripDoc.id}: ${trip.days.length} day(s), ${activityCount} activit${activityCount === 1 ? 'y' : 'ies'}`
+  );
+
+  if (!DRY_RUN) {
+    await commitInBatches(writes);
+
+    // Only drop the nested copy after every subcollection write has landed,
+    // and only if it's still the copy that was written out
+    const dropped = await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(tripDoc.ref);
+      if (!current.updateTime?.isEqual(tripDoc.updateTime!)) {
+        return false;
+      }
+      transaction.update(tripDoc.ref, {
+        days: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    if (!dropped) {
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new Error(`${tripDoc.id} kept changing while it was migrated; run the migration again`);
+      }
+      console.log(`   🔁 ${tripDoc.id}: changed while migrating, reading it again`);
+      return migrateTrip(await tripDoc.ref.get(), attempt + 1);
+    }
+  }
+
+  return { days: trip.days.length, activities: activityCount, migrated: true };
+}
+
+async function main() {
+  console.log('🚚 Migrating trip activities to subcollections...');
+  if (DRY_RUN) {
+    console.log('   (dry run - nothing will be written)');
+  }
+  console.log('═══════════════════════════════════════\n');
+
+  const tripDocs = ONLY_TRIP_IDS.length > 0
+    ? await Promise.all(ONLY_TRIP_IDS.map((tripId) => db.collection('trips').doc(tripId).get()))
+    : (await db.collection('trips').get()).docs;
+
+  let tripCount = 0;
+  let dayCount = 0;
+  let activityCount = 0;
+
+  for (const tripDoc of tripDocs) {
+    if (!tripDoc.exists) {
+      console.log(`   ❌ ${tripDoc.id}: not found`);
+      continue;
+    }
+
+    const result = await migrateTrip(tripDoc);
+    if (result.migrated) {
+      tripCount++;
+      dayCount += result.days;
+      activityCount += result.activities;
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(`✅ ${DRY_RUN ? 'Would migrate' : 'Migrated'}:`);
+  console.log(`  - ${tripCount} trip(s)`);
+  console.log(`  - ${dayCount} day(s)`);
+  console.log(`  - ${activityCount} activities\n`);
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+/**
+ * Convert activity times stored as typed text ("HH:MM") to Timestamps
+ *
+ * Activity startTime/endTime are instants, shown as wall-clock time in the
+ * activity's time zone (the trip's settings.timezone unless set). Older
+ * activities saved the time as typed, which means nothing without a date and
+ * zone. Each one is read as a wall-clock time on its day's calendar date in the
+ * trip's time zone; an end time before the start time is taken to be the next day.
+ * Safe to re-run: activities whose times are already Timestamps are skipped.
+ * Run migrate:activities first if any trip still has nested days.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-activity-times.ts [--dry-run]
+ */
+import { Timestamp } from 'firebase-admin/firestore';
+import type { DocumentReference } from 'firebase-admin/firestore';
+import { db } from './lib/firebase';
+import { toCalendarDate, fromZonedTime, addCalendarDays, isValidTimeZone } from '../src/utils/dates';
+
+// Firestore caps a write batch at 500 operations
+const MAX_BATCH_WRITES = 450;
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Trips created without settings use the same default as trip.service
+const DEFAULT_TIMEZONE = 'UTC';
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::\d{2})?$/;
+
+/**
+ * Typed time as HH:MM, or null if it isn't a time of day
+ */
+function parseTime(value: string): string | null {
+  const match = TIME_PATTERN.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+async function main() {
+  console.log('⏰ Converting activity times to Timestamps...');
+  if (DRY_RUN) {
+    console.log('   (dry run - nothing will be written)');
+  }
+  console.log('═══════════════════════════════════════\n');
+
+  const updates: { ref: DocumentReference; fields: Record<string, Timestamp> }[] = [];
+  let skipped = 0;
+
+  const tripsSnapshot = await db.collection('trips').get();
+  for (const tripDoc of tripsSnapshot.docs) {
+    const trip = tripDoc.data();
+    if (Array.isArray(trip.days)) {
+      console.log(`   ⚠️  ${tripDoc.id} still uses nested days - run: npm run migrate:activities`);
+      continue;
+    }
+
+    let timeZone: string = trip.settings?.timezone || DEFAULT_TIMEZONE;
+    if (!isValidTimeZone(timeZone)) {
+      console.log(`   ⚠️  ${tripDoc.id} has unknown time zone "${timeZone}", using ${DEFAULT_TIMEZONE}`);
+      timeZone = DEFAULT_TIMEZONE;
+    }
+
+    const daysSnapshot = await tripDoc.ref.collection('days').get();
+    for (const dayDoc of daysSnapshot.docs) {
+      const day = dayDoc.data();
+      const calendarDate = toCalendarDate(day.date.toDate(), timeZone);
+
+      const activitiesSnapshot = await dayDoc.ref.collection('activities').get();
+      for (const activityDoc of activitiesSnapshot.docs) {
+        const activity = activityDoc.data();
+        if (typeof activity.startTime !== 'string' && typeof activity.endTime !== 'string') {
+          continue;
+        }
+
+        const startTime = typeof activity.startTime === 'string' ? parseTime(activity.startTime) : null;
+        const endTime = typeof activity.endTime === 'string' ? parseTime(activity.endTime) : null;
+        if ((typeof activity.startTime === 'string' && !startTime) || (typeof activity.endTime === 'string' && !endTime)) {
+          console.log(`   ⚠️  ${tripDoc.id}/${dayDoc.id}/${activityDoc.id}: can't read "${activity.startTime ?? ''}" - "${activity.endTime ?? ''}", fix by hand`);
+          skipped++;
+          continue;
+        }
+
+        const fields: Record<string, Timestamp> = {};
+        if (startTime) {
+          fields.startTime = Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, startTime));
+        }
+        if (endTime) {
+          const endDate = startTime && endTime < startTime ? addCalendarDays(calendarDate, 1) : calendarDate;
+          fields.endTime = Timestamp.fromDate(fromZonedTime(endDate, timeZone, endTime));
+        }
+
+        const range = [startTime, endTime].filter(Boolean).join(' - ');
+        console.log(`   ${DRY_RUN ? '🔍' : '✅'} ${tripDoc.id}/${dayDoc.id}/${activityDoc.id}: ${range} on ${calendarDate} (${timeZone})`);
+        updates.push({ ref: activityDoc.ref, fields });
+      }
+    }
+  }
+
+  if (!DRY_RUN) {
+    for (let i = 0; i < updates.length; i += MAX_BATCH_WRITES) {
+      const batch = db.batch();
+      updates
+        .slice(i, i + MAX_BATCH_WRITES)
+        .forEach(({ ref, fields }) => batch.update(ref, fields));
+      await batch.commit();
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(`✅ ${DRY_RUN ? 'Would convert' : 'Converted'} ${updates.length} activit${updates.length === 1 ? 'y' : 'ies'}`);
+  if (skipped > 0) {
+    console.log(`⚠️  Skipped ${skipped} with unreadable times`);
+  }
+  console.log('');
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
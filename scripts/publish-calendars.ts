@@ -0,0 +1,170 @@
+/**
+ * Backfill participants' calendar feeds
+ *
+ * A calendar feed (trips/{tripId}/calendarFeeds/{userId}) is an .ics file in
+ * Cloud Storage that calendar apps poll. The app publishes it when someone
+ * turns their feed on and republishes it after every change to the trip.
+ * This script catches up on what the app missed: a republish that failed, a
+ * viewer's change that only reached their own file, a change made by another
+ * script. Run it now and then, e.g. nightly from cron:
+ *
+ * - feeds whose trip changed since this script last published them are republished
+ *   (--all republishes every feed, e.g. after the calendar format changed)
+ * - a trip in the trash has its calendars taken down until it's restored
+ * - feeds of people who have left the trip are deleted
+ * - calendar files no feed points at (an old token, a purged trip) are deleted
+ *
+ * A trip that fails is reported and retried on the next run, which then exits
+ * with status 1. Links in the calendars point at VITE_APP_URL (default
+ * https://<project>.web.app).
+ *
+ * Usage:
+ *   npx tsx scripts/publish-calendars.ts [--dry-run] [--all]
+ *   VITE_USE_EMULATORS=true npx tsx scripts/publish-calendars.ts
+ */
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentReference } from 'firebase-admin/firestore';
+import { db, getBucket, projectId } from './lib/firebase';
+import { loadTripDays } from './lib/trips';
+import { toICalendar } from '../src/utils/ics';
+import { routePath } from '../src/utils/routes';
+import type { TripDocument, Day, CalendarFeed } from '../src/types';
+
+const DRY_RUN = process.argv.includes('--dry-run');
+const REPUBLISH_ALL = process.argv.includes('--all');
+
+// Trips created without settings use the same default as trip.service
+const DEFAULT_TIMEZONE = 'UTC';
+
+// Same layout as calendarPath in src/services/persistence/firestore.ts
+const CALENDAR_FEEDS_FOLDER = 'calendar-feeds';
+
+const APP_URL = process.env.VITE_APP_URL || `https://${projectId}.web.app`;
+
+type StoredFeed = { ref: DocumentReference; feed: CalendarFeed };
+
+function calendarPath(tripId: string, feed: Pick<CalendarFeed, 'userId' | 'feedToken'>): string {
+  return `${CALENDAR_FEEDS_FOLDER}/${tripId}/${feed.userId}/${feed.feedToken}.ics`;
+}
+
+async function main() {
+  const bucket = getBucket();
+  const startedAt = new Date();
+
+  console.log('📅 Publishing calendar feeds...');
+  if (REPUBLISH_ALL) {
+    console.log('   Republishing every feed');
+  }
+  if (DRY_RUN) {
+    console.log('   (dry run - nothing will be written)');
+  }
+  console.log('═══════════════════════════════════════\n');
+
+  // Each trip's itinerary is loaded once for all its feeds
+  const feedsByTrip = new Map<string, StoredFeed[]>();
+  const feedsSnapshot = await db.collectionGroup('calendarFeeds').get();
+  for (const feedDoc of feedsSnapshot.docs) {
+    const tripId = feedDoc.ref.parent.parent!.id;
+    const feeds = feedsByTrip.get(tripId) ?? [];
+    feeds.push({ ref: feedDoc.ref, feed: feedDoc.data() as CalendarFeed });
+    feedsByTrip.set(tripId, feeds);
+  }
+
+  // Files that stay up: live feeds, and everything under a trip that failed
+  const published = new Set<string>();
+  const failedTrips = new Set<string>();
+  let publishedCount = 0;
+  let removedCount = 0;
+
+  for (const [tripId, feeds] of feedsByTrip) {
+    try {
+      const tripRef = db.collection('trips').doc(tripId);
+      const trip = (await tripRef.get()).data() as TripDocument | undefined;
+      let days: Day[] | null = null;
+
+      for (const { ref, feed } of feeds) {
+        const path = calendarPath(tripId, feed);
+        const label = `${tripId}/${feed.userId}`;
+
+        // Left the trip, or the trip's purge was interrupted
+        if (!trip?.roles?.[feed.userId]) {
+          console.log(`   🗑️  ${label}: no longer on the trip, feed deleted`);
+          removedCount++;
+          if (!DRY_RUN) {
+            await bucket.file(path).delete({ ignoreNotFound: true });
+            await ref.delete();
+          }
+          continue;
+        }
+
+        if (trip.trash) {
+          if (feed.publishedVersion) {
+            console.log(`   🗑️  ${label}: trip is in the trash, calendar taken down`);
+            removedCount++;
+            if (!DRY_RUN) {
+              await bucket.file(path).delete({ ignoreNotFound: true });
+              await ref.update({ publishedVersion: FieldValue.delete() });
+            }
+          }
+          continue;
+        }
+
+        published.add(path);
+        const upToDate = feed.publishedVersion && feed.publishedVersion.toMillis() >= trip.updatedAt.toMillis();
+        if (upToDate && !REPUBLISH_ALL) {
+          continue;
+        }
+
+        days ??= await loadTripDays(tripRef);
+        const ics = toICalendar({ ...trip, days }, trip.settings?.timezone || DEFAULT_TIMEZONE, {
+          scope: feed.scope,
+          userId: feed.userId,
+          tripUrl: `${APP_URL}${routePath({ name: 'trip', tripId })}`,
+        });
+        console.log(`   ${DRY_RUN ? '🔍' : '✅'} ${label}: "${trip.title}" (${feed.scope})`);
+        publishedCount++;
+        if (!DRY_RUN) {
+          await bucket.file(path).save(ics, {
+            contentType: 'text/calendar; charset=utf-8',
+            // Calendar apps poll; keep caches from serving a stale itinerary for long
+            metadata: { cacheControl: 'public, max-age=300' },
+          });
+          // The trip as it was read, so a change made meanwhile is published next run
+          await ref.update({ publishedVersion: trip.updatedAt });
+        }
+      }
+    } catch (error: any) {
+      console.log(`   ❌ ${tripId}: ${error.message}`);
+      failedTrips.add(tripId);
+    }
+  }
+
+  // Files written since this run started may belong to feeds turned on meanwhile
+  const [files] = await bucket.getFiles({ prefix: `${CALENDAR_FEEDS_FOLDER}/` });
+  const stale = files.filter((file) => {
+    const tripId = file.name.split('/')[1];
+    const updated = file.metadata.updated ? new Date(file.metadata.updated) : startedAt;
+    return !published.has(file.name) && !failedTrips.has(tripId) && updated < startedAt;
+  });
+  for (const file of stale) {
+    console.log(`   🗑️  ${file.name}: no feed points here, deleted`);
+    if (!DRY_RUN) {
+      await file.delete({ ignoreNotFound: true });
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(
+    `${failedTrips.size > 0 ? '⚠️ ' : '✅'} ${DRY_RUN ? 'Would publish' : 'Published'} ${publishedCount} feed(s), ` +
+      `${DRY_RUN ? 'would remove' : 'removed'} ${removedCount} feed(s) and ${stale.length} stale file(s)` +
+      (failedTrips.size > 0 ? `, ${failedTrips.size} trip(s) failed` : '') +
+      '\n'
+  );
+
+  process.exit(failedTrips.size > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
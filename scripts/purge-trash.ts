@@ -0,0 +1,131 @@
+/**
+ * Delete trips that have been in the trash for longer than the retention period
+ *
+ * deleteTrip only moves a trip to the trash (trips/{tripId}.trash), where its
+ * owners can restore it. Once trash.deletedAt is older than the retention
+ * period, this deletes the trip for good: its days, activities, expenses,
+ * calendar feeds, change history and presence, then the trip document itself
+ * (the published calendar files came down when it went to the trash). Any
+ * participant whose tripIds still lists the trip is cleaned up too.
+ * Safe to re-run: a trip whose deletion was interrupted is picked up again,
+ * since its document goes last.
+ *
+ * The retention period is VITE_TRASH_RETENTION_DAYS (default 30), the same
+ * setting the app shows owners; --retention-days overrides it for one run.
+ *
+ * Usage:
+ *   npx tsx scripts/purge-trash.ts [--dry-run] [--retention-days=N]
+ *   VITE_USE_EMULATORS=true npx tsx scripts/purge-trash.ts --retention-days=0
+ */
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentReference } from 'firebase-admin/firestore';
+import { db } from './lib/firebase';
+import { parseRetentionDays, getPurgeCutoff } from '../src/utils/trash';
+
+// Firestore caps a write batch at 500 operations
+const MAX_BATCH_WRITES = 450;
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const RETENTION_FLAG = '--retention-days=';
+
+/**
+ * Retention period: the flag if given, else the environment, else the default
+ */
+function getRetentionDays(): number {
+  const flag = process.argv.find((arg) => arg.startsWith(RETENTION_FLAG));
+  return parseRetentionDays(
+    flag ? flag.slice(RETENTION_FLAG.length) : process.env.VITE_TRASH_RETENTION_DAYS
+  );
+}
+
+/**
+ * Everything stored under a trip, in the order it has to be deleted
+ * (subcollections outlive their parent, so the trip document goes last)
+ */
+async function collectTripRefs(tripRef: DocumentReference): Promise<DocumentReference[]> {
+  const refs: DocumentReference[] = [];
+
+  const daysSnapshot = await tripRef.collection('days').get();
+  for (const dayDoc of daysSnapshot.docs) {
+    const activitiesSnapshot = await dayDoc.ref.collection('activities').get();
+    activitiesSnapshot.docs.forEach((activityDoc) => refs.push(activityDoc.ref));
+    refs.push(dayDoc.ref);
+  }
+
+  for (const subcollection of ['expenses', 'calendarFeeds', 'changes', 'presence']) {
+    const snapshot = await tripRef.collection(subcollection).get();
+    snapshot.docs.forEach((entry) => refs.push(entry.ref));
+  }
+
+  refs.push(tripRef);
+  return refs;
+}
+
+async function main() {
+  const retentionDays = getRetentionDays();
+  const cutoff = getPurgeCutoff(retentionDays);
+
+  console.log('🗑️  Purging trips from the trash...');
+  console.log(`   Deleted on or before ${cutoff.toISOString()} (${retentionDays} day retention)`);
+  if (DRY_RUN) {
+    console.log('   (dry run - nothing will be written)');
+  }
+  console.log('═══════════════════════════════════════\n');
+
+  const snapshot = await db
+    .collection('trips')
+    .where('trash.deletedAt', '<=', Timestamp.fromDate(cutoff))
+    .get();
+
+  let documents = 0;
+  for (const tripDoc of snapshot.docs) {
+    const trip = tripDoc.data();
+    const refs = await collectTripRefs(tripDoc.ref);
+    documents += refs.length;
+
+    // deleteTrip clears these, unless it was interrupted
+    const staleUsers: DocumentReference[] = [];
+    for (const userId of trip.trash.participantIds as string[]) {
+      const userDoc = await db.collection('users').doc(userId).get();
+      if (userDoc.exists && (userDoc.data()?.tripIds || []).includes(tripDoc.id)) {
+        staleUsers.push(userDoc.ref);
+      }
+    }
+
+    const deletedAt: Date = trip.trash.deletedAt.toDate();
+    console.log(
+      `   ${DRY_RUN ? '🔍' : '✅'} ${tripDoc.id} "${trip.title}": deleted ${deletedAt.toISOString()}, ` +
+        `${refs.length} document(s)${staleUsers.length > 0 ? `, ${staleUsers.length} stale tripIds` : ''}`
+    );
+
+    if (!DRY_RUN) {
+      const batch = db.batch();
+      staleUsers.forEach((ref) =>
+        batch.update(ref, {
+          tripIds: FieldValue.arrayRemove(tripDoc.id),
+          updatedAt: FieldValue.serverTimestamp(),
+        })
+      );
+      await batch.commit();
+
+      for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+        const deletes = db.batch();
+        refs.slice(i, i + MAX_BATCH_WRITES).forEach((ref) => deletes.delete(ref));
+        await deletes.commit();
+      }
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(
+    `✅ ${DRY_RUN ? 'Would purge' : 'Purged'} ${snapshot.size} trip(s), ${documents} document(s) in all\n`
+  );
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
@@ -1,36 +1,45 @@
 /**
  * Quick seed script - creates test data directly
- * Uses manual Firebase init to avoid Vite dependencies
+ * Uses the Admin SDK (scripts/lib/firebase.ts) to avoid Vite dependencies
  */
-import { initializeApp } from 'firebase/app';
-import {
-  getFirestore,
-  collection,
-  doc,
-  setDoc,
-  Timestamp,
-} from 'firebase/firestore';
-import * as dotenv from 'dotenv';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from './lib/firebase';
+import { fromZonedTime } from '../src/utils/dates';
 
-// Load .env file
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-dotenv.config({ path: join(__dirname, '..', '.env') });
+/**
+ * Activity start and end times on a calendar date, as wall-clock times in a time zone
+ */
+function timesOn(calendarDate: string, startTime: string, endTime: string, timeZone = 'Europe/Paris') {
+  return {
+    startTime: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, startTime)),
+    endTime: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, endTime)),
+  };
+}
 
-// Firebase config from .env
-const firebaseConfig = {
-  apiKey: process.env.VITE_FIREBASE_API_KEY,
-  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: process.env.VITE_FIREBASE_APP_ID,
-};
+/**
+ * Write a trip in the subcollection layout:
+ * trips/{tripId}, trips/{tripId}/days/{dayId}, trips/{tripId}/days/{dayId}/activities/{activityId}
+ */
+async function writeTrip(trip: { tripId: string; days: any[]; [field: string]: any }) {
+  const { days, ...tripData } = trip;
+  const batch = db.batch();
+  const tripRef = db.collection('trips').doc(trip.tripId);
 
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
+  batch.set(tripRef, {
+    ...tripData,
+    participantIds: trip.participants.map((p: any) => p.userId),
+    roles: Object.fromEntries(trip.participants.map((p: any) => [p.userId, p.role])),
+  });
+  days.forEach(({ activities, ...day }) => {
+    const dayRef = tripRef.collection('days').doc(day.dayId);
+    batch.set(dayRef, day);
+    activities.forEach((activity: any) => {
+      batch.set(dayRef.collection('activities').doc(activity.activityId), activity);
+    });
+  });
+
+  await batch.commit();
+}
 
 async function seed() {
   console.log('🚀 Quick seeding test data...\n');
@@ -47,7 +56,7 @@ async function seed() {
     tripIds: ['trip-paris-2025', 'trip-tokyo-2024'],
   };
 
-  await setDoc(doc(db, 'users', user1Data.userId), user1Data);
+  await db.collection('users').doc(user1Data.userId).set(user1Data);
   console.log('✅ Created user: Test User');
 
   // Create Paris trip
@@ -77,8 +86,7 @@ async function seed() {
             title: 'Arrive at CDG Airport',
             description: 'Flight lands at 9:30 AM',
             type: 'travel',
-            startTime: '09:30',
-            endTime: '10:00',
+            ...timesOn('2025-12-15', '09:30', '10:00'),
             location: {
               name: 'Charles de Gaulle Airport',
               address: '95700 Roissy-en-France, France',
@@ -93,8 +101,7 @@ async function seed() {
             activityId: 'act-2',
             title: 'Hotel Check-in',
             type: 'accommodation',
-            startTime: '14:00',
-            endTime: '15:00',
+            ...timesOn('2025-12-15', '14:00', '15:00'),
             location: {
               name: 'Hotel Le Marais',
               address: '12 Rue de Rivoli, 75004 Paris',
@@ -117,8 +124,7 @@ async function seed() {
             title: 'Visit Eiffel Tower',
             description: 'Tickets for 10 AM',
             type: 'activity',
-            startTime: '10:00',
-            endTime: '12:30',
+            ...timesOn('2025-12-16', '10:00', '12:30'),
             location: {
               name: 'Eiffel Tower',
               address: 'Champ de Mars, 75007 Paris',
@@ -145,7 +151,7 @@ async function seed() {
     },
   };
 
-  await setDoc(doc(db, 'trips', parisTrip.tripId), parisTrip);
+  await writeTrip(parisTrip);
   console.log('✅ Created trip: Paris Adventure 2025');
 
   // Create Tokyo trip (past)
@@ -175,7 +181,7 @@ async function seed() {
     },
   };
 
-  await setDoc(doc(db, 'trips', tokyoTrip.tripId), tokyoTrip);
+  await writeTrip(tokyoTrip);
   console.log('✅ Created trip: Tokyo Trip 2024');
 
   console.log('\n═══════════════════════════════════════');
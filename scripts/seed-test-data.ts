@@ -2,21 +2,44 @@
  * Seed test data for development and testing
  * Creates test users and sample trips with realistic data
  */
-import { initializeApp } from 'firebase/app';
-import { getFirestore, doc, setDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './lib/firebase';
+import { fromZonedTime } from '../src/utils/dates';
 
-// Firebase configuration
-const firebaseConfig = {
-  apiKey: process.env.VITE_FIREBASE_API_KEY,
-  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: process.env.VITE_FIREBASE_APP_ID,
-};
+/**
+ * Activity start and end times on a calendar date, as wall-clock times in a time zone
+ */
+function timesOn(calendarDate: string, startTime: string, endTime: string, timeZone = 'Europe/Paris') {
+  return {
+    startTime: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, startTime)),
+    endTime: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, endTime)),
+  };
+}
 
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
+/**
+ * Write a trip in the subcollection layout:
+ * trips/{tripId}, trips/{tripId}/days/{dayId}, trips/{tripId}/days/{dayId}/activities/{activityId}
+ */
+async function writeTrip(trip: { tripId: string; days: any[]; [field: string]: any }) {
+  const { days, ...tripData } = trip;
+  const batch = db.batch();
+  const tripRef = db.collection('trips').doc(trip.tripId);
+
+  batch.set(tripRef, {
+    ...tripData,
+    participantIds: trip.participants.map((p: any) => p.userId),
+    roles: Object.fromEntries(trip.participants.map((p: any) => [p.userId, p.role])),
+  });
+  days.forEach(({ activities, ...day }) => {
+    const dayRef = tripRef.collection('days').doc(day.dayId);
+    batch.set(dayRef, day);
+    activities.forEach((activity: any) => {
+      batch.set(dayRef.collection('activities').doc(activity.activityId), activity);
+    });
+  });
+
+  await batch.commit();
+}
 
 // Test users
 const testUsers = [
@@ -43,12 +66,12 @@ async function seedUsers() {
   for (const user of testUsers) {
     const userData = {
       ...user,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
       tripIds: [],
     };
 
-    await setDoc(doc(db, 'users', user.userId), userData);
+    await db.collection('users').doc(user.userId).set(userData);
     console.log(`✅ Created user: ${user.displayName} (${user.phoneNumber})`);
   }
 
@@ -94,8 +117,7 @@ async function seedTrips() {
             title: 'Arrive at CDG Airport',
             description: 'Flight lands at 9:30 AM',
             type: 'travel',
-            startTime: '09:30',
-            endTime: '10:00',
+            ...timesOn('2025-12-15', '09:30', '10:00'),
             location: {
               name: 'Charles de Gaulle Airport',
               address: '95700 Roissy-en-France, France',
@@ -111,8 +133,7 @@ async function seedTrips() {
             title: 'Hotel Check-in',
             description: 'Check in at Hotel Le Marais',
             type: 'accommodation',
-            startTime: '14:00',
-            endTime: '15:00',
+            ...timesOn('2025-12-15', '14:00', '15:00'),
             location: {
               name: 'Hotel Le Marais',
               address: '12 Rue de Rivoli, 75004 Paris, France',
@@ -127,8 +148,7 @@ async function seedTrips() {
             activityId: 'act-3',
             title: 'Dinner at Le Comptoir',
             type: 'dining',
-            startTime: '19:30',
-            endTime: '21:30',
+            ...timesOn('2025-12-15', '19:30', '21:30'),
             location: {
               name: 'Le Comptoir du Relais',
               address: '9 Carrefour de l\'Odéon, 75006 Paris, France',
@@ -157,8 +177,7 @@ async function seedTrips() {
             title: 'Visit Eiffel Tower',
             description: 'Pre-booked tickets for 10 AM',
             type: 'activity',
-            startTime: '10:00',
-            endTime: '12:30',
+            ...timesOn('2025-12-16', '10:00', '12:30'),
             location: {
               name: 'Eiffel Tower',
               address: 'Champ de Mars, 5 Avenue Anatole France, 75007 Paris, France',
@@ -181,8 +200,8 @@ async function seedTrips() {
     ],
     coverImageUrl: 'https://images.unsplash.com/photo-1502602898657-3e91760cbb34',
     createdBy: 'test-user-415-301-8471',
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
     settings: {
       currency: 'EUR',
       timezone: 'Europe/Paris',
@@ -190,17 +209,15 @@ async function seedTrips() {
     },
   };
 
-  await setDoc(doc(db, 'trips', trip1.tripId), trip1);
+  await writeTrip(trip1);
   console.log('✅ Created trip: Paris Adventure 2025');
 
   // Update user tripIds
-  await setDoc(
-    doc(db, 'users', 'test-user-415-301-8471'),
+  await db.collection('users').doc('test-user-415-301-8471').set(
     { tripIds: ['trip-paris-2025'] },
     { merge: true }
   );
-  await setDoc(
-    doc(db, 'users', 'test-user-415-555-0001'),
+  await db.collection('users').doc('test-user-415-555-0001').set(
     { tripIds: ['trip-paris-2025'] },
     { merge: true }
   );
@@ -223,8 +240,8 @@ async function seedTrips() {
     ],
     days: [],
     createdBy: 'test-user-415-301-8471',
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp(),
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
     settings: {
       currency: 'JPY',
       timezone: 'Asia/Tokyo',
@@ -232,12 +249,11 @@ async function seedTrips() {
     },
   };
 
-  await setDoc(doc(db, 'trips', trip2.tripId), trip2);
+  await writeTrip(trip2);
   console.log('✅ Created trip: Tokyo Trip 2024');
 
   // Update user tripIds
-  await setDoc(
-    doc(db, 'users', 'test-user-415-301-8471'),
+  await db.collection('users').doc('test-user-415-301-8471').set(
     { tripIds: ['trip-paris-2025', 'trip-tokyo-2024'] },
     { merge: true }
   );
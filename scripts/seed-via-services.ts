@@ -4,6 +4,17 @@
 import { Timestamp } from 'firebase/firestore';
 import { createUser } from '../src/services/user.service';
 import { createTrip, addDay, addActivity } from '../src/services/trip.service';
+import { fromZonedTime } from '../src/utils/dates';
+
+/**
+ * Activity start and end times on a calendar date, as wall-clock times in a time zone
+ */
+function timesOn(calendarDate: string, startTime: string, endTime: string, timeZone = 'Europe/Paris') {
+  return {
+    startTime: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, startTime)),
+    endTime: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, endTime)),
+  };
+}
 
 async function main() {
   console.log('🚀 Seeding test data via services...\n');
@@ -61,13 +72,13 @@ async function main() {
     await addDay(parisTrip.tripId, {
       date: Timestamp.fromDate(new Date('2025-12-15')),
       title: 'Arrival Day',
-    });
+    }, user1.userId);
 
     // Add Day 2
     await addDay(parisTrip.tripId, {
       date: Timestamp.fromDate(new Date('2025-12-16')),
       title: 'Exploring Central Paris',
-    });
+    }, user1.userId);
 
     // Get the trip to find day IDs
     const { getTrip } = await import('../src/services/trip.service.js');
@@ -81,8 +92,7 @@ async function main() {
         title: 'Arrive at CDG Airport',
         description: 'Flight lands at 9:30 AM',
         type: 'travel',
-        startTime: '09:30',
-        endTime: '10:00',
+        ...timesOn('2025-12-15', '09:30', '10:00'),
         location: {
           name: 'Charles de Gaulle Airport',
           address: '95700 Roissy-en-France, France',
@@ -93,8 +103,7 @@ async function main() {
         title: 'Hotel Check-in',
         description: 'Check in at Hotel Le Marais',
         type: 'accommodation',
-        startTime: '14:00',
-        endTime: '15:00',
+        ...timesOn('2025-12-15', '14:00', '15:00'),
         location: {
           name: 'Hotel Le Marais',
           address: '12 Rue de Rivoli, 75004 Paris, France',
@@ -104,8 +113,7 @@ async function main() {
       await addActivity(parisTrip.tripId, day1.dayId, user1.userId, {
         title: 'Dinner at Le Comptoir',
         type: 'dining',
-        startTime: '19:30',
-        endTime: '21:30',
+        ...timesOn('2025-12-15', '19:30', '21:30'),
         location: {
           name: 'Le Comptoir du Relais',
           address: '9 Carrefour de l\'Odéon, 75006 Paris, France',
@@ -128,8 +136,7 @@ async function main() {
         title: 'Visit Eiffel Tower',
         description: 'Pre-booked tickets for 10 AM',
         type: 'activity',
-        startTime: '10:00',
-        endTime: '12:30',
+        ...timesOn('2025-12-16', '10:00', '12:30'),
         location: {
           name: 'Eiffel Tower',
           address: 'Champ de Mars, 5 Avenue Anatole France, 75007 Paris, France',
@@ -2,7 +2,7 @@
  * BDD Test Helpers
  * Reusable Given/When/Then patterns for E2E testing
  */
-import { getFirestore, collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { getFirestore, collection, doc, getDoc, getDocs, query, where, orderBy } from 'firebase/firestore';
 
 // Test configuration
 export const TEST_CONFIG = {
@@ -11,6 +11,21 @@ export const TEST_CONFIG = {
   defaultTimeout: 5000,
 };
 
+/**
+ * Load a trip's days (with activities) from its subcollections
+ */
+export async function loadTripDays(db, tripId) {
+  const daysSnapshot = await getDocs(query(collection(db, 'trips', tripId, 'days'), orderBy('date', 'asc')));
+  return Promise.all(
+    daysSnapshot.docs.map(async (dayDoc) => {
+      const activitiesSnapshot = await getDocs(
+        query(collection(dayDoc.ref, 'activities'), orderBy('createdAt', 'asc'))
+      );
+      return { ...dayDoc.data(), activities: activitiesSnapshot.docs.map((a) => a.data()) };
+    })
+  );
+}
+
 // ============================================================================
 // GIVEN - Database Preconditions
 // ============================================================================
@@ -69,7 +84,7 @@ export async function givenTripExists(db, tripId, expectedData = {}) {
     throw new Error(`PRECONDITION FAILED: Trip "${tripId}" not found in database`);
   }
 
-  const trip = tripDoc.data();
+  const trip = { ...tripDoc.data(), days: await loadTripDays(db, tripId) };
 
   // Validate expected data if provided
   if (expectedData.title && trip.title !== expectedData.title) {
@@ -386,7 +401,7 @@ export async function thenTripExistsInDatabase(db, tripId, expectedData = {}) {
       throw new Error(`Trip "${tripId}" not found in database`);
     }
 
-    const trip = tripDoc.data();
+    const trip = { ...tripDoc.data(), days: await loadTripDays(db, tripId) };
 
     // Verify title
     if (expectedData.title && trip.title !== expectedData.title) {
@@ -0,0 +1,273 @@
+/**
+ * Back trips up to JSON files, or restore them from those files
+ *
+ * Each trip is written to <dir>/<tripId>.json in the app's export format
+ * (src/utils/exports.ts): the trip with its days, activities, expenses,
+ * lodging, participants and settings, timestamps exact to the nanosecond.
+ * Attachments and receipts are links, so the files themselves aren't copied.
+ * Trips in the trash are left out.
+ *
+ * Restoring writes each trip back under its own ID with its timestamps as
+ * they were, then adds it to its participants' tripIds. Trips that already
+ * exist are skipped; purge them first to restore over them. Share links
+ * aren't part of a backup, so restored trips come back private, and never in
+ * the trash.
+ *
+ * To restore into a project where people have other user IDs, pass a JSON
+ * file mapping old IDs to new ones: { "oldUserId": "newUserId", ... }
+ * Participants without a user document yet are still restored; the trip
+ * shows up in their list once it's in their tripIds.
+ *
+ * Usage:
+ *   npx tsx scripts/trip-backup.ts backup <dir> [--trip=ID] [--user=ID]
+ *   npx tsx scripts/trip-backup.ts restore <dir-or-file> [--user-map=FILE] [--dry-run]
+ *   VITE_USE_EMULATORS=true npx tsx scripts/trip-backup.ts restore backups/
+ */
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentReference, WriteBatch } from 'firebase-admin/firestore';
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { db } from './lib/firebase';
+import { loadTripDays, loadTripExpenses } from './lib/trips';
+import { toTripExport, fromTripExport, validateTripExport, remapTripUsers } from '../src/utils/exports';
+import type { TimestampFactory } from '../src/utils/exports';
+import type { TripDocument, TripExport, ParticipantRole } from '../src/types';
+
+// Firestore caps a write batch at 500 operations
+const MAX_BATCH_WRITES = 450;
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Restored documents are written with the Admin SDK, so their Timestamps have to be
+// its own. They match the app's Timestamp in everything but toJSON.
+const toAdminTimestamp = ((seconds: number, nanoseconds: number) =>
+  new Timestamp(seconds, nanoseconds)) as unknown as TimestampFactory;
+
+function getFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function backup(dir: string) {
+  const tripId = getFlag('trip');
+  const userId = getFlag('user');
+
+  console.log('💾 Backing up trips...');
+  console.log(`   To ${dir}${tripId ? `, trip ${tripId}` : ''}${userId ? `, trips of user ${userId}` : ''}`);
+  console.log('═══════════════════════════════════════\n');
+
+  let trips: Array<{ ref: DocumentReference; trip: TripDocument }>;
+  if (tripId) {
+    const tripDoc = await db.collection('trips').doc(tripId).get();
+    if (!tripDoc.exists) {
+      throw new Error(`Trip ${tripId} not found`);
+    }
+    trips = [{ ref: tripDoc.ref, trip: tripDoc.data() as TripDocument }];
+  } else {
+    const snapshot = await (userId
+      ? db.collection('trips').where('participantIds', 'array-contains', userId)
+      : db.collection('trips')
+    ).get();
+    trips = snapshot.docs.map((tripDoc) => ({ ref: tripDoc.ref, trip: tripDoc.data() as TripDocument }));
+  }
+
+  mkdirSync(dir, { recursive: true });
+
+  let written = 0;
+  for (const { ref, trip } of trips) {
+    if (trip.trash) {
+      console.log(`   ⏭️  ${ref.id} "${trip.title}": in the trash, skipped`);
+      continue;
+    }
+
+    const days = await loadTripDays(ref);
+    const expenses = await loadTripExpenses(ref);
+    const file = join(dir, `${ref.id}.json`);
+    writeFileSync(file, JSON.stringify(toTripExport(trip, days, expenses), null, 2) + '\n');
+    written++;
+
+    const activityCount = days.reduce((count, day) => count + day.activities.length, 0);
+    console.log(
+      `   ✅ ${ref.id} "${trip.title}": ${days.length} day(s), ${activityCount} activities, ` +
+        `${expenses.length} expense(s)`
+    );
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(`✅ Backed up ${written} trip(s) to ${dir}\n`);
+}
+
+/**
+ * The user map file, if one was given
+ */
+function readUserMap(): Record<string, string> {
+  const file = getFlag('user-map');
+  if (!file) return {};
+
+  const userIds = JSON.parse(readFileSync(file, 'utf8'));
+  if (
+    typeof userIds !== 'object' ||
+    userIds === null ||
+    Array.isArray(userIds) ||
+    !Object.values(userIds).every((id) => typeof id === 'string')
+  ) {
+    throw new Error(`${file} must map user IDs to user IDs: { "oldUserId": "newUserId" }`);
+  }
+  return userIds;
+}
+
+function listBackupFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path)
+    .filter((name) => name.endsWith('.json'))
+    .sort()
+    .map((name) => join(path, name));
+}
+
+async function restore(path: string) {
+  const userIds = readUserMap();
+  const files = listBackupFiles(path);
+
+  console.log('📦 Restoring trips...');
+  console.log(`   From ${path}: ${files.length} file(s)`);
+  if (Object.keys(userIds).length > 0) {
+    console.log(`   Mapping ${Object.keys(userIds).length} user ID(s)`);
+  }
+  if (DRY_RUN) {
+    console.log('   (dry run - nothing will be written)');
+  }
+  console.log('═══════════════════════════════════════\n');
+
+  let restored = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const file of files) {
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error: any) {
+      console.log(`   ❌ ${file}: not valid JSON (${error.message})`);
+      failed++;
+      continue;
+    }
+
+    const problems = validateTripExport(data);
+    if (problems.length > 0) {
+      console.log(`   ❌ ${file}:`);
+      problems.forEach((problem) => console.log(`      - ${problem}`));
+      failed++;
+      continue;
+    }
+
+    const { trip, days, expenses } = remapTripUsers(
+      fromTripExport(data as TripExport, toAdminTimestamp),
+      userIds
+    );
+    const tripRef = db.collection('trips').doc(trip.tripId);
+    if ((await tripRef.get()).exists) {
+      console.log(`   ⏭️  ${trip.tripId} "${trip.title}": already exists, skipped`);
+      skipped++;
+      continue;
+    }
+
+    const participantIds = trip.participants.map((p) => p.userId);
+    if (new Set(participantIds).size !== participantIds.length) {
+      console.log(`   ❌ ${file}: the user map gives two participants the same user ID`);
+      failed++;
+      continue;
+    }
+    const missingUsers: string[] = [];
+    for (const userId of participantIds) {
+      if (!(await db.collection('users').doc(userId).get()).exists) {
+        missingUsers.push(userId);
+      }
+    }
+
+    const activityCount = days.reduce((count, day) => count + day.activities.length, 0);
+    console.log(
+      `   ${DRY_RUN ? '🔍' : '✅'} ${trip.tripId} "${trip.title}": ${days.length} day(s), ` +
+        `${activityCount} activities, ${expenses.length} expense(s)` +
+        (missingUsers.length > 0 ? `; no user document for ${missingUsers.join(', ')}` : '')
+    );
+    restored++;
+    if (DRY_RUN) continue;
+
+    // Exports leave trash out, but a file may have been edited since
+    const { trash: _trash, ...restoredTrip } = trip as TripDocument;
+    const tripDocument: TripDocument = {
+      ...restoredTrip,
+      participantIds,
+      roles: Object.fromEntries(trip.participants.map((p) => [p.userId, p.role])) as Record<
+        string,
+        ParticipantRole
+      >,
+    };
+    if (trip.settings) {
+      const { shareToken: _shareToken, ...settings } = trip.settings;
+      tripDocument.settings = { ...settings, isPublic: false };
+    }
+
+    // The trip goes in the first batch, so everything under it has a trip to belong to
+    const writes: Array<(batch: WriteBatch) => void> = [
+      (batch) => batch.set(tripRef, tripDocument),
+      ...days.flatMap(({ activities, ...day }) => [
+        (batch: WriteBatch) => batch.set(tripRef.collection('days').doc(day.dayId), day),
+        ...activities.map(
+          (activity) => (batch: WriteBatch) =>
+            batch.set(
+              tripRef.collection('days').doc(day.dayId).collection('activities').doc(activity.activityId),
+              activity
+            )
+        ),
+      ]),
+      ...expenses.map(
+        (expense) => (batch: WriteBatch) =>
+          batch.set(tripRef.collection('expenses').doc(expense.expenseId), expense)
+      ),
+      ...participantIds
+        .filter((userId) => !missingUsers.includes(userId))
+        .map(
+          (userId) => (batch: WriteBatch) =>
+            batch.update(db.collection('users').doc(userId), {
+              tripIds: FieldValue.arrayUnion(trip.tripId),
+              updatedAt: FieldValue.serverTimestamp(),
+            })
+        ),
+    ];
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const batch = db.batch();
+      writes.slice(i, i + MAX_BATCH_WRITES).forEach((write) => write(batch));
+      await batch.commit();
+    }
+  }
+
+  console.log('\n═══════════════════════════════════════');
+  console.log(
+    `${failed > 0 ? '⚠️ ' : '✅'} ${DRY_RUN ? 'Would restore' : 'Restored'} ${restored} trip(s)` +
+      `, ${skipped} skipped, ${failed} failed\n`
+  );
+  return failed;
+}
+
+async function main() {
+  const [command, path] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+
+  if (command === 'backup' && path) {
+    await backup(path);
+    process.exit(0);
+  }
+  if (command === 'restore' && path) {
+    const failed = await restore(path);
+    process.exit(failed > 0 ? 1 : 0);
+  }
+
+  console.error('Usage:');
+  console.error('  npx tsx scripts/trip-backup.ts backup <dir> [--trip=ID] [--user=ID]');
+  console.error('  npx tsx scripts/trip-backup.ts restore <dir-or-file> [--user-map=FILE] [--dry-run]');
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
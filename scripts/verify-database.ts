@@ -2,54 +2,56 @@
  * Database Verification Script
  * Verifies test data in Firestore and displays current state
  */
-import { initializeApp } from 'firebase/app';
-import {
-  getFirestore,
-  collection,
-  doc,
-  getDoc,
-  getDocs,
-  query,
-  where,
-} from 'firebase/firestore';
-import * as dotenv from 'dotenv';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-
-// Load environment
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-dotenv.config({ path: join(__dirname, '..', '.env') });
-
-// Firebase config
-const firebaseConfig = {
-  apiKey: process.env.VITE_FIREBASE_API_KEY,
-  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: process.env.VITE_FIREBASE_APP_ID,
-};
-
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
+import { db } from './lib/firebase';
+import { formatActivityTimes } from '../src/utils/activities';
 
 const TEST_USER_ID = 'test-user-415-301-8471';
 
+/**
+ * Load a trip's days and activities from its subcollections
+ * Falls back to the legacy nested `days` array on unmigrated trips
+ */
+async function loadDays(tripId: string, tripData: any) {
+  if (Array.isArray(tripData.days)) {
+    console.log(`   ⚠️  ${tripId} still uses nested days - run: npm run migrate:activities`);
+    return tripData.days;
+  }
+
+  const daysSnapshot = await db
+    .collection('trips')
+    .doc(tripId)
+    .collection('days')
+    .orderBy('date', 'asc')
+    .get();
+
+  return Promise.all(
+    daysSnapshot.docs.map(async (dayDoc) => {
+      const activitiesSnapshot = await dayDoc.ref
+        .collection('activities')
+        .orderBy('createdAt', 'asc')
+        .get();
+      return {
+        ...dayDoc.data(),
+        activities: activitiesSnapshot.docs.map((activityDoc) => activityDoc.data()),
+      };
+    })
+  );
+}
+
 async function verifyUser() {
   console.log('\n👤 Verifying Test User...');
   console.log('═══════════════════════════════════════\n');
 
   try {
-    const userDoc = await getDoc(doc(db, 'users', TEST_USER_ID));
+    const userDoc = await db.collection('users').doc(TEST_USER_ID).get();
+    const user = userDoc.data();
 
-    if (!userDoc.exists()) {
+    if (!user) {
       console.log('❌ User NOT FOUND in database');
       console.log('   Run: npm run seed\n');
       return null;
     }
 
-    const user = userDoc.data();
     console.log('✅ User found:');
     console.log(`   User ID: ${user.userId}`);
     console.log(`   Display Name: ${user.displayName}`);
@@ -73,12 +75,10 @@ async function verifyTrips() {
   console.log('═══════════════════════════════════════\n');
 
   try {
-    const tripsQuery = query(
-      collection(db, 'trips'),
-      where('createdBy', '==', TEST_USER_ID)
-    );
-
-    const snapshot = await getDocs(tripsQuery);
+    const snapshot = await db
+      .collection('trips')
+      .where('createdBy', '==', TEST_USER_ID)
+      .get();
 
     if (snapshot.empty) {
       console.log('❌ No trips found for user');
@@ -86,7 +86,13 @@ async function verifyTrips() {
       return [];
     }
 
-    const trips = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    const trips: any[] = await Promise.all(
+      snapshot.docs.map(async (doc) => ({
+        id: doc.id,
+        ...doc.data(),
+        days: await loadDays(doc.id, doc.data()),
+      }))
+    );
     console.log(`✅ Found ${trips.length} trip(s):\n`);
 
     trips.forEach((trip: any, index) => {
@@ -126,14 +132,15 @@ async function verifyTripDetails(tripId: string) {
   console.log('═══════════════════════════════════════\n');
 
   try {
-    const tripDoc = await getDoc(doc(db, 'trips', tripId));
+    const tripDoc = await db.collection('trips').doc(tripId).get();
 
-    if (!tripDoc.exists()) {
+    if (!tripDoc.exists) {
       console.log('❌ Trip not found');
       return null;
     }
 
     const trip: any = tripDoc.data();
+    trip.days = await loadDays(tripId, trip);
 
     console.log(`Title: ${trip.title}`);
     console.log(`Description: ${trip.description || 'N/A'}`);
@@ -152,8 +159,10 @@ async function verifyTripDetails(tripId: string) {
         if (day.activities && day.activities.length > 0) {
           day.activities.forEach((activity: any, actIndex: number) => {
             console.log(`    ${actIndex + 1}. ${activity.title}`);
-            if (activity.startTime) {
-              console.log(`       Time: ${activity.startTime}${activity.endTime ? ` - ${activity.endTime}` : ''}`);
+            if (typeof activity.startTime === 'string' || typeof activity.endTime === 'string') {
+              console.log(`       ⚠️  Time stored as text - run: npm run migrate:activity-times`);
+            } else if (activity.startTime || activity.endTime) {
+              console.log(`       Time: ${formatActivityTimes(activity, trip.settings?.timezone || 'UTC')}`);
             }
             if (activity.location) {
               console.log(`       Location: ${activity.location.name}`);
@@ -189,7 +198,7 @@ async function checkDatabaseConnectivity() {
 
   try {
     // Simple read to test connection
-    const testDoc = await getDoc(doc(db, 'users', TEST_USER_ID));
+    const testDoc = await db.collection('users').doc(TEST_USER_ID).get();
     console.log('✅ Successfully connected to Firestore\n');
     return true;
   } catch (error: any) {
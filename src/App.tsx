@@ -1,63 +1,67 @@
 import { useState, useEffect } from 'react';
 import { onAuthStateChange } from './services/auth.service';
+import { getUser } from './services/user.service';
 import { User as FirebaseUser } from 'firebase/auth';
 import AuthPage from './pages/AuthPage';
 import Dashboard from './pages/Dashboard';
 import TripDetail from './pages/TripDetail';
 import TestPage from './pages/TestPage';
+import InvitePage from './pages/InvitePage';
+import SharedTripPage from './pages/SharedTripPage';
+import { useRoute, navigate } from './hooks/useRoute';
 
-type ViewState =
-  | { type: 'auth' }
-  | { type: 'dashboard' }
-  | { type: 'trip'; tripId: string }
-  | { type: 'test' };
-
-// DEVELOPMENT MODE: Bypass auth with test user
-const DEV_MODE = import.meta.env.DEV;
-const TEST_USER_ID = 'test-user-415-301-8471';
 const USE_TEST_PAGE = false; // Toggle this to bypass Firebase loading
 
 function App() {
   const [currentUser, setCurrentUser] = useState<FirebaseUser | null>(null);
+  const [needsProfile, setNeedsProfile] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<ViewState>({ type: USE_TEST_PAGE ? 'test' : 'auth' });
+  const route = useRoute();
 
   useEffect(() => {
     if (USE_TEST_PAGE) {
-      setLoading(false);
       return;
     }
 
-    // DEV MODE: Auto-login with test user
-    if (DEV_MODE) {
-      // Create a mock Firebase user object
-      const mockUser = {
-        uid: TEST_USER_ID,
-        phoneNumber: '+14153018471',
-        displayName: 'Test User',
-      } as FirebaseUser;
-
-      setCurrentUser(mockUser);
-      setView({ type: 'dashboard' });
-      setLoading(false);
-      return;
-    }
-
-    // PRODUCTION: Normal auth flow
-    const unsubscribe = onAuthStateChange((user) => {
-      setCurrentUser(user);
-      setLoading(false);
+    // A signed-in user without a profile (first login) still has to pick a display name
+    let latestUid: string | null = null;
+    const unsubscribe = onAuthStateChange(async (user) => {
+      latestUid = user?.uid ?? null;
 
+      let profileMissing = false;
       if (user) {
-        setView({ type: 'dashboard' });
-      } else {
-        setView({ type: 'auth' });
+        try {
+          profileMissing = (await getUser(user.uid)) === null;
+        } catch (error) {
+          console.error('Error loading user profile:', error);
+        }
       }
+
+      // Ignore results for a user who has signed out in the meantime
+      if (latestUid !== (user?.uid ?? null)) return;
+
+      setCurrentUser(user);
+      setNeedsProfile(profileMissing);
+      setLoading(false);
     });
 
     return () => unsubscribe();
   }, []);
 
+  if (USE_TEST_PAGE) {
+    return <TestPage />;
+  }
+
+  // Shared trips are public: no sign-in, whatever the auth state
+  if (route.name === 'share') {
+    return (
+      <SharedTripPage
+        shareToken={route.shareToken}
+        onOpenApp={() => navigate({ name: 'dashboard' })}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-white dark:bg-gray-900">
@@ -69,34 +73,46 @@ function App() {
     );
   }
 
-  if (view.type === 'test') {
-    return <TestPage />;
-  }
-
+  // The URL is left alone, so the link opens once the user has signed in
   if (!currentUser) {
     return <AuthPage />;
   }
 
-  if (view.type === 'dashboard') {
+  if (needsProfile) {
+    return <AuthPage user={currentUser} onProfileCreated={() => setNeedsProfile(false)} />;
+  }
+
+  if (route.name === 'invite') {
+    // Replace /invite/... so neither a reload nor Back opens the invite again
     return (
-      <Dashboard
+      <InvitePage
+        inviteId={route.inviteId}
         userId={currentUser.uid}
-        onViewTrip={(tripId) => setView({ type: 'trip', tripId })}
+        onJoined={(tripId) => navigate({ name: 'trip', tripId }, { replace: true })}
+        onDismiss={() => navigate({ name: 'dashboard' }, { replace: true })}
       />
     );
   }
 
-  if (view.type === 'trip') {
+  if (route.name === 'trip') {
     return (
       <TripDetail
-        tripId={view.tripId}
+        key={route.tripId}
+        tripId={route.tripId}
+        dayId={route.dayId}
+        activityId={route.activityId}
         userId={currentUser.uid}
-        onBack={() => setView({ type: 'dashboard' })}
+        onBack={() => navigate({ name: 'dashboard' })}
       />
     );
   }
 
-  return null;
+  return (
+    <Dashboard
+      userId={currentUser.uid}
+      onViewTrip={(tripId) => navigate({ name: 'trip', tripId })}
+    />
+  );
 }
 
 export default App;
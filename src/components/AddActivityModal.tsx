@@ -1,12 +1,25 @@
-import { useState, FormEvent } from 'react';
+import { useState, FormEvent, useEffect } from 'react';
+import { Timestamp } from 'firebase/firestore';
 import Modal from './Modal';
-import type { CreateActivityInput } from '../types';
+import FlightFields, { emptyFlightForm, toFlightDetails } from './FlightFields';
+import BudgetWarning from './BudgetWarning';
+import CostFields, { emptyCostForm, toCost } from './CostFields';
+import { toActivityTimes, toFlightTimes } from '../utils/activities';
+import { getTimeZoneOptions, toCalendarDate } from '../utils/dates';
+import { isValidIata } from '../utils/airports';
+import { getCostSplitError } from '../utils/settlement';
+import type { CreateActivityInput, Participant, ActivityType, Cost, BudgetOverrun } from '../types';
 
 interface AddActivityModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (activityData: CreateActivityInput) => Promise<void>;
   dayTitle?: string;
+  dayDate?: Timestamp;
+  tripTimeZone: string;
+  defaultCurrency: string;
+  participants?: Participant[];
+  checkBudget?: (type: ActivityType, cost: Cost | undefined) => BudgetOverrun[]; // Limits the cost would go over
 }
 
 const activityTypes = [
@@ -18,19 +31,41 @@ const activityTypes = [
   { value: 'other', label: '📍 Other', icon: '📍' },
 ];
 
-export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }: AddActivityModalProps) {
+export default function AddActivityModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  dayTitle,
+  dayDate,
+  tripTimeZone,
+  defaultCurrency,
+  participants = [],
+  checkBudget,
+}: AddActivityModalProps) {
   const [title, setTitle] = useState('');
   const [type, setType] = useState<'flight' | 'hotel' | 'restaurant' | 'attraction' | 'transport' | 'other'>('other');
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
+  const [timeZone, setTimeZone] = useState(tripTimeZone);
+  const dayCalendarDate = dayDate ? toCalendarDate(dayDate.toDate(), tripTimeZone) : '';
+  const [flight, setFlight] = useState(() => emptyFlightForm(tripTimeZone, dayCalendarDate));
   const [locationName, setLocationName] = useState('');
   const [locationAddress, setLocationAddress] = useState('');
   const [description, setDescription] = useState('');
-  const [costAmount, setCostAmount] = useState('');
-  const [costCurrency, setCostCurrency] = useState('USD');
+  const [cost, setCost] = useState(() => emptyCostForm(defaultCurrency, participants));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
+  // New activities start in the trip's time zone, on the day they're added to
+  useEffect(() => {
+    if (isOpen) {
+      setTimeZone(tripTimeZone);
+      setFlight(emptyFlightForm(tripTimeZone, dayCalendarDate));
+      setCost(emptyCostForm(defaultCurrency, participants));
+    }
+    // Participants are read when the modal opens, not tracked while it's open
+  }, [isOpen, tripTimeZone, dayCalendarDate, defaultCurrency]);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
@@ -40,6 +75,24 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
       return;
     }
 
+    if ((startTime || endTime) && !dayDate) {
+      setError('Times can only be set on a dated day');
+      return;
+    }
+
+    const flightDetails = type === 'flight' ? toFlightDetails(flight) : undefined;
+    if (flightDetails && !(isValidIata(flightDetails.origin.airport) && isValidIata(flightDetails.destination.airport))) {
+      setError('Enter 3-letter airport codes for both ends of the flight');
+      return;
+    }
+
+    const activityCost = toCost(cost, participants);
+    const splitError = activityCost && getCostSplitError(activityCost);
+    if (splitError) {
+      setError(splitError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -55,13 +108,16 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
         title: title.trim(),
         type,
         description: description.trim() || undefined,
-        startTime: startTime || undefined,
-        endTime: endTime || undefined,
+        ...(!dayDate
+          ? { startTime: undefined, endTime: undefined }
+          : flightDetails
+            ? toFlightTimes(dayDate, tripTimeZone, flightDetails, startTime, flight.arrivalDate, endTime)
+            : toActivityTimes(dayDate, tripTimeZone, timeZone, startTime, endTime)),
+        // Only stored when it differs from the trip's; flights use their airports' zones
+        timeZone: !flightDetails && timeZone !== tripTimeZone ? timeZone : undefined,
+        flight: flightDetails,
         location,
-        cost: costAmount ? {
-          amount: parseFloat(costAmount),
-          currency: costCurrency,
-        } : undefined,
+        cost: activityCost,
       };
 
       await onSubmit(activityData);
@@ -81,11 +137,11 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
     setType('other');
     setStartTime('');
     setEndTime('');
+    setTimeZone(tripTimeZone);
     setLocationName('');
     setLocationAddress('');
     setDescription('');
-    setCostAmount('');
-    setCostCurrency('USD');
+    setCost(emptyCostForm(defaultCurrency, participants));
     setError('');
   };
 
@@ -143,11 +199,15 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
             </select>
           </div>
 
+          {type === 'flight' && (
+            <FlightFields values={flight} onChange={setFlight} disabled={isSubmitting} />
+          )}
+
           {/* Time */}
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label htmlFor="start-time" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Start Time
+                {type === 'flight' ? 'Departs' : 'Start Time'}
               </label>
               <input
                 id="start-time"
@@ -164,7 +224,7 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
 
             <div>
               <label htmlFor="end-time" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                End Time
+                {type === 'flight' ? 'Arrives' : 'End Time'}
               </label>
               <input
                 id="end-time"
@@ -172,7 +232,6 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
                 name="endTime"
                 value={endTime}
                 onChange={(e) => setEndTime(e.target.value)}
-                min={startTime}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
                          bg-white dark:bg-gray-700 text-gray-900 dark:text-white
                          focus:outline-none focus:ring-2 focus:ring-primary-500"
@@ -181,6 +240,38 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
             </div>
           </div>
 
+          {type !== 'flight' && startTime && endTime && endTime < startTime && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">Ends the next day</p>
+          )}
+
+          {/* Time zone (flights take theirs from the airports) */}
+          {type !== 'flight' && (
+            <div>
+              <label htmlFor="activity-time-zone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Time Zone
+              </label>
+              <select
+                id="activity-time-zone"
+                name="timeZone"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                         focus:outline-none focus:ring-2 focus:ring-primary-500"
+                disabled={isSubmitting}
+              >
+                {getTimeZoneOptions(tripTimeZone, timeZone).map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone === tripTimeZone ? `${zone} (trip)` : zone}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Times are local to this zone
+              </p>
+            </div>
+          )}
+
           {/* Location */}
           <div>
             <label htmlFor="location-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -238,48 +329,18 @@ export default function AddActivityModal({ isOpen, onClose, onSubmit, dayTitle }
           </div>
 
           {/* Cost */}
-          <div className="grid grid-cols-3 gap-4">
-            <div className="col-span-2">
-              <label htmlFor="cost-amount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Cost (optional)
-              </label>
-              <input
-                id="cost-amount"
-                type="number"
-                name="cost"
-                value={costAmount}
-                onChange={(e) => setCostAmount(e.target.value)}
-                placeholder="0.00"
-                step="0.01"
-                min="0"
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
-                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
-                         focus:outline-none focus:ring-2 focus:ring-primary-500"
-                disabled={isSubmitting}
-              />
-            </div>
+          <CostFields
+            values={cost}
+            onChange={setCost}
+            participants={participants}
+            disabled={isSubmitting}
+            idPrefix="cost"
+            amountLabel="Cost (optional)"
+          />
 
-            <div>
-              <label htmlFor="cost-currency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Currency
-              </label>
-              <select
-                id="cost-currency"
-                name="currency"
-                value={costCurrency}
-                onChange={(e) => setCostCurrency(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
-                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
-                         focus:outline-none focus:ring-2 focus:ring-primary-500"
-                disabled={isSubmitting}
-              >
-                <option value="USD">USD</option>
-                <option value="EUR">EUR</option>
-                <option value="GBP">GBP</option>
-                <option value="JPY">JPY</option>
-              </select>
-            </div>
-          </div>
+          {checkBudget && (
+            <BudgetWarning overruns={checkBudget(type, toCost(cost, participants))} currency={defaultCurrency} />
+          )}
 
           {/* Error Message */}
           {error && (
@@ -0,0 +1,145 @@
+import { useState, FormEvent, useEffect } from 'react';
+import Modal from './Modal';
+import { BUDGET_CATEGORIES, getBudgetCategoryLabel } from '../utils/budget';
+import type { ActivityType, TripBudget } from '../types';
+
+interface BudgetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (budget: TripBudget | null) => Promise<void>;
+  budget?: TripBudget;
+  currency: string;            // Trip's currency; every limit is in it
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Set the trip's overall budget and a limit per category; blank fields have no limit
+ */
+export default function BudgetModal({ isOpen, onClose, onSubmit, budget, currency }: BudgetModalProps) {
+  const [total, setTotal] = useState('');
+  const [byType, setByType] = useState<Partial<Record<ActivityType, string>>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setTotal(budget?.total !== undefined ? String(budget.total) : '');
+      setByType(
+        Object.fromEntries(Object.entries(budget?.byType ?? {}).map(([type, value]) => [type, String(value)]))
+      );
+      setError('');
+    }
+  }, [isOpen, budget]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const parse = (value: string | undefined) => (value?.trim() ? parseFloat(value) : undefined);
+    const limits: TripBudget = {};
+    const totalLimit = parse(total);
+    if (totalLimit !== undefined) {
+      limits.total = totalLimit;
+    }
+    BUDGET_CATEGORIES.forEach((type) => {
+      const limit = parse(byType[type]);
+      if (limit !== undefined) {
+        limits.byType = { ...limits.byType, [type]: limit };
+      }
+    });
+
+    const values = [limits.total, ...Object.values(limits.byType ?? {})];
+    if (values.some((value) => value !== undefined && (!Number.isFinite(value) || value < 0))) {
+      setError('Budgets must be amounts of zero or more');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(limits.total !== undefined || limits.byType ? limits : null);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save budget');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Trip Budget" maxWidth="md">
+      <form onSubmit={handleSubmit} data-testid="budget-modal">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Amounts are in {currency}. Leave a field blank for no limit.
+          </p>
+
+          <div>
+            <label htmlFor="budget-total" className={labelClassName}>
+              Whole trip
+            </label>
+            <input
+              id="budget-total"
+              type="number"
+              name="budgetTotal"
+              value={total}
+              onChange={(e) => setTotal(e.target.value)}
+              placeholder="No limit"
+              step="0.01"
+              min="0"
+              className={inputClassName}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {BUDGET_CATEGORIES.map((type) => (
+              <div key={type}>
+                <label htmlFor={`budget-${type}`} className={labelClassName}>
+                  {getBudgetCategoryLabel(type)}
+                </label>
+                <input
+                  id={`budget-${type}`}
+                  type="number"
+                  name={`budget-${type}`}
+                  value={byType[type] ?? ''}
+                  onChange={(e) => setByType({ ...byType, [type]: e.target.value })}
+                  placeholder="No limit"
+                  step="0.01"
+                  min="0"
+                  className={inputClassName}
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={handleClose} className="btn-secondary" disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Budget'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,164 @@
+import type { Trip, BudgetLine, ExchangeRate } from '../types';
+import { canPerform } from '../services/permissions';
+import { getTripSettings } from '../services/trip.service';
+import { getBudgetReport, getBudgetCategoryLabel } from '../utils/budget';
+import { formatMoney } from '../utils/currency';
+
+interface BudgetViewProps {
+  trip: Trip;
+  userId: string;
+  exchangeRates: ExchangeRate[];   // Into the trip's currency (see getTripExchangeRates)
+  onEdit: () => void;
+}
+
+/**
+ * Planned spend against a limit, as a bar that turns red once it's over
+ */
+function BudgetBar({ line }: { line: BudgetLine }) {
+  if (line.budget === undefined) return null;
+
+  const percent = line.budget > 0 ? Math.min((line.planned / line.budget) * 100, 100) : 100;
+  const isOver = line.remaining !== undefined && line.remaining < 0;
+  return (
+    <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+      <div
+        className={`h-full rounded-full ${isOver ? 'bg-red-500' : percent >= 90 ? 'bg-yellow-500' : 'bg-primary-500'}`}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+}
+
+/**
+ * What the trip plans to spend against its budget: overall, per category,
+ * day by day (with what's left after each day) and per person
+ */
+export default function BudgetView({ trip, userId, exchangeRates, onEdit }: BudgetViewProps) {
+  const settings = getTripSettings(trip);
+  const report = getBudgetReport(trip, settings, exchangeRates);
+  const canEdit = canPerform(trip, userId, 'edit');
+  const hasBudget = settings.budget !== undefined;
+  const names = new Map(trip.participants.map((p) => [p.userId, p.displayName]));
+  const money = (amount: number) => formatMoney(amount, report.currency);
+
+  if (!hasBudget && !canEdit) return null;
+
+  const describe = (line: BudgetLine) =>
+    line.budget === undefined
+      ? money(line.planned)
+      : `${money(line.planned)} of ${money(line.budget)}`;
+
+  const describeRemaining = (line: BudgetLine) => {
+    if (line.remaining === undefined) return null;
+    return line.remaining < 0
+      ? <span className="text-red-600 dark:text-red-400">{money(-line.remaining)} over</span>
+      : <span className="text-gray-500 dark:text-gray-400">{money(line.remaining)} left</span>;
+  };
+
+  return (
+    <div className="card mt-6" data-testid="budget-view">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Budget</h2>
+        {canEdit && (
+          <button onClick={onEdit} className="btn-secondary text-sm py-1 px-3">
+            {hasBudget ? 'Edit Budget' : 'Set Budget'}
+          </button>
+        )}
+      </div>
+
+      {!hasBudget ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No budget yet. Set one for the whole trip or per category to see how plans add up against it.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium text-gray-900 dark:text-white">Whole trip</span>
+              <span className="text-gray-700 dark:text-gray-300">{describe(report.total)}</span>
+            </div>
+            <BudgetBar line={report.total} />
+            <p className="text-xs text-right">{describeRemaining(report.total)}</p>
+          </div>
+
+          {report.byType.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">By category</h3>
+              <ul className="space-y-3">
+                {report.byType.map((line) => (
+                  <li key={line.type} className="space-y-1" data-testid="budget-category">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-700 dark:text-gray-300">{getBudgetCategoryLabel(line.type)}</span>
+                      <span className="text-gray-700 dark:text-gray-300">{describe(line)}</span>
+                    </div>
+                    <BudgetBar line={line} />
+                    {line.remaining !== undefined && (
+                      <p className="text-xs text-right">{describeRemaining(line)}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.byDay.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">By day</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                    <th className="font-medium py-1">Day</th>
+                    <th className="font-medium py-1 text-right">Planned</th>
+                    <th className="font-medium py-1 text-right">So far</th>
+                    {report.total.budget !== undefined && <th className="font-medium py-1 text-right">Left</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byDay.map((line, index) => (
+                    <tr key={line.dayId} className="text-gray-700 dark:text-gray-300" data-testid="budget-day">
+                      <td className="py-1">
+                        Day {index + 1}{' '}
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {line.date.toDate().toLocaleDateString(undefined, { timeZone: settings.timezone, month: 'short', day: 'numeric' })}
+                        </span>
+                      </td>
+                      <td className="py-1 text-right">{money(line.planned)}</td>
+                      <td className="py-1 text-right">{money(line.cumulative)}</td>
+                      {line.remaining !== undefined && (
+                        <td className={`py-1 text-right ${line.remaining < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                          {money(line.remaining)}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Per person</h3>
+            <ul className="space-y-1">
+              {report.byPerson.map((line) => (
+                <li key={line.userId} className="flex justify-between text-sm" data-testid="budget-person">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {line.userId === userId ? 'You' : names.get(line.userId) ?? 'Former participant'}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {describe(line)} {line.remaining !== undefined && line.remaining < 0 && describeRemaining(line)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {report.unconverted.length > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              Costs in {report.unconverted.join(', ')} aren't counted, as there's no exchange rate for them yet.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
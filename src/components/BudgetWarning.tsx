@@ -0,0 +1,29 @@
+import { getBudgetCategoryLabel } from '../utils/budget';
+import { formatMoney } from '../utils/currency';
+import type { BudgetOverrun } from '../types';
+
+interface BudgetWarningProps {
+  overruns: BudgetOverrun[];
+  currency: string;            // Trip's currency; the budget is in it
+}
+
+/**
+ * Heads-up that a cost takes planned spend over a budget; saving still goes ahead
+ */
+export default function BudgetWarning({ overruns, currency }: BudgetWarningProps) {
+  if (overruns.length === 0) return null;
+
+  return (
+    <div
+      className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg space-y-1"
+      data-testid="budget-warning"
+    >
+      {overruns.map((overrun) => (
+        <p key={overrun.type ?? 'total'} className="text-sm text-amber-700 dark:text-amber-400">
+          This puts {overrun.type ? getBudgetCategoryLabel(overrun.type) : 'the trip'} at{' '}
+          {formatMoney(overrun.planned, currency)}, over its {formatMoney(overrun.budget, currency)} budget
+        </p>
+      ))}
+    </div>
+  );
+}
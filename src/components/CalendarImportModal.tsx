@@ -0,0 +1,236 @@
+import { useState, useEffect, ChangeEvent } from 'react';
+import Modal from './Modal';
+import { parseICalendar, planCalendarImport } from '../utils/ics';
+import { formatActivityTimes } from '../utils/activities';
+import type { Trip, ActivityType, CalendarImportItem, DayActivityInput } from '../types';
+
+interface CalendarImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (activities: DayActivityInput[]) => Promise<void>;
+  trip: Trip;
+  tripTimeZone: string;
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const activityTypes = [
+  { value: 'flight', label: '✈️ Flight' },
+  { value: 'hotel', label: '🏨 Hotel' },
+  { value: 'restaurant', label: '🍽️ Restaurant' },
+  { value: 'attraction', label: '🎭 Attraction' },
+  { value: 'transport', label: '🚗 Transport' },
+  { value: 'other', label: '📍 Other' },
+];
+
+/**
+ * Bring reservations in from a calendar: read an .ics file, preview which day
+ * each event lands on, and add the ones that are ticked
+ * Duplicates of existing activities and events outside the trip start unticked.
+ */
+export default function CalendarImportModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  trip,
+  tripTimeZone,
+}: CalendarImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [items, setItems] = useState<CalendarImportItem[]>([]);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [types, setTypes] = useState<ActivityType[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName('');
+      setItems([]);
+      setSelected([]);
+      setTypes([]);
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+    setFileName(file.name);
+
+    try {
+      const events = parseICalendar(await file.text(), tripTimeZone);
+      if (events.length === 0) {
+        throw new Error('No events found in this file');
+      }
+      const plan = planCalendarImport(trip, events, tripTimeZone);
+      setItems(plan);
+      setSelected(plan.map((item) => item.dayId !== null && !item.duplicateOf));
+      setTypes(plan.map((item) => item.activityData.type));
+    } catch (err: any) {
+      setItems([]);
+      setError(err.message || 'Failed to read calendar file');
+    }
+  };
+
+  const getDayLabel = (dayId: string) => {
+    const index = trip.days.findIndex((day) => day.dayId === dayId);
+    const day = trip.days[index];
+    return `${day.title || `Day ${index + 1}`} · ${day.date.toDate().toLocaleDateString()}`;
+  };
+
+  const getActivityTitle = (activityId: string) =>
+    trip.days.flatMap((day) => day.activities).find((activity) => activity.activityId === activityId)?.title;
+
+  const selectedCount = selected.filter(Boolean).length;
+
+  const handleSubmit = async () => {
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit(
+        items
+          .map((item, i) => ({ item, i }))
+          .filter(({ item, i }) => selected[i] && item.dayId)
+          .map(({ item, i }) => ({
+            dayId: item.dayId!,
+            activityData: { ...item.activityData, type: types[i] },
+          }))
+      );
+
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to import activities');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError('');
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import from Calendar" maxWidth="xl">
+      <div className="space-y-4" data-testid="calendar-import-modal">
+        {/* File */}
+        <div>
+          <label htmlFor="calendar-import-file" className={labelClassName}>
+            Calendar file (.ics)
+          </label>
+          <input
+            id="calendar-import-file"
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            className={inputClassName}
+            disabled={isSubmitting}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Export the events from your calendar app, or save the invite from a booking email.
+          </p>
+        </div>
+
+        {/* Preview */}
+        {items.length > 0 && (
+          <div>
+            <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+              {items.length} {items.length === 1 ? 'event' : 'events'} in {fileName}
+            </p>
+            <ul className="space-y-2 max-h-96 overflow-y-auto" data-testid="calendar-import-preview">
+              {items.map((item, i) => (
+                <li
+                  key={`${item.event.uid ?? ''}-${i}`}
+                  className={`flex items-start gap-3 p-2 rounded-lg border border-gray-200 dark:border-gray-700 ${
+                    item.dayId ? '' : 'opacity-60'
+                  }`}
+                  data-testid="calendar-import-item"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected[i]}
+                    onChange={(e) => setSelected(selected.map((value, j) => (j === i ? e.target.checked : value)))}
+                    disabled={isSubmitting || !item.dayId}
+                    aria-label={`Import ${item.event.title}`}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{item.event.title}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {item.dayId ? getDayLabel(item.dayId) : 'Outside the trip dates'}
+                      {formatActivityTimes(item.activityData, tripTimeZone) &&
+                        ` · ${formatActivityTimes(item.activityData, tripTimeZone)}`}
+                    </p>
+                    {item.activityData.location && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                        📍 {item.activityData.location.name}
+                      </p>
+                    )}
+                    {item.duplicateOf && (
+                      <p className="text-sm text-amber-700 dark:text-amber-400" data-testid="calendar-import-duplicate">
+                        Looks like "{getActivityTitle(item.duplicateOf)}", already on the trip
+                      </p>
+                    )}
+                    {item.event.endDate && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Spans several days; added on its first</p>
+                    )}
+                    {item.event.recurring && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Repeats; only the first is added</p>
+                    )}
+                  </div>
+                  <select
+                    value={types[i]}
+                    onChange={(e) =>
+                      setTypes(types.map((type, j) => (j === i ? (e.target.value as ActivityType) : type)))
+                    }
+                    className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    aria-label={`Type of ${item.event.title}`}
+                    disabled={isSubmitting || !item.dayId}
+                  >
+                    {activityTypes.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4">
+          <button type="button" onClick={handleClose} className="btn-secondary" disabled={isSubmitting}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="btn-primary"
+            disabled={isSubmitting || selectedCount === 0}
+          >
+            {isSubmitting
+              ? 'Importing...'
+              : `Import ${selectedCount} ${selectedCount === 1 ? 'Activity' : 'Activities'}`}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import Modal from './Modal';
+import {
+  getCalendarFeed,
+  rotateCalendarFeed,
+  revokeCalendarFeed,
+  getCalendarFeedLink,
+  getTripSettings,
+} from '../services/trip.service';
+import { toICalendar, getCalendarFileName } from '../utils/ics';
+import { routeUrl } from '../utils/routes';
+import type { Trip, CalendarFeed, CalendarScope } from '../types';
+
+interface CalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trip: Trip;
+  userId: string;
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Get the itinerary into a calendar app: download it once as an .ics file,
+ * for everyone or one participant, or subscribe to a feed that follows changes
+ */
+export default function CalendarModal({ isOpen, onClose, trip, userId }: CalendarModalProps) {
+  const [exportFor, setExportFor] = useState('');   // '' = whole trip, else a participant's userId
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [feedScope, setFeedScope] = useState<CalendarScope>('trip');
+  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setExportFor('');
+    setCopied(false);
+    setError('');
+
+    let cancelled = false;
+    setIsLoading(true);
+    getCalendarFeed(trip.tripId, userId)
+      .then((current) => {
+        if (cancelled) return;
+        setFeed(current);
+        setFeedScope(current?.scope ?? 'trip');
+      })
+      .catch((err: any) => !cancelled && setError(err.message || 'Failed to load calendar feed'))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, trip.tripId, userId]);
+
+  const handleDownload = () => {
+    setError('');
+    try {
+      const ics = toICalendar(trip, getTripSettings(trip).timezone, {
+        scope: exportFor ? 'participant' : 'trip',
+        userId: exportFor || undefined,
+        tripUrl: routeUrl({ name: 'trip', tripId: trip.tripId }),
+      });
+      const person = trip.participants.find((p) => p.userId === exportFor);
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getCalendarFileName(person ? `${trip.title} ${person.displayName}` : trip.title);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export calendar');
+    }
+  };
+
+  const handleRotateFeed = async (scope: CalendarScope) => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      setFeed(await rotateCalendarFeed(trip.tripId, userId, scope));
+      setFeedScope(scope);
+      setCopied(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create calendar feed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevokeFeed = async () => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await revokeCalendarFeed(trip.tripId, userId);
+      setFeed(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to turn off calendar feed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyFeedLink = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedLink(trip.tripId, feed));
+      setCopied(true);
+    } catch (err) {
+      console.error('Error copying calendar feed link:', err);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  const feedLink = feed ? getCalendarFeedLink(trip.tripId, feed) : '';
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Add to Calendar" maxWidth="lg">
+      <div className="space-y-6" data-testid="calendar-modal">
+        {/* Download */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Download</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            An .ics file to import once. Importing it again updates the same events.
+          </p>
+          <label htmlFor="calendar-export-for" className={labelClassName}>
+            Activities
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="calendar-export-for"
+              value={exportFor}
+              onChange={(e) => setExportFor(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Whole trip</option>
+              {trip.participants.map((p) => (
+                <option key={p.userId} value={p.userId}>
+                  {p.userId === userId ? 'Just mine' : `Just ${p.displayName}'s`}
+                </option>
+              ))}
+            </select>
+            <button type="button" onClick={handleDownload} className="btn-primary whitespace-nowrap">
+              Download .ics
+            </button>
+          </div>
+        </div>
+
+        {/* Subscription feed */}
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700" data-testid="calendar-feed">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Subscribe</h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          ) : feed ? (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                Add this link to your calendar app to keep the {feed.scope === 'trip' ? 'whole trip' : 'activities you take part in'}{' '}
+                up to date. Anyone with the link can see it.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={feedLink}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                  className={inputClassName}
+                  data-testid="calendar-feed-link"
+                />
+                <button type="button" onClick={handleCopyFeedLink} className="btn-secondary whitespace-nowrap">
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+              <div className="flex gap-2 mt-2">
+                <a href={feedLink.replace(/^https?:/, 'webcal:')} className="btn-secondary text-sm">
+                  Open in Calendar
+                </a>
+                <button
+                  type="button"
+                  onClick={() => handleRotateFeed(feed.scope)}
+                  className="btn-secondary text-sm"
+                  disabled={isSubmitting}
+                  title="The current link stops working"
+                >
+                  New Link
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRevokeFeed}
+                  className="btn-secondary text-sm text-red-600 dark:text-red-400"
+                  disabled={isSubmitting}
+                >
+                  Turn Off
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                A private link your calendar app checks for changes to the itinerary.
+              </p>
+              <div className="flex gap-2">
+                <select
+                  value={feedScope}
+                  onChange={(e) => setFeedScope(e.target.value as CalendarScope)}
+                  className={inputClassName}
+                  aria-label="Feed activities"
+                  disabled={isSubmitting}
+                >
+                  <option value="trip">Whole trip</option>
+                  <option value="participant">Just mine</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRotateFeed(feedScope)}
+                  className="btn-secondary whitespace-nowrap"
+                  disabled={isSubmitting}
+                >
+                  Create Feed Link
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end pt-4">
+          <button type="button" onClick={handleClose} className="btn-secondary" disabled={isSubmitting}>
+            Close
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
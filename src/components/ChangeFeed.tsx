@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import type { Trip, TripChange } from '../types';
+import { canPerform } from '../services/permissions';
+import { describeChange, getChangedFieldNames, getChangeToUndo, isUndoable } from '../utils/changes';
+
+interface ChangeFeedProps {
+  trip: Trip;
+  changes: TripChange[];       // Newest first
+  userId: string;
+  onUndo: () => Promise<void>;
+  onRestore: (change: TripChange) => Promise<void>;
+}
+
+/**
+ * Is a removed activity or day still gone from the trip?
+ */
+function isStillRemoved(trip: Trip, change: TripChange): boolean {
+  const { dayId, activityId } = change.target;
+  if (change.operation === 'day.remove') {
+    return !trip.days.some((day) => day.dayId === dayId);
+  }
+  if (change.operation === 'activity.remove') {
+    return !trip.days.some((day) => day.activities.some((a) => a.activityId === activityId));
+  }
+  return false;
+}
+
+/**
+ * A trip's recent changes: who did what, with undo for your own last change
+ * and restore (for owners) of removed activities and days
+ */
+export default function ChangeFeed({ trip, changes, userId, onUndo, onRestore }: ChangeFeedProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const names = new Map(trip.participants.map((p) => [p.userId, p.displayName]));
+  const canRestore = canPerform(trip, userId, 'restore');
+  // The service looks further back; this only decides whether to offer the button
+  const toUndo = canPerform(trip, userId, 'edit')
+    ? getChangeToUndo(changes.filter((change) => change.actorId === userId))
+    : null;
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await action();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="card mt-6" data-testid="change-feed">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Changes</h2>
+        {toUndo && isUndoable(toUndo) && (
+          <button
+            onClick={() => run('undo', onUndo)}
+            className="btn-secondary text-sm py-1 px-3"
+            disabled={busy !== null}
+            title={`Undo: ${describeChange(toUndo)}`}
+            data-testid="undo-button"
+          >
+            {busy === 'undo' ? 'Undoing...' : '↩️ Undo my last change'}
+          </button>
+        )}
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">No changes yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {changes.map((change) => {
+            const fields = change.operation.endsWith('.update') ? getChangedFieldNames(change) : [];
+            return (
+              <li
+                key={change.changeId}
+                className="flex items-start justify-between text-sm"
+                data-testid="change-entry"
+              >
+                <div>
+                  <p className="text-gray-900 dark:text-white">
+                    <span className="font-medium">
+                      {change.actorId === userId ? 'You' : names.get(change.actorId) ?? 'Someone'}
+                    </span>{' '}
+                    {describeChange(change)}
+                    {fields.length > 0 && (
+                      <span className="text-gray-500 dark:text-gray-400"> ({fields.join(', ')})</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {change.createdAt?.toDate().toLocaleString()}
+                  </p>
+                </div>
+                {canRestore && isStillRemoved(trip, change) && (
+                  <button
+                    onClick={() => run(change.changeId, () => onRestore(change))}
+                    className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 text-xs font-medium"
+                    disabled={busy !== null}
+                    data-testid="restore-button"
+                  >
+                    {busy === change.changeId ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
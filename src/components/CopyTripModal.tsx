@@ -0,0 +1,163 @@
+import { useState, useEffect, FormEvent } from 'react';
+import Modal from './Modal';
+import type { TripDocument, CopyTripInput } from '../types';
+import { getTripSettings } from '../services/trip.service';
+import { toCalendarDate } from '../utils/dates';
+
+interface CopyTripModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mode: 'duplicate' | 'template';
+  trip: TripDocument;
+  onDuplicate: (options: CopyTripInput) => Promise<void>;
+  onSaveTemplate: (name: string, clearCosts: boolean) => Promise<void>;
+}
+
+/**
+ * Copy a trip: duplicate it to a new start date, or save it as a template
+ */
+export default function CopyTripModal({
+  isOpen,
+  onClose,
+  mode,
+  trip,
+  onDuplicate,
+  onSaveTemplate,
+}: CopyTripModalProps) {
+  const [title, setTitle] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [clearCosts, setClearCosts] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const isDuplicate = mode === 'duplicate';
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(isDuplicate ? `${trip.title} (copy)` : trip.title);
+      setStartDate(toCalendarDate(trip.startDate.toDate(), getTripSettings(trip).timezone));
+      setClearCosts(false);
+      setError('');
+    }
+  }, [isOpen, trip, isDuplicate]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!title.trim()) {
+      setError(isDuplicate ? 'Trip title is required' : 'Template name is required');
+      return;
+    }
+    if (isDuplicate && !startDate) {
+      setError('Start date is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (isDuplicate) {
+        await onDuplicate({ startDate, title: title.trim(), clearCosts });
+      } else {
+        await onSaveTemplate(title.trim(), clearCosts);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message || (isDuplicate ? 'Failed to duplicate trip' : 'Failed to save template'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={isDuplicate ? 'Duplicate Trip' : 'Save as Template'}
+      maxWidth="md"
+    >
+      <form onSubmit={handleSubmit} data-testid="copy-trip-modal">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {isDuplicate
+              ? 'Every day, activity and stay moves with the new start date. You will be the only participant.'
+              : 'Keeps the itinerary and lodging so you can start new trips from it. Only you can see your templates.'}
+          </p>
+
+          <div>
+            <label htmlFor="copy-title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {isDuplicate ? 'Trip Title' : 'Template Name'} <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="copy-title"
+              type="text"
+              name="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500"
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          {isDuplicate && (
+            <div>
+              <label htmlFor="copy-start-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                New Start Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="copy-start-date"
+                type="date"
+                name="copyStartDate"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                         focus:outline-none focus:ring-2 focus:ring-primary-500"
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              name="clearCosts"
+              checked={clearCosts}
+              onChange={(e) => setClearCosts(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+              disabled={isSubmitting}
+            />
+            Leave out costs
+          </label>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={handleClose} className="btn-secondary" disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isSubmitting}>
+              {isDuplicate
+                ? isSubmitting ? 'Duplicating...' : 'Duplicate Trip'
+                : isSubmitting ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
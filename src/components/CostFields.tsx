@@ -0,0 +1,243 @@
+import { getCostShares, getCostSplitError } from '../utils/settlement';
+import { formatMoney } from '../utils/currency';
+import type { Cost, Participant, SplitMode } from '../types';
+
+/**
+ * Cost form state, as typed
+ */
+export interface CostFormValues {
+  amount: string;
+  currency: string;
+  paidBy: string;              // userId, or '' when nobody is recorded
+  splitMode: SplitMode;
+  splitBetween: string[];      // Who an equal split goes between
+  splitValues: Record<string, string>; // userId -> shares, amount or percent
+}
+
+const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'equal', label: 'Equally' },
+  { value: 'shares', label: 'By shares' },
+  { value: 'exact', label: 'By exact amounts' },
+  { value: 'percent', label: 'By percentage' },
+];
+
+const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY'];
+
+/**
+ * Blank cost form, split equally between everyone
+ */
+export function emptyCostForm(currency: string, participants: Participant[]): CostFormValues {
+  return {
+    amount: '',
+    currency,
+    paidBy: '',
+    splitMode: 'equal',
+    splitBetween: participants.map((p) => p.userId),
+    splitValues: {},
+  };
+}
+
+/**
+ * Cost form filled in from a cost, falling back to a blank form
+ */
+export function toCostForm(cost: Cost | undefined, currency: string, participants: Participant[]): CostFormValues {
+  if (!cost) return emptyCostForm(currency, participants);
+
+  return {
+    amount: String(cost.amount),
+    currency: cost.currency,
+    paidBy: cost.paidBy || '',
+    splitMode: cost.splitMode || 'equal',
+    splitBetween: cost.splitBetween ?? participants.map((p) => p.userId),
+    splitValues: Object.fromEntries(
+      Object.entries(cost.splitValues ?? {}).map(([userId, value]) => [userId, String(value)])
+    ),
+  };
+}
+
+/**
+ * Cost from the form, without empty fields; undefined when no amount is given
+ * An equal split between everyone is left unset, so it includes people who join later
+ */
+export function toCost(values: CostFormValues, participants: Participant[]): Cost | undefined {
+  if (!values.amount) return undefined;
+
+  const cost: Cost = { amount: parseFloat(values.amount), currency: values.currency };
+  if (values.paidBy) cost.paidBy = values.paidBy;
+
+  if (values.splitMode === 'equal') {
+    const everyone = participants.every((p) => values.splitBetween.includes(p.userId));
+    if (!everyone) cost.splitBetween = values.splitBetween;
+  } else {
+    cost.splitMode = values.splitMode;
+    cost.splitValues = Object.fromEntries(
+      Object.entries(values.splitValues)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([userId, value]) => [userId, parseFloat(value)])
+    );
+  }
+  return cost;
+}
+
+interface CostFieldsProps {
+  values: CostFormValues;
+  onChange: (values: CostFormValues) => void;
+  participants: Participant[];
+  disabled: boolean;
+  idPrefix: string;            // Keeps input IDs unique per modal ("cost", "lodging", "expense")
+  amountLabel: string;
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Cost inputs shared by the activity, lodging and expense modals: amount and currency,
+ * who paid, and how it's split between the participants
+ */
+export default function CostFields({ values, onChange, participants, disabled, idPrefix, amountLabel }: CostFieldsProps) {
+  const set = (changes: Partial<CostFormValues>) => onChange({ ...values, ...changes });
+
+  const toggleSplit = (userId: string, included: boolean) =>
+    set({
+      splitBetween: included
+        ? [...values.splitBetween, userId]
+        : values.splitBetween.filter((id) => id !== userId),
+    });
+
+  const cost = toCost(values, participants);
+  const splitError = cost && participants.length > 0 ? getCostSplitError(cost) : null;
+  const shares = cost && !splitError ? getCostShares(cost, participants.map((p) => p.userId)) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <label htmlFor={`${idPrefix}-amount`} className={labelClassName}>
+            {amountLabel}
+          </label>
+          <input
+            id={`${idPrefix}-amount`}
+            type="number"
+            name="cost"
+            value={values.amount}
+            onChange={(e) => set({ amount: e.target.value })}
+            placeholder="0.00"
+            step="0.01"
+            min="0"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-currency`} className={labelClassName}>
+            Currency
+          </label>
+          <select
+            id={`${idPrefix}-currency`}
+            name="currency"
+            value={values.currency}
+            onChange={(e) => set({ currency: e.target.value })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {Array.from(new Set([values.currency, ...COMMON_CURRENCIES])).map((currency) => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {values.amount && participants.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor={`${idPrefix}-paid-by`} className={labelClassName}>
+                Paid by
+              </label>
+              <select
+                id={`${idPrefix}-paid-by`}
+                name="paidBy"
+                value={values.paidBy}
+                onChange={(e) => set({ paidBy: e.target.value })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                <option value="">Not recorded</option>
+                {participants.map((p) => (
+                  <option key={p.userId} value={p.userId}>{p.displayName}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor={`${idPrefix}-split-mode`} className={labelClassName}>
+                Split
+              </label>
+              <select
+                id={`${idPrefix}-split-mode`}
+                name="splitMode"
+                value={values.splitMode}
+                onChange={(e) => set({ splitMode: e.target.value as SplitMode })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                {SPLIT_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <ul className="space-y-1" data-testid="cost-split">
+            {participants.map((p) => (
+              <li key={p.userId} className="flex items-center justify-between gap-3 text-sm">
+                {values.splitMode === 'equal' ? (
+                  <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={values.splitBetween.includes(p.userId)}
+                      onChange={(e) => toggleSplit(p.userId, e.target.checked)}
+                      className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                      disabled={disabled}
+                    />
+                    {p.displayName}
+                  </label>
+                ) : (
+                  <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    <input
+                      type="number"
+                      aria-label={`${p.displayName}'s ${values.splitMode === 'shares' ? 'shares' : values.splitMode === 'exact' ? 'amount' : 'percentage'}`}
+                      value={values.splitValues[p.userId] ?? ''}
+                      onChange={(e) => set({ splitValues: { ...values.splitValues, [p.userId]: e.target.value } })}
+                      placeholder="0"
+                      step={values.splitMode === 'shares' ? '1' : '0.01'}
+                      min="0"
+                      className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg
+                               bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                               focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      disabled={disabled}
+                    />
+                    {values.splitMode === 'percent' && '%'}
+                    <span>{p.displayName}</span>
+                  </label>
+                )}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {shares?.has(p.userId) ? formatMoney(shares.get(p.userId)!, values.currency) : '—'}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {splitError && (
+            <p className="text-sm text-amber-600 dark:text-amber-400" data-testid="cost-split-error">{splitError}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, FormEvent } from 'react';
+import type { Trip, Settlement, SettlementTransfer, ExchangeRate, SetExchangeRateInput } from '../types';
+import { canPerform } from '../services/permissions';
+import { getTripSettings } from '../services/trip.service';
+import { getForeignCurrencies } from '../services/rates.service';
+import { getTripCosts, getTripBalances, getSettleUpTransfers } from '../utils/settlement';
+import {
+  MANUAL_RATE_SOURCE,
+  BUNDLED_RATE_SOURCE,
+  convertTotal,
+  formatMoney,
+  formatConvertedAmount,
+  formatExchangeRate,
+} from '../utils/currency';
+
+interface CostSummaryProps {
+  trip: Trip;
+  userId: string;
+  exchangeRates: ExchangeRate[];   // Into the trip's currency (see getTripExchangeRates)
+  onRecordSettlement: (transfer: SettlementTransfer) => Promise<void>;
+  onRemoveSettlement: (settlement: Settlement) => Promise<void>;
+  onSetExchangeRate: (rateData: SetExchangeRateInput) => Promise<void>;
+  onRemoveExchangeRate: (currency: string) => Promise<void>;
+}
+
+/**
+ * Where a rate came from, e.g. "standard rate of 2026-10-01"
+ */
+function describeRateSource(rate: ExchangeRate): string {
+  const source =
+    rate.source === MANUAL_RATE_SOURCE ? "trip's own rate"
+      : rate.source === BUNDLED_RATE_SOURCE ? 'standard rate'
+        : `${rate.source} rate`;
+  return `${source} of ${rate.date}`;
+}
+
+/**
+ * What the trip costs and who owes whom: the total in the trip's currency,
+ * the exchange rates behind it, balances per currency, the repayments that
+ * would settle up, and the ones already made
+ */
+export default function CostSummary({
+  trip,
+  userId,
+  exchangeRates,
+  onRecordSettlement,
+  onRemoveSettlement,
+  onSetExchangeRate,
+  onRemoveExchangeRate,
+}: CostSummaryProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [editingRate, setEditingRate] = useState<string | null>(null);
+  const [rateInput, setRateInput] = useState('');
+  const [rateError, setRateError] = useState('');
+
+  const names = new Map(trip.participants.map((p) => [p.userId, p.displayName]));
+  const nameOf = (id: string) => (id === userId ? 'You' : names.get(id) ?? 'Former participant');
+  const canEdit = canPerform(trip, userId, 'edit');
+  const { currency } = getTripSettings(trip);
+  const total = convertTotal(getTripCosts(trip).map(({ cost }) => cost), currency, exchangeRates);
+  const foreignCurrencies = getForeignCurrencies(trip);
+  const ledgers = getTripBalances(trip);
+  const settlements = trip.settlements ?? [];
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await action();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const startEditingRate = (from: string) => {
+    const rate = exchangeRates.find((r) => r.from === from);
+    setEditingRate(from);
+    setRateInput(rate ? String(Number(rate.rate.toPrecision(6))) : '');
+    setRateError('');
+  };
+
+  const handleSaveRate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editingRate) return;
+
+    const rate = parseFloat(rateInput);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      setRateError('Enter a rate above 0');
+      return;
+    }
+    await run(`rate:${editingRate}`, async () => {
+      try {
+        await onSetExchangeRate({ from: editingRate, rate });
+        setEditingRate(null);
+      } catch (error: any) {
+        setRateError(error.message || 'Failed to set the rate');
+      }
+    });
+  };
+
+  if (ledgers.length === 0) return null;
+
+  return (
+    <div className="card mt-6" data-testid="cost-summary">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Cost Summary</h2>
+
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Total</span>
+            <span className="font-semibold text-gray-900 dark:text-white" data-testid="cost-total">
+              {formatMoney(total.amount, total.currency)}
+            </span>
+          </div>
+          {total.items.some((item) => item.rate) && (
+            <ul className="space-y-1">
+              {total.items.map((item) => (
+                <li key={item.original.currency} className="flex justify-between text-sm">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {item.rate
+                      ? `${formatExchangeRate(item.rate)} · ${describeRateSource(item.rate)}`
+                      : `In ${item.currency}`}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-300">{formatConvertedAmount(item)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {total.unconverted.length > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              Not included, as there's no exchange rate for them yet:{' '}
+              {total.unconverted.map(({ amount, currency: code }) => formatMoney(amount, code)).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {foreignCurrencies.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Exchange rates into {currency}</h3>
+            <ul className="space-y-1">
+              {foreignCurrencies.map((from) => {
+                const rate = exchangeRates.find((r) => r.from === from);
+                const isManual = rate?.source === MANUAL_RATE_SOURCE;
+                return (
+                  <li key={from} className="text-sm" data-testid="exchange-rate">
+                    {editingRate === from ? (
+                      <form onSubmit={handleSaveRate} className="flex items-center gap-2">
+                        <label htmlFor={`rate-${from}`} className="text-gray-700 dark:text-gray-300">
+                          1 {from} =
+                        </label>
+                        <input
+                          id={`rate-${from}`}
+                          type="number"
+                          name="exchangeRate"
+                          value={rateInput}
+                          onChange={(e) => setRateInput(e.target.value)}
+                          step="any"
+                          min="0"
+                          className="w-28 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg
+                                   bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                                   focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          disabled={busy !== null}
+                          autoFocus
+                        />
+                        <span className="text-gray-700 dark:text-gray-300">{currency}</span>
+                        <button type="submit" className="btn-primary text-xs py-1 px-2" disabled={busy !== null}>
+                          {busy === `rate:${from}` ? 'Saving...' : 'Save'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditingRate(null)}
+                          className="btn-secondary text-xs py-1 px-2"
+                          disabled={busy !== null}
+                        >
+                          Cancel
+                        </button>
+                        {rateError && <span className="text-xs text-red-600 dark:text-red-400">{rateError}</span>}
+                      </form>
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {rate ? (
+                            <>
+                              {formatExchangeRate(rate)}{' '}
+                              <span className="text-xs text-gray-500 dark:text-gray-400">({describeRateSource(rate)})</span>
+                            </>
+                          ) : (
+                            `No rate for ${from}`
+                          )}
+                        </span>
+                        {canEdit && (
+                          <span className="flex gap-3">
+                            <button
+                              onClick={() => startEditingRate(from)}
+                              className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 text-xs font-medium"
+                              disabled={busy !== null}
+                            >
+                              {isManual ? 'Change' : 'Set rate'}
+                            </button>
+                            {isManual && (
+                              <button
+                                onClick={() => run(`rate:${from}`, () => onRemoveExchangeRate(from))}
+                                className="text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 text-xs font-medium"
+                                disabled={busy !== null}
+                              >
+                                {busy === `rate:${from}` ? 'Saving...' : 'Use standard rate'}
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {ledgers.map((ledger) => {
+          const transfers = getSettleUpTransfers(ledger);
+          const hasPayers = ledger.total > ledger.unassigned;
+          return (
+            <div key={ledger.currency} className="space-y-3" data-testid="cost-ledger">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                {ledgers.length > 1 ? `Balances in ${ledger.currency}` : 'Balances'}
+              </h3>
+              {ledger.unassigned > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatMoney(ledger.unassigned, ledger.currency)} has nobody recorded as paying, so it isn't split yet.
+                </p>
+              )}
+
+              {hasPayers && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                      <th className="font-medium py-1">Person</th>
+                      <th className="font-medium py-1 text-right">Paid</th>
+                      <th className="font-medium py-1 text-right">Share</th>
+                      <th className="font-medium py-1 text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ledger.balances.map((balance) => (
+                      <tr key={balance.userId} className="text-gray-700 dark:text-gray-300" data-testid="cost-balance">
+                        <td className="py-1">{nameOf(balance.userId)}</td>
+                        <td className="py-1 text-right">{formatMoney(balance.paid, ledger.currency)}</td>
+                        <td className="py-1 text-right">{formatMoney(balance.owed, ledger.currency)}</td>
+                        <td
+                          className={`py-1 text-right font-medium ${
+                            balance.net > 0
+                              ? 'text-green-600 dark:text-green-400'
+                              : balance.net < 0
+                                ? 'text-red-600 dark:text-red-400'
+                                : ''
+                          }`}
+                        >
+                          {balance.net > 0 ? '+' : ''}{formatMoney(balance.net, ledger.currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {transfers.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">To settle up</h3>
+                  <ul className="space-y-1">
+                    {transfers.map((transfer) => {
+                      const key = `${transfer.currency}:${transfer.fromUserId}:${transfer.toUserId}`;
+                      return (
+                        <li key={key} className="flex items-center justify-between text-sm" data-testid="settle-up-transfer">
+                          <span className="text-gray-700 dark:text-gray-300">
+                            {nameOf(transfer.fromUserId)} → {nameOf(transfer.toUserId)}:{' '}
+                            <span className="font-medium">{formatMoney(transfer.amount, transfer.currency)}</span>
+                          </span>
+                          {canEdit && (
+                            <button
+                              onClick={() => run(key, () => onRecordSettlement(transfer))}
+                              className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 text-xs font-medium"
+                              disabled={busy !== null}
+                            >
+                              {busy === key ? 'Saving...' : 'Mark as paid'}
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+              {hasPayers && transfers.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Everyone is settled up.</p>
+              )}
+            </div>
+          );
+        })}
+
+        {settlements.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Repayments made</h3>
+            <ul className="space-y-1">
+              {settlements.map((settlement) => (
+                <li
+                  key={settlement.settlementId}
+                  className="flex items-center justify-between text-sm"
+                  data-testid="recorded-settlement"
+                >
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {nameOf(settlement.fromUserId)} → {nameOf(settlement.toUserId)}:{' '}
+                    {formatMoney(settlement.amount, settlement.currency)}
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {' '}· {settlement.createdAt.toDate().toLocaleDateString()}
+                    </span>
+                  </span>
+                  {canEdit && (
+                    <button
+                      onClick={() => run(settlement.settlementId, () => onRemoveSettlement(settlement))}
+                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-xs font-medium"
+                      disabled={busy !== null}
+                    >
+                      {busy === settlement.settlementId ? 'Removing...' : 'Remove'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, FormEvent } from 'react';
 import Modal from './Modal';
 import { Timestamp } from 'firebase/firestore';
+import type { TripTemplate, CopyTripInput } from '../types';
+import { toCalendarDate, addCalendarDays, diffCalendarDays } from '../utils/dates';
 
 interface CreateTripModalProps {
   isOpen: boolean;
@@ -11,16 +13,54 @@ interface CreateTripModalProps {
     startDate: Timestamp;
     endDate: Timestamp;
   }) => Promise<void>;
+  templates?: TripTemplate[];  // Offered under "Start from"
+  onSubmitFromTemplate?: (templateId: string, options: CopyTripInput) => Promise<void>;
 }
 
-export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTripModalProps) {
+/**
+ * Last day of a trip started from a template, which keeps the template's length
+ */
+function getTemplateEndDate(template: TripTemplate, startDate: string): string {
+  const { startDate: from, endDate: to, settings } = template.content;
+  const length = diffCalendarDays(
+    toCalendarDate(from.toDate(), settings.timezone),
+    toCalendarDate(to.toDate(), settings.timezone)
+  );
+  return addCalendarDays(startDate, length);
+}
+
+export default function CreateTripModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  templates = [],
+  onSubmitFromTemplate,
+}: CreateTripModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [clearCosts, setClearCosts] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
+  const template = templates.find((t) => t.templateId === templateId) ?? null;
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setStartDate('');
+    setEndDate('');
+    setTemplateId('');
+    setClearCosts(false);
+  };
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    setTitle(templates.find((t) => t.templateId === value)?.content.title ?? '');
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
@@ -36,6 +76,20 @@ export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTri
       return;
     }
 
+    if (template && onSubmitFromTemplate) {
+      setIsSubmitting(true);
+      try {
+        await onSubmitFromTemplate(template.templateId, { startDate, title: title.trim(), clearCosts });
+        resetForm();
+        onClose();
+      } catch (err: any) {
+        setError(err.message || 'Failed to create trip');
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
+
     if (!endDate) {
       setError('End date is required');
       return;
@@ -59,11 +113,7 @@ export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTri
         endDate: Timestamp.fromDate(end),
       });
 
-      // Reset form
-      setTitle('');
-      setDescription('');
-      setStartDate('');
-      setEndDate('');
+      resetForm();
       onClose();
     } catch (err: any) {
       setError(err.message || 'Failed to create trip');
@@ -74,10 +124,7 @@ export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTri
 
   const handleClose = () => {
     if (!isSubmitting) {
-      setTitle('');
-      setDescription('');
-      setStartDate('');
-      setEndDate('');
+      resetForm();
       setError('');
       onClose();
     }
@@ -87,6 +134,32 @@ export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTri
     <Modal isOpen={isOpen} onClose={handleClose} title="Create New Trip" maxWidth="lg">
       <form onSubmit={handleSubmit} data-testid="create-trip-modal">
         <div className="space-y-4">
+          {/* Template */}
+          {templates.length > 0 && onSubmitFromTemplate && (
+            <div>
+              <label htmlFor="trip-template" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Start from
+              </label>
+              <select
+                id="trip-template"
+                name="template"
+                value={templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                         focus:outline-none focus:ring-2 focus:ring-primary-500"
+                disabled={isSubmitting}
+              >
+                <option value="">Blank trip</option>
+                {templates.map((t) => (
+                  <option key={t.templateId} value={t.templateId}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label htmlFor="trip-title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -107,24 +180,26 @@ export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTri
             />
           </div>
 
-          {/* Description */}
-          <div>
-            <label htmlFor="trip-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Description
-            </label>
-            <textarea
-              id="trip-description"
-              name="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Brief description of your trip..."
-              rows={3}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
-                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
-                       focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none"
-              disabled={isSubmitting}
-            />
-          </div>
+          {/* Description (a template brings its own) */}
+          {!template && (
+            <div>
+              <label htmlFor="trip-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <textarea
+                id="trip-description"
+                name="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Brief description of your trip..."
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                         focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
 
           {/* Dates */}
           <div className="grid grid-cols-2 gap-4">
@@ -146,25 +221,50 @@ export default function CreateTripModal({ isOpen, onClose, onSubmit }: CreateTri
               />
             </div>
 
-            <div>
-              <label htmlFor="end-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                End Date <span className="text-red-500">*</span>
-              </label>
+            {template ? (
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">End Date</span>
+                <p className="py-2 text-sm text-gray-600 dark:text-gray-400" data-testid="template-end-date">
+                  {startDate
+                    ? new Date(`${getTemplateEndDate(template, startDate)}T00:00`).toLocaleDateString()
+                    : 'Same length as the template'}
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="end-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  End Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="end-date"
+                  type="date"
+                  name="endDate"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  min={startDate}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                           bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                           focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          {template && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
               <input
-                id="end-date"
-                type="date"
-                name="endDate"
-                value={endDate}
-                onChange={(e) => setEndDate(e.target.value)}
-                min={startDate}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
-                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
-                         focus:outline-none focus:ring-2 focus:ring-primary-500"
+                type="checkbox"
+                name="clearCosts"
+                checked={clearCosts}
+                onChange={(e) => setClearCosts(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
                 disabled={isSubmitting}
-                required
               />
-            </div>
-          </div>
+              Leave out costs
+            </label>
+          )}
 
           {/* Error Message */}
           {error && (
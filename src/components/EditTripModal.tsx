@@ -1,28 +1,38 @@
 import { useState, FormEvent, useEffect } from 'react';
 import Modal from './Modal';
-import type { Trip } from '../types';
+import { rotateShareToken, revokeShareToken, getShareLink } from '../services/trip.service';
+import { canPerform } from '../services/permissions';
+import type { TripDocument } from '../types';
 import { Timestamp } from 'firebase/firestore';
 
 interface EditTripModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (tripData: { title: string; description: string; startDate: Timestamp; endDate: Timestamp }) => Promise<void>;
-  trip: Trip;
+  onSharingChange?: () => void;
+  trip: TripDocument;
+  userId: string;
 }
 
-export default function EditTripModal({ isOpen, onClose, onSubmit, trip }: EditTripModalProps) {
+export default function EditTripModal({ isOpen, onClose, onSubmit, onSharingChange, trip, userId }: EditTripModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
+  const canShare = canPerform(trip, userId, 'share');
+
   // Populate form with trip data when modal opens
   useEffect(() => {
     if (isOpen && trip) {
       setTitle(trip.title);
       setDescription(trip.description || '');
+      setShareToken(trip.settings?.isPublic && trip.settings.shareToken ? trip.settings.shareToken : null);
+      setCopied(false);
 
       // Convert Firestore Timestamp to date input format (YYYY-MM-DD)
       const startDateObj = trip.startDate.toDate();
@@ -74,6 +84,45 @@ export default function EditTripModal({ isOpen, onClose, onSubmit, trip }: EditT
     }
   };
 
+  // Sharing changes apply right away, independently of Save Changes
+  const handleRotateShareToken = async () => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      setShareToken(await rotateShareToken(trip.tripId, userId));
+      setCopied(false);
+      onSharingChange?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create share link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevokeShareToken = async () => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await revokeShareToken(trip.tripId, userId);
+      setShareToken(null);
+      onSharingChange?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to stop sharing');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    if (!shareToken) return;
+    try {
+      await navigator.clipboard.writeText(getShareLink(shareToken));
+      setCopied(true);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+    }
+  };
+
   const handleClose = () => {
     if (!isSubmitting) {
       setError('');
@@ -164,6 +213,69 @@ export default function EditTripModal({ isOpen, onClose, onSubmit, trip }: EditT
             </div>
           </div>
 
+          {/* Public Link (owners only) */}
+          {canShare && (
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700" data-testid="trip-sharing">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Public Link</h3>
+              {shareToken ? (
+                <>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    Anyone with this link can view the itinerary without signing in.
+                    Phone numbers and who paid for what stay hidden.
+                  </p>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={getShareLink(shareToken)}
+                      readOnly
+                      onFocus={(e) => e.target.select()}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                               bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                               focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      data-testid="share-link"
+                    />
+                    <button type="button" onClick={handleCopyShareLink} className="btn-secondary whitespace-nowrap">
+                      {copied ? 'Copied!' : 'Copy'}
+                    </button>
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      type="button"
+                      onClick={handleRotateShareToken}
+                      className="btn-secondary text-sm"
+                      disabled={isSubmitting}
+                      title="The current link stops working"
+                    >
+                      New Link
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleRevokeShareToken}
+                      className="btn-secondary text-sm text-red-600 dark:text-red-400"
+                      disabled={isSubmitting}
+                    >
+                      Stop Sharing
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    Only participants can see this trip.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleRotateShareToken}
+                    className="btn-secondary text-sm"
+                    disabled={isSubmitting}
+                  >
+                    Create Public Link
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -0,0 +1,323 @@
+import { useState, FormEvent, useEffect } from 'react';
+import Modal from './Modal';
+import CostFields, { toCostForm, toCost } from './CostFields';
+import BudgetWarning from './BudgetWarning';
+import { BUDGET_CATEGORIES, getBudgetCategoryLabel } from '../utils/budget';
+import { getCostSplitError } from '../utils/settlement';
+import type {
+  Expense,
+  CreateExpenseInput,
+  ActivityType,
+  Attachment,
+  Cost,
+  BudgetOverrun,
+  Participant,
+} from '../types';
+
+interface ExpenseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (expenseData: CreateExpenseInput) => Promise<void>;
+  expense?: Expense;           // Expense being edited; a new one is added when unset
+  defaultDate: string;         // YYYY-MM-DD in the trip's time zone, for a new expense
+  defaultCurrency: string;
+  participants?: Participant[];
+  activities?: Array<{ activityId: string; label: string }>; // What an expense can be linked to
+  checkBudget?: (category: ActivityType, cost: Cost | undefined) => BudgetOverrun[]; // Limits the cost would go over
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  heic: 'image/heic',
+  webp: 'image/webp',
+};
+
+/**
+ * A receipt from a link, named after the last part of its path
+ */
+function toReceipt(url: string): Attachment {
+  const fileName = decodeURIComponent(url.split(/[?#]/)[0].split('/').filter(Boolean).pop() || 'receipt');
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return { url, fileName, fileType: FILE_TYPES[extension] ?? 'application/octet-stream' };
+}
+
+export default function ExpenseModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  expense,
+  defaultDate,
+  defaultCurrency,
+  participants = [],
+  activities = [],
+  checkBudget,
+}: ExpenseModalProps) {
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<ActivityType>('other');
+  const [date, setDate] = useState('');
+  const [cost, setCost] = useState(() => toCostForm(expense?.cost, defaultCurrency, participants));
+  const [activityId, setActivityId] = useState('');
+  const [receipts, setReceipts] = useState<Attachment[]>([]);
+  const [receiptUrl, setReceiptUrl] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDescription(expense?.description || '');
+      setCategory(expense?.category || 'other');
+      setDate(expense?.date || defaultDate);
+      setCost(toCostForm(expense?.cost, defaultCurrency, participants));
+      setActivityId(expense?.activityId || '');
+      setReceipts(expense?.receipts ?? []);
+      setReceiptUrl('');
+      setError('');
+    }
+  }, [isOpen, expense, defaultDate, defaultCurrency]);
+
+  const addReceipt = () => {
+    const url = receiptUrl.trim();
+    if (!/^https?:\/\//.test(url)) {
+      setError('Receipt links must start with http:// or https://');
+      return;
+    }
+    setError('');
+    setReceipts([...receipts, toReceipt(url)]);
+    setReceiptUrl('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!description.trim()) {
+      setError('Description is required');
+      return;
+    }
+
+    const expenseCost = toCost(cost, participants);
+    if (!expenseCost || !(expenseCost.amount > 0)) {
+      setError('Amount is required');
+      return;
+    }
+    const splitError = getCostSplitError(expenseCost);
+    if (splitError) {
+      setError(splitError);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit({
+        description: description.trim(),
+        category,
+        date,
+        cost: expenseCost,
+        activityId: activityId || undefined,
+        receipts,
+      });
+
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save expense');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError('');
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={expense ? 'Edit Expense' : 'Add Expense'} maxWidth="lg">
+      <form onSubmit={handleSubmit} data-testid="expense-modal">
+        <div className="space-y-4">
+          {/* Description */}
+          <div>
+            <label htmlFor="expense-description" className={labelClassName}>
+              Description <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="expense-description"
+              type="text"
+              name="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Groceries for the cabin"
+              className={inputClassName}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          {/* Category and Date */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="expense-category" className={labelClassName}>
+                Category
+              </label>
+              <select
+                id="expense-category"
+                name="category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as ActivityType)}
+                className={inputClassName}
+                disabled={isSubmitting}
+              >
+                {BUDGET_CATEGORIES.map((type) => (
+                  <option key={type} value={type}>
+                    {getBudgetCategoryLabel(type)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="expense-date" className={labelClassName}>
+                Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="expense-date"
+                type="date"
+                name="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClassName}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Cost */}
+          <CostFields
+            values={cost}
+            onChange={setCost}
+            participants={participants}
+            disabled={isSubmitting}
+            idPrefix="expense"
+            amountLabel="Amount *"
+          />
+
+          {checkBudget && (
+            <BudgetWarning overruns={checkBudget(category, toCost(cost, participants))} currency={defaultCurrency} />
+          )}
+
+          {/* Linked Activity */}
+          {activities.length > 0 && (
+            <div>
+              <label htmlFor="expense-activity" className={labelClassName}>
+                For Activity
+              </label>
+              <select
+                id="expense-activity"
+                name="activityId"
+                value={activityId}
+                onChange={(e) => setActivityId(e.target.value)}
+                className={inputClassName}
+                disabled={isSubmitting}
+              >
+                <option value="">None</option>
+                {activities.map((activity) => (
+                  <option key={activity.activityId} value={activity.activityId}>
+                    {activity.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Receipts */}
+          <div>
+            <label htmlFor="expense-receipt" className={labelClassName}>
+              Receipts
+            </label>
+            {receipts.length > 0 && (
+              <ul className="mb-2 space-y-1">
+                {receipts.map((receipt, index) => (
+                  <li key={`${receipt.url}-${index}`} className="flex items-center justify-between text-sm">
+                    <a
+                      href={receipt.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-600 dark:text-primary-400 hover:underline truncate"
+                    >
+                      🧾 {receipt.fileName}
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => setReceipts(receipts.filter((_, i) => i !== index))}
+                      className="ml-3 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                      disabled={isSubmitting}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <input
+                id="expense-receipt"
+                type="url"
+                name="receiptUrl"
+                value={receiptUrl}
+                onChange={(e) => setReceiptUrl(e.target.value)}
+                placeholder="Link to a photo or PDF of the receipt"
+                className={inputClassName}
+                disabled={isSubmitting}
+              />
+              <button
+                type="button"
+                onClick={addReceipt}
+                className="btn-secondary whitespace-nowrap"
+                disabled={isSubmitting || !receiptUrl.trim()}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn-secondary"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Saving...' : expense ? 'Save Changes' : 'Add Expense'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
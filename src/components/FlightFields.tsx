@@ -0,0 +1,277 @@
+import { getAirport, getAirports, normalizeIata } from '../utils/airports';
+import { getTimeZoneOptions, toCalendarDate } from '../utils/dates';
+import type { Activity, FlightDetails, FlightEndpoint } from '../types';
+
+/**
+ * Flight form state, as typed
+ */
+export interface FlightFormValues {
+  carrier: string;
+  flightNumber: string;
+  origin: string;
+  originTimeZone: string;
+  departureTerminal: string;
+  departureGate: string;
+  destination: string;
+  destinationTimeZone: string;
+  arrivalTerminal: string;
+  arrivalGate: string;
+  arrivalDate: string;         // YYYY-MM-DD at the destination
+  seat: string;
+  confirmationCode: string;
+}
+
+/**
+ * Blank flight form for a new flight
+ * @param timeZone - Zone both ends start in until an airport is picked
+ * @param arrivalDate - Arrival date to start from (the departure day's)
+ */
+export function emptyFlightForm(timeZone: string, arrivalDate: string): FlightFormValues {
+  return {
+    carrier: '',
+    flightNumber: '',
+    origin: '',
+    originTimeZone: timeZone,
+    departureTerminal: '',
+    departureGate: '',
+    destination: '',
+    destinationTimeZone: timeZone,
+    arrivalTerminal: '',
+    arrivalGate: '',
+    arrivalDate,
+    seat: '',
+    confirmationCode: '',
+  };
+}
+
+/**
+ * Flight form filled in from an activity, falling back to a blank form
+ */
+export function toFlightForm(activity: Activity, timeZone: string, arrivalDate: string): FlightFormValues {
+  const { flight } = activity;
+  if (!flight) return emptyFlightForm(timeZone, arrivalDate);
+
+  return {
+    carrier: flight.carrier || '',
+    flightNumber: flight.flightNumber || '',
+    origin: flight.origin.airport,
+    originTimeZone: flight.origin.timeZone,
+    departureTerminal: flight.origin.terminal || '',
+    departureGate: flight.origin.gate || '',
+    destination: flight.destination.airport,
+    destinationTimeZone: flight.destination.timeZone,
+    arrivalTerminal: flight.destination.terminal || '',
+    arrivalGate: flight.destination.gate || '',
+    arrivalDate: activity.endTime
+      ? toCalendarDate(activity.endTime.toDate(), flight.destination.timeZone)
+      : arrivalDate,
+    seat: flight.seat || '',
+    confirmationCode: flight.confirmationCode || '',
+  };
+}
+
+/**
+ * Flight details from the form, without empty fields
+ */
+export function toFlightDetails(values: FlightFormValues): FlightDetails {
+  const endpoint = (airport: string, timeZone: string, terminal: string, gate: string): FlightEndpoint => {
+    const result: FlightEndpoint = { airport: normalizeIata(airport), timeZone };
+    if (terminal.trim()) result.terminal = terminal.trim();
+    if (gate.trim()) result.gate = gate.trim();
+    return result;
+  };
+
+  const flight: FlightDetails = {
+    origin: endpoint(values.origin, values.originTimeZone, values.departureTerminal, values.departureGate),
+    destination: endpoint(values.destination, values.destinationTimeZone, values.arrivalTerminal, values.arrivalGate),
+  };
+  if (values.carrier.trim()) flight.carrier = values.carrier.trim();
+  if (values.flightNumber.trim()) flight.flightNumber = values.flightNumber.trim().toUpperCase();
+  if (values.seat.trim()) flight.seat = values.seat.trim().toUpperCase();
+  if (values.confirmationCode.trim()) flight.confirmationCode = values.confirmationCode.trim().toUpperCase();
+  return flight;
+}
+
+interface FlightFieldsProps {
+  values: FlightFormValues;
+  onChange: (values: FlightFormValues) => void;
+  disabled: boolean;
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+/**
+ * Flight inputs shared by the add and edit activity modals
+ * Picking a known airport fills in its time zone; unknown codes keep a zone picker
+ */
+export default function FlightFields({ values, onChange, disabled }: FlightFieldsProps) {
+  const set = (changes: Partial<FlightFormValues>) => onChange({ ...values, ...changes });
+
+  const setAirport = (end: 'origin' | 'destination', code: string) => {
+    const airport = getAirport(code);
+    const timeZoneKey = end === 'origin' ? 'originTimeZone' : 'destinationTimeZone';
+    set({ [end]: code.toUpperCase(), ...(airport ? { [timeZoneKey]: airport.timeZone } : {}) });
+  };
+
+  const renderEnd = (end: 'origin' | 'destination') => {
+    const isOrigin = end === 'origin';
+    const code = values[end];
+    const timeZone = isOrigin ? values.originTimeZone : values.destinationTimeZone;
+    const airport = getAirport(code);
+
+    return (
+      <div className="space-y-2">
+        <label htmlFor={`flight-${end}`} className={labelClassName}>
+          {isOrigin ? 'From' : 'To'} <span className="text-red-500">*</span>
+        </label>
+        <input
+          id={`flight-${end}`}
+          type="text"
+          name={end}
+          list="flight-airports"
+          value={code}
+          onChange={(e) => setAirport(end, e.target.value)}
+          placeholder={isOrigin ? 'e.g., SFO' : 'e.g., CDG'}
+          maxLength={3}
+          className={inputClassName}
+          disabled={disabled}
+          required
+        />
+        {airport ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {airport.name}, {airport.city} · {airport.timeZone}
+          </p>
+        ) : (
+          <select
+            aria-label={`${isOrigin ? 'Departure' : 'Arrival'} time zone`}
+            name={`${end}TimeZone`}
+            value={timeZone}
+            onChange={(e) => set(isOrigin ? { originTimeZone: e.target.value } : { destinationTimeZone: e.target.value })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            {getTimeZoneOptions(timeZone).map((zone) => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            aria-label={`${isOrigin ? 'Departure' : 'Arrival'} terminal`}
+            value={isOrigin ? values.departureTerminal : values.arrivalTerminal}
+            onChange={(e) => set(isOrigin ? { departureTerminal: e.target.value } : { arrivalTerminal: e.target.value })}
+            placeholder="Terminal"
+            className={inputClassName}
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            aria-label={`${isOrigin ? 'Departure' : 'Arrival'} gate`}
+            value={isOrigin ? values.departureGate : values.arrivalGate}
+            onChange={(e) => set(isOrigin ? { departureGate: e.target.value } : { arrivalGate: e.target.value })}
+            placeholder="Gate"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4" data-testid="flight-fields">
+      <datalist id="flight-airports">
+        {getAirports().map((airport) => (
+          <option key={airport.iata} value={airport.iata}>
+            {airport.city} - {airport.name}
+          </option>
+        ))}
+      </datalist>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="flight-carrier" className={labelClassName}>Airline</label>
+          <input
+            id="flight-carrier"
+            type="text"
+            name="carrier"
+            value={values.carrier}
+            onChange={(e) => set({ carrier: e.target.value })}
+            placeholder="e.g., Air France"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor="flight-number" className={labelClassName}>Flight Number</label>
+          <input
+            id="flight-number"
+            type="text"
+            name="flightNumber"
+            value={values.flightNumber}
+            onChange={(e) => set({ flightNumber: e.target.value })}
+            placeholder="e.g., AF 83"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {renderEnd('origin')}
+        {renderEnd('destination')}
+      </div>
+
+      <div>
+        <label htmlFor="flight-arrival-date" className={labelClassName}>Arrival Date</label>
+        <input
+          id="flight-arrival-date"
+          type="date"
+          name="arrivalDate"
+          value={values.arrivalDate}
+          onChange={(e) => set({ arrivalDate: e.target.value })}
+          className={inputClassName}
+          disabled={disabled}
+          required
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Departure and arrival times are local to each airport
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="flight-seat" className={labelClassName}>Seat</label>
+          <input
+            id="flight-seat"
+            type="text"
+            name="seat"
+            value={values.seat}
+            onChange={(e) => set({ seat: e.target.value })}
+            placeholder="e.g., 32A"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor="flight-confirmation" className={labelClassName}>Confirmation Code</label>
+          <input
+            id="flight-confirmation"
+            type="text"
+            name="confirmationCode"
+            value={values.confirmationCode}
+            onChange={(e) => set({ confirmationCode: e.target.value })}
+            placeholder="e.g., X7KQ2P"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState, FormEvent, useEffect } from 'react';
+import Modal from './Modal';
+import { createPhoneInvite, createInviteLink, getInviteLink } from '../services/invite.service';
+import type { ParticipantRole } from '../types';
+
+interface InviteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tripId: string;
+  userId: string;
+  canInviteOwners: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+export default function InviteModal({ isOpen, onClose, tripId, userId, canInviteOwners }: InviteModalProps) {
+  const [mode, setMode] = useState<'phone' | 'link'>('phone');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [role, setRole] = useState<ParticipantRole>('editor');
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [maxUses, setMaxUses] = useState(10);
+  const [inviteLink, setInviteLink] = useState('');
+  const [sentTo, setSentTo] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Start from a clean form every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMode('phone');
+      setPhoneNumber('');
+      setRole('editor');
+      setExpiresInDays(7);
+      setMaxUses(10);
+      setInviteLink('');
+      setSentTo('');
+      setCopied(false);
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'phone') {
+        const invite = await createPhoneInvite(tripId, { phoneNumber, role, expiresInDays }, userId);
+        setSentTo(invite.phoneNumber ?? phoneNumber);
+        setPhoneNumber('');
+      } else {
+        const invite = await createInviteLink(tripId, { role, expiresInDays, maxUses }, userId);
+        setInviteLink(getInviteLink(invite.inviteId));
+        setCopied(false);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create invite');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  const switchMode = (nextMode: 'phone' | 'link') => {
+    setMode(nextMode);
+    setError('');
+    setSentTo('');
+    setInviteLink('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Invite People" maxWidth="lg">
+      <form onSubmit={handleSubmit} data-testid="invite-modal">
+        <div className="space-y-4">
+          {/* Mode */}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => switchMode('phone')}
+              className={mode === 'phone' ? 'btn-primary flex-1' : 'btn-secondary flex-1'}
+              disabled={isSubmitting}
+            >
+              By Phone
+            </button>
+            <button
+              type="button"
+              onClick={() => switchMode('link')}
+              className={mode === 'link' ? 'btn-primary flex-1' : 'btn-secondary flex-1'}
+              disabled={isSubmitting}
+            >
+              By Link
+            </button>
+          </div>
+
+          {mode === 'phone' && (
+            <div>
+              <label htmlFor="invite-phone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Phone Number <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="invite-phone"
+                type="tel"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                placeholder="+1 234 567 8900"
+                className={inputClassName}
+                disabled={isSubmitting}
+                required
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                They'll see the invite when they sign in with this number
+              </p>
+            </div>
+          )}
+
+          {/* Role and expiry */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Role
+              </label>
+              <select
+                id="invite-role"
+                value={role}
+                onChange={(e) => setRole(e.target.value as ParticipantRole)}
+                className={inputClassName}
+                disabled={isSubmitting}
+              >
+                <option value="viewer">Viewer</option>
+                <option value="editor">Editor</option>
+                {canInviteOwners && <option value="owner">Owner</option>}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="invite-expiry" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Expires After
+              </label>
+              <select
+                id="invite-expiry"
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className={inputClassName}
+                disabled={isSubmitting}
+              >
+                {EXPIRY_OPTIONS.map(({ days, label }) => (
+                  <option key={days} value={days}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {mode === 'link' && (
+            <div>
+              <label htmlFor="invite-max-uses" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Max Uses
+              </label>
+              <input
+                id="invite-max-uses"
+                type="number"
+                min={1}
+                max={100}
+                value={maxUses}
+                onChange={(e) => setMaxUses(Number(e.target.value))}
+                className={inputClassName}
+                disabled={isSubmitting}
+                required
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Anyone with the link can join as {role} until it expires or is used this many times
+              </p>
+            </div>
+          )}
+
+          {/* Result */}
+          {sentTo && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+              <p className="text-sm text-green-700 dark:text-green-400">Invite created for {sentTo}</p>
+            </div>
+          )}
+
+          {inviteLink && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={inviteLink}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className={inputClassName}
+                data-testid="invite-link"
+              />
+              <button type="button" onClick={handleCopy} className="btn-secondary whitespace-nowrap">
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn-secondary"
+              disabled={isSubmitting}
+            >
+              Done
+            </button>
+            <button
+              type="submit"
+              className="btn-primary"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Creating...' : mode === 'phone' ? 'Send Invite' : 'Create Link'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState, FormEvent, useEffect } from 'react';
+import Modal from './Modal';
+import CostFields, { toCostForm, toCost } from './CostFields';
+import { addCalendarDays } from '../utils/dates';
+import { countNights } from '../utils/lodging';
+import { getCostSplitError } from '../utils/settlement';
+import type { Lodging, CreateLodgingInput, Location, Participant } from '../types';
+
+interface LodgingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (lodgingData: CreateLodgingInput) => Promise<void>;
+  lodging?: Lodging;           // Stay being edited; a new one is added when unset
+  tripStartDate: string;       // YYYY-MM-DD in the trip's time zone
+  tripEndDate: string;         // YYYY-MM-DD in the trip's time zone
+  defaultCurrency: string;
+  participants?: Participant[];
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export default function LodgingModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  lodging,
+  tripStartDate,
+  tripEndDate,
+  defaultCurrency,
+  participants = [],
+}: LodgingModalProps) {
+  const [name, setName] = useState('');
+  const [checkInDate, setCheckInDate] = useState('');
+  const [checkOutDate, setCheckOutDate] = useState('');
+  const [address, setAddress] = useState('');
+  const [confirmationCode, setConfirmationCode] = useState('');
+  const [cost, setCost] = useState(() => toCostForm(lodging?.cost, defaultCurrency, participants));
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Start from the stay being edited, or a whole-trip stay for a new one
+  useEffect(() => {
+    if (isOpen) {
+      setName(lodging?.name || '');
+      setCheckInDate(lodging?.checkInDate || tripStartDate);
+      setCheckOutDate(lodging?.checkOutDate || tripEndDate);
+      setAddress(lodging?.location?.address || '');
+      setConfirmationCode(lodging?.confirmationCode || '');
+      setCost(toCostForm(lodging?.cost, defaultCurrency, participants));
+      setNotes(lodging?.notes || '');
+      setError('');
+    }
+  }, [isOpen, lodging, tripStartDate, tripEndDate, defaultCurrency]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Lodging name is required');
+      return;
+    }
+    if (checkOutDate <= checkInDate) {
+      setError('Check-out must be at least one night after check-in');
+      return;
+    }
+
+    const stayCost = toCost(cost, participants);
+    const splitError = stayCost && getCostSplitError(stayCost);
+    if (splitError) {
+      setError(splitError);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      // Build location object without undefined fields
+      let location: Location | undefined;
+      if (address.trim()) {
+        location = { name: name.trim(), address: address.trim() };
+      } else if (lodging?.location) {
+        location = { ...lodging.location, name: name.trim() };
+        delete location.address;
+      }
+
+      await onSubmit({
+        name: name.trim(),
+        checkInDate,
+        checkOutDate,
+        location,
+        confirmationCode: confirmationCode.trim() || undefined,
+        cost: stayCost,
+        notes: notes.trim() || undefined,
+      });
+
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save lodging');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setError('');
+      onClose();
+    }
+  };
+
+  const nights = checkInDate && checkOutDate > checkInDate ? countNights({ checkInDate, checkOutDate }) : 0;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={lodging ? 'Edit Lodging' : 'Add Lodging'} maxWidth="lg">
+      <form onSubmit={handleSubmit} data-testid="lodging-modal">
+        <div className="space-y-4">
+          {/* Name */}
+          <div>
+            <label htmlFor="lodging-name" className={labelClassName}>
+              Name <span className="text-red-500">*</span>
+            </label>
+            <input
+              id="lodging-name"
+              type="text"
+              name="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Hotel Le Marais"
+              className={inputClassName}
+              disabled={isSubmitting}
+              required
+            />
+          </div>
+
+          {/* Dates */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="lodging-check-in" className={labelClassName}>
+                Check-in <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="lodging-check-in"
+                type="date"
+                name="checkInDate"
+                value={checkInDate}
+                onChange={(e) => setCheckInDate(e.target.value)}
+                min={tripStartDate}
+                max={addCalendarDays(tripEndDate, -1)}
+                className={inputClassName}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="lodging-check-out" className={labelClassName}>
+                Check-out <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="lodging-check-out"
+                type="date"
+                name="checkOutDate"
+                value={checkOutDate}
+                onChange={(e) => setCheckOutDate(e.target.value)}
+                min={checkInDate ? addCalendarDays(checkInDate, 1) : tripStartDate}
+                max={tripEndDate}
+                className={inputClassName}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+          </div>
+          {nights > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">
+              {nights} {nights === 1 ? 'night' : 'nights'}
+            </p>
+          )}
+
+          {/* Address */}
+          <div>
+            <label htmlFor="lodging-address" className={labelClassName}>
+              Address
+            </label>
+            <input
+              id="lodging-address"
+              type="text"
+              name="address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="e.g., 12 Rue de Rivoli, 75004 Paris, France"
+              className={inputClassName}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Confirmation */}
+          <div>
+            <label htmlFor="lodging-confirmation" className={labelClassName}>
+              Confirmation Code
+            </label>
+            <input
+              id="lodging-confirmation"
+              type="text"
+              name="confirmationCode"
+              value={confirmationCode}
+              onChange={(e) => setConfirmationCode(e.target.value)}
+              className={inputClassName}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Cost */}
+          <CostFields
+            values={cost}
+            onChange={setCost}
+            participants={participants}
+            disabled={isSubmitting}
+            idPrefix="lodging"
+            amountLabel="Total Cost (optional)"
+          />
+
+          {/* Notes */}
+          <div>
+            <label htmlFor="lodging-notes" className={labelClassName}>
+              Notes
+            </label>
+            <textarea
+              id="lodging-notes"
+              name="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Check-in after 3 PM, door code..."
+              rows={2}
+              className={`${inputClassName} resize-none`}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn-secondary"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Saving...' : lodging ? 'Save Changes' : 'Add Lodging'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import Modal from './Modal';
+
+interface MoveActivityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (dayId: string, mode: 'move' | 'copy') => Promise<void>;
+  activityTitle: string;
+  currentDayId: string;
+  days: { dayId: string; label: string }[];
+}
+
+const inputClassName = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                       focus:outline-none focus:ring-2 focus:ring-primary-500`;
+
+/**
+ * Move or copy an activity to another day
+ * The keyboard-friendly alternative to dragging it there
+ */
+export default function MoveActivityModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  activityTitle,
+  currentDayId,
+  days,
+}: MoveActivityModalProps) {
+  const [dayId, setDayId] = useState(currentDayId);
+  const [submitting, setSubmitting] = useState<'move' | 'copy' | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDayId(currentDayId);
+      setError('');
+    }
+  }, [isOpen, currentDayId]);
+
+  const handleSubmit = async (mode: 'move' | 'copy') => {
+    setError('');
+    setSubmitting(mode);
+
+    try {
+      await onSubmit(dayId, mode);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || `Failed to ${mode} activity`);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (!submitting) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Move or Copy "${activityTitle}"`}>
+      <div className="space-y-4" data-testid="move-activity-modal">
+        <div>
+          <label htmlFor="move-activity-day" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Day
+          </label>
+          <select
+            id="move-activity-day"
+            name="dayId"
+            value={dayId}
+            onChange={(e) => setDayId(e.target.value)}
+            className={inputClassName}
+            disabled={submitting !== null}
+          >
+            {days.map((day) => (
+              <option key={day.dayId} value={day.dayId}>
+                {day.label}{day.dayId === currentDayId ? ' (current)' : ''}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Times stay the same on the new day.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button type="button" onClick={handleClose} className="btn-secondary" disabled={submitting !== null}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSubmit('copy')}
+            className="btn-secondary"
+            disabled={submitting !== null}
+          >
+            {submitting === 'copy' ? 'Copying...' : 'Copy'}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSubmit('move')}
+            className="btn-primary"
+            disabled={submitting !== null || dayId === currentDayId}
+          >
+            {submitting === 'move' ? 'Moving...' : 'Move'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,44 +1,96 @@
-import { initializeApp } from 'firebase/app';
-import { getAuth, connectAuthEmulator } from 'firebase/auth';
-import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { initializeApp, type FirebaseApp } from 'firebase/app';
+import { getAuth, connectAuthEmulator, type Auth } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator, type Firestore } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator, type FirebaseStorage } from 'firebase/storage';
 
 /**
- * Firebase configuration from environment variables
+ * An environment variable, or undefined outside Vite (e.g. services imported
+ * by `npm test`, which run on the in-memory backend and never reach Firebase)
  */
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID,
-  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID,
-};
+function readEnv(name: keyof ImportMetaEnv): string | undefined {
+  return import.meta.env?.[name];
+}
 
 /**
- * Initialize Firebase app
+ * Connect to the local Firebase emulators instead of the real project
+ * Run: firebase emulators:start (ports from firebase.json)
+ * Enable with VITE_USE_EMULATORS=true in .env; scripts read the same variable
  */
-export const app = initializeApp(firebaseConfig);
+export const useEmulators = readEnv('VITE_USE_EMULATORS') === 'true';
+
+const emulatorHost = readEnv('VITE_EMULATOR_HOST') || '127.0.0.1';
+
+/**
+ * Base URL files in Cloud Storage are downloaded from
+ */
+export const storageOrigin = useEmulators
+  ? `http://${emulatorHost}:9199`
+  : 'https://firebasestorage.googleapis.com';
+
+let app: FirebaseApp | null = null;
+let auth: Auth | null = null;
+let db: Firestore | null = null;
+let storage: FirebaseStorage | null = null;
+
+/**
+ * Firebase app, initialized from environment variables on first use
+ */
+export function getFirebaseApp(): FirebaseApp {
+  if (!app) {
+    app = initializeApp({
+      apiKey: readEnv('VITE_FIREBASE_API_KEY'),
+      authDomain: readEnv('VITE_FIREBASE_AUTH_DOMAIN'),
+      projectId: readEnv('VITE_FIREBASE_PROJECT_ID'),
+      storageBucket: readEnv('VITE_FIREBASE_STORAGE_BUCKET'),
+      messagingSenderId: readEnv('VITE_FIREBASE_MESSAGING_SENDER_ID'),
+      appId: readEnv('VITE_FIREBASE_APP_ID'),
+      measurementId: readEnv('VITE_FIREBASE_MEASUREMENT_ID'),
+    });
+    if (useEmulators) {
+      console.info(`Using Firebase emulators on ${emulatorHost}`);
+    }
+  }
+  return app;
+}
 
 /**
  * Firebase Auth instance
  * Used for phone number authentication
  */
-export const auth = getAuth(app);
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    if (useEmulators) {
+      connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+    }
+  }
+  return auth;
+}
 
 /**
  * Firestore instance
  * Used for all database operations
  */
-export const db = getFirestore(app);
+export function getDb(): Firestore {
+  if (!db) {
+    db = getFirestore(getFirebaseApp());
+    if (useEmulators) {
+      connectFirestoreEmulator(db, emulatorHost, 8080);
+    }
+  }
+  return db;
+}
 
 /**
- * Connect to Firebase emulators in development
- * Run: firebase emulators:start
- *
- * DISABLED FOR NOW - Using production Firestore
+ * Cloud Storage instance
+ * Holds the published calendar feeds
  */
-// if (import.meta.env.DEV) {
-//   connectAuthEmulator(auth, 'http://127.0.0.1:9099');
-//   connectFirestoreEmulator(db, '127.0.0.1', 8080);
-// }
+export function getFirebaseStorage(): FirebaseStorage {
+  if (!storage) {
+    storage = getStorage(getFirebaseApp());
+    if (useEmulators) {
+      connectStorageEmulator(storage, emulatorHost, 9199);
+    }
+  }
+  return storage;
+}
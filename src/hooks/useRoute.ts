@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { parseRoute, routePath } from '../utils/routes';
+import type { Route } from '../utils/routes';
+
+/**
+ * History-based navigation
+ * The URL is the source of truth for which view is showing: navigate() pushes
+ * a history entry, and back/forward (popstate) are picked up by useRoute().
+ */
+
+const listeners = new Set<() => void>();
+
+/**
+ * Route for the current URL; unknown paths fall back to the dashboard
+ */
+export function getCurrentRoute(): Route {
+  return parseRoute(window.location.pathname, window.location.hash) ?? { name: 'dashboard' };
+}
+
+/**
+ * Go to a route
+ * @param route - Where to go
+ * @param options - replace: overwrite the current history entry instead of adding one
+ *                  (for redirects the user shouldn't come back to with Back)
+ */
+export function navigate(route: Route, options: { replace?: boolean } = {}): void {
+  const path = routePath(route);
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else if (path !== window.location.pathname + window.location.hash) {
+    window.history.pushState(null, '', path);
+  }
+  listeners.forEach((notify) => notify());
+}
+
+/**
+ * Current route, updated on navigate() and browser back/forward
+ */
+export function useRoute(): Route {
+  const [route, setRoute] = useState<Route>(getCurrentRoute);
+
+  useEffect(() => {
+    const update = () => setRoute(getCurrentRoute());
+    listeners.add(update);
+    window.addEventListener('popstate', update);
+
+    // Rewrite unknown paths to the dashboard's, so Back doesn't return to them
+    if (!parseRoute(window.location.pathname, window.location.hash)) {
+      navigate({ name: 'dashboard' }, { replace: true });
+    }
+
+    return () => {
+      listeners.delete(update);
+      window.removeEventListener('popstate', update);
+    };
+  }, []);
+
+  return route;
+}
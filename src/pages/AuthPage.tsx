@@ -1,20 +1,84 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { ConfirmationResult, RecaptchaVerifier, User as FirebaseUser } from 'firebase/auth';
+import {
+  initRecaptchaVerifier,
+  sendVerificationCode,
+  verifyCode,
+  RESEND_COOLDOWN_SECONDS,
+} from '../services/auth.service';
+import { createUser } from '../services/user.service';
+import { AuthError } from '../services/errors';
+import { normalizePhoneNumber, formatPhoneNumber } from '../utils/phone';
 
-export default function AuthPage() {
+const RECAPTCHA_CONTAINER_ID = 'recaptcha-container';
+const CODE_LENGTH = 6;
+const MAX_DISPLAY_NAME_LENGTH = 50;
+
+interface AuthPageProps {
+  // Signed in but without a profile yet: ask for a display name
+  user?: FirebaseUser;
+  onProfileCreated?: () => void;
+}
+
+export default function AuthPage({ user, onProfileCreated }: AuthPageProps) {
   const [phoneNumber, setPhoneNumber] = useState('');
+  const [normalizedPhone, setNormalizedPhone] = useState('');
   const [verificationCode, setVerificationCode] = useState('');
+  const [displayName, setDisplayName] = useState('');
   const [step, setStep] = useState<'phone' | 'code'>('phone');
+  const [confirmation, setConfirmation] = useState<ConfirmationResult | null>(null);
+  const [resendCooldown, setResendCooldown] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const verifierRef = useRef<RecaptchaVerifier | null>(null);
+
+  const activeStep = user ? 'profile' : step;
+
+  useEffect(() => {
+    return () => {
+      verifierRef.current?.clear();
+      verifierRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+    const timeoutId = setTimeout(() => setResendCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timeoutId);
+  }, [resendCooldown]);
+
+  const requestCode = async (e164: string) => {
+    if (!verifierRef.current) {
+      verifierRef.current = initRecaptchaVerifier(RECAPTCHA_CONTAINER_ID);
+    }
+
+    try {
+      const result = await sendVerificationCode(e164, verifierRef.current);
+      setConfirmation(result);
+      setResendCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (err) {
+      // A used or failed reCAPTCHA can't be reused; render a fresh one next time
+      verifierRef.current?.clear();
+      verifierRef.current = null;
+      throw err;
+    }
+  };
 
   const handleSendCode = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
     setError('');
 
+    const e164 = normalizePhoneNumber(phoneNumber);
+    if (!e164) {
+      setError('Enter a valid phone number, including the country code for numbers outside the US and Canada.');
+      return;
+    }
+
+    setLoading(true);
     try {
-      // TODO: Implement phone auth
-      // For now, just show code step
+      await requestCode(e164);
+      setNormalizedPhone(e164);
+      setVerificationCode('');
       setStep('code');
     } catch (err: any) {
       setError(err.message);
@@ -23,30 +87,94 @@ export default function AuthPage() {
     }
   };
 
+  const handleResendCode = async () => {
+    if (resendCooldown > 0) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      await requestCode(normalizedPhone);
+      setVerificationCode('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleVerifyCode = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
+    if (!confirmation) return;
     setError('');
 
+    if (verificationCode.length !== CODE_LENGTH) {
+      setError(`Enter the ${CODE_LENGTH}-digit code from the SMS.`);
+      return;
+    }
+
+    setLoading(true);
     try {
-      // TODO: Implement code verification
-      console.log('Verifying code:', verificationCode);
+      // On success the auth state listener in App takes over
+      await verifyCode(confirmation, verificationCode);
     } catch (err: any) {
+      if (err instanceof AuthError && err.code === 'code-expired') {
+        setVerificationCode('');
+      }
       setError(err.message);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleChangePhone = () => {
+    setStep('phone');
+    setConfirmation(null);
+    setVerificationCode('');
+    setError('');
+  };
+
+  const handleCreateProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const name = displayName.trim();
+    if (!name) {
+      setError('Enter the name other travelers will see.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      await createUser(user.uid, {
+        phoneNumber: user.phoneNumber ?? normalizedPhone,
+        displayName: name,
+      });
+      onProfileCreated?.();
+    } catch (err: any) {
+      setError(err.message);
+      setLoading(false);
+    }
+  };
+
+  const errorBanner = error && (
+    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-lg text-sm">
+      {error}
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-primary-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center p-4">
       <div className="card max-w-md w-full">
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Trip Organizer</h1>
-          <p className="text-gray-600 dark:text-gray-400">Sign in with your phone number</p>
+          <p className="text-gray-600 dark:text-gray-400">
+            {activeStep === 'profile' ? 'Welcome! One last step' : 'Sign in with your phone number'}
+          </p>
         </div>
 
-        {step === 'phone' ? (
+        {activeStep === 'phone' && (
           <form onSubmit={handleSendCode} className="space-y-4">
             <div>
               <label htmlFor="phone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -55,6 +183,7 @@ export default function AuthPage() {
               <input
                 id="phone"
                 type="tel"
+                autoComplete="tel"
                 placeholder="+1 234 567 8900"
                 value={phoneNumber}
                 onChange={(e) => setPhoneNumber(e.target.value)}
@@ -66,11 +195,7 @@ export default function AuthPage() {
               </p>
             </div>
 
-            {error && (
-              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-lg text-sm">
-                {error}
-              </div>
-            )}
+            {errorBanner}
 
             <button
               type="submit"
@@ -79,10 +204,10 @@ export default function AuthPage() {
             >
               {loading ? 'Sending...' : 'Send Code'}
             </button>
-
-            <div id="recaptcha-container"></div>
           </form>
-        ) : (
+        )}
+
+        {activeStep === 'code' && (
           <form onSubmit={handleVerifyCode} className="space-y-4">
             <div>
               <label htmlFor="code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -91,23 +216,21 @@ export default function AuthPage() {
               <input
                 id="code"
                 type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
                 placeholder="123456"
                 value={verificationCode}
-                onChange={(e) => setVerificationCode(e.target.value)}
+                onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, CODE_LENGTH))}
                 className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-center text-2xl tracking-widest"
-                maxLength={6}
+                maxLength={CODE_LENGTH}
                 required
               />
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                Enter the 6-digit code sent to {phoneNumber}
+                Enter the {CODE_LENGTH}-digit code sent to {formatPhoneNumber(normalizedPhone)}
               </p>
             </div>
 
-            {error && (
-              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-lg text-sm">
-                {error}
-              </div>
-            )}
+            {errorBanner}
 
             <button
               type="submit"
@@ -119,13 +242,61 @@ export default function AuthPage() {
 
             <button
               type="button"
-              onClick={() => setStep('phone')}
+              onClick={handleResendCode}
+              disabled={loading || resendCooldown > 0}
+              className="btn-secondary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {resendCooldown > 0 ? `Resend code in ${resendCooldown}s` : 'Resend Code'}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleChangePhone}
+              disabled={loading}
               className="btn-secondary w-full"
             >
               Change Phone Number
             </button>
           </form>
         )}
+
+        {activeStep === 'profile' && (
+          <form onSubmit={handleCreateProfile} className="space-y-4">
+            <div>
+              <label htmlFor="displayName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Your Name
+              </label>
+              <input
+                id="displayName"
+                type="text"
+                autoComplete="name"
+                placeholder="Alex"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                maxLength={MAX_DISPLAY_NAME_LENGTH}
+                required
+                autoFocus
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                This is how other travelers will see you on shared trips
+              </p>
+            </div>
+
+            {errorBanner}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Saving...' : 'Continue'}
+            </button>
+          </form>
+        )}
+
+        {/* Invisible reCAPTCHA, shared by Send Code and Resend Code */}
+        <div id={RECAPTCHA_CONTAINER_ID}></div>
       </div>
     </div>
   );
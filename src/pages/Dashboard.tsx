@@ -1,12 +1,46 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, ChangeEvent } from 'react';
 import { getUser } from '../services/user.service';
-import { getUserTrips, createTrip, updateTrip, deleteTrip } from '../services/trip.service';
+import {
+  getUserTrips,
+  getTrashedTrips,
+  createTrip,
+  updateTrip,
+  deleteTrip,
+  restoreTrip,
+  purgeTrip,
+  duplicateTrip,
+  exportTrip,
+  importTrip,
+} from '../services/trip.service';
+import {
+  getUserTemplates,
+  saveAsTemplate,
+  createTripFromTemplate,
+  deleteTemplate,
+} from '../services/template.service';
 import { signOut } from '../services/auth.service';
+import { getPendingInvitesForPhone, acceptInvite, declineInvite } from '../services/invite.service';
+import { canPerform } from '../services/permissions';
+import { PermissionDeniedError } from '../services/errors';
 import CreateTripModal from '../components/CreateTripModal';
 import EditTripModal from '../components/EditTripModal';
+import CopyTripModal from '../components/CopyTripModal';
 import ConfirmDialog from '../components/ConfirmDialog';
 import { Timestamp } from 'firebase/firestore';
-import type { User, Trip } from '../types';
+import type { User, TripDocument, UserTripsPage, Invite, TripTemplate, CopyTripInput } from '../types';
+import { parseRetentionDays, getPurgeDate } from '../utils/trash';
+import { getTripExportFileName } from '../utils/exports';
+
+const EMPTY_TRIPS_PAGE: UserTripsPage = { past: [], current: [], upcoming: [], nextCursor: null };
+
+const TRIP_SECTIONS = [
+  { key: 'current', title: 'Happening Now' },
+  { key: 'upcoming', title: 'Upcoming' },
+  { key: 'past', title: 'Past Trips' },
+] as const;
+
+// Same setting scripts/purge-trash.ts reads
+const TRASH_RETENTION_DAYS = parseRetentionDays(import.meta.env.VITE_TRASH_RETENTION_DAYS);
 
 interface DashboardProps {
   userId: string;
@@ -15,14 +49,25 @@ interface DashboardProps {
 
 export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
   const [user, setUser] = useState<User | null>(null);
-  const [trips, setTrips] = useState<Trip[]>([]);
+  const [trips, setTrips] = useState<UserTripsPage>(EMPTY_TRIPS_PAGE);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
-  const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [editingTrip, setEditingTrip] = useState<TripDocument | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [deletingTrip, setDeletingTrip] = useState<Trip | null>(null);
+  const [deletingTrip, setDeletingTrip] = useState<TripDocument | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [trashedTrips, setTrashedTrips] = useState<TripDocument[]>([]);
+  const [purgingTrip, setPurgingTrip] = useState<TripDocument | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+  const [restoringTripId, setRestoringTripId] = useState<string | null>(null);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [respondingInviteId, setRespondingInviteId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<TripTemplate[]>([]);
+  const [copying, setCopying] = useState<{ trip: TripDocument; mode: 'duplicate' | 'template' } | null>(null);
+  const [deletingTemplateId, setDeletingTemplateId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -30,13 +75,22 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
 
   const loadData = async () => {
     try {
-      const [userData, tripsData] = await Promise.all([
+      const [userData, tripsData, trashData, templatesData] = await Promise.all([
         getUser(userId),
         getUserTrips(userId),
+        getTrashedTrips(userId),
+        getUserTemplates(userId),
       ]);
 
       setUser(userData);
-      setTrips(tripsData || []);
+      setTrips(tripsData);
+      setTrashedTrips(trashData);
+      setTemplates(templatesData);
+
+      // Invites sent to this phone before (or since) it signed up
+      if (userData) {
+        setInvites(await getPendingInvitesForPhone(userData.phoneNumber));
+      }
     } catch (error) {
       console.error('Error loading dashboard:', error);
     } finally {
@@ -44,6 +98,47 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
     }
   };
 
+  const handleAcceptInvite = async (invite: Invite) => {
+    setRespondingInviteId(invite.inviteId);
+    try {
+      const tripId = await acceptInvite(invite.inviteId, userId);
+      onViewTrip(tripId);
+    } catch (error: any) {
+      console.error('Error accepting invite:', error);
+      alert(error.message || 'Failed to accept invite. Please try again.');
+      await loadData();
+    } finally {
+      setRespondingInviteId(null);
+    }
+  };
+
+  const handleDeclineInvite = async (invite: Invite) => {
+    setRespondingInviteId(invite.inviteId);
+    try {
+      await declineInvite(invite.inviteId, userId);
+      setInvites((previous) => previous.filter((i) => i.inviteId !== invite.inviteId));
+    } catch (error: any) {
+      console.error('Error declining invite:', error);
+      alert(error.message || 'Failed to decline invite. Please try again.');
+    } finally {
+      setRespondingInviteId(null);
+    }
+  };
+
+  const loadMoreTrips = async () => {
+    if (!trips.nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const nextPage = await getUserTrips(userId, { cursor: trips.nextCursor });
+      setTrips((previous) => mergeTripsPages(previous, nextPage));
+    } catch (error) {
+      console.error('Error loading more trips:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -81,6 +176,94 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
     }
   };
 
+  const handleCreateFromTemplate = async (templateId: string, options: CopyTripInput) => {
+    try {
+      const newTrip = await createTripFromTemplate(templateId, userId, options);
+      await loadData();
+      onViewTrip(newTrip.tripId);
+    } catch (error) {
+      console.error('Error creating trip from template:', error);
+      throw error; // Re-throw so modal can show error
+    }
+  };
+
+  const handleDuplicateTrip = async (options: CopyTripInput) => {
+    if (!copying) return;
+
+    try {
+      const newTrip = await duplicateTrip(copying.trip.tripId, userId, options);
+      await loadData();
+      onViewTrip(newTrip.tripId);
+    } catch (error) {
+      console.error('Error duplicating trip:', error);
+      throw error; // Re-throw so modal can show error
+    }
+  };
+
+  const handleSaveTemplate = async (name: string, clearCosts: boolean) => {
+    if (!copying) return;
+
+    try {
+      const template = await saveAsTemplate(copying.trip.tripId, userId, name, { clearCosts });
+      setTemplates((previous) => [...previous, template].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error saving template:', error);
+      throw error; // Re-throw so modal can show error
+    }
+  };
+
+  const handleDeleteTemplate = async (template: TripTemplate) => {
+    setDeletingTemplateId(template.templateId);
+    try {
+      await deleteTemplate(template.templateId, userId);
+      setTemplates((previous) => previous.filter((t) => t.templateId !== template.templateId));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      alert('Failed to delete template. Please try again.');
+    } finally {
+      setDeletingTemplateId(null);
+    }
+  };
+
+  const handleExportTrip = async (trip: TripDocument) => {
+    try {
+      const data = await exportTrip(trip.tripId, userId);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getTripExportFileName(trip.title);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting trip:', error);
+      alert('Failed to export trip. Please try again.');
+    }
+  };
+
+  const handleImportTrip = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} isn't a trip export (it isn't JSON)`);
+      }
+      const newTrip = await importTrip(data, userId);
+      await loadData();
+      onViewTrip(newTrip.tripId);
+    } catch (error: any) {
+      console.error('Error importing trip:', error);
+      alert(error.message || 'Failed to import trip. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleEditTrip = async (tripData: {
     title: string;
     description: string;
@@ -90,7 +273,7 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
     if (!editingTrip) return;
 
     try {
-      await updateTrip(editingTrip.tripId, tripData);
+      await updateTrip(editingTrip.tripId, tripData, userId);
 
       console.log('Updated trip:', editingTrip.tripId);
 
@@ -105,12 +288,12 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
     }
   };
 
-  const openEditModal = (trip: Trip) => {
+  const openEditModal = (trip: TripDocument) => {
     setEditingTrip(trip);
     setShowEditModal(true);
   };
 
-  const openDeleteConfirm = (trip: Trip) => {
+  const openDeleteConfirm = (trip: TripDocument) => {
     setDeletingTrip(trip);
     setShowDeleteConfirm(true);
   };
@@ -120,7 +303,7 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
 
     setIsDeleting(true);
     try {
-      await deleteTrip(deletingTrip.tripId);
+      await deleteTrip(deletingTrip.tripId, userId);
       console.log('Deleted trip:', deletingTrip.tripId);
 
       // Reload trips
@@ -130,12 +313,135 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
       setDeletingTrip(null);
     } catch (error) {
       console.error('Error deleting trip:', error);
-      alert('Failed to delete trip. Please try again.');
+      alert(error instanceof PermissionDeniedError ? error.message : 'Failed to delete trip. Please try again.');
     } finally {
       setIsDeleting(false);
     }
   };
 
+  const handleRestoreTrip = async (trip: TripDocument) => {
+    setRestoringTripId(trip.tripId);
+    try {
+      await restoreTrip(trip.tripId, userId);
+      await loadData();
+    } catch (error) {
+      console.error('Error restoring trip:', error);
+      alert(error instanceof PermissionDeniedError ? error.message : 'Failed to restore trip. Please try again.');
+    } finally {
+      setRestoringTripId(null);
+    }
+  };
+
+  const handlePurgeTrip = async () => {
+    if (!purgingTrip) return;
+
+    setIsPurging(true);
+    try {
+      await purgeTrip(purgingTrip.tripId, userId);
+      setTrashedTrips((previous) => previous.filter((t) => t.tripId !== purgingTrip.tripId));
+      setPurgingTrip(null);
+    } catch (error) {
+      console.error('Error purging trip:', error);
+      alert(error instanceof PermissionDeniedError ? error.message : 'Failed to delete trip. Please try again.');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const tripCount = trips.past.length + trips.current.length + trips.upcoming.length;
+
+  const renderTripCard = (trip: TripDocument) => (
+    <div
+      key={trip.tripId}
+      className="card hover:shadow-md transition-shadow"
+      data-testid="trip-card"
+      data-trip-id={trip.tripId}
+    >
+      {trip.coverImageUrl && (
+        <img
+          src={trip.coverImageUrl}
+          alt={trip.title}
+          className="w-full h-40 object-cover rounded-lg mb-4"
+        />
+      )}
+
+      <h3 className="font-semibold text-lg text-gray-900 dark:text-white mb-2" data-testid="trip-title">
+        {trip.title}
+      </h3>
+
+      <div className="flex items-center text-sm text-gray-600 dark:text-gray-400 mb-2">
+        <span>📅</span>
+        <span className="ml-2">
+          {trip.startDate.toDate().toLocaleDateString()} -{' '}
+          {trip.endDate.toDate().toLocaleDateString()}
+        </span>
+      </div>
+
+      <div className="flex items-center text-sm text-gray-600 dark:text-gray-400 mb-3">
+        <span>👥</span>
+        <span className="ml-2">{trip.participants.length} participants</span>
+      </div>
+
+      {trip.description && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3 line-clamp-2">{trip.description}</p>
+      )}
+
+      <div className="flex gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => onViewTrip(trip.tripId)}
+          className="flex-1 btn-primary text-sm py-2"
+        >
+          View Trip
+        </button>
+        {canPerform(trip, userId, 'edit') && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              openEditModal(trip);
+            }}
+            className="btn-secondary text-sm py-2 px-4"
+          >
+            Edit
+          </button>
+        )}
+        {canPerform(trip, userId, 'delete') && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              openDeleteConfirm(trip);
+            }}
+            className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-sm py-2 px-3 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            title="Delete trip"
+          >
+            🗑️
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-4 pt-2 text-xs">
+        <button
+          onClick={() => setCopying({ trip, mode: 'duplicate' })}
+          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={() => setCopying({ trip, mode: 'template' })}
+          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium"
+        >
+          Save as template
+        </button>
+        <button
+          onClick={() => handleExportTrip(trip)}
+          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium"
+          title="Download as JSON, to back up or import elsewhere"
+        >
+          Export
+        </button>
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -169,88 +475,171 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 py-8">
+        {/* Invitations */}
+        {invites.length > 0 && (
+          <section className="mb-8" data-testid="invitations">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              Invitations ({invites.length})
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {invites.map((invite) => (
+                <div key={invite.inviteId} className="card" data-testid="invite-card">
+                  <h3 className="font-semibold text-lg text-gray-900 dark:text-white mb-1">{invite.tripTitle}</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    {invite.invitedByName || 'Someone'} invited you as {invite.role}
+                  </p>
+                  <div className="flex gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <button
+                      onClick={() => handleAcceptInvite(invite)}
+                      className="flex-1 btn-primary text-sm py-2"
+                      disabled={respondingInviteId !== null}
+                    >
+                      {respondingInviteId === invite.inviteId ? 'Joining...' : 'Accept'}
+                    </button>
+                    <button
+                      onClick={() => handleDeclineInvite(invite)}
+                      className="btn-secondary text-sm py-2 px-4"
+                      disabled={respondingInviteId !== null}
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Coming Up Section */}
         <section className="mb-8">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white">My Trips</h2>
-            <button onClick={() => setShowCreateModal(true)} className="btn-primary">+ Create Trip</button>
+            <div className="flex gap-2">
+              <label
+                className={`btn-secondary cursor-pointer ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}
+                data-testid="import-trip-button"
+              >
+                {isImporting ? 'Importing...' : 'Import Trip'}
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImportTrip}
+                  className="hidden"
+                  disabled={isImporting}
+                />
+              </label>
+              <button onClick={() => setShowCreateModal(true)} className="btn-primary">+ Create Trip</button>
+            </div>
           </div>
 
-          {trips.length === 0 ? (
+          {tripCount === 0 ? (
             <div className="card text-center py-12">
               <p className="text-gray-500 dark:text-gray-400 mb-4">No trips yet</p>
               <button onClick={() => setShowCreateModal(true)} className="btn-primary">Create Your First Trip</button>
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {trips.map((trip) => (
-                <div
-                  key={trip.tripId}
-                  className="card hover:shadow-md transition-shadow"
-                  data-testid="trip-card"
-                  data-trip-id={trip.tripId}
-                >
-                  {trip.coverImageUrl && (
-                    <img
-                      src={trip.coverImageUrl}
-                      alt={trip.title}
-                      className="w-full h-40 object-cover rounded-lg mb-4"
-                    />
-                  )}
-
-                  <h3 className="font-semibold text-lg text-gray-900 dark:text-white mb-2" data-testid="trip-title">
-                    {trip.title}
-                  </h3>
-
-                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400 mb-2">
-                    <span>📅</span>
-                    <span className="ml-2">
-                      {trip.startDate.toDate().toLocaleDateString()} -{' '}
-                      {trip.endDate.toDate().toLocaleDateString()}
-                    </span>
+            <div className="space-y-8">
+              {TRIP_SECTIONS.map(({ key, title }) =>
+                trips[key].length > 0 && (
+                  <div key={key} data-testid={`trips-${key}`}>
+                    <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                      {title} ({trips[key].length})
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {trips[key].map(renderTripCard)}
+                    </div>
                   </div>
+                )
+              )}
+
+              {trips.nextCursor && (
+                <div className="text-center">
+                  <button
+                    onClick={loadMoreTrips}
+                    className="btn-secondary"
+                    disabled={loadingMore}
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More Trips'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
 
-                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400 mb-3">
-                    <span>👥</span>
-                    <span className="ml-2">{trip.participants.length} participants</span>
+        {/* Templates: the user's saved trips to start new ones from */}
+        {templates.length > 0 && (
+          <section className="mb-8" data-testid="templates">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+              My Templates ({templates.length})
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Pick one under "Start from" when you create a trip.
+            </p>
+            <ul className="card divide-y divide-gray-200 dark:divide-gray-700">
+              {templates.map((template) => (
+                <li
+                  key={template.templateId}
+                  className="flex items-center justify-between py-2"
+                  data-testid="template-entry"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{template.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {template.content.days.length} days · saved {template.createdAt?.toDate().toLocaleDateString()}
+                    </p>
                   </div>
-
-                  {trip.description && (
-                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-3 line-clamp-2">{trip.description}</p>
-                  )}
-
+                  <button
+                    onClick={() => handleDeleteTemplate(template)}
+                    className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-xs font-medium"
+                    disabled={deletingTemplateId !== null}
+                  >
+                    {deletingTemplateId === template.templateId ? 'Removing...' : 'Remove'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* Trash: deleted trips the user owned, until they're purged */}
+        {trashedTrips.length > 0 && (
+          <section className="mb-8" data-testid="trash">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+              Trash ({trashedTrips.length})
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Deleted trips are kept for {TRASH_RETENTION_DAYS} days, then deleted for good.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {trashedTrips.map((trip) => (
+                <div key={trip.tripId} className="card" data-testid="trashed-trip-card">
+                  <h3 className="font-semibold text-lg text-gray-900 dark:text-white mb-1">{trip.title}</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    Deleted {trip.trash!.deletedAt.toDate().toLocaleDateString()} · gone for good on{' '}
+                    {getPurgeDate(trip.trash!, TRASH_RETENTION_DAYS).toLocaleDateString()}
+                  </p>
                   <div className="flex gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
                     <button
-                      onClick={() => onViewTrip(trip.tripId)}
+                      onClick={() => handleRestoreTrip(trip)}
                       className="flex-1 btn-primary text-sm py-2"
+                      disabled={restoringTripId !== null}
                     >
-                      View Trip
+                      {restoringTripId === trip.tripId ? 'Restoring...' : 'Restore'}
                     </button>
                     <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        openEditModal(trip);
-                      }}
-                      className="btn-secondary text-sm py-2 px-4"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        openDeleteConfirm(trip);
-                      }}
+                      onClick={() => setPurgingTrip(trip)}
                       className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-sm py-2 px-3 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
-                      title="Delete trip"
+                      disabled={restoringTripId !== null}
                     >
-                      🗑️
+                      Delete Forever
                     </button>
                   </div>
                 </div>
               ))}
             </div>
-          )}
-        </section>
+          </section>
+        )}
       </main>
 
       {/* Create Trip Modal */}
@@ -258,8 +647,21 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
         onSubmit={handleCreateTrip}
+        templates={templates}
+        onSubmitFromTemplate={handleCreateFromTemplate}
       />
 
+      {copying && (
+        <CopyTripModal
+          isOpen
+          onClose={() => setCopying(null)}
+          mode={copying.mode}
+          trip={copying.trip}
+          onDuplicate={handleDuplicateTrip}
+          onSaveTemplate={handleSaveTemplate}
+        />
+      )}
+
       {editingTrip && (
         <EditTripModal
           isOpen={showEditModal}
@@ -268,7 +670,9 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
             setEditingTrip(null);
           }}
           onSubmit={handleEditTrip}
+          onSharingChange={loadData}
           trip={editingTrip}
+          userId={userId}
         />
       )}
 
@@ -285,7 +689,8 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
           <div>
             <p className="mb-2">Are you sure you want to delete <strong>{deletingTrip?.title}</strong>?</p>
             <p className="text-sm text-gray-600 dark:text-gray-400">
-              This will permanently delete the trip and all its activities. This action cannot be undone.
+              It moves to the trash, where you can restore it for {TRASH_RETENTION_DAYS} days.
+              Everyone else loses access right away.
             </p>
           </div>
         }
@@ -293,6 +698,38 @@ export default function Dashboard({ userId, onViewTrip }: DashboardProps) {
         variant="danger"
         isProcessing={isDeleting}
       />
+
+      {/* Purge Confirmation */}
+      <ConfirmDialog
+        isOpen={purgingTrip !== null}
+        onClose={() => setPurgingTrip(null)}
+        onConfirm={handlePurgeTrip}
+        title="Delete Forever"
+        message={
+          <div>
+            <p className="mb-2">Delete <strong>{purgingTrip?.title}</strong> for good?</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              This will permanently delete the trip and all its activities. This action cannot be undone.
+            </p>
+          </div>
+        }
+        confirmText="Delete Forever"
+        variant="danger"
+        isProcessing={isPurging}
+      />
     </div>
   );
 }
+
+/**
+ * Append a later page to the trips already shown, keeping each bucket's order
+ */
+function mergeTripsPages(shown: UserTripsPage, next: UserTripsPage): UserTripsPage {
+  return {
+    // Pages run newest-first, so later pages only add older past trips
+    past: [...shown.past, ...next.past],
+    current: [...shown.current, ...next.current].sort((a, b) => a.endDate.toMillis() - b.endDate.toMillis()),
+    upcoming: [...shown.upcoming, ...next.upcoming].sort((a, b) => a.startDate.toMillis() - b.startDate.toMillis()),
+    nextCursor: next.nextCursor,
+  };
+}
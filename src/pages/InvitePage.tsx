@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { getInvite, acceptInvite, declineInvite } from '../services/invite.service';
+import { getUser } from '../services/user.service';
+import { getInviteProblem } from '../services/permissions';
+import type { Invite, User } from '../types';
+
+interface InvitePageProps {
+  inviteId: string;
+  userId: string;
+  onJoined: (tripId: string) => void;
+  onDismiss: () => void;
+}
+
+const PROBLEM_MESSAGES: Record<string, string> = {
+  expired: 'This invite has expired. Ask for a new link.',
+  revoked: 'This invite was withdrawn.',
+  'used-up': 'This invite link has already been used the maximum number of times.',
+  declined: 'This invite was declined.',
+};
+
+export default function InvitePage({ inviteId, userId, onJoined, onDismiss }: InvitePageProps) {
+  const [invite, setInvite] = useState<Invite | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, [inviteId, userId]);
+
+  const loadData = async () => {
+    try {
+      const [inviteData, userData] = await Promise.all([getInvite(inviteId), getUser(userId)]);
+      setInvite(inviteData);
+      setUser(userData);
+    } catch (err) {
+      console.error('Error loading invite:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    setResponding(true);
+    setError('');
+    try {
+      onJoined(await acceptInvite(inviteId, userId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to accept invite');
+      setResponding(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    setResponding(true);
+    setError('');
+    try {
+      await declineInvite(inviteId, userId);
+      onDismiss();
+    } catch (err: any) {
+      setError(err.message || 'Failed to decline invite');
+      setResponding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const alreadyJoined = !!invite && !!user?.tripIds.includes(invite.tripId);
+  const problem = invite ? getInviteProblem(invite) : 'not-found';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="card max-w-md w-full text-center" data-testid="invite-page">
+        {!invite ? (
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            This invite link isn't valid. Check that you copied all of it.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+              {invite.invitedByName || 'Someone'} invited you to
+            </p>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{invite.tripTitle}</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">You'll join as {invite.role}</p>
+
+            {alreadyJoined ? (
+              <p className="text-gray-600 dark:text-gray-400 mb-4">You're already on this trip.</p>
+            ) : (
+              problem && <p className="text-gray-600 dark:text-gray-400 mb-4">{PROBLEM_MESSAGES[problem]}</p>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {invite && alreadyJoined && (
+            <button onClick={() => onJoined(invite.tripId)} className="btn-primary w-full">
+              Open Trip
+            </button>
+          )}
+
+          {invite && !alreadyJoined && !problem && (
+            <>
+              <button
+                onClick={handleAccept}
+                className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={responding}
+              >
+                {responding ? 'Joining...' : 'Join Trip'}
+              </button>
+              <button onClick={handleDecline} className="btn-secondary w-full" disabled={responding}>
+                Decline
+              </button>
+            </>
+          )}
+
+          {(!invite || alreadyJoined || problem) && (
+            <button onClick={onDismiss} className="btn-secondary w-full">
+              Go to Dashboard
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
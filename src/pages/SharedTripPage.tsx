@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { getSharedTrip } from '../services/trip.service';
+import {
+  getActivityIcon,
+  formatActivityTimes,
+  formatFlightRoute,
+  formatFlightDetails,
+} from '../utils/activities';
+import { toCalendarDate } from '../utils/dates';
+import { getLodgingForNight, getTripNights } from '../utils/lodging';
+import { formatMoney } from '../utils/currency';
+import type { SharedTrip } from '../types';
+
+interface SharedTripPageProps {
+  shareToken: string;
+  onOpenApp: () => void;
+}
+
+/**
+ * Date in the trip's time zone, so days read the same wherever the link is opened
+ */
+function formatDate(date: Timestamp, timeZone: string): string {
+  return date.toDate().toLocaleDateString(undefined, { timeZone });
+}
+
+export default function SharedTripPage({ shareToken, onOpenApp }: SharedTripPageProps) {
+  const [trip, setTrip] = useState<SharedTrip | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTrip();
+  }, [shareToken]);
+
+  const loadTrip = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setTrip(await getSharedTrip(shareToken));
+    } catch (err) {
+      console.error('Error loading shared trip:', err);
+      setError('Failed to load this trip. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+        <div className="card max-w-md w-full text-center" data-testid="shared-trip-unavailable">
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            {error || 'This link isn\'t valid anymore. Ask the trip owner for a new one.'}
+          </p>
+          <button onClick={error ? loadTrip : onOpenApp} className="btn-primary w-full">
+            {error ? 'Try Again' : 'Go to Trip Organizer'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Where the group sleeps after a day; the last day has no night
+  const tripNights = new Set(getTripNights(trip.startDate, trip.endDate, trip.timezone));
+  const getLodgingTonight = (date: Timestamp) => {
+    const night = toCalendarDate(date.toDate(), trip.timezone);
+    return tripNights.has(night) ? getLodgingForNight(trip.lodging, night) : [];
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900" data-testid="shared-trip">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">{trip.title}</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {formatDate(trip.startDate, trip.timezone)} - {formatDate(trip.endDate, trip.timezone)}
+            </p>
+          </div>
+          <span className="text-xs text-gray-500 dark:text-gray-400 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700">
+            Read-only
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {trip.description && (
+          <p className="text-gray-600 dark:text-gray-400 mb-6">{trip.description}</p>
+        )}
+
+        {/* Participants (names only) */}
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Who's Going</h2>
+          <div className="flex flex-wrap gap-2">
+            {trip.participants.map((participant, index) => (
+              <span
+                key={index}
+                className="px-3 py-1 rounded-full bg-primary-100 dark:bg-primary-900 text-sm text-primary-700 dark:text-primary-300"
+              >
+                {participant.displayName}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Itinerary */}
+        <div className="space-y-6">
+          {trip.days.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-gray-500 dark:text-gray-400">No days planned yet</p>
+            </div>
+          ) : (
+            trip.days.map((day, index) => (
+              <div key={day.dayId} className="card">
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {day.title || `Day ${index + 1}`}
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {formatDate(day.date, trip.timezone)}
+                  </p>
+                  {getLodgingTonight(day.date).map((stay) => (
+                    <p key={stay.lodgingId} className="text-sm text-gray-600 dark:text-gray-400">
+                      🛏️ Tonight: {stay.name}
+                      {stay.location?.address ? ` · ${stay.location.address}` : ''}
+                    </p>
+                  ))}
+                </div>
+
+                {day.activities.length === 0 ? (
+                  <p className="text-gray-500 dark:text-gray-400 text-sm">No activities planned</p>
+                ) : (
+                  <div className="space-y-4">
+                    {day.activities.map((activity) => (
+                      <div
+                        key={activity.activityId}
+                        className="border-l-4 border-primary-200 dark:border-primary-700 pl-4 py-2"
+                      >
+                        <div className="flex items-center space-x-2 mb-1">
+                          <span className="text-lg">{getActivityIcon(activity.type)}</span>
+                          <h4 className="font-medium text-gray-900 dark:text-white">{activity.title}</h4>
+                        </div>
+
+                        {activity.flight && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            ✈️ {formatFlightRoute(activity.flight)}
+                            {activity.flight.carrier ? ` · ${activity.flight.carrier}` : ''}
+                          </p>
+                        )}
+
+                        {(activity.startTime || activity.endTime) && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            ⏰ {formatActivityTimes(activity, trip.timezone)}
+                          </p>
+                        )}
+
+                        {activity.flight && formatFlightDetails(activity.flight) && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            🎫 {formatFlightDetails(activity.flight)}
+                          </p>
+                        )}
+
+                        {activity.location && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            📍 {activity.location.name}
+                          </p>
+                        )}
+
+                        {activity.cost && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            💰 {formatMoney(activity.cost.amount, activity.cost.currency)}
+                          </p>
+                        )}
+
+                        {activity.description && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                            {activity.description}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="text-center mt-8">
+          <button onClick={onOpenApp} className="btn-secondary">
+            Plan your own trip
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,20 +1,104 @@
 import { useState, useEffect, useRef } from 'react';
-import { getTrip, subscribeToTrip, addActivity, updateActivity, removeActivity } from '../services/trip.service';
+import {
+  getTrip,
+  subscribeToTrip,
+  addActivity,
+  addActivities,
+  updateActivity,
+  removeActivity,
+  moveActivity,
+  copyActivity,
+  setDaySortByTime,
+  syncTripDays,
+  getTripSettings,
+  addLodging,
+  updateLodging,
+  removeLodging,
+  addExpense,
+  updateExpense,
+  removeExpense,
+  recordSettlement,
+  removeSettlement,
+  setExchangeRate,
+  removeExchangeRate,
+  setTripBudget,
+  subscribeToTripChanges,
+  undoLastChange,
+  restoreFromHistory,
+} from '../services/trip.service';
 import { getUser } from '../services/user.service';
+import { subscribeToTripInvites, revokeInvite } from '../services/invite.service';
+import { TripConflictError, PermissionDeniedError, ChangeHistoryError } from '../services/errors';
+import { canPerform } from '../services/permissions';
+import { getTripExchangeRates, getForeignCurrencies } from '../services/rates.service';
 import { sendMessage, generateSuggestions, isAIConfigured } from '../services/ai.service';
-import type { Trip, User, CreateActivityInput, UpdateActivityInput, Activity } from '../types';
+import type {
+  Trip,
+  User,
+  CreateActivityInput,
+  UpdateActivityInput,
+  DayActivityInput,
+  Activity,
+  ActivityPlacement,
+  Day,
+  Invite,
+  Lodging,
+  CreateLodgingInput,
+  Expense,
+  CreateExpenseInput,
+  TripChange,
+  Settlement,
+  SettlementTransfer,
+  Cost,
+  ExchangeRate,
+  SetExchangeRateInput,
+  TripBudget,
+  ActivityType,
+} from '../types';
 import AIChat from '../components/AIChat';
 import AddActivityModal from '../components/AddActivityModal';
 import EditActivityModal from '../components/EditActivityModal';
 import ConfirmDialog from '../components/ConfirmDialog';
+import InviteModal from '../components/InviteModal';
+import LodgingModal from '../components/LodgingModal';
+import ExpenseModal from '../components/ExpenseModal';
+import MoveActivityModal from '../components/MoveActivityModal';
+import ChangeFeed from '../components/ChangeFeed';
+import CostSummary from '../components/CostSummary';
+import BudgetView from '../components/BudgetView';
+import BudgetModal from '../components/BudgetModal';
+import CalendarModal from '../components/CalendarModal';
+import CalendarImportModal from '../components/CalendarImportModal';
+import { formatPhoneNumber } from '../utils/phone';
+import {
+  getActivityIcon,
+  formatActivityTimes,
+  formatFlightRoute,
+  formatFlightDetails,
+  getLaterDayArrivals,
+  toWallClockTimes,
+} from '../utils/activities';
+import { routeUrl } from '../utils/routes';
+import { toCalendarDate } from '../utils/dates';
+import { countNights, getLodgingForNight, getTripNights, getUncoveredNights } from '../utils/lodging';
+import { validateTrip, getActivityFindings } from '../utils/schedule';
+import { convertAmount, formatMoney, formatConvertedAmount } from '../utils/currency';
+import { getBudgetOverruns, getBudgetCategoryLabel } from '../utils/budget';
 
 interface TripDetailProps {
   tripId: string;
+  dayId?: string;              // Deep link target: scrolled into view once loaded
+  activityId?: string;         // Deep link target within dayId: scrolled to and highlighted
   userId: string;
   onBack: () => void;
 }
 
-export default function TripDetail({ tripId, userId, onBack }: TripDetailProps) {
+/**
+ * How long a deep-linked activity stays highlighted
+ */
+const HIGHLIGHT_DURATION_MS = 4000;
+
+export default function TripDetail({ tripId, dayId, activityId, userId, onBack }: TripDetailProps) {
   const [trip, setTrip] = useState<Trip | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -28,6 +112,30 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deletingActivity, setDeletingActivity] = useState<{activity: Activity, dayId: string} | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [conflictMessage, setConflictMessage] = useState<string | null>(null);
+  const [isSyncingDays, setIsSyncingDays] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [pendingInvites, setPendingInvites] = useState<Invite[]>([]);
+  const [highlightedActivityId, setHighlightedActivityId] = useState<string | null>(null);
+  const [copiedActivityId, setCopiedActivityId] = useState<string | null>(null);
+  const [showLodgingModal, setShowLodgingModal] = useState(false);
+  const [editingLodging, setEditingLodging] = useState<Lodging | null>(null);
+  const [deletingLodging, setDeletingLodging] = useState<Lodging | null>(null);
+  const [isDeletingLodging, setIsDeletingLodging] = useState(false);
+  const [showExpenseModal, setShowExpenseModal] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [deletingExpense, setDeletingExpense] = useState<Expense | null>(null);
+  const [isDeletingExpense, setIsDeletingExpense] = useState(false);
+  const [draggedActivity, setDraggedActivity] = useState<{ activity: Activity; dayId: string } | null>(null);
+  const [dropDayId, setDropDayId] = useState<string | null>(null);
+  const [movingActivity, setMovingActivity] = useState<{ activity: Activity; dayId: string } | null>(null);
+  const [changes, setChanges] = useState<TripChange[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [showBudgetModal, setShowBudgetModal] = useState(false);
+  const [showCalendarModal, setShowCalendarModal] = useState(false);
+  const [showCalendarImportModal, setShowCalendarImportModal] = useState(false);
+
+  const canManageParticipants = trip ? canPerform(trip, userId, 'manageParticipants') : false;
 
   useEffect(() => {
     loadData();
@@ -40,6 +148,49 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
     return () => unsubscribe();
   }, [tripId, userId]);
 
+  // Only owners and editors may read a trip's invites
+  useEffect(() => {
+    if (!canManageParticipants) {
+      setPendingInvites([]);
+      return;
+    }
+    return subscribeToTripInvites(tripId, setPendingInvites);
+  }, [tripId, canManageParticipants]);
+
+  useEffect(() => subscribeToTripChanges(tripId, setChanges), [tripId]);
+
+  // Rates only need fetching again when the currencies or the trip's own rates change
+  const rateKey = trip
+    ? JSON.stringify([getTripSettings(trip).currency, getForeignCurrencies(trip), trip.exchangeRates ?? []])
+    : '';
+  useEffect(() => {
+    if (!trip) return;
+    let cancelled = false;
+    getTripExchangeRates(trip)
+      .then((rates) => {
+        if (!cancelled) setExchangeRates(rates);
+      })
+      .catch((error) => console.error('Error loading exchange rates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [rateKey]);
+
+  // Deep links: scroll to the linked day or activity once the itinerary is on screen
+  useEffect(() => {
+    if (loading || !dayId) return;
+
+    const target = document.getElementById(activityId ? `activity-${activityId}` : `day-${dayId}`);
+    if (!target) return;
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    if (activityId) {
+      setHighlightedActivityId(activityId);
+      const timer = setTimeout(() => setHighlightedActivityId(null), HIGHLIGHT_DURATION_MS);
+      return () => clearTimeout(timer);
+    }
+  }, [loading, dayId, activityId]);
+
   const loadData = async () => {
     try {
       const [tripData, userData] = await Promise.all([
@@ -66,10 +217,202 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
       setSelectedDayTitle('');
     } catch (error) {
       console.error('Error adding activity:', error);
+      showConflict(error);
+      throw error;
+    }
+  };
+
+  // Concurrent edits are retried by the service; this only fires once retries ran out,
+  // or when someone changed our role while the page was open
+  const showConflict = (error: unknown) => {
+    if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+      setConflictMessage(error.message);
+    }
+  };
+
+  // Out-of-range stays and other validation errors show in the modal itself
+  const handleSaveLodging = async (lodgingData: CreateLodgingInput) => {
+    try {
+      if (editingLodging) {
+        await updateLodging(tripId, editingLodging.lodgingId, lodgingData, userId);
+      } else {
+        await addLodging(tripId, lodgingData, userId);
+      }
+      // Trip updates automatically via real-time subscription
+    } catch (error) {
+      console.error('Error saving lodging:', error);
+      showConflict(error);
+      throw error;
+    }
+  };
+
+  const openLodgingModal = (lodging: Lodging | null) => {
+    setEditingLodging(lodging);
+    setShowLodgingModal(true);
+  };
+
+  const handleDeleteLodging = async () => {
+    if (!deletingLodging) return;
+
+    setIsDeletingLodging(true);
+    try {
+      await removeLodging(tripId, deletingLodging.lodgingId, userId);
+      // Trip updates automatically via real-time subscription
+      setDeletingLodging(null);
+    } catch (error) {
+      console.error('Error deleting lodging:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        setDeletingLodging(null);
+        showConflict(error);
+      } else {
+        alert('Failed to delete lodging. Please try again.');
+      }
+    } finally {
+      setIsDeletingLodging(false);
+    }
+  };
+
+  const handleSaveExpense = async (expenseData: CreateExpenseInput) => {
+    try {
+      if (editingExpense) {
+        await updateExpense(tripId, editingExpense.expenseId, expenseData, userId);
+      } else {
+        await addExpense(tripId, expenseData, userId);
+      }
+      // Trip updates automatically via real-time subscription
+    } catch (error) {
+      console.error('Error saving expense:', error);
+      showConflict(error);
+      throw error;
+    }
+  };
+
+  const openExpenseModal = (expense: Expense | null) => {
+    setEditingExpense(expense);
+    setShowExpenseModal(true);
+  };
+
+  const handleDeleteExpense = async () => {
+    if (!deletingExpense) return;
+
+    setIsDeletingExpense(true);
+    try {
+      await removeExpense(tripId, deletingExpense.expenseId, userId);
+      // Trip updates automatically via real-time subscription
+      setDeletingExpense(null);
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        setDeletingExpense(null);
+        showConflict(error);
+      } else {
+        alert('Failed to delete expense. Please try again.');
+      }
+    } finally {
+      setIsDeletingExpense(false);
+    }
+  };
+
+  // Trips created before days were generated automatically start out empty
+  const handleSyncDays = async () => {
+    setIsSyncingDays(true);
+    try {
+      await syncTripDays(tripId, userId);
+      // Trip updates automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error generating days:', error);
+      alert(error.message || 'Failed to add days. Please try again.');
+    } finally {
+      setIsSyncingDays(false);
+    }
+  };
+
+  const handleRecordSettlement = async (transfer: SettlementTransfer) => {
+    try {
+      await recordSettlement(tripId, transfer, userId);
+      // Balances update automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error recording repayment:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        showConflict(error);
+      } else {
+        alert(error.message || 'Failed to record the repayment. Please try again.');
+      }
+    }
+  };
+
+  const handleRemoveSettlement = async (settlement: Settlement) => {
+    try {
+      await removeSettlement(tripId, settlement.settlementId, userId);
+      // Balances update automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error removing repayment:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        showConflict(error);
+      } else {
+        alert(error.message || 'Failed to remove the repayment. Please try again.');
+      }
+    }
+  };
+
+  const handleSetExchangeRate = async (rateData: SetExchangeRateInput) => {
+    try {
+      await setExchangeRate(tripId, rateData, userId);
+      // Rates reload automatically via real-time subscription
+    } catch (error) {
+      console.error('Error setting exchange rate:', error);
+      showConflict(error);
+      throw error;
+    }
+  };
+
+  const handleRemoveExchangeRate = async (currency: string) => {
+    try {
+      await removeExchangeRate(tripId, currency, userId);
+      // Rates reload automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error removing exchange rate:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        showConflict(error);
+      } else {
+        alert(error.message || 'Failed to remove the exchange rate. Please try again.');
+      }
+    }
+  };
+
+  // Errors (e.g. an event that no longer fits the trip) show in the import modal
+  const handleImportActivities = async (activities: DayActivityInput[]) => {
+    try {
+      await addActivities(tripId, userId, activities);
+      // Trip updates automatically via real-time subscription
+    } catch (error) {
+      console.error('Error importing activities:', error);
+      showConflict(error);
       throw error;
     }
   };
 
+  const handleSetBudget = async (budget: TripBudget | null) => {
+    try {
+      await setTripBudget(tripId, budget, userId);
+      // Budget view updates automatically via real-time subscription
+    } catch (error) {
+      console.error('Error setting budget:', error);
+      showConflict(error);
+      throw error;
+    }
+  };
+
+  const handleRevokeInvite = async (invite: Invite) => {
+    try {
+      await revokeInvite(invite.inviteId, userId);
+      // Pending list updates automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error revoking invite:', error);
+      alert(error.message || 'Failed to revoke invite. Please try again.');
+    }
+  };
+
   const openAddActivityModal = (dayId: string, dayTitle: string) => {
     setSelectedDayId(dayId);
     setSelectedDayTitle(dayTitle);
@@ -86,6 +429,7 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
       setEditingActivityDayId(null);
     } catch (error) {
       console.error('Error updating activity:', error);
+      showConflict(error);
       throw error;
     }
   };
@@ -97,6 +441,121 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
     setShowEditActivityModal(true);
   };
 
+  const handleCopyActivityLink = async (activity: Activity, activityDayId: string) => {
+    try {
+      await navigator.clipboard.writeText(
+        routeUrl({ name: 'trip', tripId, dayId: activityDayId, activityId: activity.activityId })
+      );
+      setCopiedActivityId(activity.activityId);
+    } catch (error) {
+      console.error('Error copying activity link:', error);
+    }
+  };
+
+  const handleMoveActivity = async (activity: Activity, fromDayId: string, to: ActivityPlacement) => {
+    try {
+      await moveActivity(tripId, fromDayId, activity.activityId, to, userId);
+      // Trip updates automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error moving activity:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        showConflict(error);
+      } else {
+        alert(error.message || 'Failed to move activity. Please try again.');
+      }
+    }
+  };
+
+  // Keyboard alternative to dragging: one step up or down within the day
+  const handleShiftActivity = (day: Day, activity: Activity, step: -1 | 1) => {
+    const index = day.activities.findIndex((a) => a.activityId === activity.activityId) + step;
+    if (index < 0 || index >= day.activities.length) return;
+    handleMoveActivity(activity, day.dayId, { dayId: day.dayId, index });
+  };
+
+  // Dropped on a card: goes before it. Dropped elsewhere on the day: goes at the end
+  const handleDropActivity = (day: Day, before?: Activity) => {
+    const dragged = draggedActivity;
+    setDraggedActivity(null);
+    setDropDayId(null);
+    if (!dragged || dragged.activity.activityId === before?.activityId) return;
+    if (dragged.dayId === day.dayId && day.sortByTime) return;
+
+    const others = day.activities.filter((a) => a.activityId !== dragged.activity.activityId);
+    const index = before ? others.findIndex((a) => a.activityId === before.activityId) : undefined;
+    handleMoveActivity(dragged.activity, dragged.dayId, { dayId: day.dayId, index });
+  };
+
+  // Thrown errors show in the modal
+  const handleMoveOrCopy = async (toDayId: string, mode: 'move' | 'copy') => {
+    if (!movingActivity || !trip) return;
+    const { activity, dayId: fromDayId } = movingActivity;
+    try {
+      if (mode === 'move') {
+        await moveActivity(tripId, fromDayId, activity.activityId, { dayId: toDayId }, userId);
+      } else {
+        // A copy on the same day goes right after the original
+        const position = trip.days
+          .find((day) => day.dayId === fromDayId)
+          ?.activities.findIndex((a) => a.activityId === activity.activityId) ?? -1;
+        const index = toDayId === fromDayId && position >= 0 ? position + 1 : undefined;
+        await copyActivity(tripId, fromDayId, activity.activityId, { dayId: toDayId, index }, userId);
+      }
+      // Trip updates automatically via real-time subscription
+    } catch (error) {
+      console.error(`Error ${mode === 'move' ? 'moving' : 'copying'} activity:`, error);
+      showConflict(error);
+      throw error;
+    }
+  };
+
+  const handleToggleSortByTime = async (day: Day) => {
+    try {
+      await setDaySortByTime(tripId, day.dayId, !day.sortByTime, userId);
+      // Trip updates automatically via real-time subscription
+    } catch (error: any) {
+      console.error('Error changing day order:', error);
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        showConflict(error);
+      } else {
+        alert(error.message || 'Failed to change the order. Please try again.');
+      }
+    }
+  };
+
+  // Undo and restore refuse (and say why) when someone changed the same things since
+  const handleHistoryError = (error: any, fallback: string) => {
+    if (
+      error instanceof ChangeHistoryError ||
+      error instanceof TripConflictError ||
+      error instanceof PermissionDeniedError
+    ) {
+      setConflictMessage(error.message);
+    } else {
+      alert(error.message || fallback);
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      await undoLastChange(tripId, userId);
+      // Trip and feed update automatically via real-time subscriptions
+    } catch (error: any) {
+      console.error('Error undoing change:', error);
+      handleHistoryError(error, 'Failed to undo. Please try again.');
+    }
+  };
+
+  const handleRestore = async (change: TripChange) => {
+    try {
+      await restoreFromHistory(tripId, change.changeId, userId);
+      // Trip and feed update automatically via real-time subscriptions
+    } catch (error: any) {
+      console.error('Error restoring from history:', error);
+      handleHistoryError(error, 'Failed to restore. Please try again.');
+    }
+  };
+
   const openDeleteConfirm = (activity: Activity, dayId: string) => {
     setDeletingActivity({ activity, dayId });
     setShowDeleteConfirm(true);
@@ -107,7 +566,7 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
 
     setIsDeleting(true);
     try {
-      await removeActivity(tripId, deletingActivity.dayId, deletingActivity.activity.activityId);
+      await removeActivity(tripId, deletingActivity.dayId, deletingActivity.activity.activityId, userId);
       console.log('Deleted activity:', deletingActivity.activity.activityId);
 
       // Trip updates automatically via real-time subscription
@@ -115,7 +574,13 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
       setDeletingActivity(null);
     } catch (error) {
       console.error('Error deleting activity:', error);
-      alert('Failed to delete activity. Please try again.');
+      if (error instanceof TripConflictError || error instanceof PermissionDeniedError) {
+        setShowDeleteConfirm(false);
+        setDeletingActivity(null);
+        showConflict(error);
+      } else {
+        alert('Failed to delete activity. Please try again.');
+      }
     } finally {
       setIsDeleting(false);
     }
@@ -142,7 +607,57 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
     );
   }
 
-  const userRole = trip.participants.find((p) => p.userId === userId)?.role || 'viewer';
+  const canEdit = canPerform(trip, userId, 'edit');
+  const { timezone: tripTimeZone, currency: tripCurrency } = getTripSettings(trip);
+  const getDayDate = (dayId: string | null) => trip.days.find((day) => day.dayId === dayId)?.date;
+  const laterDayArrivals = getLaterDayArrivals(trip.days, tripTimeZone);
+  const lodging = trip.lodging ?? [];
+  const tripNights = new Set(getTripNights(trip.startDate, trip.endDate, tripTimeZone));
+  const uncoveredNights = getUncoveredNights(trip, tripTimeZone);
+  const findings = validateTrip(trip, tripTimeZone);
+  const tripStartDate = toCalendarDate(trip.startDate.toDate(), tripTimeZone);
+  const tripEndDate = toCalendarDate(trip.endDate.toDate(), tripTimeZone);
+  // In the trip's currency, with the original next to it when it was converted
+  const formatCost = (cost: Cost) => {
+    const converted = convertAmount(cost.amount, cost.currency, tripCurrency, exchangeRates);
+    return converted ? formatConvertedAmount(converted) : formatMoney(cost.amount, cost.currency);
+  };
+  // Limits an activity's or expense's cost would go over, for the warning in their modals
+  const checkBudget = (type: ActivityType, cost: Cost | undefined, editing: { activityId?: string; expenseId?: string } = {}) =>
+    getBudgetOverruns(trip, getTripSettings(trip), exchangeRates, { type, cost, ...editing });
+  const expenses = trip.expenses ?? [];
+  // New expenses default to today while the trip is on, else its first day
+  const today = toCalendarDate(new Date(), tripTimeZone);
+  const defaultExpenseDate = today >= tripStartDate && today <= tripEndDate ? today : tripStartDate;
+  const linkableActivities = trip.days.flatMap((day, index) =>
+    day.activities.map((activity) => ({
+      activityId: activity.activityId,
+      label: `${activity.title} · ${day.title || `Day ${index + 1}`}`,
+    }))
+  );
+  const getParticipantName = (participantId: string) =>
+    trip.participants.find((p) => p.userId === participantId)?.displayName ?? 'Former participant';
+  const formatNight = (calendarDate: string) =>
+    new Date(`${calendarDate}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+
+  // Where we sleep tonight; the last day has no night
+  const renderTonight = (calendarDate: string) => {
+    if (!tripNights.has(calendarDate)) return null;
+
+    const tonight = getLodgingForNight(lodging, calendarDate);
+    if (tonight.length === 0) {
+      return (
+        <p className="text-sm text-yellow-700 dark:text-yellow-300" data-testid="no-lodging-tonight">
+          ⚠️ No lodging booked for tonight
+        </p>
+      );
+    }
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400" data-testid="lodging-tonight">
+        🛏️ Tonight: {tonight.map((stay) => stay.name).join(' / ')}
+      </p>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -190,6 +705,28 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
                 )}
               </div>
 
+              {/* Calendar Export */}
+              <button
+                onClick={() => setShowCalendarModal(true)}
+                className="p-2 rounded-lg transition-colors bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                title="Add to Calendar"
+                data-testid="calendar-button"
+              >
+                📅
+              </button>
+
+              {/* Calendar Import */}
+              {canEdit && (
+                <button
+                  onClick={() => setShowCalendarImportModal(true)}
+                  className="p-2 rounded-lg transition-colors bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  title="Import from Calendar"
+                  data-testid="calendar-import-button"
+                >
+                  📥
+                </button>
+              )}
+
               {/* AI Chat Toggle */}
               {isAIConfigured() && (
                 <button
@@ -218,6 +755,24 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
 
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-4 py-8">
+        {/* Concurrent edit conflict */}
+        {conflictMessage && (
+          <div
+            className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 flex items-start justify-between"
+            role="alert"
+            data-testid="conflict-banner"
+          >
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">{conflictMessage}</p>
+            <button
+              onClick={() => setConflictMessage(null)}
+              className="ml-4 text-yellow-800 dark:text-yellow-200 hover:text-yellow-900 dark:hover:text-yellow-100"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
         {/* AI Chat */}
         {showAIChat && trip && user && (
           <div className="mb-6">
@@ -234,9 +789,20 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
 
         {/* Participants */}
         <div className="card mb-6">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-            Participants ({trip.participants.length})
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Participants ({trip.participants.length})
+            </h2>
+            {canManageParticipants && (
+              <button
+                onClick={() => setShowInviteModal(true)}
+                className="btn-secondary text-sm py-1 px-3"
+                data-testid="invite-button"
+              >
+                + Invite
+              </button>
+            )}
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
             {trip.participants.map((participant) => (
               <div
@@ -255,6 +821,114 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
               </div>
             ))}
           </div>
+
+          {pendingInvites.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700" data-testid="pending-invites">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Pending Invites ({pendingInvites.length})
+              </h3>
+              <ul className="space-y-2">
+                {pendingInvites.map((invite) => (
+                  <li key={invite.inviteId} className="flex items-center justify-between text-sm">
+                    <div>
+                      <p className="text-gray-900 dark:text-white">
+                        {invite.kind === 'phone' && invite.phoneNumber
+                          ? formatPhoneNumber(invite.phoneNumber)
+                          : `Invite link (${invite.useCount}/${invite.maxUses} used)`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {invite.role} · expires {invite.expiresAt.toDate().toLocaleDateString()}
+                      </p>
+                    </div>
+                    {(invite.role !== 'owner' || canPerform(trip, userId, 'manageOwners')) && (
+                      <button
+                        onClick={() => handleRevokeInvite(invite)}
+                        className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-xs"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Lodging */}
+        <div className="card mb-6" data-testid="lodging">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Lodging ({lodging.length})
+            </h2>
+            {canEdit && (
+              <button
+                onClick={() => openLodgingModal(null)}
+                className="btn-secondary text-sm py-1 px-3"
+                data-testid="add-lodging-button"
+              >
+                + Add Lodging
+              </button>
+            )}
+          </div>
+
+          {lodging.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">No lodging added yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {lodging.map((stay) => (
+                <li key={stay.lodgingId} className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">🏨 {stay.name}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatNight(stay.checkInDate)} → {formatNight(stay.checkOutDate)}
+                      {' · '}{countNights(stay)} {countNights(stay) === 1 ? 'night' : 'nights'}
+                    </p>
+                    {stay.location?.address && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">📍 {stay.location.address}</p>
+                    )}
+                    {stay.confirmationCode && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">🎫 Confirmation {stay.confirmationCode}</p>
+                    )}
+                    {stay.cost && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        💰 {formatCost(stay.cost)}
+                      </p>
+                    )}
+                    {stay.notes && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{stay.notes}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-3 text-sm">
+                      <button
+                        onClick={() => openLodgingModal(stay)}
+                        className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white font-medium"
+                      >
+                        ✏️ Edit
+                      </button>
+                      <button
+                        onClick={() => setDeletingLodging(stay)}
+                        className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
+                      >
+                        🗑️ Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {uncoveredNights.length > 0 && (
+            <p
+              className="mt-4 p-3 rounded-lg text-sm bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200"
+              data-testid="uncovered-nights"
+            >
+              ⚠️ No lodging for {uncoveredNights.length} {uncoveredNights.length === 1 ? 'night' : 'nights'}:{' '}
+              {uncoveredNights.map(formatNight).join(', ')}
+            </p>
+          )}
         </div>
 
         {/* Days and Activities */}
@@ -262,13 +936,35 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
           {trip.days.length === 0 ? (
             <div className="card text-center py-12">
               <p className="text-gray-500 dark:text-gray-400 mb-4">No days planned yet</p>
-              {(userRole === 'owner' || userRole === 'editor') && (
-                <button className="btn-primary">Add First Day</button>
+              {canEdit && (
+                <button
+                  onClick={handleSyncDays}
+                  className="btn-primary"
+                  disabled={isSyncingDays}
+                >
+                  {isSyncingDays ? 'Adding Days...' : 'Add Trip Days'}
+                </button>
               )}
             </div>
           ) : (
             trip.days.map((day, index) => (
-              <div key={day.dayId} className="card">
+              <div
+                key={day.dayId}
+                id={`day-${day.dayId}`}
+                className={`card transition-shadow ${dropDayId === day.dayId ? 'ring-2 ring-primary-400' : ''}`}
+                onDragOver={(e) => {
+                  if (!draggedActivity) return;
+                  e.preventDefault();
+                  setDropDayId(day.dayId);
+                }}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropDayId(null);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDropActivity(day);
+                }}
+              >
                 <div className="flex items-center justify-between mb-4">
                   <div>
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
@@ -277,25 +973,82 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
                     <p className="text-sm text-gray-500 dark:text-gray-400">
                       {day.date.toDate().toLocaleDateString()}
                     </p>
+                    {renderTonight(toCalendarDate(day.date.toDate(), tripTimeZone))}
                   </div>
-                  {(userRole === 'owner' || userRole === 'editor') && (
-                    <button
-                      onClick={() => openAddActivityModal(day.dayId, day.title || `Day ${index + 1}`)}
-                      className="text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300"
-                    >
-                      + Add Activity
-                    </button>
+                  {canEdit && (
+                    <div className="flex items-center gap-4">
+                      {day.activities.length > 1 && (
+                        <button
+                          onClick={() => handleToggleSortByTime(day)}
+                          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                          aria-pressed={!!day.sortByTime}
+                          title={day.sortByTime ? 'Activities are sorted by start time' : 'Activities are in the order you set'}
+                          data-testid="sort-by-time"
+                        >
+                          {day.sortByTime ? '🕒 By time' : '↕️ Manual order'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => openAddActivityModal(day.dayId, day.title || `Day ${index + 1}`)}
+                        className="text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300"
+                      >
+                        + Add Activity
+                      </button>
+                    </div>
                   )}
                 </div>
 
+                {/* Overnight flights landing today, listed in full on the day they left */}
+                {laterDayArrivals.get(day.dayId)?.map((activity) => (
+                  <button
+                    key={activity.activityId}
+                    onClick={() => document.getElementById(`activity-${activity.activityId}`)?.scrollIntoView({ behavior: 'smooth' })}
+                    className="block w-full text-left border-l-4 border-dashed border-primary-200 dark:border-primary-700 pl-4 py-2 mb-4"
+                    data-testid="arriving-flight"
+                  >
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      🛬 Arrives {toWallClockTimes(activity, tripTimeZone).endTime} {activity.flight?.destination.airport}
+                      {' · '}{activity.title}
+                    </p>
+                    {activity.flight && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatFlightRoute(activity.flight)}</p>
+                    )}
+                  </button>
+                ))}
+
                 {day.activities.length === 0 ? (
-                  <p className="text-gray-500 dark:text-gray-400 text-sm">No activities planned</p>
+                  !laterDayArrivals.has(day.dayId) && (
+                    <p className="text-gray-500 dark:text-gray-400 text-sm">No activities planned</p>
+                  )
                 ) : (
                   <div className="space-y-4">
-                    {day.activities.map((activity) => (
+                    {day.activities.map((activity, activityIndex) => (
                       <div
                         key={activity.activityId}
-                        className="border-l-4 border-primary-200 dark:border-primary-700 pl-4 py-2"
+                        id={`activity-${activity.activityId}`}
+                        className={`border-l-4 border-primary-200 dark:border-primary-700 pl-4 py-2 transition-colors ${
+                          highlightedActivityId === activity.activityId
+                            ? 'bg-primary-50 dark:bg-primary-900/30 rounded-r-lg'
+                            : ''
+                        } ${canEdit ? 'cursor-grab' : ''} ${
+                          draggedActivity?.activity.activityId === activity.activityId ? 'opacity-50' : ''
+                        }`}
+                        data-testid={highlightedActivityId === activity.activityId ? 'highlighted-activity' : undefined}
+                        draggable={canEdit}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          e.dataTransfer.setData('text/plain', activity.activityId);
+                          setDraggedActivity({ activity, dayId: day.dayId });
+                        }}
+                        onDragEnd={() => {
+                          setDraggedActivity(null);
+                          setDropDayId(null);
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          handleDropActivity(day, activity);
+                        }}
                       >
                         <div className="flex items-start justify-between">
                           <div className="flex-1">
@@ -304,9 +1057,36 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
                               <h4 className="font-medium text-gray-900 dark:text-white">{activity.title}</h4>
                             </div>
 
-                            {activity.startTime && (
+                            {getActivityFindings(findings, activity.activityId).map((finding, i) => (
+                              <p
+                                key={`${finding.kind}-${i}`}
+                                className={`text-sm ${
+                                  finding.severity === 'error'
+                                    ? 'text-red-600 dark:text-red-400'
+                                    : 'text-yellow-700 dark:text-yellow-300'
+                                }`}
+                                data-testid="schedule-finding"
+                              >
+                                {finding.severity === 'error' ? '⛔' : '⚠️'} {finding.message}
+                              </p>
+                            ))}
+
+                            {activity.flight && (
                               <p className="text-sm text-gray-600 dark:text-gray-400">
-                                ⏰ {activity.startTime}{activity.endTime ? ` - ${activity.endTime}` : ''}
+                                ✈️ {formatFlightRoute(activity.flight)}
+                                {activity.flight.carrier ? ` · ${activity.flight.carrier}` : ''}
+                              </p>
+                            )}
+
+                            {(activity.startTime || activity.endTime) && (
+                              <p className="text-sm text-gray-600 dark:text-gray-400">
+                                ⏰ {formatActivityTimes(activity, tripTimeZone)}
+                              </p>
+                            )}
+
+                            {activity.flight && formatFlightDetails(activity.flight) && (
+                              <p className="text-sm text-gray-600 dark:text-gray-400">
+                                🎫 {formatFlightDetails(activity.flight)}
                               </p>
                             )}
 
@@ -318,7 +1098,7 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
 
                             {activity.cost && (
                               <p className="text-sm text-gray-600 dark:text-gray-400">
-                                💰 ${activity.cost.amount} {activity.cost.currency}
+                                💰 {formatCost(activity.cost)}
                               </p>
                             )}
 
@@ -333,7 +1113,13 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
                               <button className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium">
                                 💬 Coordinate
                               </button>
-                              {(userRole === 'owner' || userRole === 'editor') && (
+                              <button
+                                onClick={() => handleCopyActivityLink(activity, day.dayId)}
+                                className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white font-medium"
+                              >
+                                {copiedActivityId === activity.activityId ? '✓ Copied' : '🔗 Link'}
+                              </button>
+                              {canEdit && (
                                 <>
                                   <button
                                     onClick={() => openEditActivityModal(activity, day.dayId, day.title || `Day ${index + 1}`)}
@@ -341,12 +1127,38 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
                                   >
                                     ✏️ Edit
                                   </button>
+                                  <button
+                                    onClick={() => setMovingActivity({ activity, dayId: day.dayId })}
+                                    className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white font-medium"
+                                  >
+                                    📅 Move
+                                  </button>
                                   <button
                                     onClick={() => openDeleteConfirm(activity, day.dayId)}
                                     className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
                                   >
                                     🗑️ Delete
                                   </button>
+                                  {!day.sortByTime && day.activities.length > 1 && (
+                                    <span className="flex items-center gap-1">
+                                      <button
+                                        onClick={() => handleShiftActivity(day, activity, -1)}
+                                        disabled={activityIndex === 0}
+                                        className="px-1 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                                        aria-label={`Move ${activity.title} up`}
+                                      >
+                                        ↑
+                                      </button>
+                                      <button
+                                        onClick={() => handleShiftActivity(day, activity, 1)}
+                                        disabled={activityIndex === day.activities.length - 1}
+                                        className="px-1 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                                        aria-label={`Move ${activity.title} down`}
+                                      >
+                                        ↓
+                                      </button>
+                                    </span>
+                                  )}
                                 </>
                               )}
                             </div>
@@ -361,26 +1173,110 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
           )}
         </div>
 
-        {/* Cost Summary */}
-        {trip.days.some((d) => d.activities.some((a) => a.cost)) && (
-          <div className="card mt-6">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Cost Summary</h2>
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">Total</span>
-                <span className="font-semibold text-gray-900 dark:text-white">
-                  ${calculateTotalCost(trip)} USD
-                </span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-500 dark:text-gray-400">Per person</span>
-                <span className="text-gray-700 dark:text-gray-300">
-                  ${(calculateTotalCost(trip) / trip.participants.length).toFixed(2)}
-                </span>
-              </div>
-            </div>
+        {/* Expenses */}
+        <div className="card mt-6" data-testid="expenses">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Expenses ({expenses.length})
+            </h2>
+            {canEdit && (
+              <button
+                onClick={() => openExpenseModal(null)}
+                className="btn-secondary text-sm py-1 px-3"
+                data-testid="add-expense-button"
+              >
+                + Add Expense
+              </button>
+            )}
           </div>
-        )}
+
+          {expenses.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">
+              No expenses yet. Add spending that isn't an activity, like groceries, fuel or tips.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {expenses.map((expense) => (
+                <li key={expense.expenseId} className="flex items-start justify-between" data-testid="expense">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">🧾 {expense.description}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatNight(expense.date)} · {getBudgetCategoryLabel(expense.category)}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      💰 {formatCost(expense.cost)}
+                      {expense.cost.paidBy && ` · paid by ${expense.cost.paidBy === userId ? 'you' : getParticipantName(expense.cost.paidBy)}`}
+                    </p>
+                    {expense.activityId && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        🔗 {linkableActivities.find((a) => a.activityId === expense.activityId)?.label ?? 'Removed activity'}
+                      </p>
+                    )}
+                    {expense.receipts.length > 0 && (
+                      <p className="text-sm">
+                        {expense.receipts.map((receipt, index) => (
+                          <a
+                            key={`${receipt.url}-${index}`}
+                            href={receipt.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="mr-3 text-primary-600 dark:text-primary-400 hover:underline"
+                          >
+                            📎 {receipt.fileName}
+                          </a>
+                        ))}
+                      </p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-3 text-sm">
+                      <button
+                        onClick={() => openExpenseModal(expense)}
+                        className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white font-medium"
+                      >
+                        ✏️ Edit
+                      </button>
+                      <button
+                        onClick={() => setDeletingExpense(expense)}
+                        className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
+                      >
+                        🗑️ Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Cost Summary */}
+        <CostSummary
+          trip={trip}
+          userId={userId}
+          exchangeRates={exchangeRates}
+          onRecordSettlement={handleRecordSettlement}
+          onRemoveSettlement={handleRemoveSettlement}
+          onSetExchangeRate={handleSetExchangeRate}
+          onRemoveExchangeRate={handleRemoveExchangeRate}
+        />
+
+        {/* Budget */}
+        <BudgetView
+          trip={trip}
+          userId={userId}
+          exchangeRates={exchangeRates}
+          onEdit={() => setShowBudgetModal(true)}
+        />
+
+        {/* Change History */}
+        <ChangeFeed
+          trip={trip}
+          changes={changes}
+          userId={userId}
+          onUndo={handleUndo}
+          onRestore={handleRestore}
+        />
       </main>
 
       {/* Add Activity Modal */}
@@ -393,6 +1289,11 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
         }}
         onSubmit={handleAddActivity}
         dayTitle={selectedDayTitle}
+        dayDate={getDayDate(selectedDayId)}
+        tripTimeZone={tripTimeZone}
+        defaultCurrency={tripCurrency}
+        participants={trip.participants}
+        checkBudget={(type, cost) => checkBudget(type, cost)}
       />
 
       {/* Edit Activity Modal */}
@@ -407,9 +1308,123 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
           onSubmit={handleEditActivity}
           activity={editingActivity}
           dayTitle={selectedDayTitle}
+          dayDate={getDayDate(editingActivityDayId)}
+          tripTimeZone={tripTimeZone}
+          defaultCurrency={tripCurrency}
+          participants={trip.participants}
+          checkBudget={(type, cost) => checkBudget(type, cost, { activityId: editingActivity.activityId })}
         />
       )}
 
+      {/* Move or Copy Activity */}
+      {movingActivity && (
+        <MoveActivityModal
+          isOpen={movingActivity !== null}
+          onClose={() => setMovingActivity(null)}
+          onSubmit={handleMoveOrCopy}
+          activityTitle={movingActivity.activity.title}
+          currentDayId={movingActivity.dayId}
+          days={trip.days.map((day, index) => ({
+            dayId: day.dayId,
+            label: `${day.title || `Day ${index + 1}`} · ${day.date.toDate().toLocaleDateString()}`,
+          }))}
+        />
+      )}
+
+      {/* Invite Participants */}
+      <InviteModal
+        isOpen={showInviteModal}
+        onClose={() => setShowInviteModal(false)}
+        tripId={tripId}
+        userId={userId}
+        canInviteOwners={canPerform(trip, userId, 'manageOwners')}
+      />
+
+      {/* Add or Edit Lodging */}
+      <LodgingModal
+        isOpen={showLodgingModal}
+        onClose={() => {
+          setShowLodgingModal(false);
+          setEditingLodging(null);
+        }}
+        onSubmit={handleSaveLodging}
+        lodging={editingLodging ?? undefined}
+        tripStartDate={tripStartDate}
+        tripEndDate={tripEndDate}
+        defaultCurrency={tripCurrency}
+        participants={trip.participants}
+      />
+
+      {/* Add or Edit Expense */}
+      <ExpenseModal
+        isOpen={showExpenseModal}
+        onClose={() => {
+          setShowExpenseModal(false);
+          setEditingExpense(null);
+        }}
+        onSubmit={handleSaveExpense}
+        expense={editingExpense ?? undefined}
+        defaultDate={defaultExpenseDate}
+        defaultCurrency={tripCurrency}
+        participants={trip.participants}
+        activities={linkableActivities}
+        checkBudget={(category, cost) => checkBudget(category, cost, { expenseId: editingExpense?.expenseId })}
+      />
+
+      {/* Trip Budget */}
+      <BudgetModal
+        isOpen={showBudgetModal}
+        onClose={() => setShowBudgetModal(false)}
+        onSubmit={handleSetBudget}
+        budget={getTripSettings(trip).budget}
+        currency={tripCurrency}
+      />
+
+      {/* Calendar Export and Feed */}
+      <CalendarModal
+        isOpen={showCalendarModal}
+        onClose={() => setShowCalendarModal(false)}
+        trip={trip}
+        userId={userId}
+      />
+
+      {/* Calendar Import */}
+      <CalendarImportModal
+        isOpen={showCalendarImportModal}
+        onClose={() => setShowCalendarImportModal(false)}
+        onSubmit={handleImportActivities}
+        trip={trip}
+        tripTimeZone={tripTimeZone}
+      />
+
+      {/* Delete Lodging Confirmation */}
+      <ConfirmDialog
+        isOpen={deletingLodging !== null}
+        onClose={() => setDeletingLodging(null)}
+        onConfirm={handleDeleteLodging}
+        title="Delete Lodging"
+        message={
+          <p>Are you sure you want to delete <strong>{deletingLodging?.name}</strong>?</p>
+        }
+        confirmText="Delete Lodging"
+        variant="danger"
+        isProcessing={isDeletingLodging}
+      />
+
+      {/* Delete Expense Confirmation */}
+      <ConfirmDialog
+        isOpen={deletingExpense !== null}
+        onClose={() => setDeletingExpense(null)}
+        onConfirm={handleDeleteExpense}
+        title="Delete Expense"
+        message={
+          <p>Are you sure you want to delete <strong>{deletingExpense?.description}</strong>?</p>
+        }
+        confirmText="Delete Expense"
+        variant="danger"
+        isProcessing={isDeletingExpense}
+      />
+
       {/* Delete Activity Confirmation */}
       <ConfirmDialog
         isOpen={showDeleteConfirm}
@@ -423,7 +1438,7 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
           <div>
             <p className="mb-2">Are you sure you want to delete <strong>{deletingActivity?.activity.title}</strong>?</p>
             <p className="text-sm text-gray-600 dark:text-gray-400">
-              This action cannot be undone.
+              You can undo this from Recent Changes.
             </p>
           </div>
         }
@@ -434,27 +1449,3 @@ export default function TripDetail({ tripId, userId, onBack }: TripDetailProps)
     </div>
   );
 }
-
-function getActivityIcon(type: string): string {
-  const icons: Record<string, string> = {
-    flight: '✈️',
-    hotel: '🏨',
-    restaurant: '🍽️',
-    attraction: '🎯',
-    transport: '🚗',
-    other: '📌',
-  };
-  return icons[type] || '📌';
-}
-
-function calculateTotalCost(trip: Trip): number {
-  let total = 0;
-  trip.days.forEach((day) => {
-    day.activities.forEach((activity) => {
-      if (activity.cost) {
-        total += activity.cost.amount;
-      }
-    });
-  });
-  return total;
-}
@@ -1,5 +1,9 @@
 import { getAI, getGenerativeModel } from 'firebase/ai';
-import { app } from '../config/firebase';
+import { getFirebaseApp } from '../config/firebase';
+import { getTripSettings } from './trip.service';
+import { formatActivityTimes, formatFlightRoute } from '../utils/activities';
+import { validateTrip } from '../utils/schedule';
+import { formatMoney } from '../utils/currency';
 import type { Trip, User, Activity } from '../types';
 
 /**
@@ -16,7 +20,7 @@ let aiInstance: ReturnType<typeof getAI> | null = null;
 function initAI() {
   if (!aiInstance) {
     try {
-      aiInstance = getAI(app);
+      aiInstance = getAI(getFirebaseApp());
     } catch (error) {
       console.warn('Firebase AI Logic not configured. Enable it in Firebase Console > AI tab');
     }
@@ -46,12 +50,16 @@ function getModel() {
 function buildTripContext(trip: Trip, currentUser: User): string {
   const userParticipant = trip.participants.find(p => p.userId === currentUser.userId);
   const role = userParticipant?.role || 'viewer';
+  const { timezone: timeZone, currency } = getTripSettings(trip);
+  const formatDate = (date: Trip['startDate']) => date.toDate().toLocaleDateString(undefined, { timeZone });
 
   let context = `You are an AI assistant helping with trip planning and coordination.
 
 CURRENT TRIP:
 - Title: ${trip.title}
-- Dates: ${trip.startDate.toDate().toLocaleDateString()} to ${trip.endDate.toDate().toLocaleDateString()}
+- Dates: ${formatDate(trip.startDate)} to ${formatDate(trip.endDate)}
+- Time zone: ${timeZone} (times below are local to it unless another zone is named)
+- Currency: ${currency} (costs below are in the currency shown with them)
 - Description: ${trip.description || 'No description'}
 - Participants: ${trip.participants.length} people
 - Your role: ${role}
@@ -65,36 +73,50 @@ TRIP DAYS:
 `;
 
   trip.days.forEach((day, index) => {
-    context += `\nDay ${index + 1} (${day.date.toDate().toLocaleDateString()}):\n`;
+    context += `\nDay ${index + 1} (${formatDate(day.date)}):\n`;
     if (day.activities.length === 0) {
       context += '  No activities planned\n';
     } else {
       day.activities.forEach((activity) => {
         context += `  - ${activity.title} (${activity.type})`;
-        if (activity.startTime) {
-          // Handle both string times (e.g., "09:30") and Timestamp objects
-          const timeStr = typeof activity.startTime === 'string'
-            ? activity.startTime
-            : activity.startTime.toDate().toLocaleTimeString();
-          context += ` at ${timeStr}`;
-          if (activity.endTime) {
-            const endTimeStr = typeof activity.endTime === 'string'
-              ? activity.endTime
-              : activity.endTime.toDate().toLocaleTimeString();
-            context += ` - ${endTimeStr}`;
-          }
+        if (activity.flight) {
+          context += ` ${formatFlightRoute(activity.flight)}`;
+        }
+        const times = formatActivityTimes(activity, timeZone);
+        if (times) {
+          context += ` at ${times}`;
         }
         if (activity.location) {
           context += ` @ ${activity.location.name}`;
         }
         if (activity.cost) {
-          context += ` - $${activity.cost.amount} ${activity.cost.currency}`;
+          context += ` - ${formatMoney(activity.cost.amount, activity.cost.currency)}`;
         }
         context += '\n';
       });
     }
   });
 
+  context += '\nLODGING:\n';
+  if (!trip.lodging?.length) {
+    context += '  None booked yet\n';
+  }
+  trip.lodging?.forEach((stay) => {
+    context += `  - ${stay.name}, check-in ${stay.checkInDate}, check-out ${stay.checkOutDate}`;
+    if (stay.location?.address) {
+      context += ` @ ${stay.location.address}`;
+    }
+    context += '\n';
+  });
+
+  const findings = validateTrip(trip, timeZone);
+  if (findings.length > 0) {
+    context += '\nSCHEDULE ISSUES:\n';
+    findings.forEach((finding) => {
+      context += `  - ${finding.severity === 'error' ? 'Error' : 'Warning'}: ${finding.message}\n`;
+    });
+  }
+
   context += `\nYOUR CAPABILITIES:
 - Answer questions about the trip
 - Help coordinate logistics (rides, lodging, etc.)
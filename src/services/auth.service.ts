@@ -7,20 +7,86 @@ import {
   onAuthStateChanged,
   User as FirebaseUser,
 } from 'firebase/auth';
-import { auth } from '../config/firebase';
+import { getFirebaseAuth } from '../config/firebase';
+import { AuthError, AuthErrorCode } from './errors';
+import { isValidE164 } from '../utils/phone';
 
 /**
  * Authentication Service
  * Handles phone number authentication with Firebase Auth
  */
 
+/**
+ * Seconds the user has to wait before requesting another SMS code
+ */
+export const RESEND_COOLDOWN_SECONDS = 30;
+
+/**
+ * Firebase Auth error codes and what the user should be told
+ */
+const AUTH_ERRORS: Record<string, { code: AuthErrorCode; message: string }> = {
+  'auth/invalid-phone-number': {
+    code: 'invalid-phone-number',
+    message: 'That phone number is not valid. Include the country code, e.g. +1 415 555 0100.',
+  },
+  'auth/missing-phone-number': {
+    code: 'invalid-phone-number',
+    message: 'Enter your phone number.',
+  },
+  'auth/invalid-verification-code': {
+    code: 'invalid-code',
+    message: 'That code is not correct. Check the SMS and try again.',
+  },
+  'auth/missing-verification-code': {
+    code: 'invalid-code',
+    message: 'Enter the 6-digit code from the SMS.',
+  },
+  'auth/code-expired': {
+    code: 'code-expired',
+    message: 'That code has expired. Request a new one.',
+  },
+  'auth/session-expired': {
+    code: 'code-expired',
+    message: 'That code has expired. Request a new one.',
+  },
+  'auth/too-many-requests': {
+    code: 'too-many-requests',
+    message: 'Too many attempts. Wait a few minutes before trying again.',
+  },
+  'auth/quota-exceeded': {
+    code: 'too-many-requests',
+    message: 'We can\'t send more codes right now. Try again later.',
+  },
+  'auth/captcha-check-failed': {
+    code: 'captcha-failed',
+    message: 'Verification failed. Reload the page and try again.',
+  },
+  'auth/network-request-failed': {
+    code: 'network',
+    message: 'Network error. Check your connection and try again.',
+  },
+};
+
+/**
+ * Translate a Firebase Auth error into an AuthError
+ * @param error - Error thrown by the Firebase Auth SDK
+ * @param fallback - Message for codes we don't recognize
+ */
+function toAuthError(error: any, fallback: string): AuthError {
+  const known = AUTH_ERRORS[error?.code];
+  if (known) {
+    return new AuthError(known.code, known.message, error.code);
+  }
+  return new AuthError('unknown', `${fallback}: ${error?.message ?? error}`, error?.code);
+}
+
 /**
  * Initialize reCAPTCHA verifier for phone authentication
  * @param containerId - ID of the HTML element to render reCAPTCHA
  * @returns RecaptchaVerifier instance
  */
 export function initRecaptchaVerifier(containerId: string): RecaptchaVerifier {
-  return new RecaptchaVerifier(auth, containerId, {
+  return new RecaptchaVerifier(getFirebaseAuth(), containerId, {
     size: 'invisible',
     callback: () => {
       // reCAPTCHA solved, allow phone auth
@@ -34,24 +100,30 @@ export function initRecaptchaVerifier(containerId: string): RecaptchaVerifier {
 
 /**
  * Send SMS verification code to phone number
+ * Against the Auth emulator no SMS is sent; the code appears in the emulator log and UI.
  * @param phoneNumber - Phone number in E.164 format (+1234567890)
  * @param appVerifier - reCAPTCHA verifier
  * @returns ConfirmationResult to verify the code
+ * @throws AuthError with a user-facing message
  */
 export async function sendVerificationCode(
   phoneNumber: string,
   appVerifier: ApplicationVerifier
 ): Promise<ConfirmationResult> {
+  if (!isValidE164(phoneNumber)) {
+    throw new AuthError('invalid-phone-number', AUTH_ERRORS['auth/invalid-phone-number'].message);
+  }
+
   try {
     const confirmationResult = await signInWithPhoneNumber(
-      auth,
+      getFirebaseAuth(),
       phoneNumber,
       appVerifier
     );
     return confirmationResult;
   } catch (error: any) {
     console.error('Error sending verification code:', error);
-    throw new Error(`Failed to send verification code: ${error.message}`);
+    throw toAuthError(error, 'Failed to send verification code');
   }
 }
 
@@ -60,6 +132,7 @@ export async function sendVerificationCode(
  * @param confirmationResult - Result from sendVerificationCode
  * @param verificationCode - 6-digit code from SMS
  * @returns Firebase user credentials
+ * @throws AuthError with a user-facing message
  */
 export async function verifyCode(
   confirmationResult: ConfirmationResult,
@@ -70,7 +143,7 @@ export async function verifyCode(
     return userCredential;
   } catch (error: any) {
     console.error('Error verifying code:', error);
-    throw new Error(`Invalid verification code: ${error.message}`);
+    throw toAuthError(error, 'Invalid verification code');
   }
 }
 
@@ -79,7 +152,7 @@ export async function verifyCode(
  */
 export async function signOut(): Promise<void> {
   try {
-    await firebaseSignOut(auth);
+    await firebaseSignOut(getFirebaseAuth());
   } catch (error: any) {
     console.error('Error signing out:', error);
     throw new Error(`Failed to sign out: ${error.message}`);
@@ -91,7 +164,7 @@ export async function signOut(): Promise<void> {
  * @returns Current Firebase user or null
  */
 export function getCurrentUser(): FirebaseUser | null {
-  return auth.currentUser;
+  return getFirebaseAuth().currentUser;
 }
 
 /**
@@ -102,7 +175,7 @@ export function getCurrentUser(): FirebaseUser | null {
 export function onAuthStateChange(
   callback: (user: FirebaseUser | null) => void
 ): () => void {
-  return onAuthStateChanged(auth, callback);
+  return onAuthStateChanged(getFirebaseAuth(), callback);
 }
 
 /**
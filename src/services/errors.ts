@@ -0,0 +1,221 @@
+/**
+ * Service Errors
+ * Typed errors thrown by the services layer so the UI can react to them
+ */
+import type { ScheduleFinding } from '../types';
+
+/**
+ * Base class for typed service errors
+ * Services rethrow these as-is instead of wrapping them in "Failed to ..."
+ */
+export class ServiceError extends Error {}
+
+/**
+ * Thrown when a trip mutation keeps losing to concurrent edits
+ * and the transaction gives up after its retry budget
+ */
+export class TripConflictError extends ServiceError {
+  readonly tripId: string;
+  readonly attempts: number;
+
+  constructor(tripId: string, attempts: number) {
+    super(
+      'Someone else changed this trip at the same time. Your change was not saved - please try again.'
+    );
+    this.name = 'TripConflictError';
+    this.tripId = tripId;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * A day that would fall outside the trip's dates but still has activities
+ */
+export interface OutOfRangeDay {
+  dayId: string;
+  date: string;                // YYYY-MM-DD in the trip's time zone
+  title?: string;
+  activityCount: number;
+}
+
+/**
+ * Thrown when new trip dates would drop days that still have activities
+ * Nothing is written; the user has to move or delete those activities first
+ */
+export class DaysOutOfRangeError extends ServiceError {
+  readonly days: OutOfRangeDay[];
+
+  constructor(days: OutOfRangeDay[]) {
+    const labels = days.map((day) =>
+      `${day.title || day.date} (${day.activityCount} ${day.activityCount === 1 ? 'activity' : 'activities'})`
+    );
+    super(
+      `These days fall outside the new trip dates but still have activities: ${labels.join(', ')}. Move or delete those activities first.`
+    );
+    this.name = 'DaysOutOfRangeError';
+    this.days = days;
+  }
+}
+
+/**
+ * Lodging whose nights would fall outside the trip's dates
+ */
+export interface OutOfRangeLodging {
+  lodgingId: string;
+  name: string;
+  checkInDate: string;         // YYYY-MM-DD
+  checkOutDate: string;        // YYYY-MM-DD
+}
+
+/**
+ * Thrown when lodging would start before the trip or check out after it ends,
+ * either because of the lodging's own dates or because the trip's dates changed
+ * Nothing is written
+ */
+export class LodgingOutOfRangeError extends ServiceError {
+  readonly lodging: OutOfRangeLodging[];
+  readonly tripStartDate: string;    // YYYY-MM-DD
+  readonly tripEndDate: string;      // YYYY-MM-DD
+
+  constructor(lodging: OutOfRangeLodging[], tripStartDate: string, tripEndDate: string) {
+    const labels = lodging.map((stay) => `${stay.name} (${stay.checkInDate} to ${stay.checkOutDate})`);
+    super(
+      `Lodging must be within the trip dates (${tripStartDate} to ${tripEndDate}): ${labels.join(', ')}.`
+    );
+    this.name = 'LodgingOutOfRangeError';
+    this.lodging = lodging;
+    this.tripStartDate = tripStartDate;
+    this.tripEndDate = tripEndDate;
+  }
+}
+
+/**
+ * Thrown when an activity's times can't be right: ending before it starts,
+ * or starting outside the trip's dates (see validateActivity in utils/schedule.ts)
+ * Nothing is written
+ */
+export class ScheduleValidationError extends ServiceError {
+  readonly findings: ScheduleFinding[];
+
+  constructor(findings: ScheduleFinding[]) {
+    super(findings.map((finding) => finding.message).join(' '));
+    this.name = 'ScheduleValidationError';
+    this.findings = findings;
+  }
+}
+
+/**
+ * Why a change from the trip's history can't be undone or restored
+ */
+export type ChangeHistoryErrorCode =
+  | 'nothing-to-undo'
+  | 'not-undoable'
+  | 'changed-since'
+  | 'not-restorable'
+  | 'already-exists'
+  | 'day-missing';
+
+/**
+ * Thrown by undoLastChange and restoreFromHistory
+ * Nothing is written
+ */
+export class ChangeHistoryError extends ServiceError {
+  readonly changeId: string | null;
+  readonly code: ChangeHistoryErrorCode;
+
+  constructor(changeId: string | null, code: ChangeHistoryErrorCode, message: string) {
+    super(message);
+    this.name = 'ChangeHistoryError';
+    this.changeId = changeId;
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when the user's role on a trip doesn't allow the change
+ * Checked before writing; firestore.rules enforces the same matrix server-side
+ */
+export class PermissionDeniedError extends ServiceError {
+  readonly tripId: string;
+  readonly userId: string;
+  readonly action: string;
+
+  constructor(tripId: string, userId: string, action: string, message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+    this.tripId = tripId;
+    this.userId = userId;
+    this.action = action;
+  }
+}
+
+/**
+ * Phone sign-in failures the user can act on
+ */
+export type AuthErrorCode =
+  | 'invalid-phone-number'
+  | 'invalid-code'
+  | 'code-expired'
+  | 'too-many-requests'
+  | 'captcha-failed'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Thrown by the auth service with a user-facing message
+ * The original Firebase error code (e.g. auth/code-expired) is kept for logging
+ */
+export class AuthError extends ServiceError {
+  readonly code: AuthErrorCode;
+  readonly firebaseCode?: string;
+
+  constructor(code: AuthErrorCode, message: string, firebaseCode?: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.firebaseCode = firebaseCode;
+  }
+}
+
+/**
+ * Why an invite can't be used
+ */
+export type InviteErrorCode =
+  | 'not-found'
+  | 'expired'
+  | 'revoked'
+  | 'used-up'
+  | 'declined'
+  | 'wrong-recipient'
+  | 'already-member';
+
+/**
+ * Thrown when accepting, declining or creating an invite isn't possible
+ */
+export class InviteError extends ServiceError {
+  readonly inviteId: string | null;
+  readonly code: InviteErrorCode;
+
+  constructor(inviteId: string | null, code: InviteErrorCode, message: string) {
+    super(message);
+    this.name = 'InviteError';
+    this.inviteId = inviteId;
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when a file can't be imported as a trip (see validateTripExport in utils/exports.ts)
+ * Nothing is written
+ */
+export class InvalidTripExportError extends ServiceError {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    const shown = problems.slice(0, 3).join('; ');
+    const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+    super(`This file can't be imported as a trip: ${shown}${more}`);
+    this.name = 'InvalidTripExportError';
+    this.problems = problems;
+  }
+}
@@ -3,6 +3,12 @@
  * All business logic and Firestore operations
  */
 
+// Typed service errors
+export * from './errors';
+
+// Role checks
+export * from './permissions';
+
 // Authentication
 export * from './auth.service';
 
@@ -12,5 +18,24 @@ export * from './user.service';
 // Trip management
 export * from './trip.service';
 
+// Trip invitations
+export * from './invite.service';
+
 // Presence tracking
 export * from './presence.service';
+
+// Trip templates
+export * from './template.service';
+
+// Exchange rates
+export * from './rates.service';
+
+
+// Storage backends
+export {
+  getPersistence,
+  setPersistence,
+  createFirestorePersistence,
+  createMemoryPersistence,
+} from './persistence';
+export type { Persistence, MemoryPersistenceOptions } from './persistence';
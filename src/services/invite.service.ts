@@ -0,0 +1,330 @@
+import { Timestamp } from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
+import { getPersistence } from './persistence';
+import type { NewInviteDocument } from './persistence';
+import { addParticipant } from './trip.service';
+import { getUser } from './user.service';
+import { ServiceError, InviteError } from './errors';
+import { assertCanPerform, assertInviteUsable } from './permissions';
+import { normalizePhoneNumber } from '../utils/phone';
+import { routeUrl } from '../utils/routes';
+import type {
+  Invite,
+  TripDocument,
+  ParticipantRole,
+  CreatePhoneInviteInput,
+  CreateInviteLinkInput,
+} from '../types';
+
+/**
+ * Invite Service
+ * Invitations to join a trip, by phone number or by link
+ *
+ * Phone invites wait for that number to sign in and show up on its dashboard.
+ * Link invites carry their ID as a secret token: /invite/{inviteId}.
+ * Accepting goes through trip.service addParticipant, which adds the trip to
+ * the user's tripIds and records the use on the invite.
+ */
+
+const PHONE_INVITE_EXPIRY_DAYS = 30;
+const LINK_INVITE_EXPIRY_DAYS = 7;
+const MAX_INVITE_EXPIRY_DAYS = 90;
+const DEFAULT_LINK_MAX_USES = 10;
+const MAX_LINK_USES = 100;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiry time a number of days from now
+ * @throws Error if the number of days is out of range
+ */
+function expiresIn(days: number): Timestamp {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_INVITE_EXPIRY_DAYS) {
+    throw new Error(`Invites must expire within 1 to ${MAX_INVITE_EXPIRY_DAYS} days`);
+  }
+  return Timestamp.fromMillis(Date.now() + days * MS_PER_DAY);
+}
+
+/**
+ * Load a trip and check the actor may invite someone with a role
+ * Inviting an owner needs the same permission as adding one
+ * @throws PermissionDeniedError
+ */
+async function getTripForInviting(
+  tripId: string,
+  actorId: string,
+  role: ParticipantRole
+): Promise<TripDocument> {
+  const trip = await getPersistence().trips.getTrip(tripId);
+  if (!trip || trip.trash) {
+    throw new Error('Trip not found');
+  }
+  assertCanPerform(trip, actorId, 'manageParticipants');
+  if (role === 'owner') {
+    assertCanPerform(trip, actorId, 'manageOwners');
+  }
+  return trip;
+}
+
+/**
+ * Fields every new invite starts with
+ */
+function baseInvite(
+  inviteId: string,
+  trip: TripDocument,
+  actorId: string,
+  role: ParticipantRole,
+  expiresAt: Timestamp
+): NewInviteDocument {
+  const inviter = trip.participants.find((p) => p.userId === actorId);
+  return {
+    inviteId,
+    tripId: trip.tripId,
+    tripTitle: trip.title,
+    kind: 'link',
+    role,
+    invitedBy: actorId,
+    invitedByName: inviter?.displayName ?? '',
+    status: 'pending',
+    expiresAt,
+    maxUses: 1,
+    useCount: 0,
+    acceptedBy: [],
+    declinedBy: [],
+  };
+}
+
+/**
+ * Invite someone to a trip by phone number
+ * Replaces any pending invite for the same number on this trip
+ * @param tripId - Trip ID
+ * @param inviteData - Phone number (normalized to E.164), role and expiry
+ * @param actorId - User sending the invite (owner or editor; owner to invite an owner)
+ * @returns Created invite
+ */
+export async function createPhoneInvite(
+  tripId: string,
+  inviteData: CreatePhoneInviteInput,
+  actorId: string
+): Promise<Invite> {
+  try {
+    const phoneNumber = normalizePhoneNumber(inviteData.phoneNumber);
+    if (!phoneNumber) {
+      throw new Error('Enter a valid phone number, including the country code');
+    }
+
+    const invites = getPersistence().invites;
+    const trip = await getTripForInviting(tripId, actorId, inviteData.role);
+
+    if (trip.participants.some((p) => p.phoneNumber === phoneNumber)) {
+      throw new InviteError(null, 'already-member', 'Someone with that phone number is already on this trip.');
+    }
+
+    const expiresAt = expiresIn(inviteData.expiresInDays ?? PHONE_INVITE_EXPIRY_DAYS);
+
+    const previous = (await invites.listPendingTripInvites(tripId)).filter(
+      (invite) => invite.phoneNumber === phoneNumber
+    );
+    for (const invite of previous) {
+      await invites.updateInvite(invite.inviteId, { status: 'revoked' });
+    }
+
+    return await invites.createInvite({
+      ...baseInvite(invites.newInviteId(), trip, actorId, inviteData.role, expiresAt),
+      kind: 'phone',
+      phoneNumber,
+    });
+  } catch (error: any) {
+    console.error('Error creating phone invite:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to create invite: ${error.message}`);
+  }
+}
+
+/**
+ * Create an invite link anyone can use until it expires or runs out of uses
+ * @param tripId - Trip ID
+ * @param inviteData - Role, expiry and max uses
+ * @param actorId - User creating the link (owner or editor; owner for an owner link)
+ * @returns Created invite; share it with getInviteLink()
+ */
+export async function createInviteLink(
+  tripId: string,
+  inviteData: CreateInviteLinkInput,
+  actorId: string
+): Promise<Invite> {
+  try {
+    const maxUses = inviteData.maxUses ?? DEFAULT_LINK_MAX_USES;
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_LINK_USES) {
+      throw new Error(`An invite link can be used 1 to ${MAX_LINK_USES} times`);
+    }
+
+    const invites = getPersistence().invites;
+    const trip = await getTripForInviting(tripId, actorId, inviteData.role);
+    const expiresAt = expiresIn(inviteData.expiresInDays ?? LINK_INVITE_EXPIRY_DAYS);
+
+    return await invites.createInvite({
+      ...baseInvite(invites.newInviteId(), trip, actorId, inviteData.role, expiresAt),
+      maxUses,
+    });
+  } catch (error: any) {
+    console.error('Error creating invite link:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to create invite link: ${error.message}`);
+  }
+}
+
+/**
+ * URL that opens an invite link
+ * @param inviteId - Invite ID (the link token)
+ */
+export function getInviteLink(inviteId: string): string {
+  return routeUrl({ name: 'invite', inviteId });
+}
+
+/**
+ * Get invite by ID (the token, for link invites)
+ * @param inviteId - Invite ID
+ * @returns Invite or null if not found
+ */
+export async function getInvite(inviteId: string): Promise<Invite | null> {
+  try {
+    return await getPersistence().invites.getInvite(inviteId);
+  } catch (error: any) {
+    console.error('Error getting invite:', error);
+    throw new Error(`Failed to get invite: ${error.message}`);
+  }
+}
+
+/**
+ * Get pending invites sent to a phone number (the signed-in user's)
+ * Expired invites are left out
+ * @param phoneNumber - E.164 phone number
+ * @returns Invites, soonest to expire first
+ */
+export async function getPendingInvitesForPhone(phoneNumber: string): Promise<Invite[]> {
+  try {
+    const now = Date.now();
+    const invites = await getPersistence().invites.listPendingPhoneInvites(phoneNumber);
+    return invites
+      .filter((invite) => invite.expiresAt.toMillis() > now)
+      .sort((a, b) => a.expiresAt.toMillis() - b.expiresAt.toMillis());
+  } catch (error: any) {
+    console.error('Error getting invites:', error);
+    throw new Error(`Failed to get invites: ${error.message}`);
+  }
+}
+
+/**
+ * Accept an invite and join the trip
+ * @param inviteId - Invite ID
+ * @param userId - User accepting (must have a profile)
+ * @returns ID of the joined trip
+ */
+export async function acceptInvite(inviteId: string, userId: string): Promise<string> {
+  try {
+    const [invite, user] = await Promise.all([
+      getPersistence().invites.getInvite(inviteId),
+      getUser(userId),
+    ]);
+    if (!user) {
+      throw new Error('User profile not found');
+    }
+    assertInviteUsable(invite, inviteId);
+
+    if (user.tripIds.includes(invite.tripId)) {
+      throw new InviteError(inviteId, 'already-member', 'You\'re already on this trip.');
+    }
+
+    await addParticipant(
+      invite.tripId,
+      {
+        userId,
+        phoneNumber: user.phoneNumber,
+        displayName: user.displayName,
+        role: invite.role,
+        inviteId,
+      },
+      userId
+    );
+
+    return invite.tripId;
+  } catch (error: any) {
+    console.error('Error accepting invite:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to accept invite: ${error.message}`);
+  }
+}
+
+/**
+ * Decline an invite
+ * A phone invite is closed for good; a link invite just records who said no
+ * @param inviteId - Invite ID
+ * @param userId - User declining
+ */
+export async function declineInvite(inviteId: string, userId: string): Promise<void> {
+  try {
+    const invites = getPersistence().invites;
+    const [invite, user] = await Promise.all([invites.getInvite(inviteId), getUser(userId)]);
+    assertInviteUsable(invite, inviteId);
+
+    if (invite.kind === 'phone') {
+      if (invite.phoneNumber !== user?.phoneNumber) {
+        throw new InviteError(inviteId, 'wrong-recipient', 'This invite was sent to a different phone number.');
+      }
+      await invites.updateInvite(inviteId, { status: 'declined' });
+    } else if (!invite.declinedBy.includes(userId)) {
+      await invites.updateInvite(inviteId, { declinedBy: [...invite.declinedBy, userId] });
+    }
+  } catch (error: any) {
+    console.error('Error declining invite:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to decline invite: ${error.message}`);
+  }
+}
+
+/**
+ * Withdraw a pending invite (phone or link)
+ * @param inviteId - Invite ID
+ * @param actorId - User making the change (owner or editor; owner for an owner invite)
+ */
+export async function revokeInvite(inviteId: string, actorId: string): Promise<void> {
+  try {
+    const invites = getPersistence().invites;
+    const invite = await invites.getInvite(inviteId);
+    if (!invite) {
+      throw new Error('Invite not found');
+    }
+    await getTripForInviting(invite.tripId, actorId, invite.role);
+
+    if (invite.status === 'pending') {
+      await invites.updateInvite(inviteId, { status: 'revoked' });
+    }
+  } catch (error: any) {
+    console.error('Error revoking invite:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to revoke invite: ${error.message}`);
+  }
+}
+
+/**
+ * Subscribe to a trip's pending invites (owners and editors only)
+ * @param tripId - Trip ID
+ * @param callback - Function called with the pending invites, soonest to expire first
+ * @returns Unsubscribe function
+ */
+export function subscribeToTripInvites(
+  tripId: string,
+  callback: (invites: Invite[]) => void
+): Unsubscribe {
+  return getPersistence().invites.watchPendingTripInvites(
+    tripId,
+    (invites) => {
+      callback([...invites].sort((a, b) => a.expiresAt.toMillis() - b.expiresAt.toMillis()));
+    },
+    (error) => {
+      console.error('Error in invites subscription:', error);
+      callback([]);
+    }
+  );
+}
@@ -0,0 +1,162 @@
+import { PermissionDeniedError, InviteError, InviteErrorCode } from './errors';
+import type { TripDocument, ParticipantRole, Invite, AddParticipantInput } from '../types';
+
+/**
+ * Trip Permissions
+ * The role matrix from SCHEMA.md, shared by the trip service and the UI.
+ * firestore.rules enforces the same matrix on the server.
+ *
+ * Owner:  everything, including deleting the trip, managing other owners,
+ *         publishing or revoking the public share link, and restoring
+ *         deleted activities and days from the trip's history
+ * Editor: trip details, days, activities and participants (except owners)
+ * Viewer: read-only
+ *
+ * Invites let someone without a role add themselves to a trip (see assertCanRedeemInvite)
+ */
+
+export type TripAction =
+  | 'view'
+  | 'edit'
+  | 'manageParticipants'
+  | 'manageOwners'
+  | 'share'
+  | 'restore'
+  | 'delete';
+
+const ROLE_PERMISSIONS: Record<ParticipantRole, TripAction[]> = {
+  owner: ['view', 'edit', 'manageParticipants', 'manageOwners', 'share', 'restore', 'delete'],
+  editor: ['view', 'edit', 'manageParticipants'],
+  viewer: ['view'],
+};
+
+const ACTION_DESCRIPTIONS: Record<TripAction, string> = {
+  view: 'view this trip',
+  edit: 'edit this trip',
+  manageParticipants: 'manage participants on this trip',
+  manageOwners: 'change who owns this trip',
+  share: 'change how this trip is shared',
+  restore: 'restore deleted items on this trip',
+  delete: 'delete this trip',
+};
+
+/**
+ * Role of a user on a trip
+ * Read from the `roles` map, which firestore.rules guards; the role copied
+ * into each participants entry is for display only
+ * @returns Role, or null if the user isn't a participant
+ */
+export function getParticipantRole(
+  trip: Pick<TripDocument, 'roles'>,
+  userId: string
+): ParticipantRole | null {
+  return trip.roles[userId] ?? null;
+}
+
+/**
+ * Check whether a user may perform an action on a trip
+ */
+export function canPerform(
+  trip: Pick<TripDocument, 'roles'>,
+  userId: string,
+  action: TripAction
+): boolean {
+  const role = getParticipantRole(trip, userId);
+  return role !== null && ROLE_PERMISSIONS[role].includes(action);
+}
+
+/**
+ * Throw unless a user may perform an action on a trip
+ * @throws PermissionDeniedError
+ */
+export function assertCanPerform(
+  trip: Pick<TripDocument, 'tripId' | 'roles'>,
+  userId: string,
+  action: TripAction
+): void {
+  if (!canPerform(trip, userId, action)) {
+    throw new PermissionDeniedError(
+      trip.tripId,
+      userId,
+      action,
+      `You don't have permission to ${ACTION_DESCRIPTIONS[action]}.`
+    );
+  }
+}
+
+const INVITE_PROBLEMS: Record<InviteErrorCode, string> = {
+  'not-found': 'This invite doesn\'t exist. Ask for a new one.',
+  expired: 'This invite has expired. Ask for a new one.',
+  revoked: 'This invite was withdrawn.',
+  'used-up': 'This invite has already been used.',
+  declined: 'This invite was declined.',
+  'wrong-recipient': 'This invite was sent to a different phone number.',
+  'already-member': 'You\'re already on this trip.',
+};
+
+/**
+ * Why an invite can't be used right now
+ * @param invite - Invite to check
+ * @param now - Current time
+ * @returns Problem code, or null if the invite can still be accepted
+ */
+export function getInviteProblem(
+  invite: Pick<Invite, 'status' | 'expiresAt' | 'useCount' | 'maxUses'>,
+  now: Date = new Date()
+): InviteErrorCode | null {
+  if (invite.status === 'revoked') return 'revoked';
+  if (invite.status === 'declined') return 'declined';
+  if (invite.status === 'accepted' || invite.useCount >= invite.maxUses) return 'used-up';
+  if (invite.expiresAt.toMillis() <= now.getTime()) return 'expired';
+  return null;
+}
+
+/**
+ * Throw unless an invite can still be accepted
+ * @throws InviteError
+ */
+export function assertInviteUsable(
+  invite: Invite | null,
+  inviteId: string,
+  now: Date = new Date()
+): asserts invite is Invite {
+  const problem = invite ? getInviteProblem(invite, now) : 'not-found';
+  if (problem) {
+    throw new InviteError(inviteId, problem, INVITE_PROBLEMS[problem]);
+  }
+}
+
+/**
+ * Throw unless a user may join a trip through an invite
+ * Checked inside the transaction that adds them; firestore.rules repeats these checks
+ * @param tripId - Trip being joined
+ * @param invite - Invite as read in the same transaction
+ * @param participantData - Who is joining, with the invite's ID
+ * @param actorId - User making the change (must be the one joining)
+ * @throws InviteError
+ */
+export function assertCanRedeemInvite(
+  tripId: string,
+  invite: Invite | null,
+  participantData: AddParticipantInput & { inviteId: string },
+  actorId: string,
+  now: Date = new Date()
+): asserts invite is Invite {
+  const { inviteId } = participantData;
+  if (invite && invite.tripId !== tripId) {
+    throw new InviteError(inviteId, 'not-found', INVITE_PROBLEMS['not-found']);
+  }
+  assertInviteUsable(invite, inviteId, now);
+
+  if (invite.acceptedBy.includes(actorId)) {
+    throw new InviteError(inviteId, 'already-member', INVITE_PROBLEMS['already-member']);
+  }
+
+  const isInvitee =
+    actorId === participantData.userId &&
+    participantData.role === invite.role &&
+    (invite.kind === 'link' || invite.phoneNumber === participantData.phoneNumber);
+  if (!isInvitee) {
+    throw new InviteError(inviteId, 'wrong-recipient', INVITE_PROBLEMS['wrong-recipient']);
+  }
+}
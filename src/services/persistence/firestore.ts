@@ -0,0 +1,634 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  QueryConstraint,
+  serverTimestamp,
+  writeBatch,
+  runTransaction,
+  onSnapshot,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  Transaction,
+  WriteBatch,
+  DocumentReference,
+} from 'firebase/firestore';
+import { ref, uploadString, deleteObject } from 'firebase/storage';
+import { getDb, getFirebaseStorage, storageOrigin } from '../../config/firebase';
+import {
+  TRIPS_COLLECTION,
+  tripDocRef,
+  dayDocRef,
+  activityDocRef,
+  expenseDocRef,
+  changesCollectionRef,
+  changeDocRef,
+  loadDays,
+  loadActivities,
+  loadExpenses,
+  watchDays,
+  watchExpenses,
+} from '../trip.storage';
+import type {
+  Persistence,
+  TripRepository,
+  TripTransaction,
+  UserRepository,
+  InviteRepository,
+  PresenceRepository,
+  TemplateRepository,
+  CalendarRepository,
+} from './types';
+import type {
+  TripDocument,
+  DayDocument,
+  Activity,
+  Expense,
+  User,
+  Invite,
+  Presence,
+  TripShare,
+  TripChange,
+  TripTemplate,
+  CalendarFeed,
+} from '../../types';
+
+/**
+ * Firestore Persistence
+ * The production backend; connects to the local emulators when
+ * VITE_USE_EMULATORS is set (see config/firebase.ts)
+ */
+
+const USERS_COLLECTION = 'users';
+const INVITES_COLLECTION = 'invites';
+const SHARES_COLLECTION = 'shares';
+const PRESENCE_SUBCOLLECTION = 'presence';
+const TEMPLATES_COLLECTION = 'templates';
+const CALENDAR_FEEDS_SUBCOLLECTION = 'calendarFeeds';
+
+/**
+ * Cloud Storage folder of published calendars
+ */
+const CALENDAR_FEEDS_FOLDER = 'calendar-feeds';
+
+/**
+ * Firestore caps a write batch at 500 operations
+ */
+const MAX_BATCH_WRITES = 450;
+
+function userDocRef(userId: string): DocumentReference {
+  return doc(getDb(), USERS_COLLECTION, userId);
+}
+
+function inviteDocRef(inviteId: string): DocumentReference {
+  return doc(getDb(), INVITES_COLLECTION, inviteId);
+}
+
+function shareDocRef(shareToken: string): DocumentReference {
+  return doc(getDb(), SHARES_COLLECTION, shareToken);
+}
+
+function templateDocRef(templateId: string): DocumentReference {
+  return doc(getDb(), TEMPLATES_COLLECTION, templateId);
+}
+
+function presenceDocRef(tripId: string, userId: string): DocumentReference {
+  return doc(getDb(), TRIPS_COLLECTION, tripId, PRESENCE_SUBCOLLECTION, userId);
+}
+
+function calendarFeedDocRef(tripId: string, userId: string): DocumentReference {
+  return doc(getDb(), TRIPS_COLLECTION, tripId, CALENDAR_FEEDS_SUBCOLLECTION, userId);
+}
+
+/**
+ * Where a feed's calendar is stored; storage.rules checks the trip and user in it
+ */
+function calendarPath(tripId: string, feed: Pick<CalendarFeed, 'userId' | 'feedToken'>): string {
+  return `${CALENDAR_FEEDS_FOLDER}/${tripId}/${feed.userId}/${feed.feedToken}.ics`;
+}
+
+/**
+ * Delete documents in batches that stay under Firestore's write limit
+ * @param refs - Documents to delete, in order
+ */
+async function deleteInBatches(refs: DocumentReference[]): Promise<void> {
+  for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(getDb());
+    refs.slice(i, i + MAX_BATCH_WRITES).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Expose a Firestore transaction through the TripTransaction interface
+ */
+function wrapTransaction(transaction: Transaction): TripTransaction {
+  return {
+    async getTrip(tripId) {
+      const snapshot = await transaction.get(tripDocRef(tripId));
+      return snapshot.exists() ? (snapshot.data() as TripDocument) : null;
+    },
+    async getDay(tripId, dayId) {
+      const snapshot = await transaction.get(dayDocRef(tripId, dayId));
+      return snapshot.exists() ? (snapshot.data() as DayDocument) : null;
+    },
+    async getActivity(tripId, dayId, activityId) {
+      const snapshot = await transaction.get(activityDocRef(tripId, dayId, activityId));
+      return snapshot.exists() ? (snapshot.data() as Activity) : null;
+    },
+    async getExpense(tripId, expenseId) {
+      const snapshot = await transaction.get(expenseDocRef(tripId, expenseId));
+      return snapshot.exists() ? (snapshot.data() as Expense) : null;
+    },
+    updateTrip(tripId, fields, remove = []) {
+      transaction.update(tripDocRef(tripId), {
+        ...fields,
+        ...Object.fromEntries(remove.map((field) => [field, deleteField()])),
+        updatedAt: serverTimestamp(),
+      });
+    },
+    setDay(tripId, day) {
+      transaction.set(dayDocRef(tripId, day.dayId), day);
+    },
+    updateDay(tripId, dayId, fields) {
+      transaction.update(dayDocRef(tripId, dayId), fields);
+    },
+    deleteDay(tripId, dayId) {
+      transaction.delete(dayDocRef(tripId, dayId));
+    },
+    setActivity(tripId, dayId, activity) {
+      transaction.set(activityDocRef(tripId, dayId, activity.activityId), activity);
+    },
+    updateActivity(tripId, dayId, activityId, fields) {
+      transaction.update(activityDocRef(tripId, dayId, activityId), fields);
+    },
+    deleteActivity(tripId, dayId, activityId) {
+      transaction.delete(activityDocRef(tripId, dayId, activityId));
+    },
+    setExpense(tripId, expense) {
+      transaction.set(expenseDocRef(tripId, expense.expenseId), expense);
+    },
+    deleteExpense(tripId, expenseId) {
+      transaction.delete(expenseDocRef(tripId, expenseId));
+    },
+    joinTrip(tripId, participant) {
+      transaction.update(tripDocRef(tripId), {
+        participants: arrayUnion(participant),
+        participantIds: arrayUnion(participant.userId),
+        [`roles.${participant.userId}`]: participant.role,
+        updatedAt: serverTimestamp(),
+      });
+    },
+    async getInvite(inviteId) {
+      const snapshot = await transaction.get(inviteDocRef(inviteId));
+      return snapshot.exists() ? (snapshot.data() as Invite) : null;
+    },
+    updateInvite(inviteId, fields) {
+      transaction.update(inviteDocRef(inviteId), { ...fields, updatedAt: serverTimestamp() });
+    },
+    setShare(share) {
+      transaction.set(shareDocRef(share.shareToken), { ...share, createdAt: serverTimestamp() });
+    },
+    deleteShare(shareToken) {
+      transaction.delete(shareDocRef(shareToken));
+    },
+    addChange(tripId, change) {
+      transaction.set(changeDocRef(tripId, change.changeId), { ...change, createdAt: serverTimestamp() });
+    },
+  };
+}
+
+function createTripRepository(): TripRepository {
+  return {
+    newTripId() {
+      return doc(collection(getDb(), TRIPS_COLLECTION)).id;
+    },
+
+    async createTrip(trip, days, activities = [], expenses = []) {
+      const tripRef = tripDocRef(trip.tripId);
+      // The trip goes in the first batch, so days, activities and expenses in
+      // later batches already have a trip to belong to
+      const writes: Array<(batch: WriteBatch) => void> = [
+        (batch) =>
+          batch.set(tripRef, {
+            ...trip,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          }),
+        ...days.map((day) => (batch: WriteBatch) => batch.set(dayDocRef(trip.tripId, day.dayId), day)),
+        ...activities.map(
+          ({ dayId, activity }) =>
+            (batch: WriteBatch) =>
+              batch.set(activityDocRef(trip.tripId, dayId, activity.activityId), activity)
+        ),
+        ...expenses.map(
+          (expense) => (batch: WriteBatch) => batch.set(expenseDocRef(trip.tripId, expense.expenseId), expense)
+        ),
+      ];
+      for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(getDb());
+        writes.slice(i, i + MAX_BATCH_WRITES).forEach((write) => write(batch));
+        await batch.commit();
+      }
+
+      // Re-fetch to get server timestamps
+      const tripDoc = await getDoc(tripRef);
+      return tripDoc.data() as TripDocument;
+    },
+
+    async getTrip(tripId) {
+      const tripDoc = await getDoc(tripDocRef(tripId));
+      return tripDoc.exists() ? (tripDoc.data() as TripDocument) : null;
+    },
+
+    loadDays,
+
+    loadActivities,
+
+    loadExpenses,
+
+    async listUserTrips(userId, options) {
+      const constraints: QueryConstraint[] = [
+        where('participantIds', 'array-contains', userId),
+        orderBy('startDate', 'desc'),
+        orderBy(documentId(), 'desc'),
+      ];
+      if (options.cursor) {
+        constraints.push(startAfter(options.cursor.startDate, options.cursor.tripId));
+      }
+      constraints.push(limit(options.limit));
+
+      const snapshot = await getDocs(query(collection(getDb(), TRIPS_COLLECTION), ...constraints));
+      return snapshot.docs.map((tripDoc) => tripDoc.data() as TripDocument);
+    },
+
+    async listUpcomingTrips(userId, after) {
+      const snapshot = await getDocs(
+        query(
+          collection(getDb(), TRIPS_COLLECTION),
+          where('participantIds', 'array-contains', userId),
+          where('startDate', '>', after),
+          orderBy('startDate', 'asc')
+        )
+      );
+      return snapshot.docs.map((tripDoc) => tripDoc.data() as TripDocument);
+    },
+
+    async listParticipantTrips(userId) {
+      const snapshot = await getDocs(
+        query(collection(getDb(), TRIPS_COLLECTION), where('participantIds', 'array-contains', userId))
+      );
+      return snapshot.docs.map((tripDoc) => tripDoc.data() as TripDocument);
+    },
+
+    async listTrashedTrips(userId) {
+      const snapshot = await getDocs(
+        query(
+          collection(getDb(), TRIPS_COLLECTION),
+          where('trash.ownerIds', 'array-contains', userId),
+          orderBy('trash.deletedAt', 'desc')
+        )
+      );
+      return snapshot.docs.map((tripDoc) => tripDoc.data() as TripDocument);
+    },
+
+    async updateTrips(updates) {
+      for (let i = 0; i < updates.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(getDb());
+        updates.slice(i, i + MAX_BATCH_WRITES).forEach(({ tripId, fields }) => {
+          batch.update(tripDocRef(tripId), { ...fields, updatedAt: serverTimestamp() });
+        });
+        await batch.commit();
+      }
+    },
+
+    async getShare(shareToken) {
+      const shareDoc = await getDoc(shareDocRef(shareToken));
+      return shareDoc.exists() ? (shareDoc.data() as TripShare) : null;
+    },
+
+    async deleteTrip(trip) {
+      // Subcollections outlive their parent, so delete the itinerary, expenses,
+      // calendar feeds and change history first and the trip document last
+      const refs: DocumentReference[] = [];
+      trip.days.forEach((day) => {
+        day.activities.forEach((activity) => {
+          refs.push(activityDocRef(trip.tripId, day.dayId, activity.activityId));
+        });
+        refs.push(dayDocRef(trip.tripId, day.dayId));
+      });
+      (trip.expenses ?? []).forEach((expense) => refs.push(expenseDocRef(trip.tripId, expense.expenseId)));
+      const feeds = await getDocs(collection(getDb(), TRIPS_COLLECTION, trip.tripId, CALENDAR_FEEDS_SUBCOLLECTION));
+      feeds.docs.forEach((feedDoc) => refs.push(feedDoc.ref));
+      const changes = await getDocs(changesCollectionRef(trip.tripId));
+      changes.docs.forEach((changeDoc) => refs.push(changeDoc.ref));
+      // firestore.rules checks ownership on the trip, so the link goes before it
+      if (trip.settings?.isPublic && trip.settings.shareToken) {
+        refs.push(shareDocRef(trip.settings.shareToken));
+      }
+      refs.push(tripDocRef(trip.tripId));
+
+      await deleteInBatches(refs);
+    },
+
+    runTransaction(updateFunction, options) {
+      return runTransaction(getDb(), (transaction) => updateFunction(wrapTransaction(transaction)), {
+        maxAttempts: options.maxAttempts,
+      });
+    },
+
+    async listCalendarFeeds(tripId) {
+      const snapshot = await getDocs(collection(getDb(), TRIPS_COLLECTION, tripId, CALENDAR_FEEDS_SUBCOLLECTION));
+      return snapshot.docs.map((feedDoc) => feedDoc.data() as CalendarFeed);
+    },
+
+    async getCalendarFeed(tripId, userId) {
+      const feedDoc = await getDoc(calendarFeedDocRef(tripId, userId));
+      return feedDoc.exists() ? (feedDoc.data() as CalendarFeed) : null;
+    },
+
+    async setCalendarFeed(tripId, feed) {
+      const feedRef = calendarFeedDocRef(tripId, feed.userId);
+      await setDoc(feedRef, { ...feed, createdAt: serverTimestamp() });
+
+      // Re-fetch to get server timestamps
+      const feedDoc = await getDoc(feedRef);
+      return feedDoc.data() as CalendarFeed;
+    },
+
+    async deleteCalendarFeed(tripId, userId) {
+      await deleteDoc(calendarFeedDocRef(tripId, userId));
+    },
+
+    async getChange(tripId, changeId) {
+      const snapshot = await getDoc(changeDocRef(tripId, changeId));
+      return snapshot.exists() ? (snapshot.data() as TripChange) : null;
+    },
+
+    async listChanges(tripId, options) {
+      const constraints: QueryConstraint[] = [];
+      if (options.actorId) {
+        constraints.push(where('actorId', '==', options.actorId));
+      }
+      constraints.push(orderBy('createdAt', 'desc'));
+      if (options.limit) {
+        constraints.push(limit(options.limit));
+      }
+
+      const snapshot = await getDocs(query(changesCollectionRef(tripId), ...constraints));
+      return snapshot.docs.map((changeDoc) => changeDoc.data() as TripChange);
+    },
+
+    watchChanges(tripId, count, onNext, onError) {
+      return onSnapshot(
+        query(changesCollectionRef(tripId), orderBy('createdAt', 'desc'), limit(count)),
+        // Our own entries arrive before the server stamps createdAt
+        (snapshot) =>
+          onNext(
+            snapshot.docs.map(
+              (changeDoc) => changeDoc.data({ serverTimestamps: 'estimate' }) as TripChange
+            )
+          ),
+        onError
+      );
+    },
+
+    watchTrip(tripId, onNext, onError) {
+      return onSnapshot(
+        tripDocRef(tripId),
+        (snapshot) => onNext(snapshot.exists() ? (snapshot.data() as TripDocument) : null),
+        onError
+      );
+    },
+
+    watchDays,
+
+    watchExpenses,
+  };
+}
+
+function createUserRepository(): UserRepository {
+  return {
+    async createUser(user) {
+      const userRef = userDocRef(user.userId);
+      await setDoc(userRef, {
+        ...user,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      // Re-fetch to get server timestamps
+      const userDoc = await getDoc(userRef);
+      return userDoc.data() as User;
+    },
+
+    async getUser(userId) {
+      const userDoc = await getDoc(userDocRef(userId));
+      return userDoc.exists() ? (userDoc.data() as User) : null;
+    },
+
+    async updateUser(userId, fields) {
+      await updateDoc(userDocRef(userId), { ...fields, updatedAt: serverTimestamp() });
+    },
+
+    async addTripId(userId, tripId) {
+      await updateDoc(userDocRef(userId), {
+        tripIds: arrayUnion(tripId),
+        updatedAt: serverTimestamp(),
+      });
+    },
+
+    async removeTripId(userId, tripId) {
+      await updateDoc(userDocRef(userId), {
+        tripIds: arrayRemove(tripId),
+        updatedAt: serverTimestamp(),
+      });
+    },
+  };
+}
+
+function createInviteRepository(): InviteRepository {
+  return {
+    newInviteId() {
+      return doc(collection(getDb(), INVITES_COLLECTION)).id;
+    },
+
+    async createInvite(invite) {
+      const inviteRef = inviteDocRef(invite.inviteId);
+      await setDoc(inviteRef, {
+        ...invite,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      // Re-fetch to get server timestamps
+      const inviteDoc = await getDoc(inviteRef);
+      return inviteDoc.data() as Invite;
+    },
+
+    async getInvite(inviteId) {
+      const inviteDoc = await getDoc(inviteDocRef(inviteId));
+      return inviteDoc.exists() ? (inviteDoc.data() as Invite) : null;
+    },
+
+    async updateInvite(inviteId, fields) {
+      await updateDoc(inviteDocRef(inviteId), { ...fields, updatedAt: serverTimestamp() });
+    },
+
+    async listPendingTripInvites(tripId) {
+      const snapshot = await getDocs(
+        query(
+          collection(getDb(), INVITES_COLLECTION),
+          where('tripId', '==', tripId),
+          where('status', '==', 'pending')
+        )
+      );
+      return snapshot.docs.map((inviteDoc) => inviteDoc.data() as Invite);
+    },
+
+    async listPendingPhoneInvites(phoneNumber) {
+      const snapshot = await getDocs(
+        query(
+          collection(getDb(), INVITES_COLLECTION),
+          where('phoneNumber', '==', phoneNumber),
+          where('status', '==', 'pending')
+        )
+      );
+      return snapshot.docs.map((inviteDoc) => inviteDoc.data() as Invite);
+    },
+
+    watchPendingTripInvites(tripId, onNext, onError) {
+      return onSnapshot(
+        query(
+          collection(getDb(), INVITES_COLLECTION),
+          where('tripId', '==', tripId),
+          where('status', '==', 'pending')
+        ),
+        (snapshot) => onNext(snapshot.docs.map((inviteDoc) => inviteDoc.data() as Invite)),
+        onError
+      );
+    },
+  };
+}
+
+function createPresenceRepository(): PresenceRepository {
+  return {
+    async setPresence(tripId, presence) {
+      await setDoc(presenceDocRef(tripId, presence.userId), {
+        ...presence,
+        lastSeen: serverTimestamp(),
+      });
+    },
+
+    async touchPresence(tripId, userId) {
+      await setDoc(
+        presenceDocRef(tripId, userId),
+        {
+          lastSeen: serverTimestamp(),
+          currentlyViewing: true,
+        },
+        { merge: true }
+      );
+    },
+
+    async removePresence(tripId, userId) {
+      await deleteDoc(presenceDocRef(tripId, userId));
+    },
+
+    watchPresence(tripId, onNext, onError) {
+      return onSnapshot(
+        collection(getDb(), TRIPS_COLLECTION, tripId, PRESENCE_SUBCOLLECTION),
+        (snapshot) => onNext(snapshot.docs.map((presenceDoc) => presenceDoc.data() as Presence)),
+        onError
+      );
+    },
+  };
+}
+
+function createTemplateRepository(): TemplateRepository {
+  return {
+    newTemplateId() {
+      return doc(collection(getDb(), TEMPLATES_COLLECTION)).id;
+    },
+
+    async createTemplate(template) {
+      const templateRef = templateDocRef(template.templateId);
+      await setDoc(templateRef, {
+        ...template,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+
+      // Re-fetch to get server timestamps
+      const templateDoc = await getDoc(templateRef);
+      return templateDoc.data() as TripTemplate;
+    },
+
+    async getTemplate(templateId) {
+      const templateDoc = await getDoc(templateDocRef(templateId));
+      return templateDoc.exists() ? (templateDoc.data() as TripTemplate) : null;
+    },
+
+    async listUserTemplates(userId) {
+      const snapshot = await getDocs(
+        query(collection(getDb(), TEMPLATES_COLLECTION), where('ownerId', '==', userId))
+      );
+      return snapshot.docs.map((templateDoc) => templateDoc.data() as TripTemplate);
+    },
+
+    async deleteTemplate(templateId) {
+      await deleteDoc(templateDocRef(templateId));
+    },
+  };
+}
+
+function createCalendarRepository(): CalendarRepository {
+  return {
+    async publishCalendar(tripId, feed, ics) {
+      await uploadString(ref(getFirebaseStorage(), calendarPath(tripId, feed)), ics, 'raw', {
+        contentType: 'text/calendar; charset=utf-8',
+        // Calendar apps poll; keep caches from serving a stale itinerary for long
+        cacheControl: 'public, max-age=300',
+      });
+    },
+
+    async unpublishCalendar(tripId, feed) {
+      try {
+        await deleteObject(ref(getFirebaseStorage(), calendarPath(tripId, feed)));
+      } catch (error: any) {
+        if (error?.code !== 'storage/object-not-found') throw error;
+      }
+    },
+
+    getCalendarUrl(tripId, feed) {
+      // Public download URL; storage.rules lets anyone fetch (but not list) feeds
+      const bucket = getFirebaseStorage().app.options.storageBucket;
+      return `${storageOrigin}/v0/b/${bucket}/o/${encodeURIComponent(calendarPath(tripId, feed))}?alt=media`;
+    },
+  };
+}
+
+/**
+ * Repositories backed by Firestore (and Cloud Storage for published calendars)
+ */
+export function createFirestorePersistence(): Persistence {
+  return {
+    trips: createTripRepository(),
+    users: createUserRepository(),
+    invites: createInviteRepository(),
+    presence: createPresenceRepository(),
+    templates: createTemplateRepository(),
+    calendars: createCalendarRepository(),
+  };
+}
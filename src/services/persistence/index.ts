@@ -0,0 +1,51 @@
+import { createFirestorePersistence } from './firestore';
+import type { Persistence } from './types';
+
+/**
+ * Persistence - Central Export
+ * Services read and write through getPersistence(); Firestore by default.
+ * Tests swap in the in-memory backend with setPersistence().
+ */
+
+export type {
+  Persistence,
+  TripRepository,
+  TripTransaction,
+  UserRepository,
+  InviteRepository,
+  PresenceRepository,
+  TemplateRepository,
+  CalendarRepository,
+  NewTripDocument,
+  NewUserDocument,
+  NewInviteDocument,
+  NewTripShare,
+  NewTripChange,
+  NewTripTemplate,
+  NewCalendarFeed,
+  Unsubscribe,
+  ErrorHandler,
+} from './types';
+export { createFirestorePersistence } from './firestore';
+export { createMemoryPersistence } from './memory';
+export type { MemoryPersistenceOptions } from './memory';
+
+let current: Persistence | null = null;
+
+/**
+ * Backend the services are using (created on first use)
+ */
+export function getPersistence(): Persistence {
+  if (!current) {
+    current = createFirestorePersistence();
+  }
+  return current;
+}
+
+/**
+ * Replace the backend, e.g. with createMemoryPersistence() in tests
+ * Pass null to go back to Firestore
+ */
+export function setPersistence(persistence: Persistence | null): void {
+  current = persistence;
+}
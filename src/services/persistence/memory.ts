@@ -0,0 +1,857 @@
+import { Timestamp } from 'firebase/firestore';
+import { nanoid } from 'nanoid';
+import type {
+  Persistence,
+  TripRepository,
+  TripTransaction,
+  UserRepository,
+  InviteRepository,
+  PresenceRepository,
+  TemplateRepository,
+  CalendarRepository,
+  NewTripShare,
+  NewTripChange,
+} from './types';
+import type {
+  TripDocument,
+  Day,
+  DayDocument,
+  DayChange,
+  Activity,
+  Expense,
+  Participant,
+  User,
+  Invite,
+  Presence,
+  TripShare,
+  TripChange,
+  TripTemplate,
+  CalendarFeed,
+} from '../../types';
+
+/**
+ * In-Memory Persistence
+ * Plain maps behind the same interfaces as the Firestore backend, so service
+ * logic can be unit-tested without any Firebase process:
+ *
+ *   setPersistence(createMemoryPersistence());
+ *   const trip = await createTrip('user-1', '+15551234567', 'Alice', { ... });
+ *
+ * Mirrors the Firestore behaviour the services rely on: transactions are atomic,
+ * reject reads after writes and rerun when what they read changes before they
+ * commit, updates fail on missing documents, undefined
+ * field values are rejected, dotted field paths update nested maps, and
+ * listeners get an initial snapshot followed by changes.
+ */
+
+export interface MemoryPersistenceOptions {
+  /** Clock used for createdAt/updatedAt/lastSeen (defaults to Timestamp.now) */
+  now?: () => Timestamp;
+}
+
+interface Store {
+  trips: Map<string, TripDocument>;
+  days: Map<string, Map<string, DayDocument>>;           // tripId -> dayId -> day
+  activities: Map<string, Map<string, Activity>>;        // tripId/dayId -> activityId -> activity
+  expenses: Map<string, Map<string, Expense>>;           // tripId -> expenseId -> expense
+  users: Map<string, User>;
+  invites: Map<string, Invite>;
+  shares: Map<string, TripShare>;                        // shareToken -> share link
+  presence: Map<string, Map<string, Presence>>;          // tripId -> userId -> presence
+  changes: Map<string, TripChange[]>;                    // tripId -> change history, oldest first
+  templates: Map<string, TripTemplate>;
+  calendarFeeds: Map<string, Map<string, CalendarFeed>>; // tripId -> userId -> feed
+  calendars: Map<string, string>;                        // calendar path -> published .ics
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Deep copy of stored data; Timestamps are immutable and shared
+ */
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Firestore rejects undefined anywhere in a document
+ */
+function assertNoUndefined(value: unknown, path: string): void {
+  if (value === undefined) {
+    throw new Error(`Unsupported field value: undefined (found in field ${path})`);
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => assertNoUndefined(item, `${path}.${i}`));
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, item]) => assertNoUndefined(item, `${path}.${key}`));
+  }
+}
+
+function checkedCopy<T extends object>(data: T, path: string): T {
+  Object.entries(data).forEach(([key, value]) => assertNoUndefined(value, `${path}.${key}`));
+  return clone(data);
+}
+
+/**
+ * Apply update fields to a document; dotted keys update nested maps
+ */
+function applyFields<T extends object>(document: T, fields: object, path: string): T {
+  const result = clone(document as Record<string, unknown>);
+  Object.entries(checkedCopy(fields, path)).forEach(([fieldPath, value]) => {
+    const keys = fieldPath.split('.');
+    let node = result;
+    keys.slice(0, -1).forEach((key) => {
+      const child = node[key];
+      node = isPlainObject(child) ? child : (node[key] = {});
+    });
+    node[keys[keys.length - 1]] = value;
+  });
+  return result as T;
+}
+
+function activitiesKey(tripId: string, dayId: string): string {
+  return `${tripId}/${dayId}`;
+}
+
+function byId(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Deliver to a listener until it unsubscribes
+ * The first snapshot is delivered asynchronously, as Firestore does
+ */
+function createListener<T>(onNext: (value: T) => void) {
+  let active = true;
+  return {
+    deliver(value: T) {
+      if (active) onNext(value);
+    },
+    deliverLater(read: () => T) {
+      queueMicrotask(() => {
+        if (active) onNext(read());
+      });
+    },
+    stop() {
+      active = false;
+    },
+  };
+}
+
+export function createMemoryPersistence(options: MemoryPersistenceOptions = {}): Persistence {
+  const now = options.now ?? (() => Timestamp.now());
+
+  let store: Store = {
+    trips: new Map(),
+    days: new Map(),
+    activities: new Map(),
+    expenses: new Map(),
+    users: new Map(),
+    invites: new Map(),
+    shares: new Map(),
+    presence: new Map(),
+    changes: new Map(),
+    templates: new Map(),
+    calendarFeeds: new Map(),
+    calendars: new Map(),
+  };
+
+  const tripListeners = new Map<string, Set<() => void>>();
+  const inviteListeners = new Map<string, Set<() => void>>();      // by tripId
+  const presenceListeners = new Map<string, Set<() => void>>();
+
+  const listen = (registry: Map<string, Set<() => void>>, key: string, notify: () => void) => {
+    if (!registry.has(key)) registry.set(key, new Set());
+    registry.get(key)!.add(notify);
+    return () => registry.get(key)?.delete(notify);
+  };
+
+  const notifyTrip = (tripId: string) => {
+    tripListeners.get(tripId)?.forEach((notify) => notify());
+  };
+
+  // Stored records are never mutated in place, so copying the maps is enough to roll back
+  const snapshotStore = (): Store => ({
+    trips: new Map(store.trips),
+    days: new Map([...store.days].map(([key, days]) => [key, new Map(days)])),
+    activities: new Map([...store.activities].map(([key, items]) => [key, new Map(items)])),
+    expenses: new Map([...store.expenses].map(([key, items]) => [key, new Map(items)])),
+    users: new Map(store.users),
+    invites: new Map(store.invites),
+    shares: new Map(store.shares),
+    presence: new Map([...store.presence].map(([key, items]) => [key, new Map(items)])),
+    changes: new Map(store.changes),
+    templates: new Map(store.templates),
+    calendarFeeds: new Map([...store.calendarFeeds].map(([key, feeds]) => [key, new Map(feeds)])),
+    calendars: new Map(store.calendars),
+  });
+
+  const nestedMap = <V>(maps: Map<string, Map<string, V>>, key: string): Map<string, V> => {
+    if (!maps.has(key)) maps.set(key, new Map());
+    return maps.get(key)!;
+  };
+
+  const requireDocument = <V>(document: V | undefined, path: string): V => {
+    if (document === undefined) {
+      throw new Error(`No document to update: ${path}`);
+    }
+    return document;
+  };
+
+  const readActivities = (tripId: string, dayId: string): Activity[] =>
+    [...(store.activities.get(activitiesKey(tripId, dayId))?.values() ?? [])]
+      .sort(
+        (a, b) => a.createdAt.toMillis() - b.createdAt.toMillis() || byId(a.activityId, b.activityId)
+      )
+      .map(clone);
+
+  const readExpenses = (tripId: string): Expense[] =>
+    [...(store.expenses.get(tripId)?.values() ?? [])]
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis() || byId(a.expenseId, b.expenseId))
+      .map(clone);
+
+  const readDays = (tripId: string): Day[] =>
+    [...(store.days.get(tripId)?.values() ?? [])]
+      .sort((a, b) => a.date.toMillis() - b.date.toMillis() || byId(a.dayId, b.dayId))
+      .map((day) => ({ ...clone(day), activities: readActivities(tripId, day.dayId) }));
+
+  // Newest first; entries written in one transaction share a timestamp, so ties go by position
+  const readChanges = (tripId: string): TripChange[] =>
+    [...(store.changes.get(tripId) ?? [])]
+      .map((change, position) => ({ change, position }))
+      .sort((a, b) => b.change.createdAt.toMillis() - a.change.createdAt.toMillis() || b.position - a.position)
+      .map(({ change }) => change);
+
+  const participantTrips = (userId: string): TripDocument[] =>
+    [...store.trips.values()].filter((trip) => trip.participantIds?.includes(userId));
+
+  /**
+   * Write operations shared by batches and transactions
+   * They change the store directly; callers queue them and run them through commit()
+   */
+  const writes = {
+    updateTrip(tripId: string, fields: Partial<TripDocument>, remove: (keyof TripDocument)[] = []) {
+      const trip = requireDocument(store.trips.get(tripId), `trips/${tripId}`);
+      const updated = applyFields(trip, { ...fields, updatedAt: now() }, `trips/${tripId}`);
+      remove.forEach((field) => delete updated[field]);
+      store.trips.set(tripId, updated);
+    },
+    setDay(tripId: string, day: DayDocument) {
+      nestedMap(store.days, tripId).set(day.dayId, checkedCopy(day, `trips/${tripId}/days/${day.dayId}`));
+    },
+    updateDay(tripId: string, dayId: string, fields: Partial<DayDocument>) {
+      const path = `trips/${tripId}/days/${dayId}`;
+      const day = requireDocument(store.days.get(tripId)?.get(dayId), path);
+      store.days.get(tripId)!.set(dayId, applyFields(day, fields, path));
+    },
+    deleteDay(tripId: string, dayId: string) {
+      store.days.get(tripId)?.delete(dayId);
+    },
+    setActivity(tripId: string, dayId: string, activity: Activity) {
+      const path = `trips/${tripId}/days/${dayId}/activities/${activity.activityId}`;
+      nestedMap(store.activities, activitiesKey(tripId, dayId)).set(
+        activity.activityId,
+        checkedCopy(activity, path)
+      );
+    },
+    updateActivity(tripId: string, dayId: string, activityId: string, fields: Partial<Activity>) {
+      const path = `trips/${tripId}/days/${dayId}/activities/${activityId}`;
+      const items = store.activities.get(activitiesKey(tripId, dayId));
+      const activity = requireDocument(items?.get(activityId), path);
+      items!.set(activityId, applyFields(activity, fields, path));
+    },
+    deleteActivity(tripId: string, dayId: string, activityId: string) {
+      store.activities.get(activitiesKey(tripId, dayId))?.delete(activityId);
+    },
+    setExpense(tripId: string, expense: Expense) {
+      const path = `trips/${tripId}/expenses/${expense.expenseId}`;
+      nestedMap(store.expenses, tripId).set(expense.expenseId, checkedCopy(expense, path));
+    },
+    deleteExpense(tripId: string, expenseId: string) {
+      store.expenses.get(tripId)?.delete(expenseId);
+    },
+    joinTrip(tripId: string, participant: Participant) {
+      const path = `trips/${tripId}`;
+      const trip = requireDocument(store.trips.get(tripId), path);
+      // arrayUnion only skips identical entries; a user is never in the list twice anyway
+      const joined = trip.participants.some((p) => p.userId === participant.userId);
+      store.trips.set(
+        tripId,
+        applyFields(
+          trip,
+          {
+            participants: joined ? trip.participants : [...trip.participants, participant],
+            participantIds: trip.participantIds.includes(participant.userId)
+              ? trip.participantIds
+              : [...trip.participantIds, participant.userId],
+            [`roles.${participant.userId}`]: participant.role,
+            updatedAt: now(),
+          },
+          path
+        )
+      );
+    },
+    updateInvite(inviteId: string, fields: Partial<Invite>) {
+      const path = `invites/${inviteId}`;
+      const invite = requireDocument(store.invites.get(inviteId), path);
+      store.invites.set(inviteId, applyFields(invite, { ...fields, updatedAt: now() }, path));
+    },
+    setShare(share: NewTripShare) {
+      store.shares.set(
+        share.shareToken,
+        checkedCopy({ ...share, createdAt: now() }, `shares/${share.shareToken}`)
+      );
+    },
+    deleteShare(shareToken: string) {
+      store.shares.delete(shareToken);
+    },
+    addChange(tripId: string, change: NewTripChange) {
+      const path = `trips/${tripId}/changes/${change.changeId}`;
+      // Appended as a new list, so snapshots taken before the write stay as they were
+      store.changes.set(tripId, [
+        ...(store.changes.get(tripId) ?? []),
+        checkedCopy({ ...change, createdAt: now() }, path),
+      ]);
+    },
+  };
+
+  const notifyInvites = (tripId: string) => {
+    inviteListeners.get(tripId)?.forEach((notify) => notify());
+  };
+
+  /**
+   * Apply queued writes atomically, then notify listeners of the touched trips
+   * (invite writes are queued under the invite's tripId)
+   */
+  const commit = (queued: Array<{ tripId: string; apply: () => void }>) => {
+    const before = snapshotStore();
+    try {
+      queued.forEach(({ apply }) => apply());
+    } catch (error) {
+      store = before;
+      throw error;
+    }
+    new Set(queued.map(({ tripId }) => tripId)).forEach((tripId) => {
+      notifyTrip(tripId);
+      notifyInvites(tripId);
+    });
+  };
+
+  const trips: TripRepository = {
+    newTripId() {
+      return nanoid(20);
+    },
+
+    async createTrip(trip, days, activities = [], expenses = []) {
+      const stored: TripDocument = checkedCopy(
+        { ...trip, createdAt: now(), updatedAt: now() },
+        `trips/${trip.tripId}`
+      );
+      commit([
+        { tripId: trip.tripId, apply: () => store.trips.set(trip.tripId, stored) },
+        ...days.map((day) => ({ tripId: trip.tripId, apply: () => writes.setDay(trip.tripId, day) })),
+        ...activities.map(({ dayId, activity }) => ({
+          tripId: trip.tripId,
+          apply: () => writes.setActivity(trip.tripId, dayId, activity),
+        })),
+        ...expenses.map((expense) => ({ tripId: trip.tripId, apply: () => writes.setExpense(trip.tripId, expense) })),
+      ]);
+      return clone(stored);
+    },
+
+    async getTrip(tripId) {
+      const trip = store.trips.get(tripId);
+      return trip ? clone(trip) : null;
+    },
+
+    async loadDays(tripId) {
+      return readDays(tripId);
+    },
+
+    async loadActivities(tripId, dayId) {
+      return readActivities(tripId, dayId);
+    },
+
+    async loadExpenses(tripId) {
+      return readExpenses(tripId);
+    },
+
+    async listUserTrips(userId, { limit, cursor }) {
+      return participantTrips(userId)
+        .sort(
+          (a, b) => b.startDate.toMillis() - a.startDate.toMillis() || byId(b.tripId, a.tripId)
+        )
+        .filter(
+          (trip) =>
+            !cursor ||
+            trip.startDate.toMillis() < cursor.startDate.toMillis() ||
+            (trip.startDate.isEqual(cursor.startDate) && trip.tripId < cursor.tripId)
+        )
+        .slice(0, limit)
+        .map(clone);
+    },
+
+    async listUpcomingTrips(userId, after) {
+      return participantTrips(userId)
+        .filter((trip) => trip.startDate.toMillis() > after.toMillis())
+        .sort((a, b) => a.startDate.toMillis() - b.startDate.toMillis())
+        .map(clone);
+    },
+
+    async listParticipantTrips(userId) {
+      return participantTrips(userId).map(clone);
+    },
+
+    async listTrashedTrips(userId) {
+      return [...store.trips.values()]
+        .filter((trip) => trip.trash?.ownerIds.includes(userId))
+        .sort((a, b) => b.trash!.deletedAt.toMillis() - a.trash!.deletedAt.toMillis())
+        .map(clone);
+    },
+
+    async updateTrips(updates) {
+      commit(
+        updates.map(({ tripId, fields }) => ({
+          tripId,
+          apply: () => writes.updateTrip(tripId, fields),
+        }))
+      );
+    },
+
+    async getShare(shareToken) {
+      const share = store.shares.get(shareToken);
+      return share ? clone(share) : null;
+    },
+
+    async deleteTrip(trip) {
+      commit([
+        {
+          tripId: trip.tripId,
+          apply: () => {
+            if (trip.settings?.isPublic && trip.settings.shareToken) {
+              store.shares.delete(trip.settings.shareToken);
+            }
+            store.days.get(trip.tripId)?.forEach((_, dayId) => {
+              store.activities.delete(activitiesKey(trip.tripId, dayId));
+            });
+            store.days.delete(trip.tripId);
+            store.expenses.delete(trip.tripId);
+            store.calendarFeeds.delete(trip.tripId);
+            store.changes.delete(trip.tripId);
+            store.trips.delete(trip.tripId);
+          },
+        },
+      ]);
+    },
+
+    // Other transactions can commit while this one awaits, so like Firestore it
+    // checks that nothing it read has changed before committing, and reruns if it has
+    async runTransaction(updateFunction, { maxAttempts }) {
+      for (let attempt = 1; ; attempt++) {
+        const queued: Array<{ tripId: string; apply: () => void }> = [];
+        // Stored records are replaced on every write, so the record itself is its version
+        const versions: Array<{ stored: () => unknown; seen: unknown }> = [];
+        const read = async <T>(stored: () => T | undefined): Promise<T | null> => {
+          if (queued.length > 0) {
+            throw new Error('Firestore transactions require all reads to be executed before all writes.');
+          }
+          const seen = stored();
+          versions.push({ stored, seen });
+          return clone(seen ?? null);
+        };
+        const queue = (tripId: string, apply: () => void) => {
+          queued.push({ tripId, apply });
+        };
+
+        const transaction: TripTransaction = {
+          getTrip: (tripId) => read(() => store.trips.get(tripId)),
+          getDay: (tripId, dayId) => read(() => store.days.get(tripId)?.get(dayId)),
+          getActivity: (tripId, dayId, activityId) =>
+            read(() => store.activities.get(activitiesKey(tripId, dayId))?.get(activityId)),
+          updateTrip: (tripId, fields, remove) => queue(tripId, () => writes.updateTrip(tripId, fields, remove)),
+          setDay: (tripId, day) => queue(tripId, () => writes.setDay(tripId, day)),
+          updateDay: (tripId, dayId, fields) => queue(tripId, () => writes.updateDay(tripId, dayId, fields)),
+          deleteDay: (tripId, dayId) => queue(tripId, () => writes.deleteDay(tripId, dayId)),
+          setActivity: (tripId, dayId, activity) =>
+            queue(tripId, () => writes.setActivity(tripId, dayId, activity)),
+          updateActivity: (tripId, dayId, activityId, fields) =>
+            queue(tripId, () => writes.updateActivity(tripId, dayId, activityId, fields)),
+          deleteActivity: (tripId, dayId, activityId) =>
+            queue(tripId, () => writes.deleteActivity(tripId, dayId, activityId)),
+          getExpense: (tripId, expenseId) => read(() => store.expenses.get(tripId)?.get(expenseId)),
+          setExpense: (tripId, expense) => queue(tripId, () => writes.setExpense(tripId, expense)),
+          deleteExpense: (tripId, expenseId) => queue(tripId, () => writes.deleteExpense(tripId, expenseId)),
+          joinTrip: (tripId, participant) => queue(tripId, () => writes.joinTrip(tripId, participant)),
+          getInvite: (inviteId) => read(() => store.invites.get(inviteId)),
+          updateInvite: (inviteId, fields) =>
+            queue(store.invites.get(inviteId)?.tripId ?? '', () => writes.updateInvite(inviteId, fields)),
+          setShare: (share) => queue(share.tripId, () => writes.setShare(share)),
+          deleteShare: (shareToken) =>
+            queue(store.shares.get(shareToken)?.tripId ?? '', () => writes.deleteShare(shareToken)),
+          addChange: (tripId, change) => queue(tripId, () => writes.addChange(tripId, change)),
+        };
+
+        const result = await updateFunction(transaction);
+        if (versions.every(({ stored, seen }) => stored() === seen)) {
+          commit(queued);
+          return result;
+        }
+        if (attempt >= maxAttempts) {
+          throw Object.assign(new Error('Transaction failed: the documents it read kept changing.'), {
+            code: 'aborted',
+          });
+        }
+      }
+    },
+
+    async listCalendarFeeds(tripId) {
+      return [...(store.calendarFeeds.get(tripId)?.values() ?? [])].map(clone);
+    },
+
+    async getCalendarFeed(tripId, userId) {
+      const feed = store.calendarFeeds.get(tripId)?.get(userId);
+      return feed ? clone(feed) : null;
+    },
+
+    async setCalendarFeed(tripId, feed) {
+      const stored: CalendarFeed = checkedCopy(
+        { ...feed, createdAt: now() },
+        `trips/${tripId}/calendarFeeds/${feed.userId}`
+      );
+      nestedMap(store.calendarFeeds, tripId).set(feed.userId, stored);
+      return clone(stored);
+    },
+
+    async deleteCalendarFeed(tripId, userId) {
+      store.calendarFeeds.get(tripId)?.delete(userId);
+    },
+
+    async getChange(tripId, changeId) {
+      const change = store.changes.get(tripId)?.find((entry) => entry.changeId === changeId);
+      return change ? clone(change) : null;
+    },
+
+    async listChanges(tripId, { actorId, limit }) {
+      return readChanges(tripId)
+        .filter((change) => !actorId || change.actorId === actorId)
+        .slice(0, limit)
+        .map(clone);
+    },
+
+    watchChanges(tripId, limit, onNext) {
+      const listener = createListener(onNext);
+      let last = store.changes.get(tripId);
+      const read = () => {
+        last = store.changes.get(tripId);
+        return readChanges(tripId).slice(0, limit).map(clone);
+      };
+
+      listener.deliverLater(read);
+      const stopListening = listen(tripListeners, tripId, () => {
+        if (store.changes.get(tripId) !== last) listener.deliver(read());
+      });
+
+      return () => {
+        listener.stop();
+        stopListening();
+      };
+    },
+
+    watchTrip(tripId, onNext) {
+      const listener = createListener(onNext);
+      let last = store.trips.get(tripId);
+      const read = () => {
+        last = store.trips.get(tripId);
+        return last ? clone(last) : null;
+      };
+
+      listener.deliverLater(read);
+      const stopListening = listen(tripListeners, tripId, () => {
+        if (store.trips.get(tripId) !== last) listener.deliver(read());
+      });
+
+      return () => {
+        listener.stop();
+        stopListening();
+      };
+    },
+
+    watchDays(tripId, onChanges) {
+      const listener = createListener(onChanges);
+      // Stored records are replaced on every write, so identity tells us what changed
+      let seen = new Map<string, { day: DayDocument; activities: Activity[] }>();
+
+      const diff = (): DayChange[] => {
+        const current = new Map<string, { day: DayDocument; activities: Activity[] }>();
+        store.days.get(tripId)?.forEach((day, dayId) => {
+          current.set(dayId, {
+            day,
+            activities: [...(store.activities.get(activitiesKey(tripId, dayId))?.values() ?? [])],
+          });
+        });
+
+        const days = new Map(readDays(tripId).map((day) => [day.dayId, day]));
+        const changes: DayChange[] = [];
+        current.forEach((entry, dayId) => {
+          const previous = seen.get(dayId);
+          if (!previous) {
+            changes.push({ type: 'added', day: days.get(dayId)! });
+          } else if (
+            previous.day !== entry.day ||
+            previous.activities.length !== entry.activities.length ||
+            previous.activities.some((activity, i) => activity !== entry.activities[i])
+          ) {
+            changes.push({ type: 'modified', day: days.get(dayId)! });
+          }
+        });
+        seen.forEach((previous, dayId) => {
+          if (!current.has(dayId)) {
+            changes.push({
+              type: 'removed',
+              day: { ...clone(previous.day), activities: previous.activities.map(clone) },
+            });
+          }
+        });
+
+        seen = current;
+        return changes;
+      };
+
+      listener.deliverLater(diff);
+      const stopListening = listen(tripListeners, tripId, () => {
+        const changes = diff();
+        if (changes.length > 0) listener.deliver(changes);
+      });
+
+      return () => {
+        listener.stop();
+        stopListening();
+      };
+    },
+
+    watchExpenses(tripId, onNext) {
+      const listener = createListener(onNext);
+      const storedExpenses = () => [...(store.expenses.get(tripId)?.values() ?? [])];
+      let last = storedExpenses();
+      const read = () => {
+        last = storedExpenses();
+        return readExpenses(tripId);
+      };
+
+      listener.deliverLater(read);
+      // Stored records are replaced on every write, so identity tells us what changed
+      const stopListening = listen(tripListeners, tripId, () => {
+        const current = storedExpenses();
+        const changed = current.length !== last.length || current.some((expense, i) => expense !== last[i]);
+        if (changed) listener.deliver(read());
+      });
+
+      return () => {
+        listener.stop();
+        stopListening();
+      };
+    },
+  };
+
+  const users: UserRepository = {
+    async createUser(user) {
+      const stored: User = checkedCopy(
+        { ...user, createdAt: now(), updatedAt: now() },
+        `users/${user.userId}`
+      );
+      store.users.set(user.userId, stored);
+      return clone(stored);
+    },
+
+    async getUser(userId) {
+      const user = store.users.get(userId);
+      return user ? clone(user) : null;
+    },
+
+    async updateUser(userId, fields) {
+      const path = `users/${userId}`;
+      const user = requireDocument(store.users.get(userId), path);
+      store.users.set(userId, applyFields(user, { ...fields, updatedAt: now() }, path));
+    },
+
+    async addTripId(userId, tripId) {
+      const user = requireDocument(store.users.get(userId), `users/${userId}`);
+      const tripIds = user.tripIds.includes(tripId) ? user.tripIds : [...user.tripIds, tripId];
+      store.users.set(userId, { ...user, tripIds, updatedAt: now() });
+    },
+
+    async removeTripId(userId, tripId) {
+      const user = requireDocument(store.users.get(userId), `users/${userId}`);
+      store.users.set(userId, {
+        ...user,
+        tripIds: user.tripIds.filter((id) => id !== tripId),
+        updatedAt: now(),
+      });
+    },
+  };
+
+  const readPendingTripInvites = (tripId: string): Invite[] =>
+    [...store.invites.values()].filter(
+      (invite) => invite.tripId === tripId && invite.status === 'pending'
+    );
+
+  const invites: InviteRepository = {
+    newInviteId() {
+      return nanoid(20);
+    },
+
+    async createInvite(invite) {
+      const stored: Invite = checkedCopy(
+        { ...invite, createdAt: now(), updatedAt: now() },
+        `invites/${invite.inviteId}`
+      );
+      commit([{ tripId: invite.tripId, apply: () => store.invites.set(invite.inviteId, stored) }]);
+      return clone(stored);
+    },
+
+    async getInvite(inviteId) {
+      const invite = store.invites.get(inviteId);
+      return invite ? clone(invite) : null;
+    },
+
+    async updateInvite(inviteId, fields) {
+      const tripId = store.invites.get(inviteId)?.tripId ?? '';
+      commit([{ tripId, apply: () => writes.updateInvite(inviteId, fields) }]);
+    },
+
+    async listPendingTripInvites(tripId) {
+      return readPendingTripInvites(tripId).map(clone);
+    },
+
+    async listPendingPhoneInvites(phoneNumber) {
+      return [...store.invites.values()]
+        .filter((invite) => invite.phoneNumber === phoneNumber && invite.status === 'pending')
+        .map(clone);
+    },
+
+    watchPendingTripInvites(tripId, onNext) {
+      const listener = createListener(onNext);
+      let last: Invite[] = [];
+      const read = () => {
+        last = readPendingTripInvites(tripId);
+        return last.map(clone);
+      };
+
+      listener.deliverLater(read);
+      const stopListening = listen(inviteListeners, tripId, () => {
+        const current = readPendingTripInvites(tripId);
+        const changed =
+          current.length !== last.length || current.some((invite, i) => invite !== last[i]);
+        if (changed) listener.deliver(read());
+      });
+
+      return () => {
+        listener.stop();
+        stopListening();
+      };
+    },
+  };
+
+  const readPresence = (tripId: string): Presence[] =>
+    [...(store.presence.get(tripId)?.values() ?? [])].map(clone);
+
+  const notifyPresence = (tripId: string) => {
+    presenceListeners.get(tripId)?.forEach((notify) => notify());
+  };
+
+  const presence: PresenceRepository = {
+    async setPresence(tripId, entry) {
+      nestedMap(store.presence, tripId).set(
+        entry.userId,
+        checkedCopy({ ...entry, lastSeen: now() }, `trips/${tripId}/presence/${entry.userId}`)
+      );
+      notifyPresence(tripId);
+    },
+
+    async touchPresence(tripId, userId) {
+      const entries = nestedMap(store.presence, tripId);
+      // Like a merge write, this creates a partial entry if none exists
+      entries.set(userId, {
+        ...(entries.get(userId) ?? ({ userId } as Presence)),
+        lastSeen: now(),
+        currentlyViewing: true,
+      });
+      notifyPresence(tripId);
+    },
+
+    async removePresence(tripId, userId) {
+      store.presence.get(tripId)?.delete(userId);
+      notifyPresence(tripId);
+    },
+
+    watchPresence(tripId, onNext) {
+      const listener = createListener(onNext);
+      listener.deliverLater(() => readPresence(tripId));
+      const stopListening = listen(presenceListeners, tripId, () =>
+        listener.deliver(readPresence(tripId))
+      );
+
+      return () => {
+        listener.stop();
+        stopListening();
+      };
+    },
+  };
+
+  const templates: TemplateRepository = {
+    newTemplateId() {
+      return nanoid(20);
+    },
+
+    async createTemplate(template) {
+      const stored: TripTemplate = checkedCopy(
+        { ...template, createdAt: now(), updatedAt: now() },
+        `templates/${template.templateId}`
+      );
+      store.templates.set(template.templateId, stored);
+      return clone(stored);
+    },
+
+    async getTemplate(templateId) {
+      const template = store.templates.get(templateId);
+      return template ? clone(template) : null;
+    },
+
+    async listUserTemplates(userId) {
+      return [...store.templates.values()]
+        .filter((template) => template.ownerId === userId)
+        .map(clone);
+    },
+
+    async deleteTemplate(templateId) {
+      store.templates.delete(templateId);
+    },
+  };
+
+  const calendarPath = (tripId: string, feed: Pick<CalendarFeed, 'userId' | 'feedToken'>) =>
+    `calendar-feeds/${tripId}/${feed.userId}/${feed.feedToken}.ics`;
+
+  const calendars: CalendarRepository = {
+    async publishCalendar(tripId, feed, ics) {
+      store.calendars.set(calendarPath(tripId, feed), ics);
+    },
+
+    async unpublishCalendar(tripId, feed) {
+      store.calendars.delete(calendarPath(tripId, feed));
+    },
+
+    getCalendarUrl(tripId, feed) {
+      return `memory://${calendarPath(tripId, feed)}`;
+    },
+  };
+
+  return { trips, users, invites, presence, templates, calendars };
+}
@@ -0,0 +1,303 @@
+import type { Timestamp } from 'firebase/firestore';
+import type {
+  User,
+  Presence,
+  TripDocument,
+  TripPageCursor,
+  Trip,
+  Day,
+  DayDocument,
+  DayChange,
+  Activity,
+  Expense,
+  Participant,
+  Invite,
+  TripShare,
+  TripChange,
+  TripTemplate,
+  CalendarFeed,
+} from '../../types';
+
+/**
+ * Persistence Interfaces
+ * What the services need from storage, independent of Firestore.
+ *
+ * Two implementations:
+ * - firestore.ts - the real backend (or the local emulators, see config/firebase.ts)
+ * - memory.ts    - plain in-memory maps, for unit-testing service logic without Firebase
+ *
+ * Published calendars (see CalendarRepository) live in Cloud Storage rather
+ * than Firestore, so calendar apps can fetch them as plain files.
+ *
+ * Repositories stamp their own timestamps (createdAt/updatedAt/lastSeen) so
+ * callers never pass backend-specific sentinels like serverTimestamp().
+ */
+
+export type Unsubscribe = () => void;
+
+export type ErrorHandler = (error: Error) => void;
+
+/**
+ * Trip document before the repository stamps createdAt/updatedAt
+ */
+export type NewTripDocument = Omit<TripDocument, 'createdAt' | 'updatedAt'>;
+
+/**
+ * Share link before the repository stamps createdAt
+ */
+export type NewTripShare = Omit<TripShare, 'createdAt'>;
+
+/**
+ * Change entry before the repository stamps createdAt
+ */
+export type NewTripChange = Omit<TripChange, 'createdAt'>;
+
+/**
+ * Calendar feed before the repository stamps createdAt
+ */
+export type NewCalendarFeed = Omit<CalendarFeed, 'createdAt'>;
+
+/**
+ * Reads and writes that commit atomically
+ * All reads must happen before the first write, as in Firestore
+ */
+export interface TripTransaction {
+  getTrip(tripId: string): Promise<TripDocument | null>;
+  getDay(tripId: string, dayId: string): Promise<DayDocument | null>;
+  getActivity(tripId: string, dayId: string, activityId: string): Promise<Activity | null>;
+  getExpense(tripId: string, expenseId: string): Promise<Expense | null>;
+
+  /**
+   * Also stamps updatedAt; pass no fields to just touch the trip
+   * Fields named in `remove` are deleted from the document
+   */
+  updateTrip(tripId: string, fields: Partial<TripDocument>, remove?: (keyof TripDocument)[]): void;
+
+  setDay(tripId: string, day: DayDocument): void;
+  updateDay(tripId: string, dayId: string, fields: Partial<DayDocument>): void;
+  deleteDay(tripId: string, dayId: string): void;
+
+  setActivity(tripId: string, dayId: string, activity: Activity): void;
+  updateActivity(tripId: string, dayId: string, activityId: string, fields: Partial<Activity>): void;
+  deleteActivity(tripId: string, dayId: string, activityId: string): void;
+
+  setExpense(tripId: string, expense: Expense): void;
+  deleteExpense(tripId: string, expenseId: string): void;
+
+  /**
+   * Append a participant without reading the trip (invitees can't read it
+   * before they've joined); also updates participantIds and roles, and stamps updatedAt
+   */
+  joinTrip(tripId: string, participant: Participant): void;
+
+  getInvite(inviteId: string): Promise<Invite | null>;
+  /** Also stamps updatedAt */
+  updateInvite(inviteId: string, fields: Partial<Invite>): void;
+
+  /** Publish a share link (shares/{shareToken}); stamps createdAt */
+  setShare(share: NewTripShare): void;
+  deleteShare(shareToken: string): void;
+  /** Append to the trip's change history (trips/{tripId}/changes); stamps createdAt */
+  addChange(tripId: string, change: NewTripChange): void;
+}
+
+export interface TripRepository {
+  /** Reserve an ID for a trip that hasn't been written yet */
+  newTripId(): string;
+
+  /**
+   * Write a trip with its days and, optionally, their activities and the trip's expenses;
+   * returns the stored trip document
+   * Large trips are written in several batches, trip first
+   */
+  createTrip(
+    trip: NewTripDocument,
+    days: DayDocument[],
+    activities?: Array<{ dayId: string; activity: Activity }>,
+    expenses?: Expense[]
+  ): Promise<TripDocument>;
+
+  getTrip(tripId: string): Promise<TripDocument | null>;
+
+  /** Every day of a trip with its activities, sorted by date */
+  loadDays(tripId: string): Promise<Day[]>;
+
+  /** A day's activities in creation order */
+  loadActivities(tripId: string, dayId: string): Promise<Activity[]>;
+
+  /** A trip's expenses in creation order */
+  loadExpenses(tripId: string): Promise<Expense[]>;
+
+  /** Trips a user participates in, newest startDate first (ties by tripId, descending) */
+  listUserTrips(
+    userId: string,
+    options: { limit: number; cursor?: TripPageCursor | null }
+  ): Promise<TripDocument[]>;
+
+  /** Trips a user participates in that start after a given time, soonest first */
+  listUpcomingTrips(userId: string, after: Timestamp): Promise<TripDocument[]>;
+
+  /** Every trip a user participates in, unordered */
+  listParticipantTrips(userId: string): Promise<TripDocument[]>;
+
+  /** Trips in the trash that a user owned when they were deleted, most recently deleted first */
+  listTrashedTrips(userId: string): Promise<TripDocument[]>;
+
+  /** Update several trips in one batch; each update also stamps updatedAt */
+  updateTrips(updates: Array<{ tripId: string; fields: Partial<TripDocument> }>): Promise<void>;
+
+  /** Published share link by token, or null */
+  getShare(shareToken: string): Promise<TripShare | null>;
+
+  /** Delete a trip for good, with all its days, activities, expenses, calendar feeds and change history (and its share link, if published) */
+  deleteTrip(trip: Trip): Promise<void>;
+
+  /**
+   * Run reads and writes atomically
+   * May re-run `updateFunction` when the data changed underneath it, up to maxAttempts
+   */
+  runTransaction<T>(
+    updateFunction: (transaction: TripTransaction) => Promise<T>,
+    options: { maxAttempts: number }
+  ): Promise<T>;
+
+  /** A trip's calendar feeds, one per participant who turned theirs on */
+  listCalendarFeeds(tripId: string): Promise<CalendarFeed[]>;
+  getCalendarFeed(tripId: string, userId: string): Promise<CalendarFeed | null>;
+  /** Create or replace a participant's feed; returns the stored feed */
+  setCalendarFeed(tripId: string, feed: NewCalendarFeed): Promise<CalendarFeed>;
+  deleteCalendarFeed(tripId: string, userId: string): Promise<void>;
+
+  getChange(tripId: string, changeId: string): Promise<TripChange | null>;
+  /** A trip's change history, newest first; optionally only one user's changes */
+  listChanges(tripId: string, options: { actorId?: string; limit?: number }): Promise<TripChange[]>;
+  /** Listen to a trip's latest changes, newest first; the first snapshot is always delivered */
+  watchChanges(
+    tripId: string,
+    limit: number,
+    onNext: (changes: TripChange[]) => void,
+    onError: ErrorHandler
+  ): Unsubscribe;
+  watchTrip(
+    tripId: string,
+    onNext: (trip: TripDocument | null) => void,
+    onError: ErrorHandler
+  ): Unsubscribe;
+
+  /**
+   * Listen to a trip's days with their activities
+   * Changes arrive in batches; the first batch (possibly empty) is always delivered
+   */
+  watchDays(
+    tripId: string,
+    onChanges: (changes: DayChange[]) => void,
+    onError: ErrorHandler
+  ): Unsubscribe;
+
+  /** Listen to a trip's expenses in creation order; the first snapshot is always delivered */
+  watchExpenses(
+    tripId: string,
+    onNext: (expenses: Expense[]) => void,
+    onError: ErrorHandler
+  ): Unsubscribe;
+}
+
+/**
+ * User document before the repository stamps createdAt/updatedAt
+ */
+export type NewUserDocument = Omit<User, 'createdAt' | 'updatedAt'>;
+
+export interface UserRepository {
+  /** Returns the stored user */
+  createUser(user: NewUserDocument): Promise<User>;
+  getUser(userId: string): Promise<User | null>;
+  /** Also stamps updatedAt */
+  updateUser(userId: string, fields: Partial<User>): Promise<void>;
+  addTripId(userId: string, tripId: string): Promise<void>;
+  removeTripId(userId: string, tripId: string): Promise<void>;
+}
+
+/**
+ * Invite document before the repository stamps createdAt/updatedAt
+ */
+export type NewInviteDocument = Omit<Invite, 'createdAt' | 'updatedAt'>;
+
+export interface InviteRepository {
+  /** Random, unguessable ID; doubles as the token in invite links */
+  newInviteId(): string;
+
+  /** Returns the stored invite */
+  createInvite(invite: NewInviteDocument): Promise<Invite>;
+
+  getInvite(inviteId: string): Promise<Invite | null>;
+
+  /** Also stamps updatedAt */
+  updateInvite(inviteId: string, fields: Partial<Invite>): Promise<void>;
+
+  /** A trip's pending invites */
+  listPendingTripInvites(tripId: string): Promise<Invite[]>;
+
+  /** Pending invites addressed to a phone number, across all trips */
+  listPendingPhoneInvites(phoneNumber: string): Promise<Invite[]>;
+
+  /** Listen to a trip's pending invites; the first snapshot is always delivered */
+  watchPendingTripInvites(
+    tripId: string,
+    onNext: (invites: Invite[]) => void,
+    onError: ErrorHandler
+  ): Unsubscribe;
+}
+
+export interface PresenceRepository {
+  /** Replace a user's presence; stamps lastSeen */
+  setPresence(tripId: string, presence: Omit<Presence, 'lastSeen'>): Promise<void>;
+  /** Refresh lastSeen and mark the user as viewing */
+  touchPresence(tripId: string, userId: string): Promise<void>;
+  removePresence(tripId: string, userId: string): Promise<void>;
+  watchPresence(
+    tripId: string,
+    onNext: (presences: Presence[]) => void,
+    onError: ErrorHandler
+  ): Unsubscribe;
+}
+
+/**
+ * Template document before the repository stamps createdAt/updatedAt
+ */
+export type NewTripTemplate = Omit<TripTemplate, 'createdAt' | 'updatedAt'>;
+
+export interface TemplateRepository {
+  /** Reserve an ID for a template that hasn't been written yet */
+  newTemplateId(): string;
+
+  /** Returns the stored template */
+  createTemplate(template: NewTripTemplate): Promise<TripTemplate>;
+
+  getTemplate(templateId: string): Promise<TripTemplate | null>;
+
+  /** A user's templates, unordered */
+  listUserTemplates(userId: string): Promise<TripTemplate[]>;
+
+  deleteTemplate(templateId: string): Promise<void>;
+}
+
+/**
+ * Calendar files behind the feed URLs, readable by anyone holding the URL
+ */
+export interface CalendarRepository {
+  /** Publish a feed's iCalendar text, replacing what was there */
+  publishCalendar(tripId: string, feed: Pick<CalendarFeed, 'userId' | 'feedToken'>, ics: string): Promise<void>;
+  /** Take a feed's calendar down; does nothing if it isn't published */
+  unpublishCalendar(tripId: string, feed: Pick<CalendarFeed, 'userId' | 'feedToken'>): Promise<void>;
+  /** URL calendar apps subscribe to */
+  getCalendarUrl(tripId: string, feed: Pick<CalendarFeed, 'userId' | 'feedToken'>): string;
+}
+
+export interface Persistence {
+  trips: TripRepository;
+  users: UserRepository;
+  invites: InviteRepository;
+  presence: PresenceRepository;
+  templates: TemplateRepository;
+  calendars: CalendarRepository;
+}
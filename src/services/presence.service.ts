@@ -1,14 +1,5 @@
-import {
-  collection,
-  doc,
-  setDoc,
-  deleteDoc,
-  onSnapshot,
-  serverTimestamp,
-  Unsubscribe,
-  query,
-} from 'firebase/firestore';
-import { db } from '../config/firebase';
+import type { Unsubscribe } from 'firebase/firestore';
+import { getPersistence } from './persistence';
 import type { Presence } from '../types';
 
 /**
@@ -30,17 +21,12 @@ export async function setPresence(
   displayName: string
 ): Promise<void> {
   try {
-    const presenceRef = doc(db, 'trips', tripId, 'presence', userId);
-
-    const presenceData: Presence = {
+    await getPersistence().presence.setPresence(tripId, {
       userId,
       phoneNumber,
       displayName,
-      lastSeen: serverTimestamp() as any,
       currentlyViewing: true,
-    };
-
-    await setDoc(presenceRef, presenceData);
+    });
   } catch (error: any) {
     console.error('Error setting presence:', error);
     // Don't throw - presence is non-critical
@@ -57,16 +43,7 @@ export async function updatePresence(
   userId: string
 ): Promise<void> {
   try {
-    const presenceRef = doc(db, 'trips', tripId, 'presence', userId);
-
-    await setDoc(
-      presenceRef,
-      {
-        lastSeen: serverTimestamp(),
-        currentlyViewing: true,
-      },
-      { merge: true }
-    );
+    await getPersistence().presence.touchPresence(tripId, userId);
   } catch (error: any) {
     console.error('Error updating presence:', error);
     // Don't throw - presence is non-critical
@@ -83,8 +60,7 @@ export async function removePresence(
   userId: string
 ): Promise<void> {
   try {
-    const presenceRef = doc(db, 'trips', tripId, 'presence', userId);
-    await deleteDoc(presenceRef);
+    await getPersistence().presence.removePresence(tripId, userId);
   } catch (error: any) {
     console.error('Error removing presence:', error);
     // Don't throw - presence is non-critical
@@ -101,23 +77,10 @@ export function subscribeToPresence(
   tripId: string,
   callback: (presences: Presence[]) => void
 ): Unsubscribe {
-  const presenceRef = collection(db, 'trips', tripId, 'presence');
-  const q = query(presenceRef);
-
-  return onSnapshot(
-    q,
-    (snapshot) => {
-      const presences: Presence[] = [];
-      snapshot.forEach((doc) => {
-        presences.push(doc.data() as Presence);
-      });
-      callback(presences);
-    },
-    (error) => {
-      console.error('Error in presence subscription:', error);
-      callback([]);
-    }
-  );
+  return getPersistence().presence.watchPresence(tripId, callback, (error) => {
+    console.error('Error in presence subscription:', error);
+    callback([]);
+  });
 }
 
 /**
@@ -0,0 +1,102 @@
+import { getTripSettings } from './trip.service';
+import { getTripCosts } from '../utils/settlement';
+import { BUNDLED_RATE_SOURCE, getBundledRate, getManualRates } from '../utils/currency';
+import type { Trip, ExchangeRate } from '../types';
+
+/**
+ * Exchange Rate Service
+ * Rates for converting a trip's costs into its currency
+ *
+ * Rates come from an ExchangeRateProvider. The default one reads the rate
+ * table bundled with the app (utils/currency.ts), so totals work offline;
+ * another source, such as a live rates API, can be plugged in with
+ * setExchangeRateProvider. Rates a trip sets by hand (setExchangeRate in
+ * trip.service) are used instead of the provider's.
+ */
+
+/**
+ * Where exchange rates come from
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;       // Recorded as each rate's source
+  /**
+   * Rates from each of the currencies into target
+   * Currencies it has no rate for are left out
+   */
+  getRates(currencies: string[], target: string): Promise<ExchangeRate[]>;
+}
+
+/**
+ * Provider that reads the bundled rate table, without a network call
+ */
+export function createBundledRateProvider(): ExchangeRateProvider {
+  return {
+    name: BUNDLED_RATE_SOURCE,
+    async getRates(currencies, target) {
+      return currencies
+        .map((currency) => getBundledRate(currency, target))
+        .filter((rate): rate is ExchangeRate => rate !== null);
+    },
+  };
+}
+
+let current: ExchangeRateProvider | null = null;
+
+/**
+ * Provider the app is using (the bundled table unless another was set)
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!current) {
+    current = createBundledRateProvider();
+  }
+  return current;
+}
+
+/**
+ * Use a different rate provider from now on
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider): void {
+  current = provider;
+}
+
+/**
+ * Currencies a trip's costs and repayments use, other than its own
+ * Costs include expenses, so pass the trip with them loaded
+ * @returns Currency codes in alphabetical order
+ */
+export function getForeignCurrencies(trip: Pick<Trip, 'days' | 'lodging' | 'expenses' | 'settlements' | 'settings'>): string[] {
+  const { currency } = getTripSettings(trip);
+  const currencies = new Set([
+    ...getTripCosts(trip).map(({ cost }) => cost.currency),
+    ...(trip.settlements ?? []).map((settlement) => settlement.currency),
+  ]);
+  currencies.delete(currency);
+  return [...currencies].sort();
+}
+
+/**
+ * Rates for converting a trip's costs into its currency
+ * Rates set by hand on the trip come first; the provider fills in the rest.
+ * If the provider fails, the bundled table is used instead.
+ * @param trip - Trip with its days and expenses
+ * @returns One rate per foreign currency that has one
+ */
+export async function getTripExchangeRates(
+  trip: Pick<Trip, 'days' | 'lodging' | 'expenses' | 'settlements' | 'settings' | 'exchangeRates'>
+): Promise<ExchangeRate[]> {
+  const { currency } = getTripSettings(trip);
+  const manual = getManualRates(trip.exchangeRates, currency);
+  const missing = getForeignCurrencies(trip).filter((code) => !manual.some((rate) => rate.from === code));
+  if (missing.length === 0) {
+    return manual;
+  }
+
+  let fetched: ExchangeRate[];
+  try {
+    fetched = await getExchangeRateProvider().getRates(missing, currency);
+  } catch (error: any) {
+    console.error('Error getting exchange rates:', error);
+    fetched = await createBundledRateProvider().getRates(missing, currency);
+  }
+  return [...manual, ...fetched];
+}
@@ -0,0 +1,132 @@
+import { getPersistence } from './persistence';
+import { getTripContent, createTripFromContent } from './trip.service';
+import { ServiceError } from './errors';
+import type { Trip, TripTemplate, TripContent, CopyTripInput } from '../types';
+
+/**
+ * Template Service
+ * A user's personal library of trips to start new ones from
+ *
+ * A template is a snapshot of a trip's details, itinerary and lodging, taken
+ * when it's saved; later edits to the trip don't reach it. Templates belong to
+ * the user who saved them and nobody else can see them. Starting a trip from
+ * one goes through trip.service createTripFromContent, like duplicateTrip.
+ */
+
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+/**
+ * Load a template the user owns
+ * Someone else's template is reported as missing, as the rules hide it
+ */
+async function getOwnTemplate(templateId: string, userId: string): Promise<TripTemplate> {
+  const template = await getPersistence().templates.getTemplate(templateId);
+  if (!template || template.ownerId !== userId) {
+    throw new Error('Template not found');
+  }
+  return template;
+}
+
+/**
+ * Costs left out of a saved copy (see copyTripContent for what's kept otherwise)
+ */
+function withoutCosts(content: TripContent): TripContent {
+  return {
+    ...content,
+    days: content.days.map((day) => ({
+      ...day,
+      activities: day.activities.map(({ cost: _cost, ...activity }) => activity),
+    })),
+    lodging: content.lodging.map(({ cost: _cost, ...stay }) => stay),
+  };
+}
+
+/**
+ * Save a trip to the user's template library (any participant)
+ * @param tripId - Trip to save
+ * @param userId - User saving it (owns the template)
+ * @param name - Template name; defaults to the trip's title
+ * @param options.clearCosts - Leave out activity and lodging costs
+ * @returns Created template
+ */
+export async function saveAsTemplate(
+  tripId: string,
+  userId: string,
+  name?: string,
+  options: { clearCosts?: boolean } = {}
+): Promise<TripTemplate> {
+  try {
+    const content = await getTripContent(tripId, userId);
+    const templateName = name?.trim() || content.title;
+    if (templateName.length > MAX_TEMPLATE_NAME_LENGTH) {
+      throw new Error(`Template names can be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`);
+    }
+
+    const templates = getPersistence().templates;
+    return await templates.createTemplate({
+      templateId: templates.newTemplateId(),
+      ownerId: userId,
+      name: templateName,
+      sourceTripId: tripId,
+      content: options.clearCosts ? withoutCosts(content) : content,
+    });
+  } catch (error: any) {
+    console.error('Error saving template:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to save template: ${error.message}`);
+  }
+}
+
+/**
+ * Get a user's templates
+ * @param userId - User ID
+ * @returns Templates sorted by name
+ */
+export async function getUserTemplates(userId: string): Promise<TripTemplate[]> {
+  try {
+    const templates = await getPersistence().templates.listUserTemplates(userId);
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error: any) {
+    console.error('Error getting templates:', error);
+    throw new Error(`Failed to get templates: ${error.message}`);
+  }
+}
+
+/**
+ * Start a new trip from one of the user's templates
+ * @param templateId - Template ID
+ * @param userId - User creating the trip (must own the template; becomes the trip's owner)
+ * @param options - Start date and title (defaults to the template's trip title); clearCosts leaves out costs
+ * @returns Created trip
+ */
+export async function createTripFromTemplate(
+  templateId: string,
+  userId: string,
+  options: CopyTripInput
+): Promise<Trip> {
+  try {
+    const template = await getOwnTemplate(templateId, userId);
+    return await createTripFromContent(template.content, userId, options);
+  } catch (error: any) {
+    console.error('Error creating trip from template:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to create trip from template: ${error.message}`);
+  }
+}
+
+/**
+ * Delete one of the user's templates
+ * Trips started from it are unaffected
+ * @param templateId - Template ID
+ * @param userId - User deleting it (must own it)
+ */
+export async function deleteTemplate(templateId: string, userId: string): Promise<void> {
+  try {
+    await getOwnTemplate(templateId, userId);
+    await getPersistence().templates.deleteTemplate(templateId);
+  } catch (error: any) {
+    console.error('Error deleting template:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+}
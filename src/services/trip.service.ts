@@ -1,42 +1,570 @@
+import { Timestamp } from 'firebase/firestore';
+import type { Unsubscribe } from 'firebase/firestore';
+import { addTripToUser, removeTripFromUser, getUser } from './user.service';
 import {
-  collection,
-  doc,
-  getDoc,
-  getDocs,
-  setDoc,
-  updateDoc,
-  deleteDoc,
-  query,
-  where,
-  orderBy,
-  serverTimestamp,
-  writeBatch,
-  onSnapshot,
-  Timestamp,
-  Unsubscribe,
-} from 'firebase/firestore';
-import { db } from '../config/firebase';
-import { addTripToUser, removeTripFromUser } from './user.service';
+  ServiceError,
+  TripConflictError,
+  DaysOutOfRangeError,
+  LodgingOutOfRangeError,
+  ScheduleValidationError,
+  ChangeHistoryError,
+  InvalidTripExportError,
+} from './errors';
+import type { OutOfRangeLodging } from './errors';
+import {
+  assertCanPerform,
+  assertCanRedeemInvite,
+  getParticipantRole,
+  TripAction,
+} from './permissions';
+import { getPersistence } from './persistence';
+import type { TripTransaction, NewTripDocument, NewTripChange } from './persistence';
+import { assembleTrip, orderActivities } from './trip.storage';
 import type {
   Trip,
+  TripDocument,
+  TripPageCursor,
+  UserTripsPage,
   CreateTripInput,
   UpdateTripInput,
+  TripSettings,
+  TripTrash,
+  TripContent,
+  CopyTripInput,
+  SharedTrip,
+  SharedActivity,
   Participant,
+  ParticipantRole,
   AddParticipantInput,
   Day,
+  DayDocument,
+  DayChange,
   CreateDayInput,
   Activity,
+  ActivityType,
+  FlightDetails,
+  Cost,
   CreateActivityInput,
+  DayActivityInput,
   UpdateActivityInput,
+  ActivityPlacement,
+  Lodging,
+  CreateLodgingInput,
+  UpdateLodgingInput,
+  Expense,
+  CreateExpenseInput,
+  UpdateExpenseInput,
+  Settlement,
+  CreateSettlementInput,
+  ExchangeRateOverride,
+  SetExchangeRateInput,
+  TripBudget,
+  TripChange,
+  ChangeOperation,
+  ChangeTarget,
+  DocumentDiff,
+  CalendarFeed,
+  CalendarScope,
+  TripExport,
+  ImportTripOptions,
 } from '../types';
 import { nanoid } from 'nanoid';
+import { toCalendarDate, fromZonedTime, eachCalendarDate, diffCalendarDays, isValidTimeZone } from '../utils/dates';
+import { routeUrl } from '../utils/routes';
+import { isValidIata } from '../utils/airports';
+import { shiftActivityTimes } from '../utils/activities';
+import { isCalendarDate } from '../utils/lodging';
+import { validateActivity } from '../utils/schedule';
+import { copyTripContent } from '../utils/copies';
+import { getCostSplitError, getTripCosts } from '../utils/settlement';
+import { isCurrencyCode } from '../utils/currency';
+import { BUDGET_CATEGORIES } from '../utils/budget';
+import { toICalendar } from '../utils/ics';
+import { toTripExport, fromTripExport, validateTripExport, remapTripUsers } from '../utils/exports';
+import {
+  diffTrip,
+  diffDay,
+  diffActivity,
+  diffExpense,
+  matchesFields,
+  revertFields,
+  isUndoable,
+  getChangeToUndo,
+  describeChange,
+} from '../utils/changes';
 
 /**
  * Trip Service
  * Handles trip CRUD operations and real-time subscriptions
+ * Storage goes through the trip repository (see persistence/); in Firestore,
+ * days and activities are stored in subcollections (see trip.storage.ts)
+ */
+
+/**
+ * Max attempts for a trip transaction before giving up with TripConflictError
+ * Firestore re-runs the transaction with backoff whenever the trip changed underneath it
+ */
+const TRANSACTION_MAX_ATTEMPTS = 5;
+
+/**
+ * Longest trip we generate days for (one batch must hold the trip and its days)
+ */
+const MAX_TRIP_DAYS = 366;
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+const DEFAULT_CURRENCY = 'USD';
+
+const DEFAULT_TRIPS_PAGE_SIZE = 20;
+
+/**
+ * Most activities addActivities writes in one transaction; each is a write,
+ * and all of them go into a single history entry
+ */
+const MAX_ACTIVITIES_PER_BATCH = 100;
+
+/**
+ * Latest changes shown in a trip's activity feed
+ */
+const CHANGE_FEED_LENGTH = 50;
+
+/**
+ * What a change was, for its history entry
+ */
+interface ChangeSummary {
+  operation: ChangeOperation;
+  target: ChangeTarget;
+  label: string;
+  undoes?: string;
+}
+
+/**
+ * Run a Firestore transaction against a trip with the shared retry policy
+ * Once it commits, the trip's calendar feeds are republished
+ * @param tripId - Trip ID (used for the conflict error)
+ * @param updateFunction - Transaction body; all reads must happen before writes
+ * @returns Whatever the transaction body returns
+ */
+async function withTripTransaction<T>(
+  tripId: string,
+  updateFunction: (transaction: TripTransaction) => Promise<T>
+): Promise<T> {
+  let result: T;
+  try {
+    result = await getPersistence().trips.runTransaction(updateFunction, {
+      maxAttempts: TRANSACTION_MAX_ATTEMPTS,
+    });
+  } catch (error: any) {
+    // Contention that outlasted every retry surfaces as 'aborted'; anything
+    // else (e.g. 'failed-precondition' for a missing index) isn't a conflict
+    if (error?.code === 'aborted') {
+      throw new TripConflictError(tripId, TRANSACTION_MAX_ATTEMPTS);
+    }
+    throw error;
+  }
+
+  await refreshCalendarFeeds(tripId);
+  return result;
+}
+
+/**
+ * A trip's calendar as published at a feed's URL
+ */
+function toFeedCalendar(trip: Trip, feed: CalendarFeed): string {
+  return toICalendar(trip, getTripSettings(trip).timezone, {
+    scope: feed.scope,
+    userId: feed.userId,
+    tripUrl: routeUrl({ name: 'trip', tripId: trip.tripId }),
+  });
+}
+
+/**
+ * Republish a trip's calendar feeds after it changed
+ * Feeds of people who left the trip are removed, and a trip in the trash
+ * takes its feeds down until it's restored. Failures are only logged: the
+ * change itself is saved, and the next one (or scripts/publish-calendars.ts)
+ * publishes again. Viewers may only write their own file (storage.rules).
+ */
+async function refreshCalendarFeeds(tripId: string): Promise<void> {
+  try {
+    const { trips, calendars } = getPersistence();
+    const feeds = await trips.listCalendarFeeds(tripId);
+    if (feeds.length === 0) return;
+
+    const tripDoc = await trips.getTrip(tripId);
+    const trip = tripDoc && !tripDoc.trash ? assembleTrip(tripDoc, await trips.loadDays(tripId), []) : null;
+    for (const feed of feeds) {
+      try {
+        if (!trip) {
+          await calendars.unpublishCalendar(tripId, feed);
+        } else if (getParticipantRole(trip, feed.userId)) {
+          await calendars.publishCalendar(tripId, feed, toFeedCalendar(trip, feed));
+        } else {
+          await calendars.unpublishCalendar(tripId, feed);
+          await trips.deleteCalendarFeed(tripId, feed.userId);
+        }
+      } catch (error) {
+        console.error(`Error refreshing calendar feed of ${feed.userId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error refreshing calendar feeds:', error);
+  }
+}
+
+/**
+ * Read a trip document inside a transaction
+ * @throws Error if the trip doesn't exist or is in the trash
+ */
+async function getTripInTransaction(
+  transaction: TripTransaction,
+  tripId: string
+): Promise<TripDocument> {
+  const trip = await transaction.getTrip(tripId);
+  if (!trip || trip.trash) {
+    throw new Error('Trip not found');
+  }
+  return trip;
+}
+
+/**
+ * Read a trip document inside a transaction and check the actor's role on it
+ * Reading the trip also makes the transaction retry if the role changes meanwhile
+ * @throws PermissionDeniedError if the actor's role doesn't allow the action
+ */
+async function getAuthorizedTrip(
+  transaction: TripTransaction,
+  tripId: string,
+  actorId: string,
+  action: TripAction
+): Promise<TripDocument> {
+  const trip = await getTripInTransaction(transaction, tripId);
+  assertCanPerform(trip, actorId, action);
+  return trip;
+}
+
+/**
+ * Append a change to the trip's history, in the transaction that makes it
+ * Nothing is recorded when diffs are given but none of them changed anything
+ * @param summary - Operation, target IDs and label
+ * @param diffs - How each document changed (null for documents that didn't)
+ * @returns The entry, or null if nothing was recorded
+ */
+function recordChange(
+  transaction: TripTransaction,
+  tripId: string,
+  actorId: string,
+  summary: ChangeSummary,
+  diffs: (DocumentDiff | null)[]
+): NewTripChange | null {
+  const changed = diffs.filter((diff): diff is DocumentDiff => diff !== null);
+  if (diffs.length > 0 && changed.length === 0) {
+    return null;
+  }
+
+  const { undoes, ...entry } = summary;
+  const change: NewTripChange = { changeId: nanoid(), tripId, actorId, ...entry, diffs: changed };
+  if (undoes) {
+    change.undoes = undoes;
+  }
+  transaction.addChange(tripId, change);
+  return change;
+}
+
+/**
+ * Apply a mutation to the latest trip document inside a Firestore transaction
+ * The mutation receives the current trip and returns the fields to write,
+ * so a concurrent edit is re-applied on top of ours instead of being overwritten
+ * @param tripId - Trip ID
+ * @param actorId - User making the change
+ * @param action - Permission the change needs
+ * @param mutate - Builds the update from the current trip
+ * @param describe - Names the change for the trip's history
+ * @returns Trip document as it was read by the successful attempt
+ */
+async function runTripTransaction(
+  tripId: string,
+  actorId: string,
+  action: TripAction,
+  mutate: (trip: TripDocument) => Partial<TripDocument>,
+  describe: (trip: TripDocument) => ChangeSummary
+): Promise<TripDocument> {
+  return withTripTransaction(tripId, async (transaction) => {
+    const trip = await getAuthorizedTrip(transaction, tripId, actorId, action);
+    const fields = mutate(trip);
+    transaction.updateTrip(tripId, fields);
+    recordChange(transaction, tripId, actorId, describe(trip), [diffTrip(trip, { ...trip, ...fields })]);
+    return trip;
+  });
+}
+
+/**
+ * How a day is named in the trip's history: its title, or its date
+ */
+function getDayLabel(day: DayDocument, timeZone: string): string {
+  return day.title || toCalendarDate(day.date.toDate(), timeZone);
+}
+
+/**
+ * A day as stored, without its activities
+ */
+function toDayDocument({ activities: _activities, ...day }: Day): DayDocument {
+  return day;
+}
+
+/**
+ * A participant's name on a trip, for its history
+ */
+function getParticipantLabel(trip: TripDocument, userId: string): string {
+  return trip.participants.find((p) => p.userId === userId)?.displayName || userId;
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD) a trip covers in its time zone
+ * @throws Error if the range is inverted, too long, or the zone is unknown
+ */
+function getTripCalendarDates(
+  startDate: Timestamp,
+  endDate: Timestamp,
+  timeZone: string
+): string[] {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+
+  const start = toCalendarDate(startDate.toDate(), timeZone);
+  const end = toCalendarDate(endDate.toDate(), timeZone);
+  if (end < start) {
+    throw new Error('End date must be on or after start date');
+  }
+
+  const dates = eachCalendarDate(start, end);
+  if (dates.length > MAX_TRIP_DAYS) {
+    throw new Error(`Trips can be at most ${MAX_TRIP_DAYS} days long`);
+  }
+  return dates;
+}
+
+/**
+ * Build a day document for a calendar date, dated at local midnight
+ */
+function buildDay(calendarDate: string, timeZone: string): DayDocument {
+  return {
+    dayId: nanoid(),
+    date: Timestamp.fromDate(fromZonedTime(calendarDate, timeZone)),
+  };
+}
+
+/**
+ * Work out how existing days map onto a trip's (new) date range
+ * Existing days are matched by their calendar date in the previous time zone,
+ * so their dayId, title and activities carry over
+ * @returns Days to create, days to re-date, and days that fall out of range
+ */
+function planTripDays(
+  existingDays: Day[],
+  previousTimeZone: string,
+  calendarDates: string[],
+  timeZone: string
+) {
+  const wanted = new Set(calendarDates);
+  const covered = new Set<string>();
+  const redate: Array<{ dayId: string; date: Timestamp }> = [];
+  const outOfRange: Array<{ day: Day; calendarDate: string }> = [];
+
+  existingDays.forEach((day) => {
+    const calendarDate = toCalendarDate(day.date.toDate(), previousTimeZone);
+    if (!wanted.has(calendarDate)) {
+      outOfRange.push({ day, calendarDate });
+      return;
+    }
+
+    covered.add(calendarDate);
+    const date = Timestamp.fromDate(fromZonedTime(calendarDate, timeZone));
+    if (!date.isEqual(day.date)) {
+      redate.push({ dayId: day.dayId, date });
+    }
+  });
+
+  const create = calendarDates
+    .filter((calendarDate) => !covered.has(calendarDate))
+    .map((calendarDate) => buildDay(calendarDate, timeZone));
+
+  return { create, redate, outOfRange };
+}
+
+/**
+ * Reconcile a trip's days with its dates inside a transaction
+ * Adds missing days, re-dates kept days, and removes empty days that fall out of range.
+ * Refuses with DaysOutOfRangeError if an out-of-range day still has activities.
+ * @param tripId - Trip ID
+ * @param actorId - User making the change
+ * @param updates - Trip fields to write alongside the day changes
+ */
+async function reconcileTripDays(
+  tripId: string,
+  actorId: string,
+  updates: UpdateTripInput
+): Promise<void> {
+  await withTripTransaction(tripId, async (transaction) => {
+    const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+    // Transactions can't run queries, so the days are loaded after the trip is read.
+    // Every itinerary change also writes the trip document, so an activity added
+    // after that read makes this attempt fail and retry with the days reloaded.
+    const existingDays = await getPersistence().trips.loadDays(tripId);
+    const previousTimeZone = trip.settings?.timezone || DEFAULT_TIMEZONE;
+    const timeZone = updates.settings?.timezone || previousTimeZone;
+
+    const calendarDates = getTripCalendarDates(
+      updates.startDate ?? trip.startDate,
+      updates.endDate ?? trip.endDate,
+      timeZone
+    );
+    const plan = planTripDays(existingDays, previousTimeZone, calendarDates, timeZone);
+
+    const tripStart = calendarDates[0];
+    const tripEnd = calendarDates[calendarDates.length - 1];
+    const strandedLodging = getLodgingOutsideTrip(trip.lodging ?? [], tripStart, tripEnd);
+    if (strandedLodging.length > 0) {
+      throw new LodgingOutOfRangeError(strandedLodging, tripStart, tripEnd);
+    }
+
+    const blocked = plan.outOfRange.filter(({ day }) => day.activities.length > 0);
+    if (blocked.length > 0) {
+      throw new DaysOutOfRangeError(
+        blocked.map(({ day, calendarDate }) => ({
+          dayId: day.dayId,
+          date: calendarDate,
+          title: day.title,
+          activityCount: day.activities.length,
+        }))
+      );
+    }
+
+    const fields = withCurrentSettings(trip, updates);
+    transaction.updateTrip(tripId, fields);
+    plan.create.forEach((day) => transaction.setDay(tripId, day));
+    plan.redate.forEach(({ dayId, date }) => transaction.updateDay(tripId, dayId, { date }));
+    plan.outOfRange.forEach(({ day }) => transaction.deleteDay(tripId, day.dayId));
+
+    const daysById = new Map(existingDays.map((day) => [day.dayId, toDayDocument(day)]));
+    recordChange(
+      transaction,
+      tripId,
+      actorId,
+      { operation: 'trip.update', target: {}, label: fields.title ?? trip.title },
+      [
+        diffTrip(trip, { ...trip, ...fields }),
+        ...plan.create.map((day) => diffDay(null, day)),
+        ...plan.redate.map(({ dayId, date }) => diffDay(daysById.get(dayId)!, { ...daysById.get(dayId)!, date })),
+        ...plan.outOfRange.map(({ day }) => diffDay(toDayDocument(day), null)),
+      ]
+    );
+  });
+}
+
+/**
+ * Refuse an activity whose times can't be right
+ * Overlaps and other warnings are left for validateTrip to show
+ * @throws ScheduleValidationError if it ends before it starts or starts outside the trip
+ */
+function assertValidSchedule(activity: Activity, dayId: string, trip: TripDocument): void {
+  const errors = validateActivity(activity, dayId, trip, getTripSettings(trip).timezone);
+  if (errors.length > 0) {
+    throw new ScheduleValidationError(errors);
+  }
+}
+
+/**
+ * Stays that check in before the trip starts or check out after it ends
+ * Checking out on the last day is fine: the trip has no night there
+ * @param tripStart - Trip's first calendar date
+ * @param tripEnd - Trip's last calendar date
+ */
+function getLodgingOutsideTrip(lodging: Lodging[], tripStart: string, tripEnd: string): OutOfRangeLodging[] {
+  return lodging
+    .filter((stay) => stay.checkInDate < tripStart || stay.checkOutDate > tripEnd)
+    .map(({ lodgingId, name, checkInDate, checkOutDate }) => ({ lodgingId, name, checkInDate, checkOutDate }));
+}
+
+/**
+ * Check a stay's own fields and that it fits in the trip
+ * @throws LodgingOutOfRangeError if it falls outside the trip's dates
+ */
+function assertValidLodging(stay: Lodging, trip: TripDocument): void {
+  if (!stay.name.trim()) {
+    throw new Error('Lodging name is required');
+  }
+  if (!isCalendarDate(stay.checkInDate) || !isCalendarDate(stay.checkOutDate)) {
+    throw new Error('Check-in and check-out must be dates (YYYY-MM-DD)');
+  }
+  if (stay.checkOutDate <= stay.checkInDate) {
+    throw new Error('Check-out must be at least one night after check-in');
+  }
+
+  const calendarDates = getTripCalendarDates(trip.startDate, trip.endDate, getTripSettings(trip).timezone);
+  const tripStart = calendarDates[0];
+  const tripEnd = calendarDates[calendarDates.length - 1];
+  const outside = getLodgingOutsideTrip([stay], tripStart, tripEnd);
+  if (outside.length > 0) {
+    throw new LodgingOutOfRangeError(outside, tripStart, tripEnd);
+  }
+}
+
+/**
+ * Lodging list with one stay replaced (or added), in check-in order
+ */
+function withLodging(trip: TripDocument, stay: Lodging): Lodging[] {
+  return [...(trip.lodging ?? []).filter((l) => l.lodgingId !== stay.lodgingId), stay].sort(
+    (a, b) => a.checkInDate.localeCompare(b.checkInDate) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Participant fields to write together so participantIds and roles never drift
+ * @throws Error if no owner would be left
+ */
+function participantFields(participants: Participant[]) {
+  if (!participants.some((p) => p.role === 'owner')) {
+    throw new Error('A trip must keep at least one owner');
+  }
+
+  return {
+    participants,
+    participantIds: participants.map((p) => p.userId),
+    roles: Object.fromEntries(participants.map((p) => [p.userId, p.role])) as Record<
+      string,
+      ParticipantRole
+    >,
+  };
+}
+
+/**
+ * Only owners may grant the owner role or change an existing owner
+ * @throws PermissionDeniedError
+ */
+function assertCanChangeRole(
+  trip: TripDocument,
+  actorId: string,
+  userId: string,
+  newRole: ParticipantRole | null
+): void {
+  if (newRole === 'owner' || getParticipantRole(trip, userId) === 'owner') {
+    assertCanPerform(trip, actorId, 'manageOwners');
+  }
+}
+
+/**
+ * Where today falls relative to a trip, in the trip's time zone
  */
+function getTripPhase(trip: TripDocument, now: Date): 'past' | 'current' | 'upcoming' {
+  const timeZone = trip.settings?.timezone || DEFAULT_TIMEZONE;
+  const today = toCalendarDate(now, timeZone);
 
-const TRIPS_COLLECTION = 'trips';
+  if (toCalendarDate(trip.endDate.toDate(), timeZone) < today) return 'past';
+  if (toCalendarDate(trip.startDate.toDate(), timeZone) > today) return 'upcoming';
+  return 'current';
+}
 
 /**
  * Generate a random share token for public trip access
@@ -45,8 +573,174 @@ function generateShareToken(): string {
   return nanoid(16);
 }
 
+/**
+ * A trip's settings, with defaults for trips created without them
+ * @param trip - Trip (or trip document)
+ */
+export function getTripSettings(trip: Pick<TripDocument, 'settings'>): TripSettings {
+  return {
+    currency: DEFAULT_CURRENCY,
+    timezone: DEFAULT_TIMEZONE,
+    isPublic: false,
+    ...trip.settings,
+  };
+}
+
+/**
+ * What a copy of the trip keeps, without undefined fields (Firestore doesn't allow undefined)
+ * @param days - Days with their activities in hand-set order
+ */
+function toTripContent(trip: TripDocument, days: Day[]): TripContent {
+  const { currency, timezone } = getTripSettings(trip);
+  const content: TripContent = {
+    title: trip.title,
+    startDate: trip.startDate,
+    endDate: trip.endDate,
+    settings: { currency, timezone },
+    days,
+    lodging: trip.lodging ?? [],
+  };
+  if (trip.description) {
+    content.description = trip.description;
+  }
+  if (trip.coverImageUrl) {
+    content.coverImageUrl = trip.coverImageUrl;
+  }
+  return content;
+}
+
+/**
+ * Reject an activity time zone this runtime doesn't know
+ * Unset means the trip's time zone
+ */
+function assertValidActivityTimeZone(timeZone: string | undefined): void {
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+}
+
+/**
+ * Reject flight details on a non-flight activity, or with bad airport codes or zones
+ */
+function assertValidFlight(type: ActivityType, flight: FlightDetails | undefined): void {
+  if (!flight) return;
+  if (type !== 'flight') {
+    throw new Error('Only flight activities can have flight details');
+  }
+  const endpoints: [string, FlightDetails['origin']][] = [
+    ['origin', flight.origin],
+    ['destination', flight.destination],
+  ];
+  for (const [end, endpoint] of endpoints) {
+    if (!isValidIata(endpoint.airport)) {
+      throw new Error(`Flight ${end} must be a 3-letter airport code`);
+    }
+    if (!isValidTimeZone(endpoint.timeZone)) {
+      throw new Error(`Unknown time zone "${endpoint.timeZone}"`);
+    }
+  }
+}
+
+/**
+ * Reject a cost whose split doesn't work out (see getCostSplitError)
+ */
+function assertValidCost(cost: Cost | undefined): void {
+  const error = cost ? getCostSplitError(cost) : null;
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+/**
+ * Trip updates with the sharing state and budget carried over from the current trip
+ * isPublic and shareToken only change through rotateShareToken/revokeShareToken,
+ * and the budget through setTripBudget
+ */
+function withCurrentSettings(trip: TripDocument, updates: UpdateTripInput): Partial<TripDocument> {
+  if (!updates.settings) {
+    return updates;
+  }
+
+  const { isPublic, shareToken, budget } = getTripSettings(trip);
+  const settings: TripSettings = { ...updates.settings, isPublic };
+  delete settings.shareToken;
+  delete settings.budget;
+  if (shareToken) {
+    settings.shareToken = shareToken;
+  }
+  if (budget) {
+    settings.budget = budget;
+  }
+  return { ...updates, settings };
+}
+
+/**
+ * Publish a trip's share link under a fresh token, retiring the previous link
+ * @returns Settings as written
+ */
+async function publishShareLink(tripId: string, actorId: string): Promise<TripSettings> {
+  const shareToken = generateShareToken();
+
+  return withTripTransaction(tripId, async (transaction) => {
+    const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'share');
+    const current = getTripSettings(trip);
+    if (current.isPublic && current.shareToken) {
+      transaction.deleteShare(current.shareToken);
+    }
+
+    const settings: TripSettings = { ...current, isPublic: true, shareToken };
+    transaction.updateTrip(tripId, { settings });
+    transaction.setShare({ shareToken, tripId, createdBy: actorId });
+    recordChange(
+      transaction,
+      tripId,
+      actorId,
+      { operation: 'trip.share', target: {}, label: trip.title },
+      [diffTrip(trip, { ...trip, settings })]
+    );
+    return settings;
+  });
+}
+
+/**
+ * Strip a trip down to what its share link shows
+ */
+function toSharedTrip(trip: Trip): SharedTrip {
+  const settings = getTripSettings(trip);
+  return {
+    tripId: trip.tripId,
+    title: trip.title,
+    description: trip.description,
+    startDate: trip.startDate,
+    endDate: trip.endDate,
+    coverImageUrl: trip.coverImageUrl,
+    participants: trip.participants.map(({ displayName, role }) => ({ displayName, role })),
+    days: trip.days.map((day) => ({
+      ...day,
+      activities: day.activities.map(({ cost, flight, ...activity }): SharedActivity => {
+        const shared: SharedActivity = { ...activity };
+        if (cost) {
+          shared.cost = { amount: cost.amount, currency: cost.currency };
+        }
+        if (flight) {
+          const publicFlight = { ...flight };
+          delete publicFlight.seat;
+          delete publicFlight.confirmationCode;
+          shared.flight = publicFlight;
+        }
+        return shared;
+      }),
+    })),
+    lodging: (trip.lodging ?? []).map(({ confirmationCode: _code, cost: _cost, ...stay }) => stay),
+    currency: settings.currency,
+    timezone: settings.timezone,
+  };
+}
+
 /**
  * Create a new trip
+ * Generates one day per calendar date between startDate and endDate
+ * in the trip's time zone
  * @param userId - Creator's user ID (becomes owner)
  * @param userPhone - Creator's phone number
  * @param userDisplayName - Creator's display name
@@ -60,8 +754,8 @@ export async function createTrip(
   tripData: CreateTripInput
 ): Promise<Trip> {
   try {
-    const tripRef = doc(collection(db, TRIPS_COLLECTION));
-    const tripId = tripRef.id;
+    const trips = getPersistence().trips;
+    const tripId = trips.newTripId();
 
     // Note: serverTimestamp() cannot be used inside arrays
     // Use Timestamp.now() instead
@@ -74,21 +768,21 @@ export async function createTrip(
     };
 
     // Build trip object, excluding undefined fields (Firestore doesn't allow undefined)
-    const newTrip: any = {
+    const newTrip: NewTripDocument = {
       tripId,
       title: tripData.title,
       description: tripData.description || '',
       startDate: tripData.startDate,
       endDate: tripData.endDate,
       participants: [creatorParticipant],
-      days: [],
+      participantIds: [userId],
+      roles: { [userId]: 'owner' },
       createdBy: userId,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
       settings: {
-        currency: tripData.settings?.currency || 'USD',
-        timezone: tripData.settings?.timezone || 'UTC',
-        isPublic: tripData.settings?.isPublic || false,
+        currency: tripData.settings?.currency || DEFAULT_CURRENCY,
+        timezone: tripData.settings?.timezone || DEFAULT_TIMEZONE,
+        // Published below, once the trip exists for the share link to point at
+        isPublic: false,
       },
     };
 
@@ -96,18 +790,26 @@ export async function createTrip(
     if (tripData.coverImageUrl) {
       newTrip.coverImageUrl = tripData.coverImageUrl;
     }
-    if (tripData.settings?.isPublic) {
-      newTrip.settings.shareToken = generateShareToken();
-    }
 
-    await setDoc(tripRef, newTrip);
+    const timeZone = newTrip.settings!.timezone;
+    const days = getTripCalendarDates(tripData.startDate, tripData.endDate, timeZone).map(
+      (calendarDate) => buildDay(calendarDate, timeZone)
+    );
+
+    const storedTrip = await trips.createTrip(newTrip, days);
 
     // Add trip to user's tripIds
     await addTripToUser(userId, tripId);
 
-    // Re-fetch to get server timestamps
-    const tripDoc = await getDoc(tripRef);
-    return tripDoc.data() as Trip;
+    if (tripData.settings?.isPublic) {
+      storedTrip.settings = await publishShareLink(tripId, userId);
+    }
+
+    return assembleTrip(
+      storedTrip,
+      days.map((day) => ({ ...day, activities: [] })),
+      []
+    );
   } catch (error: any) {
     console.error('Error creating trip:', error);
     throw new Error(`Failed to create trip: ${error.message}`);
@@ -117,18 +819,19 @@ export async function createTrip(
 /**
  * Get trip by ID
  * @param tripId - Trip ID
- * @returns Trip or null if not found
+ * @returns Trip or null if not found (or in the trash)
  */
 export async function getTrip(tripId: string): Promise<Trip | null> {
   try {
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    const tripDoc = await getDoc(tripRef);
+    const trips = getPersistence().trips;
+    const tripData = await trips.getTrip(tripId);
 
-    if (!tripDoc.exists()) {
+    if (!tripData || tripData.trash) {
       return null;
     }
 
-    return tripDoc.data() as Trip;
+    const [days, expenses] = await Promise.all([trips.loadDays(tripId), trips.loadExpenses(tripId)]);
+    return assembleTrip(tripData, days, expenses);
   } catch (error: any) {
     console.error('Error getting trip:', error);
     throw new Error(`Failed to get trip: ${error.message}`);
@@ -136,28 +839,39 @@ export async function getTrip(tripId: string): Promise<Trip | null> {
 }
 
 /**
- * Get all trips for a user
+ * Get a page of trips the user participates in (created or invited)
+ * Trips are paged newest-first by startDate and split into past/current/upcoming
  * @param userId - User ID
- * @returns Array of trips where user is a participant
+ * @param options - Page size and the cursor returned by the previous page
+ * @returns Page of trips (without days) and the cursor for the next page
  */
-export async function getUserTrips(userId: string): Promise<Trip[]> {
+export async function getUserTrips(
+  userId: string,
+  options: { pageSize?: number; cursor?: TripPageCursor | null } = {}
+): Promise<UserTripsPage> {
   try {
-    const tripsRef = collection(db, TRIPS_COLLECTION);
-    // Query by createdBy first (simpler query)
-    const createdQuery = query(
-      tripsRef,
-      where('createdBy', '==', userId)
-    );
+    const pageSize = options.pageSize ?? DEFAULT_TRIPS_PAGE_SIZE;
+    // Fetch one extra to know whether another page exists
+    const results = await getPersistence().trips.listUserTrips(userId, {
+      limit: pageSize + 1,
+      cursor: options.cursor,
+    });
+    const trips = results.slice(0, pageSize);
 
-    const createdSnapshot = await getDocs(createdQuery);
-    const trips = createdSnapshot.docs.map((doc) => doc.data() as Trip);
+    const today = new Date();
+    const page: UserTripsPage = { past: [], current: [], upcoming: [], nextCursor: null };
+    trips.forEach((trip) => page[getTripPhase(trip, today)].push(trip));
 
-    // TODO: Also query for trips where user is a participant but not creator
-    // This requires a different approach since array-contains with partial objects doesn't work
-    // For now, returning trips created by user
+    // Soonest first for trips that haven't finished yet
+    page.current.sort((a, b) => a.endDate.toMillis() - b.endDate.toMillis());
+    page.upcoming.sort((a, b) => a.startDate.toMillis() - b.startDate.toMillis());
+
+    if (results.length > pageSize) {
+      const last = trips[trips.length - 1];
+      page.nextCursor = { startDate: last.startDate, tripId: last.tripId };
+    }
 
-    // Sort by startDate client-side
-    return trips.sort((a, b) => b.startDate.toMillis() - a.startDate.toMillis());
+    return page;
   } catch (error: any) {
     console.error('Error getting user trips:', error);
     throw new Error(`Failed to get user trips: ${error.message}`);
@@ -171,17 +885,13 @@ export async function getUserTrips(userId: string): Promise<Trip[]> {
  */
 export async function getUpcomingTrips(userId: string): Promise<Trip[]> {
   try {
-    const now = Timestamp.now();
-    const tripsRef = collection(db, TRIPS_COLLECTION);
-    const q = query(
-      tripsRef,
-      where('participants', 'array-contains', { userId }),
-      where('startDate', '>', now),
-      orderBy('startDate', 'asc')
+    const trips = getPersistence().trips;
+    const upcoming = await trips.listUpcomingTrips(userId, Timestamp.now());
+    return Promise.all(
+      upcoming.map(async (trip) =>
+        assembleTrip(trip, await trips.loadDays(trip.tripId), await trips.loadExpenses(trip.tripId))
+      )
     );
-
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map((doc) => doc.data() as Trip);
   } catch (error: any) {
     console.error('Error getting upcoming trips:', error);
     throw new Error(`Failed to get upcoming trips: ${error.message}`);
@@ -190,409 +900,2224 @@ export async function getUpcomingTrips(userId: string): Promise<Trip[]> {
 
 /**
  * Update trip details
+ * Changing startDate, endDate or the time zone also reconciles the trip's days:
+ * new dates get a day, existing days keep their dayId and title, and empty days
+ * outside the range are removed. Throws DaysOutOfRangeError (and writes nothing)
+ * if a day that would be removed still has activities.
+ * Sharing (settings.isPublic and shareToken) is kept as it is; owners change it
+ * with rotateShareToken/revokeShareToken. So is settings.budget (setTripBudget).
  * @param tripId - Trip ID
  * @param updates - Partial trip data to update
+ * @param actorId - User making the change (owner or editor)
  */
 export async function updateTrip(
   tripId: string,
-  updates: UpdateTripInput
+  updates: UpdateTripInput,
+  actorId: string
 ): Promise<void> {
   try {
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
+    if (updates.startDate || updates.endDate || updates.settings?.timezone) {
+      await reconcileTripDays(tripId, actorId, updates);
+      return;
+    }
 
-    await updateDoc(tripRef, {
-      ...updates,
-      updatedAt: serverTimestamp(),
-    });
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => withCurrentSettings(trip, updates),
+      (trip) => ({ operation: 'trip.update', target: {}, label: updates.title ?? trip.title })
+    );
   } catch (error: any) {
     console.error('Error updating trip:', error);
+    if (error instanceof ServiceError) throw error;
     throw new Error(`Failed to update trip: ${error.message}`);
   }
 }
 
 /**
- * Delete trip (Owner only)
- * Also removes trip from all participants' tripIds
+ * Create any missing days for a trip's current dates
+ * For trips created before days were generated automatically
  * @param tripId - Trip ID
+ * @param actorId - User making the change (owner or editor)
  */
-export async function deleteTrip(tripId: string): Promise<void> {
+export async function syncTripDays(tripId: string, actorId: string): Promise<void> {
   try {
-    // Get trip to access participants
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
-    }
-
-    const batch = writeBatch(db);
+    await reconcileTripDays(tripId, actorId, {});
+  } catch (error: any) {
+    console.error('Error syncing trip days:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to sync trip days: ${error.message}`);
+  }
+}
 
-    // Delete trip document
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    batch.delete(tripRef);
+/**
+ * Move a trip to the trash (Owner only)
+ * It drops out of every participant's trip list at once; owners can bring it
+ * back with restoreTrip until it's purged (purgeTrip, or scripts/purge-trash.ts)
+ * Also removes trip from all participants' tripIds. Deleting a trip that's
+ * already in the trash only retries that.
+ * @param tripId - Trip ID
+ * @param actorId - User deleting the trip (must be an owner)
+ */
+export async function deleteTrip(tripId: string, actorId: string): Promise<void> {
+  try {
+    const trash = await withTripTransaction(tripId, async (transaction) => {
+      const trip = await transaction.getTrip(tripId);
+      if (!trip) {
+        throw new Error('Trip not found');
+      }
+      assertCanPerform(trip, actorId, 'delete');
+      if (trip.trash) {
+        return trip.trash;
+      }
 
-    await batch.commit();
+      const trash: TripTrash = {
+        deletedAt: Timestamp.now(),
+        deletedBy: actorId,
+        participantIds: trip.participantIds,
+        ownerIds: trip.participants.filter((p) => p.role === 'owner').map((p) => p.userId),
+      };
+      transaction.updateTrip(tripId, { trash, participantIds: [] });
+      // restoreTrip publishes the same link again
+      if (trip.settings?.isPublic && trip.settings.shareToken) {
+        transaction.deleteShare(trip.settings.shareToken);
+      }
+      recordChange(transaction, tripId, actorId, { operation: 'trip.delete', target: {}, label: trip.title }, []);
+      return trash;
+    });
 
-    // Remove trip from all participants (do this after batch to avoid failure)
-    for (const participant of trip.participants) {
-      await removeTripFromUser(participant.userId, tripId);
+    // The trip is already hidden, so a failure here only leaves stale tripIds
+    // behind, which deleting again (or restoring) straightens out
+    for (const userId of trash.participantIds) {
+      await removeTripFromUser(userId, tripId);
     }
   } catch (error: any) {
     console.error('Error deleting trip:', error);
+    if (error instanceof ServiceError) throw error;
     throw new Error(`Failed to delete trip: ${error.message}`);
   }
 }
 
 /**
- * Add participant to trip
+ * Bring a trip back from the trash (Owner only)
+ * Puts back its participants, their tripIds and its share link, if it had one
  * @param tripId - Trip ID
- * @param participantData - Participant data
+ * @param actorId - User restoring the trip (must be an owner)
  */
-export async function addParticipant(
-  tripId: string,
-  participantData: AddParticipantInput
-): Promise<void> {
+export async function restoreTrip(tripId: string, actorId: string): Promise<void> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
-    }
+    const participantIds = await withTripTransaction(tripId, async (transaction) => {
+      const trip = await transaction.getTrip(tripId);
+      if (!trip) {
+        throw new Error('Trip not found');
+      }
+      if (!trip.trash) {
+        throw new Error('Trip is not in the trash');
+      }
+      assertCanPerform(trip, actorId, 'restore');
+
+      transaction.updateTrip(tripId, { participantIds: trip.trash.participantIds }, ['trash']);
+      if (trip.settings?.isPublic && trip.settings.shareToken) {
+        transaction.setShare({ shareToken: trip.settings.shareToken, tripId, createdBy: actorId });
+      }
+      recordChange(transaction, tripId, actorId, { operation: 'trip.restore', target: {}, label: trip.title }, []);
+      return trip.trash.participantIds;
+    });
+
+    for (const userId of participantIds) {
+      await addTripToUser(userId, tripId);
+    }
+  } catch (error: any) {
+    console.error('Error restoring trip:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to restore trip: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a trip in the trash for good, without waiting for the purge (Owner only)
+ * @param tripId - Trip ID
+ * @param actorId - User deleting the trip (must be an owner)
+ */
+export async function purgeTrip(tripId: string, actorId: string): Promise<void> {
+  try {
+    const trips = getPersistence().trips;
+    const trip = await trips.getTrip(tripId);
+    if (!trip) {
+      throw new Error('Trip not found');
+    }
+    if (!trip.trash) {
+      throw new Error('Trip is not in the trash');
+    }
+    assertCanPerform(trip, actorId, 'delete');
+
+    await trips.deleteTrip(assembleTrip(trip, await trips.loadDays(tripId), await trips.loadExpenses(tripId)));
+  } catch (error: any) {
+    console.error('Error purging trip:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to purge trip: ${error.message}`);
+  }
+}
+
+/**
+ * Get the trips in a user's trash: ones they owned when they were deleted
+ * @param userId - User ID
+ * @returns Trips (without days), most recently deleted first
+ */
+export async function getTrashedTrips(userId: string): Promise<TripDocument[]> {
+  try {
+    return await getPersistence().trips.listTrashedTrips(userId);
+  } catch (error: any) {
+    console.error('Error getting trashed trips:', error);
+    throw new Error(`Failed to get trashed trips: ${error.message}`);
+  }
+}
+
+/**
+ * Get what a copy of a trip would start from (any participant)
+ * Days keep their sortByTime setting; their activities come in hand-set order
+ * @param tripId - Trip ID
+ * @param actorId - User copying the trip
+ * @returns Trip details, itinerary and lodging
+ */
+export async function getTripContent(tripId: string, actorId: string): Promise<TripContent> {
+  try {
+    const trips = getPersistence().trips;
+    const trip = await trips.getTrip(tripId);
+    if (!trip || trip.trash) {
+      throw new Error('Trip not found');
+    }
+    assertCanPerform(trip, actorId, 'view');
+
+    const days = (await trips.loadDays(tripId)).map((day) => {
+      const { activities } = orderActivities({ ...day, sortByTime: false });
+      return { ...day, activities };
+    });
+    return toTripContent(trip, days);
+  } catch (error: any) {
+    console.error('Error getting trip content:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to get trip content: ${error.message}`);
+  }
+}
+
+/**
+ * Create a trip from copied content, moved to a new start date
+ * The new trip gets new IDs throughout and the caller as its only participant (owner);
+ * it starts out private
+ * @param content - What to copy (see getTripContent)
+ * @param actorId - User creating the trip (becomes owner)
+ * @param options - New start date and title; clearCosts leaves out costs
+ * @returns Created trip
+ */
+export async function createTripFromContent(
+  content: TripContent,
+  actorId: string,
+  options: CopyTripInput
+): Promise<Trip> {
+  try {
+    if (!isCalendarDate(options.startDate)) {
+      throw new Error(`Start date must be YYYY-MM-DD, got "${options.startDate}"`);
+    }
+    const title = options.title?.trim() || content.title;
+
+    const user = await getUser(actorId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const trips = getPersistence().trips;
+    const tripId = trips.newTripId();
+    const copy = copyTripContent(content, options.startDate, actorId, { clearCosts: options.clearCosts });
+
+    // Note: serverTimestamp() cannot be used inside arrays
+    const creatorParticipant: Participant = {
+      userId: actorId,
+      phoneNumber: user.phoneNumber,
+      displayName: user.displayName,
+      role: 'owner',
+      joinedAt: Timestamp.now(),
+    };
+
+    const newTrip: NewTripDocument = {
+      tripId,
+      title,
+      description: content.description || '',
+      startDate: copy.startDate,
+      endDate: copy.endDate,
+      participants: [creatorParticipant],
+      participantIds: [actorId],
+      roles: { [actorId]: 'owner' },
+      createdBy: actorId,
+      settings: { ...content.settings, isPublic: false },
+    };
+    if (content.coverImageUrl) {
+      newTrip.coverImageUrl = content.coverImageUrl;
+    }
+    if (copy.lodging.length > 0) {
+      newTrip.lodging = copy.lodging;
+    }
+
+    const storedTrip = await trips.createTrip(
+      newTrip,
+      copy.days.map(toDayDocument),
+      copy.days.flatMap((day) => day.activities.map((activity) => ({ dayId: day.dayId, activity })))
+    );
+
+    await addTripToUser(actorId, tripId);
+
+    return assembleTrip(storedTrip, copy.days, []);
+  } catch (error: any) {
+    console.error('Error creating trip from copy:', error);
+    throw new Error(`Failed to create trip from copy: ${error.message}`);
+  }
+}
+
+/**
+ * Copy a trip to a new start date (any participant)
+ * Every day, activity and stay moves by the same number of days; the copy has
+ * new IDs, only the caller as participant (owner) and no share link
+ * @param tripId - Trip to copy
+ * @param actorId - User copying the trip (becomes the copy's owner)
+ * @param options - New start date and title; clearCosts leaves out costs
+ * @returns The new trip
+ */
+export async function duplicateTrip(tripId: string, actorId: string, options: CopyTripInput): Promise<Trip> {
+  try {
+    return await createTripFromContent(await getTripContent(tripId, actorId), actorId, options);
+  } catch (error: any) {
+    console.error('Error duplicating trip:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to duplicate trip: ${error.message}`);
+  }
+}
+
+/**
+ * Export a trip as versioned JSON, for a backup or to import elsewhere (any participant)
+ * Everything is kept: days, activities, expenses, lodging, participants,
+ * settings and attachment links, with timestamps exact to the nanosecond
+ * @param tripId - Trip ID
+ * @param actorId - User exporting the trip
+ * @returns Export to save with JSON.stringify
+ */
+export async function exportTrip(tripId: string, actorId: string): Promise<TripExport> {
+  try {
+    const trips = getPersistence().trips;
+    const trip = await trips.getTrip(tripId);
+    if (!trip || trip.trash) {
+      throw new Error('Trip not found');
+    }
+    assertCanPerform(trip, actorId, 'view');
+
+    const [days, expenses] = await Promise.all([trips.loadDays(tripId), trips.loadExpenses(tripId)]);
+    return toTripExport(trip, days, expenses);
+  } catch (error: any) {
+    console.error('Error exporting trip:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to export trip: ${error.message}`);
+  }
+}
+
+/**
+ * Import a trip export as a new trip
+ * The trip gets a new ID but keeps its days, activities and expenses as they
+ * were, IDs and timestamps included. The caller becomes its creator and an
+ * owner; everyone else in the export stays a participant, under the user ID
+ * options.userIds maps them to. Only the trip's details, itinerary, lodging,
+ * settlements, exchange rates and currency, time zone and budget are taken
+ * from the file; it starts out private and out of the trash.
+ * @param data - Parsed JSON of an export (see exportTrip)
+ * @param actorId - User importing the trip
+ * @param options - userIds maps user IDs in the export to user IDs here
+ * @returns The new trip
+ * @throws InvalidTripExportError if the file isn't an export this version can read
+ */
+export async function importTrip(
+  data: unknown,
+  actorId: string,
+  options: ImportTripOptions = {}
+): Promise<Trip> {
+  try {
+    const problems = validateTripExport(data);
+    if (problems.length > 0) {
+      throw new InvalidTripExportError(problems);
+    }
+    const content = remapTripUsers(fromTripExport(data as TripExport), options.userIds ?? {});
+
+    const user = await getUser(actorId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Note: serverTimestamp() cannot be used inside arrays
+    const importer: Participant = {
+      userId: actorId,
+      phoneNumber: user.phoneNumber,
+      displayName: user.displayName,
+      role: 'owner',
+      joinedAt: Timestamp.now(),
+    };
+    // Invites aren't exported, so the ones people joined through are left behind too
+    const participants: Participant[] = [
+      importer,
+      ...content.trip.participants
+        .filter((p) => p.userId !== actorId)
+        .map(({ userId, phoneNumber, displayName, role, joinedAt }) => ({
+          userId,
+          phoneNumber,
+          displayName,
+          role,
+          joinedAt,
+        })),
+    ];
+    const duplicates = participants.filter((p, i) => participants.findIndex((q) => q.userId === p.userId) !== i);
+    if (duplicates.length > 0) {
+      throw new InvalidTripExportError(
+        duplicates.map((p) => `Two participants would both be user "${p.userId}"; map them to different users`)
+      );
+    }
+
+    const trips = getPersistence().trips;
+    const tripId = trips.newTripId();
+    const { trip } = content;
+    const settings: TripSettings = {
+      currency: trip.settings?.currency ?? DEFAULT_CURRENCY,
+      timezone: trip.settings?.timezone ?? DEFAULT_TIMEZONE,
+      isPublic: false,
+    };
+    if (trip.settings?.budget) {
+      settings.budget = trip.settings.budget;
+    }
+
+    // Only the fields an import carries over: an export is a file anyone can edit, so
+    // whatever else it holds (trash, a share token, roles) is left behind.
+    // firestore.rules only let a new trip list its creator, so the others are added once it exists
+    const newTrip: NewTripDocument = {
+      tripId,
+      title: trip.title,
+      description: trip.description || '',
+      startDate: trip.startDate,
+      endDate: trip.endDate,
+      participants: [importer],
+      participantIds: [actorId],
+      roles: { [actorId]: 'owner' },
+      createdBy: actorId,
+      settings,
+    };
+    if (trip.coverImageUrl) {
+      newTrip.coverImageUrl = trip.coverImageUrl;
+    }
+    if (trip.lodging?.length) {
+      newTrip.lodging = trip.lodging;
+    }
+    if (trip.settlements?.length) {
+      newTrip.settlements = trip.settlements;
+    }
+    if (trip.exchangeRates?.length) {
+      newTrip.exchangeRates = trip.exchangeRates;
+    }
+
+    let storedTrip = await trips.createTrip(
+      newTrip,
+      content.days.map(toDayDocument),
+      content.days.flatMap((day) => day.activities.map((activity) => ({ dayId: day.dayId, activity }))),
+      content.expenses
+    );
+
+    if (participants.length > 1) {
+      const fields = participantFields(participants);
+      await trips.updateTrips([{ tripId, fields }]);
+      storedTrip = { ...storedTrip, ...fields };
+    }
+
+    // People who don't have an account in this project yet get the trip in their list once they do
+    for (const participant of participants) {
+      if (participant.userId === actorId || (await getUser(participant.userId))) {
+        await addTripToUser(participant.userId, tripId);
+      }
+    }
+
+    return assembleTrip(storedTrip, content.days, content.expenses);
+  } catch (error: any) {
+    console.error('Error importing trip:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to import trip: ${error.message}`);
+  }
+}
+
+/**
+ * Publish the trip's read-only share link, or replace it with a new one (Owner only)
+ * Anyone holding the previous link loses access immediately
+ * @param tripId - Trip ID
+ * @param actorId - User making the change (must be an owner)
+ * @returns New share token; build the URL with getShareLink()
+ */
+export async function rotateShareToken(tripId: string, actorId: string): Promise<string> {
+  try {
+    const settings = await publishShareLink(tripId, actorId);
+    return settings.shareToken!;
+  } catch (error: any) {
+    console.error('Error rotating share token:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to update share link: ${error.message}`);
+  }
+}
+
+/**
+ * Stop sharing the trip publicly (Owner only)
+ * The current link stops working; publishing again creates a new token
+ * @param tripId - Trip ID
+ * @param actorId - User making the change (must be an owner)
+ */
+export async function revokeShareToken(tripId: string, actorId: string): Promise<void> {
+  try {
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'share');
+      const settings = getTripSettings(trip);
+      if (!settings.isPublic) {
+        return;
+      }
+
+      if (settings.shareToken) {
+        transaction.deleteShare(settings.shareToken);
+      }
+      const unshared: TripSettings = { ...settings, isPublic: false };
+      transaction.updateTrip(tripId, { settings: unshared });
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'trip.unshare', target: {}, label: trip.title },
+        [diffTrip(trip, { ...trip, settings: unshared })]
+      );
+    });
+  } catch (error: any) {
+    console.error('Error revoking share token:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to revoke share link: ${error.message}`);
+  }
+}
+
+/**
+ * URL of a trip's public read-only view
+ * @param shareToken - The trip's settings.shareToken
+ */
+export function getShareLink(shareToken: string): string {
+  return routeUrl({ name: 'share', shareToken });
+}
+
+/**
+ * Load a publicly shared trip by its share token (no sign-in needed)
+ * Phone numbers and who paid for or splits each cost are left out
+ * @param shareToken - Token from the share link
+ * @returns Read-only trip, or null if the link doesn't exist or was revoked
+ */
+export async function getSharedTrip(shareToken: string): Promise<SharedTrip | null> {
+  try {
+    const trips = getPersistence().trips;
+    const share = await trips.getShare(shareToken);
+    if (!share) {
+      return null;
+    }
+
+    const trip = await trips.getTrip(share.tripId);
+    if (!trip?.settings?.isPublic || trip.settings.shareToken !== shareToken) {
+      return null;
+    }
+
+    // Shared trips leave out costs, so expenses aren't loaded
+    return toSharedTrip(assembleTrip(trip, await trips.loadDays(trip.tripId), []));
+  } catch (error: any) {
+    console.error('Error getting shared trip:', error);
+    throw new Error(`Failed to get shared trip: ${error.message}`);
+  }
+}
+
+/**
+ * Get the actor's calendar feed for a trip, if they've turned it on
+ * @param tripId - Trip ID
+ * @param actorId - Participant whose feed it is
+ * @returns Feed, or null; build its URL with getCalendarFeedLink()
+ */
+export async function getCalendarFeed(tripId: string, actorId: string): Promise<CalendarFeed | null> {
+  try {
+    return await getPersistence().trips.getCalendarFeed(tripId, actorId);
+  } catch (error: any) {
+    console.error('Error getting calendar feed:', error);
+    throw new Error(`Failed to get calendar feed: ${error.message}`);
+  }
+}
+
+/**
+ * Turn on the actor's calendar feed for a trip, or replace it with a new one (any participant)
+ * The calendar is published at the new URL right away and republished whenever
+ * the trip changes; anyone subscribed to the previous URL stops getting it
+ * @param tripId - Trip ID
+ * @param actorId - Participant the feed is for
+ * @param scope - The whole trip, or only the actor's own activities
+ * @returns New feed; build its URL with getCalendarFeedLink()
+ */
+export async function rotateCalendarFeed(
+  tripId: string,
+  actorId: string,
+  scope: CalendarScope
+): Promise<CalendarFeed> {
+  try {
+    const { trips, calendars } = getPersistence();
+    const tripDoc = await trips.getTrip(tripId);
+    if (!tripDoc || tripDoc.trash) {
+      throw new Error('Trip not found');
+    }
+    assertCanPerform(tripDoc, actorId, 'view');
+
+    const previous = await trips.getCalendarFeed(tripId, actorId);
+    const feed = await trips.setCalendarFeed(tripId, { userId: actorId, feedToken: generateShareToken(), scope });
+    const trip = assembleTrip(tripDoc, await trips.loadDays(tripId), []);
+    await calendars.publishCalendar(tripId, feed, toFeedCalendar(trip, feed));
+    if (previous) {
+      await calendars.unpublishCalendar(tripId, previous);
+    }
+    return feed;
+  } catch (error: any) {
+    console.error('Error rotating calendar feed:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to update calendar feed: ${error.message}`);
+  }
+}
+
+/**
+ * Turn off the actor's calendar feed for a trip; its URL stops working
+ * @param tripId - Trip ID
+ * @param actorId - Participant whose feed it is
+ */
+export async function revokeCalendarFeed(tripId: string, actorId: string): Promise<void> {
+  try {
+    const { trips, calendars } = getPersistence();
+    const feed = await trips.getCalendarFeed(tripId, actorId);
+    if (!feed) {
+      return;
+    }
+
+    await calendars.unpublishCalendar(tripId, feed);
+    await trips.deleteCalendarFeed(tripId, actorId);
+  } catch (error: any) {
+    console.error('Error revoking calendar feed:', error);
+    throw new Error(`Failed to turn off calendar feed: ${error.message}`);
+  }
+}
+
+/**
+ * URL calendar apps subscribe to for a feed
+ * @param tripId - Trip ID
+ * @param feed - Feed from getCalendarFeed() or rotateCalendarFeed()
+ */
+export function getCalendarFeedLink(tripId: string, feed: CalendarFeed): string {
+  return getPersistence().calendars.getCalendarUrl(tripId, feed);
+}
+
+/**
+ * Add participant to trip
+ * Either an owner/editor adds someone, or a user joins through an invite
+ * (participantData.inviteId set, actorId is the user joining). Joining also
+ * records the use on the invite, in the same transaction.
+ * @param tripId - Trip ID
+ * @param participantData - Participant data
+ * @param actorId - User making the change (owner or editor; owner to add an owner; or the invitee)
+ */
+export async function addParticipant(
+  tripId: string,
+  participantData: AddParticipantInput,
+  actorId: string
+): Promise<void> {
+  try {
+    const { inviteId, ...participant } = participantData;
 
     // Note: serverTimestamp() cannot be used inside arrays
     const newParticipant: Participant = {
-      ...participantData,
+      ...participant,
       joinedAt: Timestamp.now(),
     };
+    if (inviteId) {
+      newParticipant.inviteId = inviteId;
+    }
+
+    await withTripTransaction(tripId, async (transaction) => {
+      if (inviteId) {
+        // Invitees can't read the trip until they've joined, so only the invite is read
+        const invite = await transaction.getInvite(inviteId);
+        assertCanRedeemInvite(tripId, invite, { ...participantData, inviteId }, actorId);
+
+        const useCount = invite.useCount + 1;
+        transaction.updateInvite(inviteId, {
+          useCount,
+          acceptedBy: [...invite.acceptedBy, actorId],
+          status: useCount >= invite.maxUses ? 'accepted' : 'pending',
+        });
+        // Appended last; firestore.rules looks there for the invite
+        transaction.joinTrip(tripId, newParticipant);
+        // The invitee can't read the trip yet, so the entry has no diff
+        recordChange(
+          transaction,
+          tripId,
+          actorId,
+          { operation: 'participant.join', target: { userId: actorId }, label: participant.displayName },
+          []
+        );
+        return;
+      }
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      participants: [...trip.participants, newParticipant],
-      updatedAt: serverTimestamp(),
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'manageParticipants');
+      assertCanChangeRole(trip, actorId, participant.userId, participant.role);
+      const fields = participantFields([
+        ...trip.participants.filter((p) => p.userId !== participant.userId),
+        newParticipant,
+      ]);
+      transaction.updateTrip(tripId, fields);
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'participant.add', target: { userId: participant.userId }, label: participant.displayName },
+        [diffTrip(trip, { ...trip, ...fields })]
+      );
     });
 
-    // Add trip to participant's tripIds
-    await addTripToUser(participantData.userId, tripId);
-  } catch (error: any) {
-    console.error('Error adding participant:', error);
-    throw new Error(`Failed to add participant: ${error.message}`);
+    // Add trip to participant's tripIds
+    await addTripToUser(participant.userId, tripId);
+  } catch (error: any) {
+    console.error('Error adding participant:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to add participant: ${error.message}`);
+  }
+}
+
+/**
+ * Remove participant from trip
+ * @param tripId - Trip ID
+ * @param userId - User ID to remove
+ * @param actorId - User making the change (owner or editor; owner to remove an owner)
+ */
+export async function removeParticipant(
+  tripId: string,
+  userId: string,
+  actorId: string
+): Promise<void> {
+  try {
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'manageParticipants',
+      (trip) => {
+        assertCanChangeRole(trip, actorId, userId, null);
+        return participantFields(trip.participants.filter((p) => p.userId !== userId));
+      },
+      (trip) => ({ operation: 'participant.remove', target: { userId }, label: getParticipantLabel(trip, userId) })
+    );
+
+    // Remove trip from participant's tripIds
+    await removeTripFromUser(userId, tripId);
+  } catch (error: any) {
+    console.error('Error removing participant:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove participant: ${error.message}`);
+  }
+}
+
+/**
+ * Update participant role
+ * @param tripId - Trip ID
+ * @param userId - User ID
+ * @param newRole - New role
+ * @param actorId - User making the change (owner or editor; owner to grant or revoke owner)
+ */
+export async function updateParticipantRole(
+  tripId: string,
+  userId: string,
+  newRole: ParticipantRole,
+  actorId: string
+): Promise<void> {
+  try {
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'manageParticipants',
+      (trip) => {
+        assertCanChangeRole(trip, actorId, userId, newRole);
+        return participantFields(
+          trip.participants.map((p) => (p.userId === userId ? { ...p, role: newRole } : p))
+        );
+      },
+      (trip) => ({ operation: 'participant.role', target: { userId }, label: getParticipantLabel(trip, userId) })
+    );
+  } catch (error: any) {
+    console.error('Error updating participant role:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to update participant role: ${error.message}`);
+  }
+}
+
+/**
+ * Update a user's denormalized name on every trip they're on (after a profile update)
+ * Each trip is updated in its own transaction, so a concurrent participant
+ * change isn't overwritten. Trips the user left meanwhile are skipped.
+ * Phone numbers aren't updated here: they identify the participant.
+ * @param userId - User ID (must be the one making the change)
+ * @param updates - New display name
+ */
+export async function updateParticipantData(
+  userId: string,
+  updates: { displayName: string }
+): Promise<void> {
+  try {
+    // Find all trips where user is a participant
+    const userTrips = await getPersistence().trips.listParticipantTrips(userId);
+
+    for (const { tripId } of userTrips) {
+      await withTripTransaction(tripId, async (transaction) => {
+        const trip = await transaction.getTrip(tripId);
+        if (!trip || trip.trash || !getParticipantRole(trip, userId)) {
+          return;
+        }
+
+        transaction.updateTrip(
+          tripId,
+          participantFields(
+            trip.participants.map((p) =>
+              p.userId === userId ? { ...p, displayName: updates.displayName } : p
+            )
+          )
+        );
+      });
+    }
+  } catch (error: any) {
+    console.error('Error updating participant data:', error);
+    throw new Error(`Failed to update participant data: ${error.message}`);
+  }
+}
+
+/**
+ * Add day to trip
+ * @param tripId - Trip ID
+ * @param dayData - Day data
+ * @param actorId - User making the change (owner or editor)
+ */
+export async function addDay(
+  tripId: string,
+  dayData: CreateDayInput,
+  actorId: string
+): Promise<void> {
+  try {
+    const dayId = nanoid();
+
+    // Build day object, excluding undefined fields (Firestore doesn't allow undefined)
+    const newDay: DayDocument = {
+      dayId,
+      date: dayData.date,
+    };
+    if (dayData.title) {
+      newDay.title = dayData.title;
+    }
+
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      transaction.setDay(tripId, newDay);
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'day.add', target: { dayId }, label: getDayLabel(newDay, getTripSettings(trip).timezone) },
+        [diffDay(null, newDay)]
+      );
+    });
+  } catch (error: any) {
+    console.error('Error adding day:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to add day: ${error.message}`);
+  }
+}
+
+/**
+ * Remove day from trip
+ * Also deletes every activity in the day
+ * @param tripId - Trip ID
+ * @param dayId - Day ID
+ * @param actorId - User making the change (owner or editor)
+ */
+export async function removeDay(tripId: string, dayId: string, actorId: string): Promise<void> {
+  try {
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const day = await transaction.getDay(tripId, dayId);
+      if (!day) {
+        throw new Error('Day not found');
+      }
+      // Listed after the trip is read, as in reconcileTripDays: an activity added
+      // to the day after that read makes this attempt retry with the list reloaded
+      const activities = await getPersistence().trips.loadActivities(tripId, dayId);
+
+      activities.forEach((activity) =>
+        transaction.deleteActivity(tripId, dayId, activity.activityId)
+      );
+      transaction.deleteDay(tripId, dayId);
+      transaction.updateTrip(tripId, {});
+      // The activities are kept in the entry so the day can be restored whole
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'day.remove', target: { dayId }, label: getDayLabel(day, getTripSettings(trip).timezone) },
+        [...activities.map((activity) => diffActivity(dayId, activity, null)), diffDay(day, null)]
+      );
+    });
+  } catch (error: any) {
+    console.error('Error removing day:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove day: ${error.message}`);
+  }
+}
+
+/**
+ * A new activity, checked and ready to write
+ * @throws Error if its time zone, flight details or cost split are invalid
+ */
+function buildActivity(userId: string, activityData: CreateActivityInput): Activity {
+  assertValidActivityTimeZone(activityData.timeZone);
+  assertValidFlight(activityData.type, activityData.flight);
+  assertValidCost(activityData.cost);
+
+  // Build activity object, excluding undefined fields (Firestore doesn't allow undefined)
+  const newActivity: Activity = {
+    activityId: nanoid(),
+    title: activityData.title,
+    type: activityData.type,
+    attachments: [],
+    createdBy: userId,
+    createdAt: Timestamp.now(),
+    updatedBy: userId,
+    updatedAt: Timestamp.now(),
+  };
+
+  // Add optional fields only if they have values
+  if (activityData.description) {
+    newActivity.description = activityData.description;
+  }
+  if (activityData.startTime) {
+    newActivity.startTime = activityData.startTime;
+  }
+  if (activityData.endTime) {
+    newActivity.endTime = activityData.endTime;
+  }
+  if (activityData.timeZone) {
+    newActivity.timeZone = activityData.timeZone;
+  }
+  if (activityData.flight) {
+    newActivity.flight = activityData.flight;
+  }
+  if (activityData.location) {
+    newActivity.location = activityData.location;
+  }
+  if (activityData.cost) {
+    newActivity.cost = activityData.cost;
+  }
+  if (activityData.notes) {
+    newActivity.notes = activityData.notes;
+  }
+  return newActivity;
+}
+
+/**
+ * Write new activities to their days in one transaction, as one history entry
+ * A single activity is recorded as itself, several as "N activities"
+ */
+async function insertActivities(
+  tripId: string,
+  userId: string,
+  activities: DayActivityInput[]
+): Promise<Activity[]> {
+  if (activities.length === 0) return [];
+  const entries = activities.map(({ dayId, activityData }) => ({
+    dayId,
+    activity: buildActivity(userId, activityData),
+  }));
+
+  await withTripTransaction(tripId, async (transaction) => {
+    const trip = await getAuthorizedTrip(transaction, tripId, userId, 'edit');
+    for (const dayId of new Set(entries.map((entry) => entry.dayId))) {
+      if (!(await transaction.getDay(tripId, dayId))) {
+        throw new Error('Day not found');
+      }
+    }
+    entries.forEach(({ dayId, activity }) => assertValidSchedule(activity, dayId, trip));
+
+    entries.forEach(({ dayId, activity }) => transaction.setActivity(tripId, dayId, activity));
+    transaction.updateTrip(tripId, {});
+    const [{ dayId, activity }] = entries;
+    const summary: ChangeSummary =
+      entries.length === 1
+        ? { operation: 'activity.add', target: { dayId, activityId: activity.activityId }, label: activity.title }
+        : { operation: 'activity.add', target: {}, label: `${entries.length} activities` };
+    recordChange(
+      transaction,
+      tripId,
+      userId,
+      summary,
+      entries.map((entry) => diffActivity(entry.dayId, null, entry.activity))
+    );
+  });
+  return entries.map((entry) => entry.activity);
+}
+
+/**
+ * Add activity to a day
+ * @param tripId - Trip ID
+ * @param dayId - Day ID
+ * @param userId - User ID (creator; owner or editor)
+ * @param activityData - Activity data
+ * @throws ScheduleValidationError if it ends before it starts or starts outside the trip
+ */
+export async function addActivity(
+  tripId: string,
+  dayId: string,
+  userId: string,
+  activityData: CreateActivityInput
+): Promise<void> {
+  try {
+    await insertActivities(tripId, userId, [{ dayId, activityData }]);
+  } catch (error: any) {
+    console.error('Error adding activity:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to add activity: ${error.message}`);
+  }
+}
+
+/**
+ * Add several activities in one go, e.g. from a calendar import
+ * Either all of them are added or none, and they're one entry in the trip's
+ * history, so a single undo takes them all back out
+ * @param tripId - Trip ID
+ * @param userId - User ID (creator; owner or editor)
+ * @param activities - Each activity and the day it goes on
+ * @returns The activities as added
+ * @throws ScheduleValidationError if any of them ends before it starts or starts outside the trip
+ */
+export async function addActivities(
+  tripId: string,
+  userId: string,
+  activities: DayActivityInput[]
+): Promise<Activity[]> {
+  try {
+    if (activities.length > MAX_ACTIVITIES_PER_BATCH) {
+      throw new Error(`Add at most ${MAX_ACTIVITIES_PER_BATCH} activities at a time`);
+    }
+    return await insertActivities(tripId, userId, activities);
+  } catch (error: any) {
+    console.error('Error adding activities:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to add activities: ${error.message}`);
+  }
+}
+
+/**
+ * Update activity
+ * @param tripId - Trip ID
+ * @param dayId - Day ID
+ * @param activityId - Activity ID
+ * @param userId - User ID (updater; owner or editor)
+ * @param updates - Activity updates (optional fields given as undefined are cleared)
+ * @throws ScheduleValidationError if it would end before it starts or start outside the trip
+ */
+export async function updateActivity(
+  tripId: string,
+  dayId: string,
+  activityId: string,
+  userId: string,
+  updates: UpdateActivityInput
+): Promise<void> {
+  try {
+    assertValidActivityTimeZone(updates.timeZone);
+    assertValidCost(updates.cost);
+
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, userId, 'edit');
+      const activity = await transaction.getActivity(tripId, dayId, activityId);
+      if (!activity) {
+        throw new Error('Activity not found');
+      }
+
+      // Rewrite the whole activity so fields given as undefined are dropped
+      const updated: Activity = { ...activity, ...updates, updatedBy: userId, updatedAt: Timestamp.now() };
+      for (const key of Object.keys(updates) as (keyof UpdateActivityInput)[]) {
+        if (updates[key] === undefined) delete updated[key];
+      }
+      assertValidFlight(updated.type, updated.flight);
+      assertValidSchedule(updated, dayId, trip);
+
+      transaction.setActivity(tripId, dayId, updated);
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        userId,
+        { operation: 'activity.update', target: { dayId, activityId }, label: updated.title },
+        [diffActivity(dayId, activity, updated)]
+      );
+    });
+  } catch (error: any) {
+    console.error('Error updating activity:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to update activity: ${error.message}`);
+  }
+}
+
+/**
+ * Remove activity from day
+ * @param tripId - Trip ID
+ * @param dayId - Day ID
+ * @param activityId - Activity ID
+ * @param actorId - User making the change (owner or editor)
+ */
+export async function removeActivity(
+  tripId: string,
+  dayId: string,
+  activityId: string,
+  actorId: string
+): Promise<void> {
+  try {
+    await withTripTransaction(tripId, async (transaction) => {
+      await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const day = await transaction.getDay(tripId, dayId);
+      const activity = await transaction.getActivity(tripId, dayId, activityId);
+      if (!activity) {
+        throw new Error('Activity not found');
+      }
+
+      transaction.deleteActivity(tripId, dayId, activityId);
+      let orderDiff: DocumentDiff | null = null;
+      if (day?.activityOrder?.includes(activityId)) {
+        const activityOrder = day.activityOrder.filter((id) => id !== activityId);
+        transaction.updateDay(tripId, dayId, { activityOrder });
+        orderDiff = diffDay(day, { ...day, activityOrder });
+      }
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'activity.remove', target: { dayId, activityId }, label: activity.title },
+        [diffActivity(dayId, activity, null), orderDiff]
+      );
+    });
+  } catch (error: any) {
+    console.error('Error removing activity:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove activity: ${error.message}`);
+  }
+}
+
+/**
+ * A day's hand-set order with one activity placed at an index
+ * Starts from the order the day is shown in without sortByTime, so activities
+ * nobody has placed yet keep their creation order
+ * @param day - Day as read in the transaction, with its activities
+ * @param activityId - Activity to place (taken out first if it's already there)
+ * @param index - Position to put it at; the end of the day when unset
+ */
+function placeActivity(day: Day, activityId: string, index?: number): string[] {
+  const activityIds = orderActivities({ ...day, sortByTime: false })
+    .activities.map((activity) => activity.activityId)
+    .filter((id) => id !== activityId);
+  const at = index === undefined ? activityIds.length : Math.min(index, activityIds.length);
+  activityIds.splice(at, 0, activityId);
+  return activityIds;
+}
+
+/**
+ * Check a placement and read the days an activity moves between
+ * @throws Error if either day doesn't exist or the index isn't a position
+ */
+async function getPlacementDays(
+  transaction: TripTransaction,
+  tripId: string,
+  dayId: string,
+  to: ActivityPlacement
+): Promise<{ fromDay: DayDocument; toDay: DayDocument }> {
+  if (to.index !== undefined && (!Number.isInteger(to.index) || to.index < 0)) {
+    throw new Error('Activity position must be a whole number from 0');
+  }
+  const fromDay = await transaction.getDay(tripId, dayId);
+  const toDay = to.dayId === dayId ? fromDay : await transaction.getDay(tripId, to.dayId);
+  if (!fromDay || !toDay) {
+    throw new Error('Day not found');
+  }
+  return { fromDay, toDay };
+}
+
+/**
+ * Calendar days between two days of a trip, in the trip's time zone
+ */
+function daysBetween(fromDay: DayDocument, toDay: DayDocument, timeZone: string): number {
+  return diffCalendarDays(
+    toCalendarDate(fromDay.date.toDate(), timeZone),
+    toCalendarDate(toDay.date.toDate(), timeZone)
+  );
+}
+
+/**
+ * Move an activity to another position in its day, or to another day
+ * Keeps its activityId, createdBy and createdAt. Moving to another day keeps
+ * its wall-clock times, on the new day's date.
+ * @param tripId - Trip ID
+ * @param dayId - Day the activity is in now
+ * @param activityId - Activity ID
+ * @param to - Day to move it to (may be the same day) and position in that day
+ * @param actorId - User making the change (owner or editor)
+ * @throws ScheduleValidationError if its times can't be right on the new day
+ */
+export async function moveActivity(
+  tripId: string,
+  dayId: string,
+  activityId: string,
+  to: ActivityPlacement,
+  actorId: string
+): Promise<void> {
+  try {
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const { fromDay, toDay } = await getPlacementDays(transaction, tripId, dayId, to);
+      const activity = await transaction.getActivity(tripId, dayId, activityId);
+      if (!activity) {
+        throw new Error('Activity not found');
+      }
+      // Listed after the trip is read, as in removeDay: an activity added or moved
+      // after that read makes this attempt retry with the list reloaded
+      const toActivities = await getPersistence().trips.loadActivities(tripId, to.dayId);
+
+      const diffs: (DocumentDiff | null)[] = [];
+      if (to.dayId !== dayId) {
+        const timeZone = getTripSettings(trip).timezone;
+        const moved: Activity = {
+          ...activity,
+          ...shiftActivityTimes(activity, daysBetween(fromDay, toDay, timeZone), timeZone),
+          updatedBy: actorId,
+          updatedAt: Timestamp.now(),
+        };
+        assertValidSchedule(moved, to.dayId, trip);
+
+        transaction.deleteActivity(tripId, dayId, activityId);
+        transaction.setActivity(tripId, to.dayId, moved);
+        diffs.push(diffActivity(dayId, activity, null), diffActivity(to.dayId, null, moved));
+        if (fromDay.activityOrder?.includes(activityId)) {
+          const activityOrder = fromDay.activityOrder.filter((id) => id !== activityId);
+          transaction.updateDay(tripId, dayId, { activityOrder });
+          diffs.push(diffDay(fromDay, { ...fromDay, activityOrder }));
+        }
+      }
+
+      const activityOrder = placeActivity({ ...toDay, activities: toActivities }, activityId, to.index);
+      transaction.updateDay(tripId, to.dayId, { activityOrder });
+      transaction.updateTrip(tripId, {});
+      diffs.push(diffDay(toDay, { ...toDay, activityOrder }));
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'activity.move', target: { dayId: to.dayId, activityId }, label: activity.title },
+        diffs
+      );
+    });
+  } catch (error: any) {
+    console.error('Error moving activity:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to move activity: ${error.message}`);
+  }
+}
+
+/**
+ * Copy an activity to a day (the same day or another one)
+ * The copy gets a new activityId and is created by the actor. On another day it
+ * keeps the original's wall-clock times, on the new day's date.
+ * @param tripId - Trip ID
+ * @param dayId - Day the original is in
+ * @param activityId - Activity to copy
+ * @param to - Day to put the copy in and position in that day
+ * @param actorId - User making the change (owner or editor)
+ * @returns The copy
+ * @throws ScheduleValidationError if its times can't be right on the new day
+ */
+export async function copyActivity(
+  tripId: string,
+  dayId: string,
+  activityId: string,
+  to: ActivityPlacement,
+  actorId: string
+): Promise<Activity> {
+  try {
+    const copyId = nanoid();
+
+    return await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const { fromDay, toDay } = await getPlacementDays(transaction, tripId, dayId, to);
+      const activity = await transaction.getActivity(tripId, dayId, activityId);
+      if (!activity) {
+        throw new Error('Activity not found');
+      }
+      // Listed after the trip is read, as in removeDay
+      const toActivities = await getPersistence().trips.loadActivities(tripId, to.dayId);
+
+      const timeZone = getTripSettings(trip).timezone;
+      const now = Timestamp.now();
+      const copy: Activity = {
+        ...activity,
+        ...shiftActivityTimes(activity, daysBetween(fromDay, toDay, timeZone), timeZone),
+        activityId: copyId,
+        createdBy: actorId,
+        createdAt: now,
+        updatedBy: actorId,
+        updatedAt: now,
+      };
+      assertValidSchedule(copy, to.dayId, trip);
+
+      const activityOrder = placeActivity({ ...toDay, activities: toActivities }, copy.activityId, to.index);
+      transaction.setActivity(tripId, to.dayId, copy);
+      transaction.updateDay(tripId, to.dayId, { activityOrder });
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'activity.copy', target: { dayId: to.dayId, activityId: copy.activityId }, label: copy.title },
+        [diffActivity(to.dayId, null, copy), diffDay(toDay, { ...toDay, activityOrder })]
+      );
+      return copy;
+    });
+  } catch (error: any) {
+    console.error('Error copying activity:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to copy activity: ${error.message}`);
+  }
+}
+
+/**
+ * Show a day's activities by start time, or in their hand-set order
+ * The hand-set order is kept either way, so turning this off restores it
+ * @param tripId - Trip ID
+ * @param dayId - Day ID
+ * @param sortByTime - Whether to sort by start time
+ * @param actorId - User making the change (owner or editor)
+ */
+export async function setDaySortByTime(
+  tripId: string,
+  dayId: string,
+  sortByTime: boolean,
+  actorId: string
+): Promise<void> {
+  try {
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const day = await transaction.getDay(tripId, dayId);
+      if (!day) {
+        throw new Error('Day not found');
+      }
+      if ((day.sortByTime ?? false) === sortByTime) {
+        return;
+      }
+
+      transaction.updateDay(tripId, dayId, { sortByTime });
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'day.sort', target: { dayId }, label: getDayLabel(day, getTripSettings(trip).timezone) },
+        [diffDay(day, { ...day, sortByTime })]
+      );
+    });
+  } catch (error: any) {
+    console.error('Error changing day order:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to change day order: ${error.message}`);
+  }
+}
+
+/**
+ * Add lodging to a trip
+ * The stay shows on every night from check-in up to check-out
+ * @param tripId - Trip ID
+ * @param lodgingData - Name, check-in/check-out dates (YYYY-MM-DD in the trip's time zone) and details
+ * @param actorId - User making the change (owner or editor)
+ * @returns Created lodging
+ * @throws LodgingOutOfRangeError if the stay falls outside the trip's dates
+ */
+export async function addLodging(
+  tripId: string,
+  lodgingData: CreateLodgingInput,
+  actorId: string
+): Promise<Lodging> {
+  try {
+    assertValidCost(lodgingData.cost);
+    const now = Timestamp.now();
+
+    // Build lodging object, excluding undefined fields (Firestore doesn't allow undefined)
+    const newLodging: Lodging = {
+      lodgingId: nanoid(),
+      name: lodgingData.name.trim(),
+      checkInDate: lodgingData.checkInDate,
+      checkOutDate: lodgingData.checkOutDate,
+      createdBy: actorId,
+      createdAt: now,
+      updatedBy: actorId,
+      updatedAt: now,
+    };
+    if (lodgingData.location) {
+      newLodging.location = lodgingData.location;
+    }
+    if (lodgingData.confirmationCode) {
+      newLodging.confirmationCode = lodgingData.confirmationCode;
+    }
+    if (lodgingData.cost) {
+      newLodging.cost = lodgingData.cost;
+    }
+    if (lodgingData.notes) {
+      newLodging.notes = lodgingData.notes;
+    }
+
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => {
+        assertValidLodging(newLodging, trip);
+        return { lodging: withLodging(trip, newLodging) };
+      },
+      () => ({ operation: 'lodging.add', target: { lodgingId: newLodging.lodgingId }, label: newLodging.name })
+    );
+
+    return newLodging;
+  } catch (error: any) {
+    console.error('Error adding lodging:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to add lodging: ${error.message}`);
+  }
+}
+
+/**
+ * Update lodging
+ * @param tripId - Trip ID
+ * @param lodgingId - Lodging ID
+ * @param updates - Lodging updates (optional fields given as undefined are cleared)
+ * @param actorId - User making the change (owner or editor)
+ * @throws LodgingOutOfRangeError if the new dates fall outside the trip's
+ */
+export async function updateLodging(
+  tripId: string,
+  lodgingId: string,
+  updates: UpdateLodgingInput,
+  actorId: string
+): Promise<void> {
+  try {
+    assertValidCost(updates.cost);
+
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => {
+        const stay = trip.lodging?.find((l) => l.lodgingId === lodgingId);
+        if (!stay) {
+          throw new Error('Lodging not found');
+        }
+
+        // Fields given as undefined are dropped
+        const updated: Lodging = { ...stay, ...updates, updatedBy: actorId, updatedAt: Timestamp.now() };
+        for (const key of Object.keys(updates) as (keyof UpdateLodgingInput)[]) {
+          if (updates[key] === undefined) delete updated[key];
+        }
+        updated.name = (updated.name ?? '').trim();
+
+        assertValidLodging(updated, trip);
+        return { lodging: withLodging(trip, updated) };
+      },
+      (trip) => ({
+        operation: 'lodging.update',
+        target: { lodgingId },
+        label: updates.name?.trim() || trip.lodging?.find((l) => l.lodgingId === lodgingId)?.name || lodgingId,
+      })
+    );
+  } catch (error: any) {
+    console.error('Error updating lodging:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to update lodging: ${error.message}`);
+  }
+}
+
+/**
+ * Remove lodging from a trip
+ * @param tripId - Trip ID
+ * @param lodgingId - Lodging ID
+ * @param actorId - User making the change (owner or editor)
+ */
+export async function removeLodging(tripId: string, lodgingId: string, actorId: string): Promise<void> {
+  try {
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => ({
+        lodging: (trip.lodging ?? []).filter((l) => l.lodgingId !== lodgingId),
+      }),
+      (trip) => ({
+        operation: 'lodging.remove',
+        target: { lodgingId },
+        label: trip.lodging?.find((l) => l.lodgingId === lodgingId)?.name ?? lodgingId,
+      })
+    );
+  } catch (error: any) {
+    console.error('Error removing lodging:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove lodging: ${error.message}`);
+  }
+}
+
+/**
+ * Reject an expense with missing or malformed fields
+ */
+function assertValidExpense(expense: Expense): void {
+  if (!expense.description) {
+    throw new Error('Expense needs a description');
+  }
+  if (!BUDGET_CATEGORIES.includes(expense.category)) {
+    throw new Error(`Unknown expense category: ${expense.category}`);
+  }
+  if (!isCalendarDate(expense.date)) {
+    throw new Error(`Invalid expense date: ${expense.date}`);
+  }
+  if (!Number.isFinite(expense.cost?.amount) || expense.cost.amount <= 0) {
+    throw new Error('Expense must be a positive amount');
+  }
+  assertValidCost(expense.cost);
+  if (expense.receipts.some((receipt) => !receipt.url || !receipt.fileName)) {
+    throw new Error('Each receipt needs a link and a file name');
+  }
+}
+
+/**
+ * Reject a link to an activity that isn't on the trip
+ * Transactions can't run queries, so this looks it up beforehand
+ */
+async function assertActivityOnTrip(tripId: string, activityId: string | undefined): Promise<void> {
+  if (!activityId) return;
+  const days = await getPersistence().trips.loadDays(tripId);
+  if (!days.some((day) => day.activities.some((activity) => activity.activityId === activityId))) {
+    throw new Error('Linked activity not found');
   }
 }
 
 /**
- * Remove participant from trip
+ * Add an expense that isn't a scheduled activity (groceries, tips, fuel)
+ * It counts towards the cost summary, balances and budget like an activity's cost
  * @param tripId - Trip ID
- * @param userId - User ID to remove
+ * @param expenseData - Description, category, date (YYYY-MM-DD in the trip's time zone),
+ *   cost with who paid and how it's split, and optionally an activity and receipts
+ * @param actorId - User making the change (owner or editor)
+ * @returns Created expense
  */
-export async function removeParticipant(
+export async function addExpense(
   tripId: string,
-  userId: string
-): Promise<void> {
+  expenseData: CreateExpenseInput,
+  actorId: string
+): Promise<Expense> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
+    const now = Timestamp.now();
+
+    // Build expense object, excluding undefined fields (Firestore doesn't allow undefined)
+    const newExpense: Expense = {
+      expenseId: nanoid(),
+      description: expenseData.description.trim(),
+      category: expenseData.category,
+      date: expenseData.date,
+      cost: expenseData.cost,
+      receipts: expenseData.receipts ?? [],
+      createdBy: actorId,
+      createdAt: now,
+      updatedBy: actorId,
+      updatedAt: now,
+    };
+    if (expenseData.activityId) {
+      newExpense.activityId = expenseData.activityId;
     }
+    assertValidExpense(newExpense);
+    await assertActivityOnTrip(tripId, newExpense.activityId);
 
-    const updatedParticipants = trip.participants.filter(
-      (p) => p.userId !== userId
-    );
+    await withTripTransaction(tripId, async (transaction) => {
+      await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      participants: updatedParticipants,
-      updatedAt: serverTimestamp(),
+      transaction.setExpense(tripId, newExpense);
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'expense.add', target: { expenseId: newExpense.expenseId }, label: newExpense.description },
+        [diffExpense(null, newExpense)]
+      );
     });
 
-    // Remove trip from participant's tripIds
-    await removeTripFromUser(userId, tripId);
+    return newExpense;
   } catch (error: any) {
-    console.error('Error removing participant:', error);
-    throw new Error(`Failed to remove participant: ${error.message}`);
+    console.error('Error adding expense:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to add expense: ${error.message}`);
   }
 }
 
 /**
- * Update participant role
+ * Update an expense
  * @param tripId - Trip ID
- * @param userId - User ID
- * @param newRole - New role
+ * @param expenseId - Expense ID
+ * @param updates - Expense updates (optional fields given as undefined are cleared)
+ * @param actorId - User making the change (owner or editor)
  */
-export async function updateParticipantRole(
+export async function updateExpense(
   tripId: string,
-  userId: string,
-  newRole: 'owner' | 'editor' | 'viewer'
+  expenseId: string,
+  updates: UpdateExpenseInput,
+  actorId: string
 ): Promise<void> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
-    }
+    await assertActivityOnTrip(tripId, updates.activityId);
 
-    const updatedParticipants = trip.participants.map((p) =>
-      p.userId === userId ? { ...p, role: newRole } : p
-    );
+    await withTripTransaction(tripId, async (transaction) => {
+      await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const expense = await transaction.getExpense(tripId, expenseId);
+      if (!expense) {
+        throw new Error('Expense not found');
+      }
+
+      // Rewrite the whole expense so fields given as undefined are dropped
+      const updated: Expense = { ...expense, ...updates, updatedBy: actorId, updatedAt: Timestamp.now() };
+      for (const key of Object.keys(updates) as (keyof UpdateExpenseInput)[]) {
+        if (updates[key] === undefined) delete updated[key];
+      }
+      updated.description = (updated.description ?? '').trim();
+      updated.receipts = updated.receipts ?? [];
+      assertValidExpense(updated);
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      participants: updatedParticipants,
-      updatedAt: serverTimestamp(),
+      transaction.setExpense(tripId, updated);
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'expense.update', target: { expenseId }, label: updated.description },
+        [diffExpense(expense, updated)]
+      );
     });
   } catch (error: any) {
-    console.error('Error updating participant role:', error);
-    throw new Error(`Failed to update participant role: ${error.message}`);
+    console.error('Error updating expense:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to update expense: ${error.message}`);
   }
 }
 
 /**
- * Update denormalized participant data (for handling user profile updates)
- * @param userId - User ID
- * @param updates - Fields to update (phoneNumber, displayName)
+ * Remove an expense from a trip
+ * @param tripId - Trip ID
+ * @param expenseId - Expense ID
+ * @param actorId - User making the change (owner or editor)
  */
-export async function updateParticipantData(
-  userId: string,
-  updates: { phoneNumber?: string; displayName?: string }
-): Promise<void> {
+export async function removeExpense(tripId: string, expenseId: string, actorId: string): Promise<void> {
   try {
-    // Find all trips where user is a participant
-    const tripsRef = collection(db, TRIPS_COLLECTION);
-    const q = query(tripsRef, where('participants', 'array-contains', { userId }));
-    const querySnapshot = await getDocs(q);
-
-    const batch = writeBatch(db);
+    await withTripTransaction(tripId, async (transaction) => {
+      await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const expense = await transaction.getExpense(tripId, expenseId);
+      if (!expense) {
+        throw new Error('Expense not found');
+      }
 
-    querySnapshot.forEach((docSnapshot) => {
-      const trip = docSnapshot.data() as Trip;
-      const updatedParticipants = trip.participants.map((p) =>
-        p.userId === userId ? { ...p, ...updates } : p
+      transaction.deleteExpense(tripId, expenseId);
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'expense.remove', target: { expenseId }, label: expense.description },
+        [diffExpense(expense, null)]
       );
-
-      batch.update(docSnapshot.ref, {
-        participants: updatedParticipants,
-        updatedAt: serverTimestamp(),
-      });
     });
-
-    await batch.commit();
   } catch (error: any) {
-    console.error('Error updating participant data:', error);
-    throw new Error(`Failed to update participant data: ${error.message}`);
+    console.error('Error removing expense:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove expense: ${error.message}`);
   }
 }
 
 /**
- * Add day to trip
+ * How a repayment is named in the trip's history
+ */
+function getSettlementLabel(trip: TripDocument, settlement: Settlement): string {
+  return `${settlement.amount} ${settlement.currency} from ${getParticipantLabel(trip, settlement.fromUserId)} to ${getParticipantLabel(trip, settlement.toUserId)}`;
+}
+
+/**
+ * Record a repayment between two participants as paid
+ * It counts towards both people's balances (see getTripBalances in utils/settlement.ts),
+ * so it must be in the trip's currency or one its costs use
  * @param tripId - Trip ID
- * @param dayData - Day data
+ * @param settlementData - Who paid whom, and how much
+ * @param actorId - User recording it (owner or editor)
+ * @returns The recorded repayment
  */
-export async function addDay(
+export async function recordSettlement(
   tripId: string,
-  dayData: CreateDayInput
-): Promise<void> {
+  settlementData: CreateSettlementInput,
+  actorId: string
+): Promise<Settlement> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
+    if (!Number.isFinite(settlementData.amount) || settlementData.amount <= 0) {
+      throw new Error('Repayment must be a positive amount');
+    }
+    if (settlementData.fromUserId === settlementData.toUserId) {
+      throw new Error('Someone can\'t repay themselves');
+    }
+    if (!isCurrencyCode(settlementData.currency)) {
+      throw new Error('Enter a 3-letter currency code');
     }
 
-    const newDay: Day = {
-      dayId: nanoid(),
-      date: dayData.date,
-      title: dayData.title,
-      activities: [],
+    // Build settlement object, excluding undefined fields (Firestore doesn't allow undefined)
+    const settlement: Settlement = {
+      settlementId: nanoid(),
+      fromUserId: settlementData.fromUserId,
+      toUserId: settlementData.toUserId,
+      amount: settlementData.amount,
+      currency: settlementData.currency,
+      createdBy: actorId,
+      createdAt: Timestamp.now(),
     };
+    if (settlementData.note?.trim()) {
+      settlement.note = settlementData.note.trim();
+    }
+
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'edit');
+      const participantIds = trip.participants.map((p) => p.userId);
+      if (!participantIds.includes(settlement.fromUserId) || !participantIds.includes(settlement.toUserId)) {
+        throw new Error('Repayments can only be between participants');
+      }
+
+      // Balances are kept per currency, so a repayment has to be in the trip's currency
+      // or one of its costs'. As in reconcileTripDays, the costs are loaded after the trip
+      // is read, and a cost changed since makes this attempt retry with them reloaded.
+      const { currency } = getTripSettings(trip);
+      if (settlement.currency !== currency) {
+        const trips = getPersistence().trips;
+        const [days, expenses] = await Promise.all([trips.loadDays(tripId), trips.loadExpenses(tripId)]);
+        const costCurrencies = getTripCosts({ days, lodging: trip.lodging, expenses }).map(({ cost }) => cost.currency);
+        if (!costCurrencies.includes(settlement.currency)) {
+          throw new Error(`Repayment must be in ${currency}, or a currency the trip's costs use`);
+        }
+      }
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      days: [...trip.days, newDay],
-      updatedAt: serverTimestamp(),
+      const fields = { settlements: [...(trip.settlements ?? []), settlement] };
+      transaction.updateTrip(tripId, fields);
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        {
+          operation: 'settlement.add',
+          target: { settlementId: settlement.settlementId },
+          label: getSettlementLabel(trip, settlement),
+        },
+        [diffTrip(trip, { ...trip, ...fields })]
+      );
     });
+
+    return settlement;
   } catch (error: any) {
-    console.error('Error adding day:', error);
-    throw new Error(`Failed to add day: ${error.message}`);
+    console.error('Error recording settlement:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to record settlement: ${error.message}`);
   }
 }
 
 /**
- * Remove day from trip
+ * Remove a recorded repayment, e.g. one marked paid by mistake
  * @param tripId - Trip ID
- * @param dayId - Day ID
+ * @param settlementId - Settlement ID
+ * @param actorId - User making the change (owner or editor)
  */
-export async function removeDay(tripId: string, dayId: string): Promise<void> {
+export async function removeSettlement(tripId: string, settlementId: string, actorId: string): Promise<void> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
-    }
-
-    const updatedDays = trip.days.filter((d) => d.dayId !== dayId);
-
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      days: updatedDays,
-      updatedAt: serverTimestamp(),
-    });
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => {
+        if (!trip.settlements?.some((s) => s.settlementId === settlementId)) {
+          throw new Error('Settlement not found');
+        }
+        return { settlements: trip.settlements.filter((s) => s.settlementId !== settlementId) };
+      },
+      (trip) => ({
+        operation: 'settlement.remove',
+        target: { settlementId },
+        label: getSettlementLabel(trip, trip.settlements!.find((s) => s.settlementId === settlementId)!),
+      })
+    );
   } catch (error: any) {
-    console.error('Error removing day:', error);
-    throw new Error(`Failed to remove day: ${error.message}`);
+    console.error('Error removing settlement:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove settlement: ${error.message}`);
   }
 }
 
 /**
- * Add activity to a day
+ * Set the rate a trip converts one currency into its own with
+ * Used instead of the rate provider's; replaces any rate already set for it
  * @param tripId - Trip ID
- * @param dayId - Day ID
- * @param userId - User ID (creator)
- * @param activityData - Activity data
+ * @param rateData - Currency, rate (1 unit = rate units of the trip's currency) and optional date
+ * @param actorId - User making the change (owner or editor)
+ * @returns The rate as stored
  */
-export async function addActivity(
+export async function setExchangeRate(
   tripId: string,
-  dayId: string,
-  userId: string,
-  activityData: CreateActivityInput
-): Promise<void> {
+  rateData: SetExchangeRateInput,
+  actorId: string
+): Promise<ExchangeRateOverride> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
-    }
-
-    // Note: serverTimestamp() cannot be used inside arrays
-    // Build activity object, excluding undefined fields (Firestore doesn't allow undefined)
-    const newActivity: any = {
-      activityId: nanoid(),
-      title: activityData.title,
-      type: activityData.type,
-      attachments: [],
-      createdBy: userId,
-      createdAt: Timestamp.now(),
-      updatedBy: userId,
-      updatedAt: Timestamp.now(),
-    };
-
-    // Add optional fields only if they have values
-    if (activityData.description) {
-      newActivity.description = activityData.description;
-    }
-    if (activityData.startTime) {
-      newActivity.startTime = activityData.startTime;
-    }
-    if (activityData.endTime) {
-      newActivity.endTime = activityData.endTime;
+    if (!isCurrencyCode(rateData.from)) {
+      throw new Error('Enter a 3-letter currency code');
     }
-    if (activityData.location) {
-      newActivity.location = activityData.location;
+    if (!Number.isFinite(rateData.rate) || rateData.rate <= 0) {
+      throw new Error('Exchange rate must be a positive number');
     }
-    if (activityData.cost) {
-      newActivity.cost = activityData.cost;
-    }
-    if (activityData.notes) {
-      newActivity.notes = activityData.notes;
+    if (rateData.date !== undefined && !isCalendarDate(rateData.date)) {
+      throw new Error('Rate date must be YYYY-MM-DD');
     }
 
-    const updatedDays = trip.days.map((day) =>
-      day.dayId === dayId
-        ? { ...day, activities: [...day.activities, newActivity] }
-        : day
+    let override: ExchangeRateOverride | null = null;
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => {
+        const { currency, timezone } = getTripSettings(trip);
+        if (rateData.from === currency) {
+          throw new Error(`Costs in ${currency} don't need converting`);
+        }
+        override = {
+          from: rateData.from,
+          to: currency,
+          rate: rateData.rate,
+          date: rateData.date ?? toCalendarDate(new Date(), timezone),
+          setBy: actorId,
+          setAt: Timestamp.now(),
+        };
+        return {
+          exchangeRates: [...(trip.exchangeRates ?? []).filter((r) => r.from !== rateData.from), override],
+        };
+      },
+      () => ({ operation: 'rate.set', target: { currency: rateData.from }, label: rateData.from })
     );
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      days: updatedDays,
-      updatedAt: serverTimestamp(),
-    });
+    return override!;
   } catch (error: any) {
-    console.error('Error adding activity:', error);
-    throw new Error(`Failed to add activity: ${error.message}`);
+    console.error('Error setting exchange rate:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to set exchange rate: ${error.message}`);
   }
 }
 
 /**
- * Update activity
+ * Stop using a trip's own rate for a currency and go back to the provider's
  * @param tripId - Trip ID
- * @param dayId - Day ID
- * @param activityId - Activity ID
- * @param userId - User ID (updater)
- * @param updates - Activity updates
+ * @param currency - Currency code
+ * @param actorId - User making the change (owner or editor)
  */
-export async function updateActivity(
+export async function removeExchangeRate(tripId: string, currency: string, actorId: string): Promise<void> {
+  try {
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => {
+        if (!trip.exchangeRates?.some((r) => r.from === currency)) {
+          throw new Error('Exchange rate not found');
+        }
+        return { exchangeRates: trip.exchangeRates.filter((r) => r.from !== currency) };
+      },
+      () => ({ operation: 'rate.remove', target: { currency }, label: currency })
+    );
+  } catch (error: any) {
+    console.error('Error removing exchange rate:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to remove exchange rate: ${error.message}`);
+  }
+}
+
+/**
+ * A budget as stored: only the limits that are set, without undefined fields
+ * (Firestore doesn't allow undefined)
+ * @throws Error if a limit is negative, not a number, or names an unknown category
+ */
+function toStoredBudget(budget: TripBudget): TripBudget | null {
+  const assertLimit = (value: number) => {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error('Budgets must be amounts of zero or more');
+    }
+  };
+
+  const stored: TripBudget = {};
+  if (budget.total !== undefined) {
+    assertLimit(budget.total);
+    stored.total = budget.total;
+  }
+  const byType = Object.entries(budget.byType ?? {}).filter(([, value]) => value !== undefined);
+  byType.forEach(([type, value]) => {
+    if (!BUDGET_CATEGORIES.includes(type as ActivityType)) {
+      throw new Error(`Unknown budget category: ${type}`);
+    }
+    assertLimit(value);
+  });
+  if (byType.length > 0) {
+    stored.byType = Object.fromEntries(byType);
+  }
+  return stored.total !== undefined || stored.byType ? stored : null;
+}
+
+/**
+ * Set a trip's budget: an overall limit and limits per activity type, in the
+ * trip's currency (see getBudgetReport in utils/budget.ts)
+ * Replaces the whole budget; limits left out are removed
+ * @param tripId - Trip ID
+ * @param budget - Limits to set, or null to remove the budget
+ * @param actorId - User making the change (owner or editor)
+ */
+export async function setTripBudget(tripId: string, budget: TripBudget | null, actorId: string): Promise<void> {
+  try {
+    const stored = budget ? toStoredBudget(budget) : null;
+
+    await runTripTransaction(
+      tripId,
+      actorId,
+      'edit',
+      (trip) => {
+        const settings = getTripSettings(trip);
+        delete settings.budget;
+        if (stored) {
+          settings.budget = stored;
+        }
+        return { settings };
+      },
+      (trip) => ({ operation: 'trip.budget', target: {}, label: trip.title })
+    );
+  } catch (error: any) {
+    console.error('Error setting budget:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to set budget: ${error.message}`);
+  }
+}
+
+/**
+ * Read the document a diff is about, inside a transaction
+ * @param trip - Trip document as already read in the transaction
+ * @returns The document, or null if it doesn't exist
+ */
+async function readDiffTarget(
+  transaction: TripTransaction,
   tripId: string,
-  dayId: string,
-  activityId: string,
-  userId: string,
-  updates: UpdateActivityInput
-): Promise<void> {
+  trip: TripDocument,
+  diff: DocumentDiff
+): Promise<object | null> {
+  if (diff.document === 'trip') {
+    return trip;
+  }
+  if (diff.document === 'day') {
+    return transaction.getDay(tripId, diff.dayId!);
+  }
+  if (diff.document === 'expense') {
+    return transaction.getExpense(tripId, diff.expenseId!);
+  }
+  return transaction.getActivity(tripId, diff.dayId!, diff.activityId!);
+}
+
+/**
+ * Write a day, activity or expense back to how it was before a diff
+ * @param current - The document as read in this transaction
+ * @param trip - Trip as it will be after the undo, to check activity times against
+ * @returns How the document changes, for the undo's own entry
+ * @throws ScheduleValidationError if an activity's old times don't fit the trip anymore
+ */
+function revertDocument(
+  transaction: TripTransaction,
+  tripId: string,
+  diff: DocumentDiff,
+  current: object | null,
+  trip: TripDocument,
+  actorId: string
+): DocumentDiff | null {
+  if (diff.document === 'expense') {
+    if (!diff.before) {
+      transaction.deleteExpense(tripId, diff.expenseId!);
+      return diffExpense(current as Expense, null);
+    }
+    const expense: Expense = current
+      ? { ...revertFields(current as Expense, diff.before).document, updatedBy: actorId, updatedAt: Timestamp.now() }
+      : (diff.before as unknown as Expense);
+    transaction.setExpense(tripId, expense);
+    return diffExpense(current as Expense | null, expense);
+  }
+
+  const dayId = diff.dayId!;
+
+  if (diff.document === 'day') {
+    if (!diff.before) {
+      transaction.deleteDay(tripId, dayId);
+      return diffDay(current as DayDocument, null);
+    }
+    const day = current
+      ? revertFields(current as DayDocument, diff.before).document
+      : (diff.before as unknown as DayDocument);
+    transaction.setDay(tripId, day);
+    return diffDay(current as DayDocument | null, day);
+  }
+
+  if (!diff.before) {
+    transaction.deleteActivity(tripId, dayId, diff.activityId!);
+    return diffActivity(dayId, current as Activity, null);
+  }
+  const activity: Activity = current
+    ? { ...revertFields(current as Activity, diff.before).document, updatedBy: actorId, updatedAt: Timestamp.now() }
+    : (diff.before as unknown as Activity);
+  assertValidSchedule(activity, dayId, trip);
+  transaction.setActivity(tripId, dayId, activity);
+  return diffActivity(dayId, current as Activity | null, activity);
+}
+
+/**
+ * Undo the actor's most recent change to a trip that hasn't been undone yet
+ * Every document the change touched is put back the way it was, in one
+ * transaction, and the undo is recorded as a change of its own. Undoing again
+ * reverts the change before that.
+ * @param tripId - Trip ID
+ * @param actorId - User undoing their own change (still needs the role the change needed)
+ * @returns The change that was undone
+ * @throws ChangeHistoryError if there's nothing to undo, it can't be undone, or
+ *   someone changed the same things since
+ */
+export async function undoLastChange(tripId: string, actorId: string): Promise<TripChange> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
+    const trips = getPersistence().trips;
+    const change = getChangeToUndo(await trips.listChanges(tripId, { actorId }));
+    if (!change) {
+      throw new ChangeHistoryError(null, 'nothing-to-undo', 'You have no changes on this trip to undo.');
+    }
+    if (!isUndoable(change)) {
+      throw new ChangeHistoryError(
+        change.changeId,
+        'not-undoable',
+        `Your last change (${describeChange(change)}) can't be undone.`
+      );
     }
 
-    const updatedDays = trip.days.map((day) =>
-      day.dayId === dayId
-        ? {
-            ...day,
-            activities: day.activities.map((activity) =>
-              activity.activityId === activityId
-                ? {
-                    ...activity,
-                    ...updates,
-                    updatedBy: userId,
-                    updatedAt: Timestamp.now(),
-                  }
-                : activity
-            ),
-          }
-        : day
+    const changedSince = new ChangeHistoryError(
+      change.changeId,
+      'changed-since',
+      `Can't undo: ${change.label} was changed again since. Edit it directly instead.`
+    );
+
+    const createdActivityIds = new Set(
+      change.diffs.filter((diff) => diff.document === 'activity' && !diff.before).map((diff) => diff.activityId)
     );
+    const action: TripAction = change.operation.startsWith('participant.') ? 'manageParticipants' : 'edit';
+
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, action);
+      // Days the undo deletes must not have gained activities since. Listed after
+      // the trip is read, as in removeDay, so one added meanwhile makes this retry
+      for (const diff of change.diffs.filter((d) => d.document === 'day' && !d.before)) {
+        const activities = await trips.loadActivities(tripId, diff.dayId!);
+        if (activities.some((activity) => !createdActivityIds.has(activity.activityId))) {
+          throw changedSince;
+        }
+      }
+
+      const current = await Promise.all(
+        change.diffs.map((diff) => readDiffTarget(transaction, tripId, trip, diff))
+      );
+      if (change.diffs.some((diff, i) => !matchesFields(current[i], diff.after))) {
+        throw changedSince;
+      }
+
+      // The trip document first, so activities are checked against its old dates
+      let revertedTrip = trip;
+      const reverts: (DocumentDiff | null)[] = [];
+      change.diffs
+        .filter((diff) => diff.document === 'trip')
+        .forEach((diff) => {
+          const { document, removed } = revertFields(revertedTrip, diff.before!);
+          revertedTrip = document;
+          (revertedTrip.lodging ?? []).forEach((stay) => assertValidLodging(stay, revertedTrip));
+
+          const fields = Object.fromEntries(
+            Object.entries(diff.before!).filter(([, value]) => value !== null)
+          ) as Partial<TripDocument>;
+          transaction.updateTrip(tripId, fields, removed);
+        });
+      reverts.push(diffTrip(trip, revertedTrip));
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      days: updatedDays,
-      updatedAt: serverTimestamp(),
+      change.diffs.forEach((diff, i) => {
+        if (diff.document !== 'trip') {
+          reverts.push(revertDocument(transaction, tripId, diff, current[i], revertedTrip, actorId));
+        }
+      });
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: 'undo', target: change.target, label: change.label, undoes: change.changeId },
+        reverts
+      );
     });
+
+    // Keep each user's tripIds in step with participants that came back or went away
+    const participantIds = (fields: Record<string, unknown> | null) =>
+      (fields?.participantIds as string[] | undefined) ?? [];
+    for (const diff of change.diffs.filter((d) => d.document === 'trip' && d.before?.participantIds)) {
+      const restored = participantIds(diff.before);
+      const dropped = participantIds(diff.after);
+      for (const userId of restored.filter((id) => !dropped.includes(id))) {
+        await addTripToUser(userId, tripId);
+      }
+      for (const userId of dropped.filter((id) => !restored.includes(id))) {
+        await removeTripFromUser(userId, tripId);
+      }
+    }
+
+    return change;
   } catch (error: any) {
-    console.error('Error updating activity:', error);
-    throw new Error(`Failed to update activity: ${error.message}`);
+    console.error('Error undoing change:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to undo change: ${error.message}`);
   }
 }
 
 /**
- * Remove activity from day
+ * Bring back a removed activity or day from the trip's history (Owner only)
+ * The activity (or the day with all its activities) is recreated as it was,
+ * with the same IDs; a restored activity goes to the end of its day
  * @param tripId - Trip ID
- * @param dayId - Day ID
- * @param activityId - Activity ID
+ * @param changeId - The 'activity.remove' or 'day.remove' entry
+ * @param actorId - User making the change (must be an owner)
+ * @throws ChangeHistoryError if the entry isn't a removal, it's already back,
+ *   or the activity's day is gone
+ * @throws ScheduleValidationError if an activity's times no longer fit the trip
  */
-export async function removeActivity(
+export async function restoreFromHistory(
   tripId: string,
-  dayId: string,
-  activityId: string
+  changeId: string,
+  actorId: string
 ): Promise<void> {
   try {
-    const trip = await getTrip(tripId);
-    if (!trip) {
-      throw new Error('Trip not found');
+    const change = await getPersistence().trips.getChange(tripId, changeId);
+    if (!change || (change.operation !== 'activity.remove' && change.operation !== 'day.remove')) {
+      throw new ChangeHistoryError(changeId, 'not-restorable', 'Only removed activities and days can be restored.');
     }
 
-    const updatedDays = trip.days.map((day) =>
-      day.dayId === dayId
-        ? {
-            ...day,
-            activities: day.activities.filter((a) => a.activityId !== activityId),
-          }
-        : day
-    );
+    const dayId = change.target.dayId!;
+    const isDay = change.operation === 'day.remove';
+    // The documents the removal deleted (the day's activity order isn't brought back)
+    const removed = change.diffs.filter((diff) => diff.before && !diff.after);
+
+    await withTripTransaction(tripId, async (transaction) => {
+      const trip = await getAuthorizedTrip(transaction, tripId, actorId, 'restore');
+      const day = await transaction.getDay(tripId, dayId);
+      const current = await Promise.all(
+        removed.map((diff) => readDiffTarget(transaction, tripId, trip, diff))
+      );
+
+      if (!isDay && !day) {
+        throw new ChangeHistoryError(
+          changeId,
+          'day-missing',
+          `The day ${change.label} was on has been removed. Restore that day first.`
+        );
+      }
+      if (current.some(Boolean)) {
+        throw new ChangeHistoryError(changeId, 'already-exists', `${change.label} is already on the trip.`);
+      }
 
-    const tripRef = doc(db, TRIPS_COLLECTION, tripId);
-    await updateDoc(tripRef, {
-      days: updatedDays,
-      updatedAt: serverTimestamp(),
+      // The day before its activities
+      const ordered = [
+        ...removed.filter((diff) => diff.document === 'day'),
+        ...removed.filter((diff) => diff.document === 'activity'),
+      ];
+      ordered.forEach((diff) => {
+        if (diff.document === 'day') {
+          transaction.setDay(tripId, diff.before as unknown as DayDocument);
+        } else {
+          const activity = diff.before as unknown as Activity;
+          assertValidSchedule(activity, dayId, trip);
+          transaction.setActivity(tripId, dayId, activity);
+        }
+      });
+      transaction.updateTrip(tripId, {});
+      recordChange(
+        transaction,
+        tripId,
+        actorId,
+        { operation: isDay ? 'day.restore' : 'activity.restore', target: change.target, label: change.label },
+        ordered.map((diff) => ({ ...diff, before: null, after: diff.before }))
+      );
     });
   } catch (error: any) {
-    console.error('Error removing activity:', error);
-    throw new Error(`Failed to remove activity: ${error.message}`);
+    console.error('Error restoring from history:', error);
+    if (error instanceof ServiceError) throw error;
+    throw new Error(`Failed to restore: ${error.message}`);
   }
 }
 
+/**
+ * Subscribe to a trip's change history (the activity feed)
+ * @param tripId - Trip ID
+ * @param callback - Function called with the latest changes, newest first
+ * @returns Unsubscribe function
+ */
+export function subscribeToTripChanges(
+  tripId: string,
+  callback: (changes: TripChange[]) => void
+): Unsubscribe {
+  return getPersistence().trips.watchChanges(tripId, CHANGE_FEED_LENGTH, callback, (error) => {
+    console.error('Error in trip changes subscription:', error);
+  });
+}
+
+/**
+ * Subscribe to per-day changes of a trip's itinerary
+ * Only the day that changed is delivered, with its full activity list
+ * @param tripId - Trip ID
+ * @param callback - Function called once per changed day
+ * @returns Unsubscribe function
+ */
+export function subscribeToTripDays(
+  tripId: string,
+  callback: (change: DayChange) => void
+): Unsubscribe {
+  return getPersistence().trips.watchDays(
+    tripId,
+    (changes) => changes.forEach(({ type, day }) => callback({ type, day: orderActivities(day) })),
+    (error) => {
+      console.error('Error in trip days subscription:', error);
+    }
+  );
+}
+
 /**
  * Subscribe to real-time trip updates
+ * Combines the trip document with its days and expenses so callers still receive a full Trip
  * @param tripId - Trip ID
  * @param callback - Function called when trip changes
  * @returns Unsubscribe function
@@ -601,20 +3126,64 @@ export function subscribeToTrip(
   tripId: string,
   callback: (trip: Trip | null) => void
 ): Unsubscribe {
-  const tripRef = doc(db, TRIPS_COLLECTION, tripId);
+  // undefined until the first snapshot of each arrives
+  let tripData: TripDocument | null | undefined;
+  let days: Map<string, Day> | undefined;
+  let expenses: Expense[] | undefined;
 
-  return onSnapshot(
-    tripRef,
-    (snapshot) => {
-      if (snapshot.exists()) {
-        callback(snapshot.data() as Trip);
-      } else {
-        callback(null);
-      }
+  const emit = () => {
+    if (tripData === undefined || days === undefined || expenses === undefined) return;
+    callback(tripData ? assembleTrip(tripData, [...days.values()], expenses) : null);
+  };
+
+  const trips = getPersistence().trips;
+
+  const unsubscribeTrip = trips.watchTrip(
+    tripId,
+    (trip) => {
+      tripData = trip?.trash ? null : trip;
+      emit();
     },
     (error) => {
       console.error('Error in trip subscription:', error);
       callback(null);
     }
   );
+
+  const unsubscribeDays = trips.watchDays(
+    tripId,
+    (changes) => {
+      days = new Map(days);
+      changes.forEach(({ type, day }) => {
+        if (type === 'removed') {
+          days!.delete(day.dayId);
+        } else {
+          days!.set(day.dayId, day);
+        }
+      });
+      emit();
+    },
+    (error) => {
+      console.error('Error in trip subscription:', error);
+      callback(null);
+    }
+  );
+
+  const unsubscribeExpenses = trips.watchExpenses(
+    tripId,
+    (latest) => {
+      expenses = latest;
+      emit();
+    },
+    (error) => {
+      console.error('Error in trip subscription:', error);
+      callback(null);
+    }
+  );
+
+  return () => {
+    unsubscribeTrip();
+    unsubscribeDays();
+    unsubscribeExpenses();
+  };
 }
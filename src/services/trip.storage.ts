@@ -0,0 +1,281 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  onSnapshot,
+  CollectionReference,
+  DocumentReference,
+  FirestoreError,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { getDb } from '../config/firebase';
+import type { Trip, TripDocument, Day, DayDocument, DayChange, Activity, Expense } from '../types';
+
+/**
+ * Trip Storage
+ * Firestore layout for trips and their itinerary:
+ *
+ *   trips/{tripId}                                      - trip document (no days)
+ *   trips/{tripId}/days/{dayId}                         - day document
+ *   trips/{tripId}/days/{dayId}/activities/{activityId} - activity document
+ *   trips/{tripId}/expenses/{expenseId}                 - expense document
+ *   trips/{tripId}/changes/{changeId}                   - change history entry
+ *
+ * Keeps the trip document small and lets listeners receive one day at a time.
+ * The trip service assembles these back into the nested Trip model.
+ */
+
+export const TRIPS_COLLECTION = 'trips';
+export const DAYS_SUBCOLLECTION = 'days';
+export const ACTIVITIES_SUBCOLLECTION = 'activities';
+export const EXPENSES_SUBCOLLECTION = 'expenses';
+export const CHANGES_SUBCOLLECTION = 'changes';
+
+export function tripDocRef(tripId: string): DocumentReference {
+  return doc(getDb(), TRIPS_COLLECTION, tripId);
+}
+
+export function daysCollectionRef(tripId: string): CollectionReference {
+  return collection(getDb(), TRIPS_COLLECTION, tripId, DAYS_SUBCOLLECTION);
+}
+
+export function dayDocRef(tripId: string, dayId: string): DocumentReference {
+  return doc(getDb(), TRIPS_COLLECTION, tripId, DAYS_SUBCOLLECTION, dayId);
+}
+
+export function activitiesCollectionRef(tripId: string, dayId: string): CollectionReference {
+  return collection(
+    getDb(),
+    TRIPS_COLLECTION,
+    tripId,
+    DAYS_SUBCOLLECTION,
+    dayId,
+    ACTIVITIES_SUBCOLLECTION
+  );
+}
+
+export function activityDocRef(
+  tripId: string,
+  dayId: string,
+  activityId: string
+): DocumentReference {
+  return doc(activitiesCollectionRef(tripId, dayId), activityId);
+}
+
+export function expensesCollectionRef(tripId: string): CollectionReference {
+  return collection(getDb(), TRIPS_COLLECTION, tripId, EXPENSES_SUBCOLLECTION);
+}
+
+export function expenseDocRef(tripId: string, expenseId: string): DocumentReference {
+  return doc(expensesCollectionRef(tripId), expenseId);
+}
+
+export function changesCollectionRef(tripId: string): CollectionReference {
+  return collection(getDb(), TRIPS_COLLECTION, tripId, CHANGES_SUBCOLLECTION);
+}
+
+export function changeDocRef(tripId: string, changeId: string): DocumentReference {
+  return doc(changesCollectionRef(tripId), changeId);
+}
+
+/**
+ * Sort days chronologically
+ */
+export function sortDays(days: Day[]): Day[] {
+  return [...days].sort((a, b) => a.date.toMillis() - b.date.toMillis());
+}
+
+/**
+ * Put a day's activities in the order they're shown
+ * Activities in activityOrder come first, in that order, and the rest follow in
+ * creation order. With sortByTime they're sorted by start time instead, and
+ * activities without one keep their hand-set order at the end.
+ */
+export function orderActivities(day: Day): Day {
+  const positions = new Map((day.activityOrder ?? []).map((activityId, i) => [activityId, i]));
+  const position = (activity: Activity) => positions.get(activity.activityId) ?? positions.size;
+  const activities = [...day.activities].sort((a, b) => position(a) - position(b));
+
+  if (day.sortByTime) {
+    activities.sort((a, b) => {
+      if (!a.startTime || !b.startTime) return (a.startTime ? 0 : 1) - (b.startTime ? 0 : 1);
+      return a.startTime.toMillis() - b.startTime.toMillis();
+    });
+  }
+
+  return { ...day, activities };
+}
+
+/**
+ * Sort expenses by date, oldest first; same-day expenses in the order they were added
+ */
+export function sortExpenses(expenses: Expense[]): Expense[] {
+  return [...expenses].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.createdAt.toMillis() - b.createdAt.toMillis()
+  );
+}
+
+/**
+ * Combine a trip document with its days and expenses into the Trip model
+ */
+export function assembleTrip(tripData: TripDocument, days: Day[], expenses: Expense[]): Trip {
+  return { ...tripData, days: sortDays(days).map(orderActivities), expenses: sortExpenses(expenses) };
+}
+
+/**
+ * Load a trip's expenses in the order they were added
+ * @param tripId - Trip ID
+ */
+export async function loadExpenses(tripId: string): Promise<Expense[]> {
+  const snapshot = await getDocs(query(expensesCollectionRef(tripId), orderBy('createdAt', 'asc')));
+  return snapshot.docs.map((expenseDoc) => expenseDoc.data() as Expense);
+}
+
+/**
+ * Listen to a trip's expenses; every snapshot has the full list, in the order they were added
+ * @param tripId - Trip ID
+ * @param onNext - Called with the expenses, first straight away
+ * @param onError - Called when the listener fails
+ * @returns Unsubscribe function
+ */
+export function watchExpenses(
+  tripId: string,
+  onNext: (expenses: Expense[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(expensesCollectionRef(tripId), orderBy('createdAt', 'asc')),
+    // Our own expenses arrive before the server has stored them
+    (snapshot) => onNext(snapshot.docs.map((expenseDoc) => expenseDoc.data() as Expense)),
+    onError
+  );
+}
+
+/**
+ * Load a day's activities in creation order
+ * @param tripId - Trip ID
+ * @param dayId - Day ID
+ */
+export async function loadActivities(tripId: string, dayId: string): Promise<Activity[]> {
+  const snapshot = await getDocs(
+    query(activitiesCollectionRef(tripId, dayId), orderBy('createdAt', 'asc'))
+  );
+  return snapshot.docs.map((activityDoc) => activityDoc.data() as Activity);
+}
+
+/**
+ * Load every day of a trip together with its activities
+ * @param tripId - Trip ID
+ * @returns Days sorted by date
+ */
+export async function loadDays(tripId: string): Promise<Day[]> {
+  const snapshot = await getDocs(query(daysCollectionRef(tripId), orderBy('date', 'asc')));
+
+  return Promise.all(
+    snapshot.docs.map(async (dayDoc) => ({
+      ...(dayDoc.data() as DayDocument),
+      activities: await loadActivities(tripId, dayDoc.id),
+    }))
+  );
+}
+
+/**
+ * Listen to a trip's days and each day's activities
+ * Changes are delivered in batches, and only once every known day has
+ * loaded its activities, so listeners never see a day with a partial list.
+ * The first batch is always delivered, even for a trip without days.
+ * @param tripId - Trip ID
+ * @param onChanges - Called with the day-level changes since the last call
+ * @param onError - Called when any underlying listener fails
+ * @returns Unsubscribe function for all listeners
+ */
+export function watchDays(
+  tripId: string,
+  onChanges: (changes: DayChange[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  const dayDocs = new Map<string, DayDocument>();
+  const dayActivities = new Map<string, Activity[]>();
+  const activityListeners = new Map<string, Unsubscribe>();
+  const pending = new Set<string>();
+  let queued: DayChange[] = [];
+  let delivered = false;
+
+  const toDay = (dayId: string): Day => ({
+    ...dayDocs.get(dayId)!,
+    activities: dayActivities.get(dayId) ?? [],
+  });
+
+  const flush = () => {
+    if (pending.size > 0) return;
+    if (queued.length === 0 && delivered) return;
+    const changes = queued;
+    queued = [];
+    delivered = true;
+    onChanges(changes);
+  };
+
+  const stopDay = (dayId: string) => {
+    activityListeners.get(dayId)?.();
+    activityListeners.delete(dayId);
+    dayDocs.delete(dayId);
+    dayActivities.delete(dayId);
+    pending.delete(dayId);
+  };
+
+  const unsubscribeDays = onSnapshot(
+    daysCollectionRef(tripId),
+    (snapshot) => {
+      snapshot.docChanges().forEach((change) => {
+        const dayId = change.doc.id;
+
+        if (change.type === 'removed') {
+          // A day that never finished loading was never announced
+          if (!pending.has(dayId)) {
+            queued.push({ type: 'removed', day: toDay(dayId) });
+          }
+          stopDay(dayId);
+          return;
+        }
+
+        dayDocs.set(dayId, change.doc.data() as DayDocument);
+
+        if (activityListeners.has(dayId)) {
+          if (!pending.has(dayId)) {
+            queued.push({ type: 'modified', day: toDay(dayId) });
+          }
+          return;
+        }
+
+        pending.add(dayId);
+        activityListeners.set(
+          dayId,
+          onSnapshot(
+            query(activitiesCollectionRef(tripId, dayId), orderBy('createdAt', 'asc')),
+            (activitiesSnapshot) => {
+              dayActivities.set(
+                dayId,
+                activitiesSnapshot.docs.map((activityDoc) => activityDoc.data() as Activity)
+              );
+              const isNew = pending.delete(dayId);
+              queued.push({ type: isNew ? 'added' : 'modified', day: toDay(dayId) });
+              flush();
+            },
+            onError
+          )
+        );
+      });
+
+      flush();
+    },
+    onError
+  );
+
+  return () => {
+    unsubscribeDays();
+    activityListeners.forEach((unsubscribe) => unsubscribe());
+    activityListeners.clear();
+  };
+}
@@ -1,13 +1,5 @@
-import {
-  doc,
-  getDoc,
-  setDoc,
-  updateDoc,
-  serverTimestamp,
-  arrayUnion,
-  arrayRemove,
-} from 'firebase/firestore';
-import { db } from '../config/firebase';
+import { getPersistence } from './persistence';
+import type { NewUserDocument } from './persistence';
 import type { User, CreateUserInput, UpdateUserInput } from '../types';
 
 /**
@@ -15,8 +7,6 @@ import type { User, CreateUserInput, UpdateUserInput } from '../types';
  * Handles user profile operations in Firestore
  */
 
-const USERS_COLLECTION = 'users';
-
 /**
  * Create a new user profile
  * @param userId - Firebase Auth UID
@@ -28,24 +18,21 @@ export async function createUser(
   userData: CreateUserInput
 ): Promise<User> {
   try {
-    const userRef = doc(db, USERS_COLLECTION, userId);
-
-    const newUser: User = {
+    // Build user object, excluding undefined fields (Firestore doesn't allow undefined)
+    const newUser: NewUserDocument = {
       userId,
       phoneNumber: userData.phoneNumber,
       displayName: userData.displayName,
-      avatarUrl: userData.avatarUrl,
-      email: userData.email,
-      createdAt: serverTimestamp() as any,
-      updatedAt: serverTimestamp() as any,
       tripIds: [],
     };
+    if (userData.avatarUrl) {
+      newUser.avatarUrl = userData.avatarUrl;
+    }
+    if (userData.email) {
+      newUser.email = userData.email;
+    }
 
-    await setDoc(userRef, newUser);
-
-    // Re-fetch to get server timestamps
-    const userDoc = await getDoc(userRef);
-    return userDoc.data() as User;
+    return await getPersistence().users.createUser(newUser);
   } catch (error: any) {
     console.error('Error creating user:', error);
     throw new Error(`Failed to create user: ${error.message}`);
@@ -59,14 +46,7 @@ export async function createUser(
  */
 export async function getUser(userId: string): Promise<User | null> {
   try {
-    const userRef = doc(db, USERS_COLLECTION, userId);
-    const userDoc = await getDoc(userRef);
-
-    if (!userDoc.exists()) {
-      return null;
-    }
-
-    return userDoc.data() as User;
+    return await getPersistence().users.getUser(userId);
   } catch (error: any) {
     console.error('Error getting user:', error);
     throw new Error(`Failed to get user: ${error.message}`);
@@ -83,12 +63,7 @@ export async function updateUser(
   updates: UpdateUserInput
 ): Promise<void> {
   try {
-    const userRef = doc(db, USERS_COLLECTION, userId);
-
-    await updateDoc(userRef, {
-      ...updates,
-      updatedAt: serverTimestamp(),
-    });
+    await getPersistence().users.updateUser(userId, updates);
   } catch (error: any) {
     console.error('Error updating user:', error);
     throw new Error(`Failed to update user: ${error.message}`);
@@ -105,12 +80,7 @@ export async function addTripToUser(
   tripId: string
 ): Promise<void> {
   try {
-    const userRef = doc(db, USERS_COLLECTION, userId);
-
-    await updateDoc(userRef, {
-      tripIds: arrayUnion(tripId),
-      updatedAt: serverTimestamp(),
-    });
+    await getPersistence().users.addTripId(userId, tripId);
   } catch (error: any) {
     console.error('Error adding trip to user:', error);
     throw new Error(`Failed to add trip to user: ${error.message}`);
@@ -127,12 +97,7 @@ export async function removeTripFromUser(
   tripId: string
 ): Promise<void> {
   try {
-    const userRef = doc(db, USERS_COLLECTION, userId);
-
-    await updateDoc(userRef, {
-      tripIds: arrayRemove(tripId),
-      updatedAt: serverTimestamp(),
-    });
+    await getPersistence().users.removeTripId(userId, tripId);
   } catch (error: any) {
     console.error('Error removing trip from user:', error);
     throw new Error(`Failed to remove trip from user: ${error.message}`);
@@ -158,7 +123,7 @@ export async function updateUserDisplayName(
     // 2. Update denormalized displayName in all trips
     // This would typically be done via Cloud Function to handle atomicity
     // For now, we'll handle it in the trip service when updating participants
-    // See trip.service.ts > updateParticipantDisplayName()
+    // See trip.service.ts > updateParticipantData()
   } catch (error: any) {
     console.error('Error updating user display name:', error);
     throw new Error(`Failed to update display name: ${error.message}`);
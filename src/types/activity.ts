@@ -23,6 +23,52 @@ export interface Location {
   };
 }
 
+/**
+ * Airport from the bundled lookup table (utils/airports.ts)
+ */
+export interface Airport {
+  iata: string;                // "CDG"
+  name: string;                // "Paris Charles de Gaulle"
+  city: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  timeZone: string;            // IANA zone, e.g. "Europe/Paris"
+}
+
+/**
+ * One end of a flight
+ */
+export interface FlightEndpoint {
+  airport: string;             // IATA code, "CDG"
+  timeZone: string;            // IANA zone this end's time is local to
+  terminal?: string;
+  gate?: string;
+}
+
+/**
+ * Flight details for 'flight' activities
+ * Departure is the activity's startTime (local to origin), arrival its endTime (local to destination)
+ */
+export interface FlightDetails {
+  carrier?: string;            // "Air France"
+  flightNumber?: string;       // "AF 276"
+  origin: FlightEndpoint;
+  destination: FlightEndpoint;
+  seat?: string;
+  confirmationCode?: string;
+}
+
+/**
+ * How a cost is divided between people
+ * - equal:   evenly between splitBetween
+ * - shares:  in proportion to splitValues (2 shares pays twice as much as 1)
+ * - exact:   splitValues are amounts that add up to the cost
+ * - percent: splitValues are percentages that add up to 100
+ */
+export type SplitMode = 'equal' | 'shares' | 'exact' | 'percent';
+
 /**
  * Cost tracking for activities
  */
@@ -30,7 +76,9 @@ export interface Cost {
   amount: number;
   currency: string;            // "USD", "EUR", etc.
   paidBy?: string;             // userId who paid
-  splitBetween?: string[];     // Array of userIds to split cost
+  splitBetween?: string[];     // Array of userIds to split cost; unset = every participant
+  splitMode?: SplitMode;       // Unset = 'equal'
+  splitValues?: Record<string, number>; // userId -> shares, amount or percent (modes other than 'equal')
 }
 
 /**
@@ -43,7 +91,7 @@ export interface Attachment {
 }
 
 /**
- * Activity entity - nested in trip's days array
+ * Activity entity - stored in trips/{tripId}/days/{dayId}/activities/{activityId}
  */
 export interface Activity {
   activityId: string;          // Unique ID for this activity
@@ -51,9 +99,13 @@ export interface Activity {
   description?: string;
   type: ActivityType;
 
-  // Time
+  // Time (instants; shown as wall-clock time in timeZone)
   startTime?: Timestamp;
   endTime?: Timestamp;
+  timeZone?: string;           // IANA zone, e.g. "Asia/Tokyo"; unset = trip's settings.timezone
+
+  // Flight (type 'flight' only; its airports' zones take the place of timeZone)
+  flight?: FlightDetails;
 
   // Location (this is where trip locations are stored)
   location?: Location;
@@ -79,12 +131,33 @@ export type CreateActivityInput = Pick<Activity, 'title' | 'type'> & {
   description?: string;
   startTime?: Timestamp;
   endTime?: Timestamp;
+  timeZone?: string;
+  flight?: FlightDetails;
   location?: Location;
   cost?: Cost;
   notes?: string;
 };
 
+/**
+ * An activity to add to a day, when adding several at once
+ */
+export interface DayActivityInput {
+  dayId: string;
+  activityData: CreateActivityInput;
+}
+
+/**
+ * Where a moved or copied activity goes
+ */
+export interface ActivityPlacement {
+  dayId: string;
+  index?: number;              // Position in the day's hand-set order; end of the day when unset
+}
+
 /**
  * Input for updating an activity
+ * Optional fields given as undefined are cleared
  */
-export type UpdateActivityInput = Partial<Omit<Activity, 'activityId' | 'createdBy' | 'createdAt'>>;
+export type UpdateActivityInput = Partial<
+  Omit<Activity, 'activityId' | 'createdBy' | 'createdAt' | 'updatedBy' | 'updatedAt'>
+>;
@@ -0,0 +1,53 @@
+import { Timestamp } from 'firebase/firestore';
+import { ActivityType } from './activity';
+
+/**
+ * What the group plans to spend, in the trip's currency
+ * Stored in the trip's settings; a limit that isn't set isn't checked
+ */
+export interface TripBudget {
+  total?: number;              // Whole trip
+  byType?: Partial<Record<ActivityType, number>>; // Per activity type; lodging counts as 'hotel'
+}
+
+/**
+ * Planned spend against a limit, in the trip's currency
+ */
+export interface BudgetLine {
+  planned: number;             // Costs planned so far
+  budget?: number;             // Unset when there's no limit
+  remaining?: number;          // budget - planned; below zero when over budget
+}
+
+/**
+ * Planned spend on one day, with the budget left after it
+ * Lodging is spread evenly over the nights it covers
+ */
+export interface DayBudgetLine {
+  dayId: string;
+  date: Timestamp;
+  planned: number;
+  cumulative: number;          // Planned on this day and every day before it
+  remaining?: number;          // Total budget - cumulative; unset without a total budget
+}
+
+/**
+ * A trip's planned spend compared with its budget
+ */
+export interface BudgetReport {
+  currency: string;            // The trip's currency; every amount is in it
+  total: BudgetLine;
+  byType: Array<BudgetLine & { type: ActivityType }>; // Types with a limit or a cost
+  byDay: DayBudgetLine[];      // In date order
+  byPerson: Array<BudgetLine & { userId: string }>;   // Each person's share; budget is the total split evenly
+  unconverted: string[];       // Currencies left out for want of an exchange rate
+}
+
+/**
+ * A limit a cost would take planned spend over
+ */
+export interface BudgetOverrun {
+  type?: ActivityType;         // Unset for the overall budget
+  budget: number;
+  planned: number;             // Including the cost
+}
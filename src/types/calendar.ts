@@ -0,0 +1,54 @@
+import { Timestamp } from 'firebase/firestore';
+import { CreateActivityInput } from './activity';
+
+/**
+ * What a calendar export or feed covers
+ * - trip: every activity on the trip
+ * - participant: only the activities of the person it's for (see toICalendar)
+ */
+export type CalendarScope = 'trip' | 'participant';
+
+/**
+ * A participant's calendar subscription - subcollection: trips/{tripId}/calendarFeeds/{userId}
+ * The trip's calendar is published at the feed's URL and republished whenever
+ * the trip changes; anyone holding the URL can read it, so the token is the secret
+ */
+export interface CalendarFeed {
+  userId: string;              // Whose feed it is; one per participant
+  feedToken: string;           // Secret part of the feed URL; replaced on every rotate
+  scope: CalendarScope;
+  createdAt: Timestamp;
+  publishedVersion?: Timestamp; // Trip's updatedAt as of scripts/publish-calendars.ts's last publish
+}
+
+/**
+ * An event read from an .ics file (see parseICalendar)
+ * Timed events have startTime; all-day events have startDate instead
+ */
+export interface CalendarEvent {
+  uid?: string;                // UID, if the file gave one
+  title: string;               // SUMMARY
+  description?: string;
+  location?: string;
+  coordinates?: {              // GEO
+    lat: number;
+    lng: number;
+  };
+  categories: string[];
+  startTime?: Date;
+  endTime?: Date;
+  timeZone?: string;           // IANA zone the times were given in; unset for UTC and floating times
+  startDate?: string;          // YYYY-MM-DD, all-day events
+  endDate?: string;            // YYYY-MM-DD, last day of a multi-day all-day event
+  recurring: boolean;          // Has an RRULE; only the first occurrence is read
+}
+
+/**
+ * What importing a calendar event would add (see planCalendarImport)
+ */
+export interface CalendarImportItem {
+  event: CalendarEvent;
+  dayId: string | null;        // Day it lands on by local date in settings.timezone; null when outside the trip
+  activityData: CreateActivityInput;
+  duplicateOf?: string;        // activityId of an existing activity it looks like
+}
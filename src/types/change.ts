@@ -0,0 +1,86 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * What a change did, as "<subject>.<verb>"
+ */
+export type ChangeOperation =
+  | 'trip.update'
+  | 'trip.share'
+  | 'trip.budget'
+  | 'trip.unshare'
+  | 'trip.delete'
+  | 'trip.restore'
+  | 'participant.add'
+  | 'participant.join'
+  | 'participant.remove'
+  | 'participant.role'
+  | 'day.add'
+  | 'day.remove'
+  | 'day.restore'
+  | 'day.sort'
+  | 'activity.add'
+  | 'activity.update'
+  | 'activity.remove'
+  | 'activity.restore'
+  | 'activity.move'
+  | 'activity.copy'
+  | 'lodging.add'
+  | 'lodging.update'
+  | 'lodging.remove'
+  | 'expense.add'
+  | 'expense.update'
+  | 'expense.remove'
+  | 'settlement.add'
+  | 'settlement.remove'
+  | 'rate.set'
+  | 'rate.remove'
+  | 'undo';
+
+/**
+ * IDs of what a change is about (only the ones that apply are set)
+ */
+export interface ChangeTarget {
+  dayId?: string;
+  activityId?: string;
+  lodgingId?: string;
+  expenseId?: string;
+  settlementId?: string;
+  currency?: string;           // Currency whose exchange rate was set or removed
+  userId?: string;             // Participant added, removed or given a new role
+}
+
+/**
+ * Fields of a document as they were, or became
+ * A field that isn't set is recorded as null; updates leave out updatedAt/updatedBy
+ */
+export type ChangedFields = Record<string, unknown>;
+
+/**
+ * How one document changed
+ * A created document has before: null and its full contents in after; a
+ * deleted one the reverse. Otherwise both hold only the fields that changed.
+ */
+export interface DocumentDiff {
+  document: 'trip' | 'day' | 'activity' | 'expense';
+  dayId?: string;              // Set for days and activities
+  activityId?: string;         // Set for activities
+  expenseId?: string;          // Set for expenses
+  before: ChangedFields | null;
+  after: ChangedFields | null;
+}
+
+/**
+ * Change entry - subcollection: trips/{tripId}/changes/{changeId}
+ * Appended in the same transaction as the change it records; never updated or deleted
+ */
+export interface TripChange {
+  changeId: string;
+  tripId: string;
+  actorId: string;             // User who made the change
+  operation: ChangeOperation;
+  target: ChangeTarget;
+  label: string;               // What the change was about, for the feed ("Dinner at Luigi's")
+  diffs: DocumentDiff[];
+  undoes?: string;             // changeId this change reverted (operation 'undo')
+  createdAt: Timestamp;
+}
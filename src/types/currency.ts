@@ -0,0 +1,55 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Rate for converting one currency into another
+ */
+export interface ExchangeRate {
+  from: string;                // "EUR"
+  to: string;                  // "USD"
+  rate: number;                // 1 from = rate to
+  date: string;                // YYYY-MM-DD the rate is from
+  source: string;              // 'manual', or the name of the provider it came from
+}
+
+/**
+ * Rate set by hand for one trip, used instead of the provider's
+ * Stored in the trip document's exchangeRates array, like lodging
+ */
+export interface ExchangeRateOverride {
+  from: string;                // Currency the costs are in
+  to: string;                  // Trip currency when it was set; ignored once that changes
+  rate: number;                // 1 from = rate to
+  date: string;                // YYYY-MM-DD the rate is from
+
+  // Metadata (serverTimestamp() can't be used inside arrays)
+  setBy: string;               // userId
+  setAt: Timestamp;
+}
+
+/**
+ * Input for setting a trip's rate for a currency
+ * Converts into the trip's currency; date defaults to today
+ */
+export type SetExchangeRateInput = Pick<ExchangeRateOverride, 'from' | 'rate'> & {
+  date?: string;
+};
+
+/**
+ * An amount converted into another currency, with the rate it used
+ */
+export interface ConvertedAmount {
+  amount: number;              // Rounded to the target currency's smallest unit
+  currency: string;
+  original: { amount: number; currency: string };
+  rate?: ExchangeRate;         // Unset when it was already in the target currency
+}
+
+/**
+ * Amounts in several currencies added up in one
+ */
+export interface ConvertedTotal {
+  amount: number;
+  currency: string;
+  items: ConvertedAmount[];    // One per original currency, largest first
+  unconverted: Array<{ amount: number; currency: string }>; // Currencies with no rate, left out of amount
+}
@@ -3,12 +3,14 @@ import { Activity } from './activity';
 
 /**
  * Day entity - represents a single day in a trip
- * Nested in trip's days array, contains activities
+ * Assembled from trips/{tripId}/days/{dayId} and its activities subcollection
  */
 export interface Day {
   dayId: string;               // Unique ID for this day
   date: Timestamp;             // The actual date
   title?: string;              // "Day 1: Arrival" (optional)
+  activityOrder?: string[];    // activityIds in the order set by hand; unlisted ones follow in creation order
+  sortByTime?: boolean;        // Show activities by start time instead of activityOrder
   activities: Activity[];
 }
 
@@ -19,3 +21,18 @@ export type CreateDayInput = {
   date: Timestamp;
   title?: string;
 };
+
+/**
+ * Day as stored in trips/{tripId}/days/{dayId}
+ * Activities live in the day's own activities subcollection
+ */
+export type DayDocument = Omit<Day, 'activities'>;
+
+/**
+ * A single day-level change streamed by subscribeToTripDays
+ * `day` carries the day's full activity list after the change
+ */
+export interface DayChange {
+  type: 'added' | 'modified' | 'removed';
+  day: Day;
+}
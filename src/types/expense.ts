@@ -0,0 +1,34 @@
+import { Timestamp } from 'firebase/firestore';
+import { ActivityType, Attachment, Cost } from './activity';
+
+/**
+ * Expense entity - subcollection: trips/{tripId}/expenses/{expenseId}
+ * Spending that isn't a scheduled activity (groceries, tips, fuel, shared
+ * supplies); counts towards the cost summary, balances and budget like activity costs
+ */
+export interface Expense {
+  expenseId: string;           // Unique ID for this expense
+  description: string;         // "Groceries for the cabin"
+  category: ActivityType;      // Budget category it counts towards (e.g. fuel is 'transport')
+  date: string;                // YYYY-MM-DD in settings.timezone, when it was spent
+  cost: Cost;                  // Amount, currency, who paid and how it's split
+  activityId?: string;         // Activity it belongs to, if any (it's counted on top of the activity's own cost)
+  receipts: Attachment[];      // Photos or PDFs of the receipt
+  createdBy: string;           // userId
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Input for adding an expense
+ */
+export type CreateExpenseInput = Pick<Expense, 'description' | 'category' | 'date' | 'cost'> & {
+  activityId?: string;
+  receipts?: Attachment[];
+};
+
+/**
+ * Input for editing an expense; optional fields given as undefined are cleared
+ */
+export type UpdateExpenseInput = Partial<CreateExpenseInput>;
@@ -0,0 +1,63 @@
+import { Timestamp } from 'firebase/firestore';
+import { TripDocument } from './trip';
+import { Day } from './day';
+import { Expense } from './expense';
+
+/**
+ * A Firestore Timestamp in an export, kept to the nanosecond
+ * { "$timestamp": { "seconds": 1735718400, "nanoseconds": 0 } }
+ */
+export interface ExportedTimestamp {
+  $timestamp: {
+    seconds: number;
+    nanoseconds: number;
+  };
+}
+
+/**
+ * A stored value as written to an export: every Timestamp in it becomes an ExportedTimestamp
+ */
+export type Exported<T> = T extends Timestamp
+  ? ExportedTimestamp
+  : T extends Array<infer U>
+    ? Exported<U>[]
+    : T extends object
+      ? { [K in keyof T]: Exported<T[K]> }
+      : T;
+
+/**
+ * Trip document as exported
+ * participantIds and roles follow from participants, so they're left out,
+ * and trips in the trash can't be exported
+ */
+export type ExportedTripDocument = Omit<TripDocument, 'participantIds' | 'roles' | 'trash'>;
+
+/**
+ * Everything a trip export holds, with Timestamps decoded
+ * Attachments and receipts are links; the files they point at aren't part of it
+ */
+export interface TripExportContent {
+  trip: ExportedTripDocument;
+  days: Day[];                 // Each with its activities, sorted by date
+  expenses: Expense[];
+}
+
+/**
+ * Trip export file - a trip's full content as JSON, for backups and moving
+ * trips between Firebase projects (exportTrip, importTrip, scripts/trip-backup.ts)
+ */
+export interface TripExport {
+  format: 'trip-organizer.trip';
+  version: number;             // TRIP_EXPORT_VERSION when written; newer versions can't be imported
+  exportedAt: ExportedTimestamp;
+  trip: Exported<ExportedTripDocument>;
+  days: Exported<Day>[];
+  expenses: Exported<Expense>[];
+}
+
+/**
+ * Options for importing a trip export
+ */
+export interface ImportTripOptions {
+  userIds?: Record<string, string>; // userId in the export -> userId here; unlisted ones are kept as they are
+}
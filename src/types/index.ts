@@ -16,22 +16,119 @@ export type {
   Activity,
   ActivityType,
   Location,
+  Airport,
+  FlightEndpoint,
+  FlightDetails,
   Cost,
+  SplitMode,
   Attachment,
   CreateActivityInput,
   UpdateActivityInput,
+  DayActivityInput,
+  ActivityPlacement,
 } from './activity';
 
+// Lodging types
+export type { Lodging, CreateLodgingInput, UpdateLodgingInput } from './lodging';
+
+// Expense types
+export type { Expense, CreateExpenseInput, UpdateExpenseInput } from './expense';
+
+// Schedule findings
+export type {
+  ScheduleFinding,
+  ScheduleFindingKind,
+  FindingSeverity,
+  InvalidTimesFinding,
+  OutsideTripFinding,
+  OverlapFinding,
+  FlightWindowFinding,
+  NightWithoutLodgingFinding,
+} from './schedule';
+
+// Change history
+export type {
+  TripChange,
+  ChangeOperation,
+  ChangeTarget,
+  ChangedFields,
+  DocumentDiff,
+} from './change';
+
+// Settlement types
+export type {
+  Settlement,
+  CreateSettlementInput,
+  ParticipantBalance,
+  CurrencyBalances,
+  SettlementTransfer,
+} from './settlement';
+
+// Currency types
+export type {
+  ExchangeRate,
+  ExchangeRateOverride,
+  SetExchangeRateInput,
+  ConvertedAmount,
+  ConvertedTotal,
+} from './currency';
+
+// Budget types
+export type {
+  TripBudget,
+  BudgetLine,
+  DayBudgetLine,
+  BudgetReport,
+  BudgetOverrun,
+} from './budget';
+
 // Day types
-export type { Day, CreateDayInput } from './day';
+export type { Day, DayDocument, DayChange, CreateDayInput } from './day';
 
 // Trip types
 export type {
   Trip,
+  TripDocument,
   TripSettings,
+  TripPageCursor,
+  UserTripsPage,
   CreateTripInput,
   UpdateTripInput,
+  TripShare,
+  TripTrash,
+  TripContent,
+  CopyTripInput,
+  SharedTrip,
+  SharedDay,
+  SharedActivity,
+  SharedLodging,
+  SharedParticipant,
 } from './trip';
 
+// Invite types
+export type {
+  Invite,
+  InviteKind,
+  InviteStatus,
+  CreatePhoneInviteInput,
+  CreateInviteLinkInput,
+} from './invite';
+
 // Presence types
 export type { Presence } from './presence';
+
+// Template types
+export type { TripTemplate } from './template';
+
+// Calendar types
+export type { CalendarFeed, CalendarScope, CalendarEvent, CalendarImportItem } from './calendar';
+
+// Export types
+export type {
+  ExportedTimestamp,
+  Exported,
+  ExportedTripDocument,
+  TripExportContent,
+  TripExport,
+  ImportTripOptions,
+} from './export';
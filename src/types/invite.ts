@@ -0,0 +1,65 @@
+import { Timestamp } from 'firebase/firestore';
+import { ParticipantRole } from './participant';
+
+/**
+ * How an invite reaches the invitee
+ *
+ * phone: addressed to one E.164 number; shows up when that phone signs in
+ * link:  anyone with the link can join, up to maxUses times
+ */
+export type InviteKind = 'phone' | 'link';
+
+/**
+ * Lifecycle of an invite; expiry is not stored, it's derived from expiresAt
+ *
+ * pending:  can still be accepted
+ * accepted: used up (a phone invite was accepted, or a link hit maxUses)
+ * declined: the invited phone said no (link invites stay pending)
+ * revoked:  withdrawn by an owner or editor
+ */
+export type InviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+/**
+ * Invite entity - main collection: invites/{inviteId}
+ * For link invites the ID is the secret token in the link
+ * Trip details are denormalized because invitees can't read the trip until they join
+ */
+export interface Invite {
+  inviteId: string;
+  tripId: string;
+  tripTitle: string;           // Denormalized from trip for the invitee
+  kind: InviteKind;
+  role: ParticipantRole;       // Role the invitee joins with
+  phoneNumber?: string;        // E.164, phone invites only
+
+  invitedBy: string;           // userId of the owner/editor who sent it
+  invitedByName: string;       // Denormalized display name
+
+  status: InviteStatus;
+  expiresAt: Timestamp;
+  maxUses: number;             // Always 1 for phone invites
+  useCount: number;
+  acceptedBy: string[];        // userIds that joined through this invite
+  declinedBy: string[];        // userIds that declined a link invite
+
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Input for inviting by phone number
+ */
+export interface CreatePhoneInviteInput {
+  phoneNumber: string;         // Any format; normalized to E.164
+  role: ParticipantRole;
+  expiresInDays?: number;
+}
+
+/**
+ * Input for creating an invite link
+ */
+export interface CreateInviteLinkInput {
+  role: ParticipantRole;
+  expiresInDays?: number;
+  maxUses?: number;
+}
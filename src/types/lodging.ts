@@ -0,0 +1,42 @@
+import { Timestamp } from 'firebase/firestore';
+import { Location, Cost } from './activity';
+
+/**
+ * Lodging entity - a stay that spans one or more nights
+ * Stored in the trip document's lodging array, so it isn't tied to a single day
+ *
+ * Dates are calendar dates in the trip's time zone. The nights covered run
+ * from checkInDate up to, but not including, checkOutDate.
+ */
+export interface Lodging {
+  lodgingId: string;           // Unique ID for this stay
+  name: string;                // "Hotel Le Marais"
+  checkInDate: string;         // YYYY-MM-DD, the first night
+  checkOutDate: string;        // YYYY-MM-DD, the morning you leave
+  location?: Location;
+  confirmationCode?: string;
+  cost?: Cost;
+  notes?: string;
+
+  // Metadata (serverTimestamp() can't be used inside arrays)
+  createdBy: string;           // userId
+  createdAt: Timestamp;
+  updatedBy: string;           // userId
+  updatedAt: Timestamp;
+}
+
+/**
+ * Input for adding lodging to a trip
+ */
+export type CreateLodgingInput = Pick<Lodging, 'name' | 'checkInDate' | 'checkOutDate'> & {
+  location?: Location;
+  confirmationCode?: string;
+  cost?: Cost;
+  notes?: string;
+};
+
+/**
+ * Input for updating lodging
+ * Optional fields given as undefined are cleared
+ */
+export type UpdateLodgingInput = Partial<CreateLodgingInput>;
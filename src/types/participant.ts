@@ -19,9 +19,12 @@ export interface Participant {
   displayName: string;         // Denormalized from user for display
   role: ParticipantRole;
   joinedAt: Timestamp;
+  inviteId?: string;           // Invite the user joined through, if any (checked by firestore.rules)
 }
 
 /**
  * Input for adding a participant to a trip
  */
-export type AddParticipantInput = Pick<Participant, 'userId' | 'phoneNumber' | 'displayName' | 'role'>;
+export type AddParticipantInput = Pick<Participant, 'userId' | 'phoneNumber' | 'displayName' | 'role'> & {
+  inviteId?: string;           // Join through an invite instead of being added by an owner/editor
+};
@@ -0,0 +1,72 @@
+/**
+ * Schedule findings - problems found by checking a trip's itinerary
+ * Produced by validateTrip in utils/schedule.ts; nothing here is stored
+ *
+ * Errors are times that can't be right (addActivity/updateActivity refuse them).
+ * Warnings are worth a look but may be intended, like two people doing
+ * different things at once.
+ */
+export type FindingSeverity = 'error' | 'warning';
+
+interface ActivityFinding {
+  dayId: string;               // Day the activity is listed under
+  activityId: string;
+  message: string;
+}
+
+/**
+ * End time isn't after the start time
+ */
+export interface InvalidTimesFinding extends ActivityFinding {
+  kind: 'invalid-times';
+  severity: 'error';
+}
+
+/**
+ * Starts on a date outside the trip, in the zone the start time is shown in
+ */
+export interface OutsideTripFinding extends ActivityFinding {
+  kind: 'outside-trip';
+  severity: 'error';
+  date: string;                // YYYY-MM-DD the activity starts on
+}
+
+/**
+ * Runs at the same time as another activity
+ */
+export interface OverlapFinding extends ActivityFinding {
+  kind: 'overlap';
+  severity: 'warning';
+  otherDayId: string;
+  otherActivityId: string;
+}
+
+/**
+ * Starts before the flight into the trip lands, or after the flight home leaves
+ */
+export interface FlightWindowFinding extends ActivityFinding {
+  kind: 'before-arrival' | 'after-departure';
+  severity: 'warning';
+  flightDayId: string;
+  flightActivityId: string;
+}
+
+/**
+ * A night of the trip that no lodging covers
+ */
+export interface NightWithoutLodgingFinding {
+  kind: 'night-without-lodging';
+  severity: 'warning';
+  dayId: string;               // Day the night follows
+  night: string;               // YYYY-MM-DD the night starts on
+  message: string;
+}
+
+export type ScheduleFinding =
+  | InvalidTimesFinding
+  | OutsideTripFinding
+  | OverlapFinding
+  | FlightWindowFinding
+  | NightWithoutLodgingFinding;
+
+export type ScheduleFindingKind = ScheduleFinding['kind'];
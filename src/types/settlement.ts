@@ -0,0 +1,58 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Repayment between two participants, recorded once it has been paid
+ * Stored in the trip document's settlements array, like lodging
+ */
+export interface Settlement {
+  settlementId: string;        // Unique ID for this repayment
+  fromUserId: string;          // Who paid it back
+  toUserId: string;            // Who got the money
+  amount: number;
+  currency: string;
+  note?: string;               // "Bank transfer"
+
+  // Metadata (serverTimestamp() can't be used inside arrays)
+  createdBy: string;           // userId
+  createdAt: Timestamp;
+}
+
+/**
+ * Input for recording a repayment
+ */
+export type CreateSettlementInput = Pick<Settlement, 'fromUserId' | 'toUserId' | 'amount' | 'currency'> & {
+  note?: string;
+};
+
+/**
+ * One person's standing in one currency
+ * net = paid - owed + repaid - repaidTo: above zero they're owed money, below zero they owe it
+ */
+export interface ParticipantBalance {
+  userId: string;
+  paid: number;                // Costs they paid for
+  owed: number;                // Their share of all costs
+  repaid: number;              // Repayments they've made
+  repaidTo: number;            // Repayments they've received
+  net: number;
+}
+
+/**
+ * Everyone's balances for the costs in one currency
+ */
+export interface CurrencyBalances {
+  currency: string;
+  total: number;               // Every cost in this currency
+  unassigned: number;          // Costs nobody is recorded as having paid (not in the balances)
+  balances: ParticipantBalance[];
+}
+
+/**
+ * A repayment that would help settle the trip's debts
+ */
+export interface SettlementTransfer {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+  currency: string;
+}
@@ -0,0 +1,17 @@
+import { Timestamp } from 'firebase/firestore';
+import { TripContent } from './trip';
+
+/**
+ * Trip template - main collection: templates/{templateId}
+ * A user's own copy of a trip to start new trips from. Dates stay as they
+ * were in the trip; createTripFromTemplate moves them to the new start date.
+ */
+export interface TripTemplate {
+  templateId: string;
+  ownerId: string;             // userId; only they can see or use it
+  name: string;                // "Annual offsite"
+  sourceTripId: string;        // Trip it was saved from
+  content: TripContent;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
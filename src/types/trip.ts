@@ -1,6 +1,12 @@
 import { Timestamp } from 'firebase/firestore';
-import { Participant } from './participant';
+import { Participant, ParticipantRole } from './participant';
 import { Day } from './day';
+import { Activity, Cost, FlightDetails } from './activity';
+import { Lodging } from './lodging';
+import { Expense } from './expense';
+import { Settlement } from './settlement';
+import { ExchangeRateOverride } from './currency';
+import { TripBudget } from './budget';
 
 /**
  * Trip settings
@@ -8,13 +14,14 @@ import { Day } from './day';
 export interface TripSettings {
   currency: string;            // Default currency for the trip
   timezone: string;            // Timezone for the destination
-  isPublic: boolean;           // Can be viewed via share link
-  shareToken?: string;         // Token for public sharing (readonly access)
+  isPublic: boolean;           // Share link is published (shares/{shareToken} exists)
+  shareToken?: string;         // Token for public sharing (readonly access); replaced on every publish
+  budget?: TripBudget;         // Spending limits in the trip's currency; unset when none are
 }
 
 /**
  * Trip entity - main collection: trips/{tripId}
- * Self-contained document with nested days and activities
+ * Days and activities are stored in subcollections and assembled by the trip service
  * No destination field - trips can span multiple locations
  */
 export interface Trip {
@@ -28,10 +35,24 @@ export interface Trip {
 
   // Participants with roles (denormalized user data)
   participants: Participant[];
+  participantIds: string[];    // participants[].userId, for array-contains membership queries
+  roles: Record<string, ParticipantRole>; // userId -> role, read by firestore.rules
 
-  // Nested days and activities
+  // Days and activities (assembled from the days subcollection)
   days: Day[];
 
+  // Stays, each covering one or more nights (unset on trips without any)
+  lodging?: Lodging[];
+
+  // Spending outside the itinerary, in date order (assembled from the expenses subcollection)
+  expenses?: Expense[];
+
+  // Repayments between participants, oldest first (unset on trips without any)
+  settlements?: Settlement[];
+
+  // Rates set by hand for converting costs into settings.currency (unset when none are)
+  exchangeRates?: ExchangeRateOverride[];
+
   // Trip metadata
   coverImageUrl?: string;
   createdBy: string;           // userId of owner
@@ -40,6 +61,45 @@ export interface Trip {
 
   // Settings
   settings?: TripSettings;
+
+  // Set while the trip is in the trash (deleteTrip); unset on live trips
+  trash?: TripTrash;
+}
+
+/**
+ * A deleted trip waiting to be restored or purged
+ * While it's set, participantIds is empty, so the trip is gone from everyone's
+ * trip list; participants and roles stay so owners can still restore it
+ */
+export interface TripTrash {
+  deletedAt: Timestamp;
+  deletedBy: string;           // userId of the owner who deleted it
+  participantIds: string[];    // participantIds before deletion, put back on restore
+  ownerIds: string[];          // Owners at deletion; they see it in their trash
+}
+
+/**
+ * Trip as stored in trips/{tripId} - everything except the itinerary
+ */
+export type TripDocument = Omit<Trip, 'days' | 'expenses'>;
+
+/**
+ * Position in a user's trip list, ordered by startDate (newest first)
+ */
+export interface TripPageCursor {
+  startDate: Timestamp;
+  tripId: string;
+}
+
+/**
+ * One page of a user's trips, split by where today falls in each trip
+ * (in the trip's own time zone)
+ */
+export interface UserTripsPage {
+  past: TripDocument[];        // Ended before today, most recent first
+  current: TripDocument[];     // Today is within the trip, soonest-ending first
+  upcoming: TripDocument[];    // Starts after today, soonest first
+  nextCursor: TripPageCursor | null;  // null when there are no more trips
 }
 
 /**
@@ -55,3 +115,83 @@ export type CreateTripInput = Pick<Trip, 'title' | 'startDate' | 'endDate'> & {
  * Input for updating a trip
  */
 export type UpdateTripInput = Partial<Pick<Trip, 'title' | 'description' | 'startDate' | 'endDate' | 'coverImageUrl' | 'settings'>>;
+
+/**
+ * What duplicateTrip and templates copy from a trip: details, itinerary and
+ * lodging, but not its people or sharing
+ */
+export interface TripContent {
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  settings: Pick<TripSettings, 'currency' | 'timezone'>;
+  days: Day[];                 // Activities in their hand-set order
+  lodging: Lodging[];
+}
+
+/**
+ * Input for creating a trip from a copy (duplicateTrip, createTripFromTemplate)
+ * Every day, activity and stay moves by the days between the old and new start
+ */
+export interface CopyTripInput {
+  startDate: string;           // YYYY-MM-DD in the trip's time zone
+  title?: string;              // Defaults to the original's
+  clearCosts?: boolean;        // Leave out activity and lodging costs
+}
+
+/**
+ * Published share link - stored in shares/{shareToken}
+ * The document ID is the token, so only someone holding the link can look it up
+ */
+export interface TripShare {
+  shareToken: string;
+  tripId: string;
+  createdBy: string;           // userId of the owner who published the link
+  createdAt: Timestamp;
+}
+
+/**
+ * Participant as shown on a shared trip - no phone number
+ */
+export type SharedParticipant = Pick<Participant, 'displayName' | 'role'>;
+
+/**
+ * Activity as shown on a shared trip - the cost without who paid or splits it,
+ * and flights without seat or booking reference
+ */
+export type SharedActivity = Omit<Activity, 'cost' | 'flight'> & {
+  cost?: Pick<Cost, 'amount' | 'currency'>;
+  flight?: Omit<FlightDetails, 'seat' | 'confirmationCode'>;
+};
+
+/**
+ * Lodging as shown on a shared trip - no booking reference or cost
+ */
+export type SharedLodging = Omit<Lodging, 'confirmationCode' | 'cost'>;
+
+/**
+ * Day as shown on a shared trip
+ */
+export type SharedDay = Omit<Day, 'activities'> & {
+  activities: SharedActivity[];
+};
+
+/**
+ * Read-only trip loaded by share token (getSharedTrip)
+ * Leaves out contact details, membership and payment data
+ */
+export interface SharedTrip {
+  tripId: string;
+  title: string;
+  description?: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  coverImageUrl?: string;
+  participants: SharedParticipant[];
+  days: SharedDay[];
+  lodging: SharedLodging[];
+  currency: string;
+  timezone: string;
+}
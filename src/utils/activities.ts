@@ -0,0 +1,256 @@
+import { Timestamp } from 'firebase/firestore';
+import type { Activity, FlightDetails } from '../types';
+import {
+  toCalendarDate,
+  toWallClockTime,
+  fromZonedTime,
+  addCalendarDays,
+  diffCalendarDays,
+} from './dates';
+
+/**
+ * Activity Display Utilities
+ *
+ * Activity times are instants (Timestamps). They're entered and shown as
+ * wall-clock times in the activity's time zone, which defaults to the trip's.
+ * A flight departs in its origin airport's zone and lands in its destination's.
+ */
+
+type ActivityTimes = Pick<Activity, 'startTime' | 'endTime' | 'timeZone' | 'flight'>;
+
+const ACTIVITY_ICONS: Record<string, string> = {
+  flight: '✈️',
+  hotel: '🏨',
+  restaurant: '🍽️',
+  attraction: '🎯',
+  transport: '🚗',
+  other: '📌',
+};
+
+/**
+ * Emoji shown next to an activity of a given type
+ * @param type - ActivityType
+ */
+export function getActivityIcon(type: string): string {
+  return ACTIVITY_ICONS[type] || '📌';
+}
+
+/**
+ * Time zone an activity's start time is entered and shown in
+ * @param activity - Activity (timeZone is only set when it differs from the trip's)
+ * @param tripTimeZone - Trip's settings.timezone
+ */
+export function getActivityTimeZone(
+  activity: Pick<Activity, 'timeZone' | 'flight'>,
+  tripTimeZone: string
+): string {
+  return activity.flight?.origin.timeZone || activity.timeZone || tripTimeZone;
+}
+
+/**
+ * Time zone an activity's end time is entered and shown in
+ * Only differs from the start's for flights, which land in the destination's zone
+ */
+export function getActivityEndTimeZone(
+  activity: Pick<Activity, 'timeZone' | 'flight'>,
+  tripTimeZone: string
+): string {
+  return activity.flight?.destination.timeZone || getActivityTimeZone(activity, tripTimeZone);
+}
+
+/**
+ * Instants for wall-clock times typed for a day
+ * An end time earlier than the start time is taken to be after midnight, on the next day.
+ * @param dayDate - The day's date (local midnight in the trip's time zone)
+ * @param tripTimeZone - Trip's time zone, which names the day's calendar date
+ * @param timeZone - Time zone the times were typed in
+ * @param startTime - HH:MM, or '' for none
+ * @param endTime - HH:MM, or '' for none
+ */
+export function toActivityTimes(
+  dayDate: Timestamp,
+  tripTimeZone: string,
+  timeZone: string,
+  startTime: string,
+  endTime: string
+): Pick<Activity, 'startTime' | 'endTime'> {
+  const calendarDate = toCalendarDate(dayDate.toDate(), tripTimeZone);
+  const endDate = startTime && endTime && endTime < startTime ? addCalendarDays(calendarDate, 1) : calendarDate;
+
+  return {
+    startTime: startTime ? Timestamp.fromDate(fromZonedTime(calendarDate, timeZone, startTime)) : undefined,
+    endTime: endTime ? Timestamp.fromDate(fromZonedTime(endDate, timeZone, endTime)) : undefined,
+  };
+}
+
+/**
+ * Wall-clock times of an activity, for editing
+ * @returns HH:MM strings, '' where a time isn't set
+ */
+export function toWallClockTimes(
+  activity: ActivityTimes,
+  tripTimeZone: string
+): { startTime: string; endTime: string } {
+  const startZone = getActivityTimeZone(activity, tripTimeZone);
+  const endZone = getActivityEndTimeZone(activity, tripTimeZone);
+  return {
+    startTime: activity.startTime ? toWallClockTime(activity.startTime.toDate(), startZone) : '',
+    endTime: activity.endTime ? toWallClockTime(activity.endTime.toDate(), endZone) : '',
+  };
+}
+
+/**
+ * Activity times moved by a number of calendar days, keeping their wall-clock times
+ * Each time is shifted in the zone it's shown in, so a move across a DST change
+ * still reads 09:30 on the new day
+ * @param days - Calendar days to move by (negative moves earlier)
+ * @returns Shifted times; only the ones the activity has
+ */
+export function shiftActivityTimes(
+  activity: ActivityTimes,
+  days: number,
+  tripTimeZone: string
+): Pick<Activity, 'startTime' | 'endTime'> {
+  const shift = (time: Timestamp, timeZone: string) => {
+    const date = time.toDate();
+    return Timestamp.fromDate(
+      fromZonedTime(addCalendarDays(toCalendarDate(date, timeZone), days), timeZone, toWallClockTime(date, timeZone))
+    );
+  };
+
+  const shifted: Pick<Activity, 'startTime' | 'endTime'> = {};
+  if (activity.startTime) {
+    shifted.startTime = shift(activity.startTime, getActivityTimeZone(activity, tripTimeZone));
+  }
+  if (activity.endTime) {
+    shifted.endTime = shift(activity.endTime, getActivityEndTimeZone(activity, tripTimeZone));
+  }
+  return shifted;
+}
+
+/**
+ * Instants for a flight's departure and arrival, each typed in its airport's zone
+ * @param dayDate - The departure day's date (local midnight in the trip's time zone)
+ * @param tripTimeZone - Trip's time zone, which names the day's calendar date
+ * @param flight - Flight, for its airports' time zones
+ * @param departureTime - HH:MM at the origin, or '' for none
+ * @param arrivalDate - YYYY-MM-DD at the destination
+ * @param arrivalTime - HH:MM at the destination, or '' for none
+ */
+export function toFlightTimes(
+  dayDate: Timestamp,
+  tripTimeZone: string,
+  flight: FlightDetails,
+  departureTime: string,
+  arrivalDate: string,
+  arrivalTime: string
+): Pick<Activity, 'startTime' | 'endTime'> {
+  const departureDate = toCalendarDate(dayDate.toDate(), tripTimeZone);
+  return {
+    startTime: departureTime
+      ? Timestamp.fromDate(fromZonedTime(departureDate, flight.origin.timeZone, departureTime))
+      : undefined,
+    endTime: arrivalTime
+      ? Timestamp.fromDate(fromZonedTime(arrivalDate, flight.destination.timeZone, arrivalTime))
+      : undefined,
+  };
+}
+
+/**
+ * Local calendar date a flight lands on, at its destination
+ * @returns YYYY-MM-DD, or null if it isn't a flight with an arrival time
+ */
+export function getArrivalDate(activity: Pick<Activity, 'endTime' | 'flight'>): string | null {
+  if (!activity.flight || !activity.endTime) return null;
+  return toCalendarDate(activity.endTime.toDate(), activity.flight.destination.timeZone);
+}
+
+/**
+ * One-line flight summary, e.g. "AF 276 · CDG → HND"
+ */
+export function formatFlightRoute(flight: Pick<FlightDetails, 'flightNumber' | 'origin' | 'destination'>): string {
+  const route = `${flight.origin.airport} → ${flight.destination.airport}`;
+  return flight.flightNumber ? `${flight.flightNumber} · ${route}` : route;
+}
+
+/**
+ * Terminals, gates, seat and booking reference of a flight, e.g.
+ * "Departs Terminal 2E, gate K40 · Arrives Terminal 1 · Seat 32A · Confirmation X7KQ2P"
+ * Seat and confirmation are left out when not given (and on shared trips)
+ * @returns Formatted details, or '' if there are none
+ */
+export function formatFlightDetails(flight: Omit<FlightDetails, 'seat' | 'confirmationCode'> & Partial<FlightDetails>): string {
+  const place = (label: string, endpoint: FlightDetails['origin']) => {
+    const parts = [endpoint.terminal && `Terminal ${endpoint.terminal}`, endpoint.gate && `gate ${endpoint.gate}`];
+    const where = parts.filter(Boolean).join(', ');
+    return where && `${label} ${where}`;
+  };
+  return [
+    place('Departs', flight.origin),
+    place('Arrives', flight.destination),
+    flight.seat && `Seat ${flight.seat}`,
+    flight.confirmationCode && `Confirmation ${flight.confirmationCode}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Flights that land on a later day than they leave, listed under the day they land
+ * Both days are matched by local calendar date: the departure day's in the trip's
+ * time zone, the arrival's at the destination.
+ * @param days - Trip days, each with its activities
+ * @param tripTimeZone - Trip's time zone
+ * @returns Arriving flights by the dayId they land on
+ */
+export function getLaterDayArrivals<A extends Pick<Activity, 'endTime' | 'flight'>>(
+  days: { dayId: string; date: Timestamp; activities: A[] }[],
+  tripTimeZone: string
+): Map<string, A[]> {
+  const dayIdsByDate = new Map(days.map((day) => [toCalendarDate(day.date.toDate(), tripTimeZone), day.dayId]));
+  const arrivals = new Map<string, A[]>();
+
+  days.forEach((day) => {
+    const departureDate = toCalendarDate(day.date.toDate(), tripTimeZone);
+    day.activities.forEach((activity) => {
+      const arrivalDate = getArrivalDate(activity);
+      const arrivalDayId = arrivalDate && arrivalDate > departureDate ? dayIdsByDate.get(arrivalDate) : undefined;
+      if (arrivalDayId) {
+        arrivals.set(arrivalDayId, [...(arrivals.get(arrivalDayId) ?? []), activity]);
+      }
+    });
+  });
+
+  return arrivals;
+}
+
+/**
+ * Activity times for display, e.g. "09:30 - 01:00 (+1)"
+ * The time zone is appended when it isn't the trip's; flight times are
+ * labelled with their airports instead, e.g. "10:25 CDG - 06:05 HND (+1)"
+ * @returns Formatted times, or '' if the activity has none
+ */
+export function formatActivityTimes(activity: ActivityTimes, tripTimeZone: string): string {
+  const startZone = getActivityTimeZone(activity, tripTimeZone);
+  const endZone = getActivityEndTimeZone(activity, tripTimeZone);
+  const { flight } = activity;
+  let { startTime, endTime } = toWallClockTimes(activity, tripTimeZone);
+  if (!startTime && !endTime) return '';
+
+  if (flight) {
+    startTime = startTime && `${startTime} ${flight.origin.airport}`;
+    endTime = endTime && `${endTime} ${flight.destination.airport}`;
+  }
+
+  let range = startTime || `${flight ? 'arrives' : 'until'} ${endTime}`;
+  if (startTime && endTime && activity.startTime && activity.endTime) {
+    // Days are counted between local dates, so a flight can land "(-1)"
+    const days = diffCalendarDays(
+      toCalendarDate(activity.startTime.toDate(), startZone),
+      toCalendarDate(activity.endTime.toDate(), endZone)
+    );
+    range = `${startTime} - ${endTime}${days !== 0 ? ` (${days > 0 ? '+' : ''}${days})` : ''}`;
+  }
+
+  return flight || startZone === tripTimeZone ? range : `${range} (${startZone})`;
+}
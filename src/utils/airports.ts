@@ -0,0 +1,183 @@
+/**
+ * Airport Utilities
+ * Offline lookup of IATA airport codes, bundled so flights resolve without a network call
+ *
+ * The table covers major international airports. Codes that aren't in it are
+ * still valid on a flight; their time zone is then picked by hand.
+ */
+import type { Airport } from '../types';
+
+const IATA_PATTERN = /^[A-Z]{3}$/;
+
+// IATA code, name, city, latitude, longitude, IANA time zone
+const AIRPORT_DATA: [string, string, string, number, number, string][] = [
+  // North America
+  ['ANC', 'Ted Stevens Anchorage International', 'Anchorage', 61.1743, -149.9963, 'America/Anchorage'],
+  ['ATL', 'Hartsfield-Jackson Atlanta International', 'Atlanta', 33.6407, -84.4277, 'America/New_York'],
+  ['AUS', 'Austin-Bergstrom International', 'Austin', 30.1975, -97.6664, 'America/Chicago'],
+  ['BNA', 'Nashville International', 'Nashville', 36.1263, -86.6774, 'America/Chicago'],
+  ['BOS', 'Boston Logan International', 'Boston', 42.3656, -71.0096, 'America/New_York'],
+  ['CLT', 'Charlotte Douglas International', 'Charlotte', 35.2144, -80.9473, 'America/New_York'],
+  ['CUN', 'Cancún International', 'Cancún', 21.0365, -86.8771, 'America/Cancun'],
+  ['DCA', 'Ronald Reagan Washington National', 'Washington', 38.8512, -77.0402, 'America/New_York'],
+  ['DEN', 'Denver International', 'Denver', 39.8561, -104.6737, 'America/Denver'],
+  ['DFW', 'Dallas/Fort Worth International', 'Dallas', 32.8998, -97.0403, 'America/Chicago'],
+  ['DTW', 'Detroit Metropolitan Wayne County', 'Detroit', 42.2162, -83.3554, 'America/Detroit'],
+  ['EWR', 'Newark Liberty International', 'Newark', 40.6895, -74.1745, 'America/New_York'],
+  ['HNL', 'Daniel K. Inouye International', 'Honolulu', 21.3187, -157.9225, 'Pacific/Honolulu'],
+  ['IAD', 'Washington Dulles International', 'Washington', 38.9531, -77.4565, 'America/New_York'],
+  ['IAH', 'George Bush Intercontinental', 'Houston', 29.9902, -95.3368, 'America/Chicago'],
+  ['JFK', 'John F. Kennedy International', 'New York', 40.6413, -73.7781, 'America/New_York'],
+  ['LAS', 'Harry Reid International', 'Las Vegas', 36.084, -115.1537, 'America/Los_Angeles'],
+  ['LAX', 'Los Angeles International', 'Los Angeles', 33.9416, -118.4085, 'America/Los_Angeles'],
+  ['LGA', 'LaGuardia', 'New York', 40.7769, -73.874, 'America/New_York'],
+  ['MCO', 'Orlando International', 'Orlando', 28.4312, -81.3081, 'America/New_York'],
+  ['MEX', 'Mexico City International', 'Mexico City', 19.4361, -99.0719, 'America/Mexico_City'],
+  ['MIA', 'Miami International', 'Miami', 25.7959, -80.287, 'America/New_York'],
+  ['MSP', 'Minneapolis-Saint Paul International', 'Minneapolis', 44.8848, -93.2223, 'America/Chicago'],
+  ['MSY', 'Louis Armstrong New Orleans International', 'New Orleans', 29.9934, -90.258, 'America/Chicago'],
+  ['OAK', 'Oakland International', 'Oakland', 37.7126, -122.2197, 'America/Los_Angeles'],
+  ['ORD', "O'Hare International", 'Chicago', 41.9742, -87.9073, 'America/Chicago'],
+  ['PDX', 'Portland International', 'Portland', 45.5898, -122.5951, 'America/Los_Angeles'],
+  ['PHL', 'Philadelphia International', 'Philadelphia', 39.8744, -75.2424, 'America/New_York'],
+  ['PHX', 'Phoenix Sky Harbor International', 'Phoenix', 33.4352, -112.0101, 'America/Phoenix'],
+  ['SAN', 'San Diego International', 'San Diego', 32.7338, -117.1933, 'America/Los_Angeles'],
+  ['SEA', 'Seattle-Tacoma International', 'Seattle', 47.4502, -122.3088, 'America/Los_Angeles'],
+  ['SFO', 'San Francisco International', 'San Francisco', 37.6213, -122.379, 'America/Los_Angeles'],
+  ['SJC', 'San José Mineta International', 'San José', 37.3639, -121.9289, 'America/Los_Angeles'],
+  ['SLC', 'Salt Lake City International', 'Salt Lake City', 40.7899, -111.9791, 'America/Denver'],
+  ['YUL', 'Montréal-Trudeau International', 'Montréal', 45.4706, -73.7408, 'America/Toronto'],
+  ['YVR', 'Vancouver International', 'Vancouver', 49.1967, -123.1815, 'America/Vancouver'],
+  ['YYC', 'Calgary International', 'Calgary', 51.1215, -114.0076, 'America/Edmonton'],
+  ['YYZ', 'Toronto Pearson International', 'Toronto', 43.6777, -79.6248, 'America/Toronto'],
+
+  // Central and South America, Caribbean
+  ['BOG', 'El Dorado International', 'Bogotá', 4.7016, -74.1469, 'America/Bogota'],
+  ['EZE', 'Ministro Pistarini International', 'Buenos Aires', -34.8222, -58.5358, 'America/Argentina/Buenos_Aires'],
+  ['GIG', 'Rio de Janeiro/Galeão International', 'Rio de Janeiro', -22.809, -43.2506, 'America/Sao_Paulo'],
+  ['GRU', 'São Paulo/Guarulhos International', 'São Paulo', -23.4356, -46.4731, 'America/Sao_Paulo'],
+  ['LIM', 'Jorge Chávez International', 'Lima', -12.0219, -77.1143, 'America/Lima'],
+  ['PTY', 'Tocumen International', 'Panama City', 9.0714, -79.3835, 'America/Panama'],
+  ['SCL', 'Arturo Merino Benítez International', 'Santiago', -33.393, -70.7858, 'America/Santiago'],
+  ['SJO', 'Juan Santamaría International', 'San José', 9.9939, -84.2088, 'America/Costa_Rica'],
+  ['SJU', 'Luis Muñoz Marín International', 'San Juan', 18.4394, -66.0018, 'America/Puerto_Rico'],
+
+  // Europe
+  ['AMS', 'Amsterdam Schiphol', 'Amsterdam', 52.3105, 4.7683, 'Europe/Amsterdam'],
+  ['ARN', 'Stockholm Arlanda', 'Stockholm', 59.6498, 17.9238, 'Europe/Stockholm'],
+  ['ATH', 'Athens International', 'Athens', 37.9364, 23.9445, 'Europe/Athens'],
+  ['BCN', 'Barcelona-El Prat', 'Barcelona', 41.2974, 2.0833, 'Europe/Madrid'],
+  ['BER', 'Berlin Brandenburg', 'Berlin', 52.3667, 13.5033, 'Europe/Berlin'],
+  ['BRU', 'Brussels Airport', 'Brussels', 50.9014, 4.4844, 'Europe/Brussels'],
+  ['BUD', 'Budapest Ferenc Liszt International', 'Budapest', 47.4394, 19.2618, 'Europe/Budapest'],
+  ['CDG', 'Paris Charles de Gaulle', 'Paris', 49.0097, 2.5479, 'Europe/Paris'],
+  ['CPH', 'Copenhagen Airport', 'Copenhagen', 55.618, 12.6508, 'Europe/Copenhagen'],
+  ['DUB', 'Dublin Airport', 'Dublin', 53.4264, -6.2499, 'Europe/Dublin'],
+  ['EDI', 'Edinburgh Airport', 'Edinburgh', 55.9508, -3.3615, 'Europe/London'],
+  ['FCO', 'Rome Fiumicino', 'Rome', 41.8003, 12.2389, 'Europe/Rome'],
+  ['FRA', 'Frankfurt Airport', 'Frankfurt', 50.0379, 8.5622, 'Europe/Berlin'],
+  ['GVA', 'Geneva Airport', 'Geneva', 46.2381, 6.109, 'Europe/Zurich'],
+  ['HEL', 'Helsinki-Vantaa', 'Helsinki', 60.3172, 24.9633, 'Europe/Helsinki'],
+  ['IST', 'Istanbul Airport', 'Istanbul', 41.2753, 28.7519, 'Europe/Istanbul'],
+  ['KEF', 'Keflavík International', 'Reykjavík', 63.985, -22.6056, 'Atlantic/Reykjavik'],
+  ['LGW', 'London Gatwick', 'London', 51.1537, -0.1821, 'Europe/London'],
+  ['LHR', 'London Heathrow', 'London', 51.47, -0.4543, 'Europe/London'],
+  ['LIS', 'Lisbon Humberto Delgado', 'Lisbon', 38.7742, -9.1342, 'Europe/Lisbon'],
+  ['MAD', 'Adolfo Suárez Madrid-Barajas', 'Madrid', 40.4983, -3.5676, 'Europe/Madrid'],
+  ['MAN', 'Manchester Airport', 'Manchester', 53.3537, -2.275, 'Europe/London'],
+  ['MUC', 'Munich Airport', 'Munich', 48.3537, 11.775, 'Europe/Berlin'],
+  ['MXP', 'Milan Malpensa', 'Milan', 45.6306, 8.7281, 'Europe/Rome'],
+  ['NCE', "Nice Côte d'Azur", 'Nice', 43.6584, 7.2159, 'Europe/Paris'],
+  ['ORY', 'Paris Orly', 'Paris', 48.7262, 2.3652, 'Europe/Paris'],
+  ['OSL', 'Oslo Gardermoen', 'Oslo', 60.1976, 11.1004, 'Europe/Oslo'],
+  ['PMI', 'Palma de Mallorca', 'Palma', 39.5517, 2.7388, 'Europe/Madrid'],
+  ['PRG', 'Václav Havel Airport Prague', 'Prague', 50.1008, 14.26, 'Europe/Prague'],
+  ['STN', 'London Stansted', 'London', 51.886, 0.2389, 'Europe/London'],
+  ['VCE', 'Venice Marco Polo', 'Venice', 45.5053, 12.3519, 'Europe/Rome'],
+  ['VIE', 'Vienna International', 'Vienna', 48.1103, 16.5697, 'Europe/Vienna'],
+  ['WAW', 'Warsaw Chopin', 'Warsaw', 52.1657, 20.9671, 'Europe/Warsaw'],
+  ['ZRH', 'Zurich Airport', 'Zurich', 47.4582, 8.5555, 'Europe/Zurich'],
+
+  // Middle East and Africa
+  ['AUH', 'Zayed International', 'Abu Dhabi', 24.433, 54.6511, 'Asia/Dubai'],
+  ['CAI', 'Cairo International', 'Cairo', 30.1219, 31.4056, 'Africa/Cairo'],
+  ['CMN', 'Mohammed V International', 'Casablanca', 33.3675, -7.5898, 'Africa/Casablanca'],
+  ['CPT', 'Cape Town International', 'Cape Town', -33.9715, 18.6021, 'Africa/Johannesburg'],
+  ['DOH', 'Hamad International', 'Doha', 25.2731, 51.6081, 'Asia/Qatar'],
+  ['DXB', 'Dubai International', 'Dubai', 25.2532, 55.3657, 'Asia/Dubai'],
+  ['JNB', 'O. R. Tambo International', 'Johannesburg', -26.1392, 28.246, 'Africa/Johannesburg'],
+  ['NBO', 'Jomo Kenyatta International', 'Nairobi', -1.3192, 36.9278, 'Africa/Nairobi'],
+  ['RAK', 'Marrakesh Menara', 'Marrakesh', 31.6069, -8.0363, 'Africa/Casablanca'],
+  ['TLV', 'Ben Gurion', 'Tel Aviv', 32.0055, 34.8854, 'Asia/Jerusalem'],
+
+  // Asia
+  ['BKK', 'Suvarnabhumi', 'Bangkok', 13.69, 100.7501, 'Asia/Bangkok'],
+  ['BLR', 'Kempegowda International', 'Bengaluru', 13.1986, 77.7066, 'Asia/Kolkata'],
+  ['BOM', 'Chhatrapati Shivaji Maharaj International', 'Mumbai', 19.0896, 72.8656, 'Asia/Kolkata'],
+  ['CAN', 'Guangzhou Baiyun International', 'Guangzhou', 23.3924, 113.2988, 'Asia/Shanghai'],
+  ['CGK', 'Soekarno-Hatta International', 'Jakarta', -6.1256, 106.6559, 'Asia/Jakarta'],
+  ['CMB', 'Bandaranaike International', 'Colombo', 7.1808, 79.8841, 'Asia/Colombo'],
+  ['DEL', 'Indira Gandhi International', 'Delhi', 28.5562, 77.1, 'Asia/Kolkata'],
+  ['DPS', 'Ngurah Rai International', 'Bali', -8.7482, 115.1675, 'Asia/Makassar'],
+  ['HAN', 'Noi Bai International', 'Hanoi', 21.2187, 105.8042, 'Asia/Ho_Chi_Minh'],
+  ['HKG', 'Hong Kong International', 'Hong Kong', 22.308, 113.9185, 'Asia/Hong_Kong'],
+  ['HKT', 'Phuket International', 'Phuket', 8.1132, 98.3169, 'Asia/Bangkok'],
+  ['HND', 'Tokyo Haneda', 'Tokyo', 35.5494, 139.7798, 'Asia/Tokyo'],
+  ['ICN', 'Incheon International', 'Seoul', 37.4602, 126.4407, 'Asia/Seoul'],
+  ['KIX', 'Kansai International', 'Osaka', 34.432, 135.2304, 'Asia/Tokyo'],
+  ['KTM', 'Tribhuvan International', 'Kathmandu', 27.6966, 85.3591, 'Asia/Kathmandu'],
+  ['KUL', 'Kuala Lumpur International', 'Kuala Lumpur', 2.7456, 101.7072, 'Asia/Kuala_Lumpur'],
+  ['MLE', 'Velana International', 'Malé', 4.1918, 73.529, 'Indian/Maldives'],
+  ['MNL', 'Ninoy Aquino International', 'Manila', 14.5086, 121.0194, 'Asia/Manila'],
+  ['NRT', 'Tokyo Narita', 'Tokyo', 35.772, 140.3929, 'Asia/Tokyo'],
+  ['PEK', 'Beijing Capital International', 'Beijing', 40.0799, 116.6031, 'Asia/Shanghai'],
+  ['PVG', 'Shanghai Pudong International', 'Shanghai', 31.1443, 121.8083, 'Asia/Shanghai'],
+  ['SGN', 'Tan Son Nhat International', 'Ho Chi Minh City', 10.8188, 106.652, 'Asia/Ho_Chi_Minh'],
+  ['SIN', 'Singapore Changi', 'Singapore', 1.3644, 103.9915, 'Asia/Singapore'],
+  ['TPE', 'Taiwan Taoyuan International', 'Taipei', 25.0797, 121.2342, 'Asia/Taipei'],
+
+  // Oceania
+  ['AKL', 'Auckland Airport', 'Auckland', -37.0082, 174.785, 'Pacific/Auckland'],
+  ['BNE', 'Brisbane Airport', 'Brisbane', -27.3942, 153.1218, 'Australia/Brisbane'],
+  ['MEL', 'Melbourne Airport', 'Melbourne', -37.669, 144.841, 'Australia/Melbourne'],
+  ['NAN', 'Nadi International', 'Nadi', -17.7554, 177.4431, 'Pacific/Fiji'],
+  ['PER', 'Perth Airport', 'Perth', -31.9385, 115.9672, 'Australia/Perth'],
+  ['SYD', 'Sydney Kingsford Smith', 'Sydney', -33.9399, 151.1753, 'Australia/Sydney'],
+];
+
+const AIRPORTS = new Map<string, Airport>(
+  AIRPORT_DATA.map(([iata, name, city, lat, lng, timeZone]) => [
+    iata,
+    { iata, name, city, coordinates: { lat, lng }, timeZone },
+  ])
+);
+
+/**
+ * Normalize a typed airport code ("cdg " -> "CDG")
+ */
+export function normalizeIata(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check that a string is a well-formed IATA airport code (it need not be in the table)
+ */
+export function isValidIata(code: string): boolean {
+  return IATA_PATTERN.test(code);
+}
+
+/**
+ * Look up an airport by IATA code
+ * @param code - IATA code, any case
+ * @returns Airport, or null if it isn't in the bundled table
+ */
+export function getAirport(code: string): Airport | null {
+  return AIRPORTS.get(normalizeIata(code)) ?? null;
+}
+
+/**
+ * Every airport in the bundled table, by IATA code
+ */
+export function getAirports(): Airport[] {
+  return Array.from(AIRPORTS.values()).sort((a, b) => a.iata.localeCompare(b.iata));
+}
@@ -0,0 +1,195 @@
+/**
+ * Budget Utilities
+ * A trip's planned spend compared with its budget, per category, day and person
+ *
+ * Planned spend is every activity, lodging and expense cost, whether or not
+ * anyone has paid yet, converted into the trip's currency with the rates given
+ * (see getTripExchangeRates). Lodging counts as 'hotel' and is spread evenly
+ * over the nights it covers; expenses count under their category on their
+ * date. Costs in a currency without a rate are left out and reported, rather
+ * than guessed at.
+ */
+import type {
+  Trip,
+  TripSettings,
+  ActivityType,
+  Cost,
+  ExchangeRate,
+  TripBudget,
+  BudgetLine,
+  BudgetReport,
+  BudgetOverrun,
+  DayBudgetLine,
+} from '../types';
+import { getTripCosts, getCostShares } from './settlement';
+import { convertAmount, getCurrencyDigits } from './currency';
+import { toCalendarDate, addCalendarDays } from './dates';
+import { countNights } from './lodging';
+
+/**
+ * Categories a budget can be set for, in display order
+ */
+export const BUDGET_CATEGORIES: ActivityType[] = ['flight', 'hotel', 'transport', 'restaurant', 'attraction', 'other'];
+
+const CATEGORY_LABELS: Record<ActivityType, string> = {
+  flight: 'Flights',
+  hotel: 'Lodging',
+  transport: 'Transport',
+  restaurant: 'Food & drink',
+  attraction: 'Attractions',
+  other: 'Other',
+};
+
+type BudgetTrip = Pick<Trip, 'days' | 'lodging' | 'expenses' | 'participants'>;
+
+type BudgetSettings = Pick<TripSettings, 'currency' | 'timezone' | 'budget'>;
+
+/**
+ * Name of a budget category, e.g. "Food & drink"
+ */
+export function getBudgetCategoryLabel(type: ActivityType): string {
+  return CATEGORY_LABELS[type];
+}
+
+function round(amount: number, currency: string): number {
+  const factor = 10 ** getCurrencyDigits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+function toLine(planned: number, budget: number | undefined, currency: string): BudgetLine {
+  const line: BudgetLine = { planned: round(planned, currency) };
+  if (budget !== undefined) {
+    line.budget = budget;
+    line.remaining = round(budget - planned, currency);
+  }
+  return line;
+}
+
+/**
+ * Compare a trip's planned spend with its budget
+ * @param trip - Trip with its days
+ * @param settings - Trip's settings (see getTripSettings)
+ * @param rates - Rates into the trip's currency
+ */
+export function getBudgetReport(trip: BudgetTrip, settings: BudgetSettings, rates: ExchangeRate[]): BudgetReport {
+  const { currency, timezone: timeZone } = settings;
+  const budget: TripBudget = settings.budget ?? {};
+  const participantIds = trip.participants.map((p) => p.userId);
+
+  const byType = new Map<ActivityType, number>();
+  const byDate = new Map<string, number>();
+  const byPerson = new Map<string, number>(participantIds.map((userId) => [userId, 0]));
+  const unconverted = new Set<string>();
+  let total = 0;
+
+  const add = (map: Map<string, number>, key: string, amount: number) =>
+    map.set(key, (map.get(key) ?? 0) + amount);
+  const dayDates = new Map(trip.days.map((day) => [day.dayId, toCalendarDate(day.date.toDate(), timeZone)]));
+  const staysById = new Map((trip.lodging ?? []).map((stay) => [stay.lodgingId, stay]));
+  const typesById = new Map([
+    ...trip.days.flatMap((day) => day.activities.map((activity): [string, ActivityType] => [activity.activityId, activity.type])),
+    ...(trip.expenses ?? []).map((expense): [string, ActivityType] => [expense.expenseId, expense.category]),
+  ]);
+
+  getTripCosts(trip).forEach((item) => {
+    const converted = convertAmount(item.cost.amount, item.cost.currency, currency, rates);
+    if (!converted) {
+      unconverted.add(item.cost.currency);
+      return;
+    }
+    const amount = converted.amount;
+    const rate = converted.rate?.rate ?? 1;
+    total += amount;
+
+    const type = item.kind === 'lodging' ? 'hotel' : typesById.get(item.id) ?? 'other';
+    byType.set(type, (byType.get(type) ?? 0) + amount);
+
+    if (item.kind === 'activity') {
+      add(byDate, dayDates.get(item.dayId!) ?? '', amount);
+    } else if (item.kind === 'expense') {
+      add(byDate, item.date!, amount);
+    } else {
+      const stay = staysById.get(item.id)!;
+      const nights = Math.max(countNights(stay), 1);
+      for (let night = 0; night < nights; night++) {
+        add(byDate, addCalendarDays(stay.checkInDate, night), amount / nights);
+      }
+    }
+
+    getCostShares(item.cost, participantIds).forEach((share, userId) => add(byPerson, userId, share * rate));
+  });
+
+  let cumulative = 0;
+  const byDay = [...trip.days]
+    .sort((a, b) => a.date.toMillis() - b.date.toMillis())
+    .map((day): DayBudgetLine => {
+      const planned = round(byDate.get(dayDates.get(day.dayId)!) ?? 0, currency);
+      cumulative += planned;
+      const line: DayBudgetLine = { dayId: day.dayId, date: day.date, planned, cumulative: round(cumulative, currency) };
+      if (budget.total !== undefined) {
+        line.remaining = round(budget.total - cumulative, currency);
+      }
+      return line;
+    });
+
+  const perPersonBudget =
+    budget.total !== undefined && participantIds.length > 0 ? round(budget.total / participantIds.length, currency) : undefined;
+
+  return {
+    currency,
+    total: toLine(total, budget.total, currency),
+    byType: BUDGET_CATEGORIES
+      .filter((type) => byType.has(type) || budget.byType?.[type] !== undefined)
+      .map((type) => ({ type, ...toLine(byType.get(type) ?? 0, budget.byType?.[type], currency) })),
+    byDay,
+    byPerson: [...byPerson].map(([userId, planned]) => ({
+      userId,
+      ...toLine(planned, participantIds.includes(userId) ? perPersonBudget : undefined, currency),
+    })),
+    unconverted: [...unconverted].sort(),
+  };
+}
+
+/**
+ * Limits a new or changed activity or expense cost would take planned spend over
+ * @param trip - Trip with its days, before the change
+ * @param settings - Trip's settings (see getTripSettings)
+ * @param rates - Rates into the trip's currency
+ * @param change - The activity's type (or expense's category) and cost; activityId
+ *   or expenseId when it's being edited, so its current cost isn't counted twice
+ * @returns The category's and the overall limit, where either is exceeded
+ */
+export function getBudgetOverruns(
+  trip: BudgetTrip,
+  settings: BudgetSettings,
+  rates: ExchangeRate[],
+  change: { type: ActivityType; cost?: Cost; activityId?: string; expenseId?: string }
+): BudgetOverrun[] {
+  const { budget, currency } = settings;
+  if (!budget || !change.cost) return [];
+
+  const converted = convertAmount(change.cost.amount, change.cost.currency, currency, rates);
+  if (!converted || converted.amount <= 0) return [];
+
+  const others = {
+    ...trip,
+    days: trip.days.map((day) => ({
+      ...day,
+      activities: day.activities.filter((activity) => activity.activityId !== change.activityId),
+    })),
+    expenses: (trip.expenses ?? []).filter((expense) => expense.expenseId !== change.expenseId),
+  };
+  const report = getBudgetReport(others, settings, rates);
+  const overruns: BudgetOverrun[] = [];
+
+  const limit = budget.byType?.[change.type];
+  if (limit !== undefined) {
+    const planned = round((report.byType.find((line) => line.type === change.type)?.planned ?? 0) + converted.amount, currency);
+    if (planned > limit) overruns.push({ type: change.type, budget: limit, planned });
+  }
+  if (budget.total !== undefined) {
+    const planned = round(report.total.planned + converted.amount, currency);
+    if (planned > budget.total) overruns.push({ budget: budget.total, planned });
+  }
+  return overruns;
+}
@@ -0,0 +1,243 @@
+/**
+ * Change History Utilities
+ * Diffs recorded in a trip's change history, and reading them back
+ *
+ * Diffs compare documents field by field. A field that isn't set is recorded
+ * as null (Firestore can't store undefined), so reverting a diff deletes
+ * fields whose old value is null.
+ */
+import { Timestamp } from 'firebase/firestore';
+import type {
+  TripChange,
+  ChangeOperation,
+  ChangedFields,
+  DocumentDiff,
+  TripDocument,
+  DayDocument,
+  Activity,
+  Expense,
+} from '../types';
+
+/**
+ * Bookkeeping that every write refreshes; left out of update diffs
+ */
+const IGNORED_FIELDS = ['updatedAt', 'updatedBy'];
+
+/**
+ * Operations that can't be undone: sharing changes retire or publish links
+ * other people hold, a join is the invitee's own, the trash has its own
+ * restore, and undos aren't redone
+ */
+const NOT_UNDOABLE: ChangeOperation[] = [
+  'trip.share',
+  'trip.unshare',
+  'trip.delete',
+  'trip.restore',
+  'participant.join',
+  'undo',
+];
+
+const OPERATION_DESCRIPTIONS: Record<ChangeOperation, (label: string) => string> = {
+  'trip.update': () => 'updated the trip details',
+  'trip.share': () => 'published the share link',
+  'trip.budget': () => 'changed the budget',
+  'trip.unshare': () => 'stopped sharing the trip',
+  'trip.delete': () => 'deleted the trip',
+  'trip.restore': () => 'restored the trip from the trash',
+  'participant.add': (label) => `added ${label} to the trip`,
+  'participant.join': () => 'joined the trip',
+  'participant.remove': (label) => `removed ${label} from the trip`,
+  'participant.role': (label) => `changed the role of ${label}`,
+  'day.add': (label) => `added ${label}`,
+  'day.remove': (label) => `removed ${label}`,
+  'day.restore': (label) => `restored ${label}`,
+  'day.sort': (label) => `changed the order of ${label}`,
+  'activity.add': (label) => `added ${label}`,
+  'activity.update': (label) => `edited ${label}`,
+  'activity.remove': (label) => `removed ${label}`,
+  'activity.restore': (label) => `restored ${label}`,
+  'activity.move': (label) => `moved ${label}`,
+  'activity.copy': (label) => `copied ${label}`,
+  'lodging.add': (label) => `added the stay at ${label}`,
+  'lodging.update': (label) => `edited the stay at ${label}`,
+  'lodging.remove': (label) => `removed the stay at ${label}`,
+  'expense.add': (label) => `added the expense ${label}`,
+  'expense.update': (label) => `edited the expense ${label}`,
+  'expense.remove': (label) => `removed the expense ${label}`,
+  'settlement.add': (label) => `recorded a repayment of ${label}`,
+  'settlement.remove': (label) => `removed the repayment of ${label}`,
+  'rate.set': (label) => `set the exchange rate for ${label}`,
+  'rate.remove': (label) => `went back to the standard exchange rate for ${label}`,
+  'undo': (label) => `undid a change to ${label}`,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Deep equality for stored values; unset and null are the same
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  const left = a ?? null;
+  const right = b ?? null;
+  if (left instanceof Timestamp || right instanceof Timestamp) {
+    return left instanceof Timestamp && right instanceof Timestamp && left.isEqual(right);
+  }
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return (
+      Array.isArray(left) &&
+      Array.isArray(right) &&
+      left.length === right.length &&
+      left.every((item, i) => isSameValue(item, right[i]))
+    );
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every((key) => isSameValue(left[key], right[key]));
+  }
+  return left === right;
+}
+
+/**
+ * A document's fields with undefined values recorded as null
+ */
+function toFields(document: object): ChangedFields {
+  return Object.fromEntries(Object.entries(document).map(([key, value]) => [key, value ?? null]));
+}
+
+/**
+ * Before/after of a document, or null when nothing changed
+ */
+function diffFields(
+  before: object | null,
+  after: object | null
+): Pick<DocumentDiff, 'before' | 'after'> | null {
+  if (!before && !after) return null;
+  if (!before || !after) {
+    return { before: before && toFields(before), after: after && toFields(after) };
+  }
+
+  const previous = before as Record<string, unknown>;
+  const current = after as Record<string, unknown>;
+  const changed = [...new Set([...Object.keys(previous), ...Object.keys(current)])].filter(
+    (key) => !IGNORED_FIELDS.includes(key) && !isSameValue(previous[key], current[key])
+  );
+  if (changed.length === 0) return null;
+
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, previous[key] ?? null])),
+    after: Object.fromEntries(changed.map((key) => [key, current[key] ?? null])),
+  };
+}
+
+/**
+ * How a trip document changed
+ * @returns Diff, or null when nothing changed
+ */
+export function diffTrip(before: TripDocument, after: TripDocument): DocumentDiff | null {
+  const diff = diffFields(before, after);
+  return diff && { document: 'trip', ...diff };
+}
+
+/**
+ * How a day document changed (null before for a new day, null after for a deleted one)
+ * @returns Diff, or null when nothing changed
+ */
+export function diffDay(before: DayDocument | null, after: DayDocument | null): DocumentDiff | null {
+  const diff = diffFields(before, after);
+  return diff && { document: 'day', dayId: (before ?? after)!.dayId, ...diff };
+}
+
+/**
+ * How an activity changed (null before for a new activity, null after for a deleted one)
+ * @param dayId - Day the activity is stored under
+ * @returns Diff, or null when nothing changed
+ */
+export function diffActivity(
+  dayId: string,
+  before: Activity | null,
+  after: Activity | null
+): DocumentDiff | null {
+  const diff = diffFields(before, after);
+  return diff && { document: 'activity', dayId, activityId: (before ?? after)!.activityId, ...diff };
+}
+
+/**
+ * How an expense changed (null before for a new expense, null after for a deleted one)
+ * @returns Diff, or null when nothing changed
+ */
+export function diffExpense(before: Expense | null, after: Expense | null): DocumentDiff | null {
+  const diff = diffFields(before, after);
+  return diff && { document: 'expense', expenseId: (before ?? after)!.expenseId, ...diff };
+}
+
+/**
+ * Whether a document still looks the way a diff left it
+ * @param current - Document as it is now, or null if it doesn't exist
+ * @param fields - The diff's after
+ */
+export function matchesFields(current: object | null, fields: ChangedFields | null): boolean {
+  if (!current || !fields) return !current && !fields;
+  const document = current as Record<string, unknown>;
+  return Object.entries(fields)
+    .filter(([key]) => !IGNORED_FIELDS.includes(key))
+    .every(([key, value]) => isSameValue(document[key], value));
+}
+
+/**
+ * A document with fields put back to earlier values
+ * @param current - Document as it is now
+ * @param fields - The diff's before; null values are removed
+ * @returns The reverted document and the names of the fields removed
+ */
+export function revertFields<T extends object>(
+  current: T,
+  fields: ChangedFields
+): { document: T; removed: (keyof T)[] } {
+  const document = { ...current } as Record<string, unknown>;
+  const removed: (keyof T)[] = [];
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === null) {
+      delete document[key];
+      removed.push(key as keyof T);
+    } else {
+      document[key] = value;
+    }
+  });
+  return { document: document as T, removed };
+}
+
+/**
+ * Whether undoLastChange can revert a kind of change
+ */
+export function isUndoable(change: Pick<TripChange, 'operation'>): boolean {
+  return !NOT_UNDOABLE.includes(change.operation);
+}
+
+/**
+ * The change undoLastChange would revert: the newest one not undone yet
+ * @param changes - One user's changes, newest first
+ * @returns Change, or null if there's nothing left to undo
+ */
+export function getChangeToUndo(changes: TripChange[]): TripChange | null {
+  const undone = new Set(changes.map((change) => change.undoes).filter(Boolean));
+  return changes.find((change) => change.operation !== 'undo' && !undone.has(change.changeId)) ?? null;
+}
+
+/**
+ * Fields an update changed, for showing next to the entry
+ */
+export function getChangedFieldNames(change: Pick<TripChange, 'diffs'>): string[] {
+  const names = change.diffs
+    .filter((diff) => diff.before && diff.after)
+    .flatMap((diff) => Object.keys(diff.after!));
+  return [...new Set(names)];
+}
+
+/**
+ * What a change did, after the name of whoever made it ("removed Dinner at Luigi's")
+ */
+export function describeChange(change: Pick<TripChange, 'operation' | 'label'>): string {
+  return OPERATION_DESCRIPTIONS[change.operation](change.label);
+}
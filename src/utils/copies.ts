@@ -0,0 +1,96 @@
+/**
+ * Trip Copy Utilities
+ * A trip's content moved to a new start date, for duplicateTrip and
+ * createTripFromTemplate
+ *
+ * Everything moves by the same number of calendar days in the trip's time
+ * zone, so activities keep their wall-clock times and stays cover the same
+ * nights of the trip. Copies get new IDs and are created by whoever made
+ * them. Who paid for or splits a cost refers to the original's participants,
+ * so only the amount and currency are kept.
+ */
+import { Timestamp } from 'firebase/firestore';
+import { nanoid } from 'nanoid';
+import type { TripContent, Day, Activity, Lodging, Cost } from '../types';
+import { toCalendarDate, fromZonedTime, addCalendarDays, diffCalendarDays } from './dates';
+import { shiftActivityTimes } from './activities';
+
+/**
+ * Calendar days between a trip's start and a new start date
+ * @param startDate - YYYY-MM-DD in the trip's time zone
+ */
+export function getCopyOffset(content: Pick<TripContent, 'startDate' | 'settings'>, startDate: string): number {
+  return diffCalendarDays(toCalendarDate(content.startDate.toDate(), content.settings.timezone), startDate);
+}
+
+function copyCost(cost: Cost | undefined, clearCosts: boolean): Pick<Activity, 'cost'> {
+  return cost && !clearCosts ? { cost: { amount: cost.amount, currency: cost.currency } } : {};
+}
+
+/**
+ * A trip's content moved to a new start date, with new IDs throughout
+ * @param startDate - New start, YYYY-MM-DD in the trip's time zone
+ * @param actorId - User making the copy
+ * @param options.clearCosts - Leave out activity and lodging costs
+ * @returns New trip dates, days (activities in the copy's hand-set order) and lodging
+ */
+export function copyTripContent(
+  content: TripContent,
+  startDate: string,
+  actorId: string,
+  options: { clearCosts?: boolean } = {}
+): Pick<TripContent, 'startDate' | 'endDate' | 'days' | 'lodging'> {
+  const timeZone = content.settings.timezone;
+  const offset = getCopyOffset(content, startDate);
+  const clearCosts = options.clearCosts ?? false;
+  const now = Timestamp.now();
+  const moveDate = (date: Timestamp) =>
+    Timestamp.fromDate(fromZonedTime(addCalendarDays(toCalendarDate(date.toDate(), timeZone), offset), timeZone));
+
+  const days = content.days.map((day): Day => {
+    const activities = day.activities.map((activity): Activity => {
+      const { cost, startTime: _startTime, endTime: _endTime, ...rest } = activity;
+      return {
+        ...rest,
+        ...shiftActivityTimes(activity, offset, timeZone),
+        ...copyCost(cost, clearCosts),
+        activityId: nanoid(),
+        createdBy: actorId,
+        createdAt: now,
+        updatedBy: actorId,
+        updatedAt: now,
+      };
+    });
+
+    return {
+      ...day,
+      dayId: nanoid(),
+      date: moveDate(day.date),
+      // Copies are all created at once, so creation order can't keep them in place
+      activityOrder: activities.map((activity) => activity.activityId),
+      activities,
+    };
+  });
+
+  const lodging = content.lodging.map((stay): Lodging => {
+    const { cost, ...rest } = stay;
+    return {
+      ...rest,
+      ...copyCost(cost, clearCosts),
+      lodgingId: nanoid(),
+      checkInDate: addCalendarDays(stay.checkInDate, offset),
+      checkOutDate: addCalendarDays(stay.checkOutDate, offset),
+      createdBy: actorId,
+      createdAt: now,
+      updatedBy: actorId,
+      updatedAt: now,
+    };
+  });
+
+  return {
+    startDate: moveDate(content.startDate),
+    endDate: moveDate(content.endDate),
+    days,
+    lodging,
+  };
+}
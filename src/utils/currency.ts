@@ -0,0 +1,220 @@
+/**
+ * Currency Utilities
+ * Converting amounts between currencies and formatting them for display
+ *
+ * Conversions only use the rates they're given (see rates.service.ts for
+ * where a trip's rates come from), and every converted figure keeps the rate
+ * it used. The bundled table below lets totals work without a network call;
+ * its rates are approximate and dated, not live.
+ */
+import type { ExchangeRate, ExchangeRateOverride, ConvertedAmount, ConvertedTotal } from '../types';
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Source recorded on rates from the bundled table
+ */
+export const BUNDLED_RATE_SOURCE = 'bundled';
+
+/**
+ * Source recorded on rates set by hand for a trip
+ */
+export const MANUAL_RATE_SOURCE = 'manual';
+
+/**
+ * Day the bundled rates were taken, YYYY-MM-DD
+ */
+export const BUNDLED_RATES_DATE = '2026-10-01';
+
+// Units of each currency per US dollar (approximate mid-market rates)
+const USD_RATES: Record<string, number> = {
+  USD: 1,
+  AED: 3.6725,
+  ARS: 1420,
+  AUD: 1.52,
+  BRL: 5.34,
+  CAD: 1.39,
+  CHF: 0.80,
+  CLP: 955,
+  CNY: 7.12,
+  COP: 3910,
+  CZK: 20.7,
+  DKK: 6.38,
+  EGP: 48.2,
+  EUR: 0.855,
+  GBP: 0.745,
+  HKD: 7.78,
+  HUF: 333,
+  IDR: 16650,
+  ILS: 3.33,
+  INR: 88.7,
+  ISK: 122,
+  JPY: 148,
+  KRW: 1400,
+  MAD: 9.05,
+  MXN: 18.4,
+  MYR: 4.21,
+  NOK: 9.98,
+  NZD: 1.72,
+  PEN: 3.48,
+  PHP: 58.1,
+  PLN: 3.64,
+  QAR: 3.64,
+  RON: 4.35,
+  SAR: 3.75,
+  SEK: 9.41,
+  SGD: 1.29,
+  THB: 32.4,
+  TRY: 41.6,
+  TWD: 30.5,
+  VND: 26350,
+  ZAR: 17.3,
+};
+
+/**
+ * Is this a three-letter ISO 4217 currency code ("EUR")?
+ */
+export function isCurrencyCode(code: string): boolean {
+  return CURRENCY_CODE_PATTERN.test(code);
+}
+
+/**
+ * Currencies in the bundled rate table, in alphabetical order
+ */
+export function getBundledCurrencies(): string[] {
+  return Object.keys(USD_RATES).sort();
+}
+
+/**
+ * Rate between two currencies from the bundled table
+ * @returns The rate, or null if either currency isn't in the table
+ */
+export function getBundledRate(from: string, to: string): ExchangeRate | null {
+  const fromRate = USD_RATES[from];
+  const toRate = USD_RATES[to];
+  if (!fromRate || !toRate) return null;
+  return { from, to, rate: toRate / fromRate, date: BUNDLED_RATES_DATE, source: BUNDLED_RATE_SOURCE };
+}
+
+/**
+ * A trip's hand-set rates into its currency
+ * Rates set before the trip's currency changed no longer apply and are left out
+ */
+export function getManualRates(overrides: ExchangeRateOverride[] | undefined, currency: string): ExchangeRate[] {
+  return (overrides ?? [])
+    .filter((override) => override.to === currency)
+    .map(({ from, to, rate, date }) => ({ from, to, rate, date, source: MANUAL_RATE_SOURCE }));
+}
+
+/**
+ * Digits after the decimal point in a currency's amounts (2 for USD, 0 for JPY)
+ */
+export function getCurrencyDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+function roundToCurrency(amount: number, currency: string): number {
+  const factor = 10 ** getCurrencyDigits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * The rate from one currency to another among the given rates
+ * A rate the other way round is used inverted
+ */
+function findRate(rates: ExchangeRate[], from: string, to: string): ExchangeRate | null {
+  const direct = rates.find((rate) => rate.from === from && rate.to === to);
+  if (direct) return direct;
+  const inverse = rates.find((rate) => rate.from === to && rate.to === from);
+  return inverse ? { ...inverse, from, to, rate: 1 / inverse.rate } : null;
+}
+
+/**
+ * Convert an amount into another currency
+ * @param rates - Rates to choose from (see getTripExchangeRates)
+ * @returns The converted amount with the rate it used, or null if there's no rate
+ */
+export function convertAmount(
+  amount: number,
+  currency: string,
+  target: string,
+  rates: ExchangeRate[]
+): ConvertedAmount | null {
+  const original = { amount, currency };
+  if (currency === target) {
+    return { amount, currency, original };
+  }
+  const rate = findRate(rates, currency, target);
+  if (!rate) return null;
+  return { amount: roundToCurrency(amount * rate.rate, target), currency: target, original, rate };
+}
+
+/**
+ * Add up amounts in several currencies in one
+ * Each currency is added up first and converted once, so every item carries a single rate
+ * @param rates - Rates to choose from (see getTripExchangeRates)
+ */
+export function convertTotal(
+  amounts: Array<{ amount: number; currency: string }>,
+  target: string,
+  rates: ExchangeRate[]
+): ConvertedTotal {
+  const sums = new Map<string, number>();
+  amounts.forEach(({ amount, currency }) => sums.set(currency, (sums.get(currency) ?? 0) + amount));
+
+  const items: ConvertedAmount[] = [];
+  const unconverted: ConvertedTotal['unconverted'] = [];
+  sums.forEach((sum, currency) => {
+    const amount = roundToCurrency(sum, currency);
+    const converted = convertAmount(amount, currency, target, rates);
+    if (converted) {
+      items.push(converted);
+    } else {
+      unconverted.push({ amount, currency });
+    }
+  });
+
+  items.sort((a, b) => b.amount - a.amount || a.original.currency.localeCompare(b.original.currency));
+  return {
+    amount: roundToCurrency(items.reduce((acc, item) => acc + item.amount, 0), target),
+    currency: target,
+    items,
+    unconverted,
+  };
+}
+
+/**
+ * Format an amount in a currency, e.g. "€1,234.50" or "1.234,50 €"
+ * @param locale - Locale to format in; defaults to the user's
+ */
+export function formatMoney(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not a currency Intl knows
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Format a converted amount with the original next to it, e.g. "$108.00 (€100.00)"
+ * @param locale - Locale to format in; defaults to the user's
+ */
+export function formatConvertedAmount(converted: ConvertedAmount, locale?: string): string {
+  const amount = formatMoney(converted.amount, converted.currency, locale);
+  if (!converted.rate) return amount;
+  return `${amount} (${formatMoney(converted.original.amount, converted.original.currency, locale)})`;
+}
+
+/**
+ * Describe a rate, e.g. "1 EUR = 1.1696 USD"
+ * @param locale - Locale to format in; defaults to the user's
+ */
+export function formatExchangeRate(rate: ExchangeRate, locale?: string): string {
+  const value = new Intl.NumberFormat(locale, { maximumSignificantDigits: 5 }).format(rate.rate);
+  return `1 ${rate.from} = ${value} ${rate.to}`;
+}
@@ -0,0 +1,158 @@
+/**
+ * Date Utilities
+ * Calendar-date math in an IANA time zone, independent of the browser's zone
+ *
+ * A "calendar date" is a YYYY-MM-DD string; it names a day, not an instant.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+  return parts as {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+  };
+}
+
+/**
+ * Check that a string is a time zone this runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant
+ * @returns Milliseconds to add to UTC to get local wall-clock time
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Calendar date of an instant in a time zone
+ * @returns YYYY-MM-DD
+ */
+export function toCalendarDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [
+    String(year).padStart(4, '0'),
+    String(month).padStart(2, '0'),
+    String(day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * Instant of a local wall-clock time on a calendar date in a time zone
+ * Around a DST change this reads times as iCalendar does (RFC 5545): a time
+ * the clocks skip takes the offset from before the change (02:30 becomes
+ * 03:30), and a time that happens twice is its first occurrence.
+ * @param calendarDate - YYYY-MM-DD
+ * @param timeZone - IANA zone, e.g. "Europe/Paris"
+ * @param time - HH:MM (defaults to midnight)
+ */
+export function fromZonedTime(calendarDate: string, timeZone: string, time = '00:00'): Date {
+  const [year, month, day] = calendarDate.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // A day either side is clear of the change, if there is one
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - MS_PER_DAY), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + MS_PER_DAY), timeZone);
+  const instants = [wallClock - offsetBefore, wallClock - offsetAfter].filter(
+    (instant) => getTimeZoneOffset(new Date(instant), timeZone) === wallClock - instant
+  );
+  return new Date(instants.length > 0 ? Math.min(...instants) : wallClock - offsetBefore);
+}
+
+/**
+ * Shift a calendar date by whole days
+ */
+export function addCalendarDays(calendarDate: string, days: number): string {
+  const [year, month, day] = calendarDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Whole days from one calendar date to another (negative if `to` is earlier)
+ */
+export function diffCalendarDays(from: string, to: string): number {
+  const toUtc = (calendarDate: string) => {
+    const [year, month, day] = calendarDate.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / MS_PER_DAY);
+}
+
+/**
+ * Every calendar date from start to end, inclusive
+ */
+export function eachCalendarDate(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addCalendarDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Local wall-clock time of an instant in a time zone
+ * @returns HH:MM (24-hour)
+ */
+export function toWallClockTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Time zones to offer in a picker, always including the given ones
+ * Falls back to just those where the runtime can't list its zones
+ */
+export function getTimeZoneOptions(...include: string[]): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = new Set(supportedValuesOf ? supportedValuesOf('timeZone') : []);
+  include.forEach((timeZone) => zones.add(timeZone));
+  return Array.from(zones).sort();
+}
@@ -0,0 +1,537 @@
+/**
+ * Trip Export Utilities
+ * A trip's full content as versioned JSON, for backups and for moving trips
+ * between Firebase projects (exportTrip/importTrip, scripts/trip-backup.ts)
+ *
+ * Documents are exported as stored, so an import can put them back as they
+ * were. Timestamps become { "$timestamp": { seconds, nanoseconds } } objects,
+ * which read back to the same instant to the nanosecond. participantIds and
+ * roles are rebuilt from participants on import.
+ *
+ * Bump TRIP_EXPORT_VERSION when the format changes in a way older readers
+ * can't handle, and teach fromTripExport to read the older versions.
+ */
+import { Timestamp } from 'firebase/firestore';
+import type {
+  TripDocument,
+  Day,
+  Activity,
+  Expense,
+  Cost,
+  TripExport,
+  TripExportContent,
+  ExportedTimestamp,
+} from '../types';
+import { isValidTimeZone } from './dates';
+import { isCurrencyCode } from './currency';
+import { isCalendarDate } from './lodging';
+import { BUDGET_CATEGORIES } from './budget';
+
+export const TRIP_EXPORT_FORMAT = 'trip-organizer.trip';
+
+export const TRIP_EXPORT_VERSION = 1;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isExportedTimestamp(value: unknown): value is ExportedTimestamp {
+  return isObject(value) && Object.keys(value).length === 1 && isObject(value.$timestamp);
+}
+
+/**
+ * Makes a Timestamp from an export's seconds and nanoseconds
+ */
+export type TimestampFactory = (seconds: number, nanoseconds: number) => Timestamp;
+
+const toClientTimestamp: TimestampFactory = (seconds, nanoseconds) => new Timestamp(seconds, nanoseconds);
+
+/**
+ * Any Firestore Timestamp: the app's, or firebase-admin's in scripts/trip-backup.ts
+ */
+function isTimestamp(value: unknown): value is Timestamp {
+  return (
+    value instanceof Timestamp ||
+    (typeof value === 'object' &&
+      value !== null &&
+      typeof (value as Timestamp).toMillis === 'function' &&
+      typeof (value as Timestamp).seconds === 'number' &&
+      typeof (value as Timestamp).nanoseconds === 'number')
+  );
+}
+
+function encode(value: unknown): unknown {
+  if (isTimestamp(value)) {
+    return { $timestamp: { seconds: value.seconds, nanoseconds: value.nanoseconds } };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => [key, encode(field)])
+    );
+  }
+  return value;
+}
+
+function decode(value: unknown, toTimestamp: TimestampFactory): unknown {
+  if (isExportedTimestamp(value)) {
+    return toTimestamp(value.$timestamp.seconds, value.$timestamp.nanoseconds);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => decode(item, toTimestamp));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, decode(field, toTimestamp)])
+    );
+  }
+  return value;
+}
+
+/**
+ * A trip as an export file
+ * @param trip - Trip document as stored (participantIds, roles and trash are left out)
+ * @param days - Every day with its activities
+ * @param expenses - The trip's expenses
+ */
+export function toTripExport(
+  trip: TripDocument,
+  days: Day[],
+  expenses: Expense[],
+  exportedAt: Timestamp = Timestamp.now()
+): TripExport {
+  const { participantIds: _participantIds, roles: _roles, trash: _trash, ...tripDocument } = trip;
+  return {
+    format: TRIP_EXPORT_FORMAT,
+    version: TRIP_EXPORT_VERSION,
+    exportedAt: encode(exportedAt) as ExportedTimestamp,
+    trip: encode(tripDocument) as TripExport['trip'],
+    days: encode(days) as TripExport['days'],
+    expenses: encode(expenses) as TripExport['expenses'],
+  };
+}
+
+/**
+ * Read an export back into documents, with Timestamps restored
+ * @param data - An export that validateTripExport found no problems with
+ * @param toTimestamp - Makes the Timestamps; the app's by default, firebase-admin's from scripts
+ */
+export function fromTripExport(
+  data: TripExport,
+  toTimestamp: TimestampFactory = toClientTimestamp
+): TripExportContent {
+  return {
+    trip: decode(data.trip, toTimestamp) as TripExportContent['trip'],
+    days: decode(data.days, toTimestamp) as Day[],
+    expenses: decode(data.expenses, toTimestamp) as Expense[],
+  };
+}
+
+/**
+ * File name for a trip's export download, e.g. "summer-in-japan.json"
+ */
+export function getTripExportFileName(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'trip'}.json`;
+}
+
+/**
+ * Checks one value, adding a problem for each way it's wrong
+ * Paths read like "days[2].activities[0].startTime"
+ */
+type Check = (value: unknown, path: string, problems: string[]) => void;
+
+function primitive(type: 'string' | 'number' | 'boolean', label: string): Check {
+  return (value, path, problems) => {
+    if (value === undefined) {
+      problems.push(`${path} is missing`);
+    } else if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      problems.push(`${path} must be ${label}`);
+    }
+  };
+}
+
+const text = primitive('string', 'text');
+const number = primitive('number', 'a number');
+const flag = primitive('boolean', 'true or false');
+
+const timestamp: Check = (value, path, problems) => {
+  if (value === undefined) {
+    problems.push(`${path} is missing`);
+    return;
+  }
+  const seconds = isExportedTimestamp(value) ? value.$timestamp.seconds : undefined;
+  const nanoseconds = isExportedTimestamp(value) ? value.$timestamp.nanoseconds : undefined;
+  if (
+    !Number.isInteger(seconds) ||
+    !Number.isInteger(nanoseconds) ||
+    nanoseconds! < 0 ||
+    nanoseconds! > 999_999_999
+  ) {
+    problems.push(`${path} must be a timestamp ({ "$timestamp": { "seconds", "nanoseconds" } })`);
+  }
+};
+
+function oneOf(values: readonly string[]): Check {
+  return (value, path, problems) => {
+    text(value, path, problems);
+    if (typeof value === 'string' && !values.includes(value)) {
+      problems.push(`${path} must be one of ${values.join(', ')}`);
+    }
+  };
+}
+
+function optional(check: Check): Check {
+  return (value, path, problems) => {
+    if (value !== undefined) check(value, path, problems);
+  };
+}
+
+function listOf(check: Check): Check {
+  return (value, path, problems) => {
+    if (!Array.isArray(value)) {
+      problems.push(value === undefined ? `${path} is missing` : `${path} must be a list`);
+      return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, problems));
+  };
+}
+
+function mapOf(check: Check): Check {
+  return (value, path, problems) => {
+    if (!isObject(value) || isExportedTimestamp(value)) {
+      problems.push(value === undefined ? `${path} is missing` : `${path} must be an object`);
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) => check(item, `${path}.${key}`, problems));
+  };
+}
+
+/**
+ * Fields not listed are let through as they are, so documents with fields
+ * this version doesn't know about still round-trip
+ */
+function shape(fields: Record<string, Check>): Check {
+  return (value, path, problems) => {
+    if (!isObject(value) || isExportedTimestamp(value)) {
+      problems.push(value === undefined ? `${path} is missing` : `${path} must be an object`);
+      return;
+    }
+    Object.entries(fields).forEach(([key, check]) => check(value[key], path ? `${path}.${key}` : key, problems));
+  };
+}
+
+const coordinates = shape({ lat: number, lng: number });
+
+const location = shape({
+  name: text,
+  address: optional(text),
+  coordinates: optional(coordinates),
+});
+
+const cost = shape({
+  amount: number,
+  currency: text,
+  paidBy: optional(text),
+  splitBetween: optional(listOf(text)),
+  splitMode: optional(oneOf(['equal', 'shares', 'exact', 'percent'])),
+  splitValues: optional(mapOf(number)),
+});
+
+const attachment = shape({ url: text, fileName: text, fileType: text });
+
+const flightEndpoint = shape({
+  airport: text,
+  timeZone: text,
+  terminal: optional(text),
+  gate: optional(text),
+});
+
+const activity = shape({
+  activityId: text,
+  title: text,
+  description: optional(text),
+  type: oneOf(BUDGET_CATEGORIES),
+  startTime: optional(timestamp),
+  endTime: optional(timestamp),
+  timeZone: optional(text),
+  flight: optional(
+    shape({
+      carrier: optional(text),
+      flightNumber: optional(text),
+      origin: flightEndpoint,
+      destination: flightEndpoint,
+      seat: optional(text),
+      confirmationCode: optional(text),
+    })
+  ),
+  location: optional(location),
+  cost: optional(cost),
+  createdBy: text,
+  createdAt: timestamp,
+  updatedBy: text,
+  updatedAt: timestamp,
+  notes: optional(text),
+  attachments: optional(listOf(attachment)),
+});
+
+const day = shape({
+  dayId: text,
+  date: timestamp,
+  title: optional(text),
+  activityOrder: optional(listOf(text)),
+  sortByTime: optional(flag),
+  activities: listOf(activity),
+});
+
+const participant = shape({
+  userId: text,
+  phoneNumber: text,
+  displayName: text,
+  role: oneOf(['owner', 'editor', 'viewer']),
+  joinedAt: timestamp,
+  inviteId: optional(text),
+});
+
+const lodging = shape({
+  lodgingId: text,
+  name: text,
+  checkInDate: text,
+  checkOutDate: text,
+  location: optional(location),
+  confirmationCode: optional(text),
+  cost: optional(cost),
+  notes: optional(text),
+  createdBy: text,
+  createdAt: timestamp,
+  updatedBy: text,
+  updatedAt: timestamp,
+});
+
+const settlement = shape({
+  settlementId: text,
+  fromUserId: text,
+  toUserId: text,
+  amount: number,
+  currency: text,
+  note: optional(text),
+  createdBy: text,
+  createdAt: timestamp,
+});
+
+const exchangeRate = shape({
+  from: text,
+  to: text,
+  rate: number,
+  date: text,
+  setBy: text,
+  setAt: timestamp,
+});
+
+const trip = shape({
+  tripId: text,
+  title: text,
+  description: optional(text),
+  startDate: timestamp,
+  endDate: timestamp,
+  participants: listOf(participant),
+  lodging: optional(listOf(lodging)),
+  settlements: optional(listOf(settlement)),
+  exchangeRates: optional(listOf(exchangeRate)),
+  coverImageUrl: optional(text),
+  createdBy: text,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  settings: optional(
+    shape({
+      currency: text,
+      timezone: text,
+      isPublic: flag,
+      shareToken: optional(text),
+      budget: optional(shape({ total: optional(number), byType: optional(mapOf(number)) })),
+    })
+  ),
+});
+
+const expense = shape({
+  expenseId: text,
+  description: text,
+  category: oneOf(BUDGET_CATEGORIES),
+  date: text,
+  cost,
+  activityId: optional(text),
+  receipts: listOf(attachment),
+  createdBy: text,
+  createdAt: timestamp,
+  updatedBy: text,
+  updatedAt: timestamp,
+});
+
+const tripExport = shape({ exportedAt: timestamp, trip, days: listOf(day), expenses: listOf(expense) });
+
+function findDuplicates(ids: string[]): string[] {
+  return [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+}
+
+/**
+ * What's wrong with an export beyond its shape: dates, time zones and currencies
+ * that can't be read, IDs used twice and expenses for activities that aren't there
+ */
+function checkContent({ trip, days, expenses }: TripExportContent, problems: string[]): void {
+  const timeZone = trip.settings?.timezone;
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    problems.push(`trip.settings.timezone "${timeZone}" isn't a known time zone`);
+  }
+  if (trip.settings && !isCurrencyCode(trip.settings.currency)) {
+    problems.push(`trip.settings.currency "${trip.settings.currency}" isn't a currency code`);
+  }
+  if (trip.endDate.toMillis() < trip.startDate.toMillis()) {
+    problems.push('trip.endDate is before trip.startDate');
+  }
+
+  days.forEach((d, i) =>
+    d.activities.forEach((a, j) => {
+      if (a.timeZone !== undefined && !isValidTimeZone(a.timeZone)) {
+        problems.push(`days[${i}].activities[${j}].timeZone "${a.timeZone}" isn't a known time zone`);
+      }
+    })
+  );
+  (trip.lodging ?? []).forEach((stay, i) => {
+    if (!isCalendarDate(stay.checkInDate) || !isCalendarDate(stay.checkOutDate)) {
+      problems.push(`trip.lodging[${i}] dates must be YYYY-MM-DD`);
+    }
+  });
+  expenses.forEach((e, i) => {
+    if (!isCalendarDate(e.date)) {
+      problems.push(`expenses[${i}].date must be YYYY-MM-DD`);
+    }
+  });
+
+  const activityIds = days.flatMap((d) => d.activities.map((a: Activity) => a.activityId));
+  const duplicates: Array<[string, string[]]> = [
+    ['participant', trip.participants.map((p) => p.userId)],
+    ['day', days.map((d) => d.dayId)],
+    ['activity', activityIds],
+    ['expense', expenses.map((e) => e.expenseId)],
+    ['lodging', (trip.lodging ?? []).map((stay) => stay.lodgingId)],
+    ['settlement', (trip.settlements ?? []).map((s) => s.settlementId)],
+  ];
+  duplicates.forEach(([label, ids]) =>
+    findDuplicates(ids).forEach((id) => problems.push(`${label} ID "${id}" is used more than once`))
+  );
+
+  expenses.forEach((e, i) => {
+    if (e.activityId && !activityIds.includes(e.activityId)) {
+      problems.push(`expenses[${i}].activityId "${e.activityId}" isn't an activity in this trip`);
+    }
+  });
+}
+
+/**
+ * Check that a parsed JSON file is a trip export this version can import
+ * @param data - Parsed JSON
+ * @returns Problems found, each starting with where it is; empty when it can be imported
+ */
+export function validateTripExport(data: unknown): string[] {
+  if (!isObject(data) || data.format !== TRIP_EXPORT_FORMAT) {
+    return ['Not a trip export (format must be "trip-organizer.trip")'];
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    return ['version must be a whole number from 1'];
+  }
+  if ((data.version as number) > TRIP_EXPORT_VERSION) {
+    return [`version ${data.version} is newer than this app can read (up to ${TRIP_EXPORT_VERSION})`];
+  }
+
+  const problems: string[] = [];
+  tripExport(data, '', problems);
+  if (problems.length === 0) {
+    checkContent(fromTripExport(data as unknown as TripExport), problems);
+  }
+  return problems;
+}
+
+/**
+ * Every user an export refers to: participants, and whoever created, changed,
+ * paid for, shares in or repaid something
+ */
+export function getTripExportUserIds({ trip, days, expenses }: TripExportContent): string[] {
+  const ids = new Set<string>([trip.createdBy, ...trip.participants.map((p) => p.userId)]);
+  const addCost = (c: Cost | undefined) => {
+    if (!c) return;
+    if (c.paidBy) ids.add(c.paidBy);
+    (c.splitBetween ?? []).forEach((id) => ids.add(id));
+    Object.keys(c.splitValues ?? {}).forEach((id) => ids.add(id));
+  };
+  const addItem = (item: { createdBy: string; updatedBy?: string; cost?: Cost }) => {
+    ids.add(item.createdBy);
+    if (item.updatedBy) ids.add(item.updatedBy);
+    addCost(item.cost);
+  };
+
+  days.forEach((d) => d.activities.forEach(addItem));
+  (trip.lodging ?? []).forEach(addItem);
+  expenses.forEach(addItem);
+  (trip.settlements ?? []).forEach((s) => {
+    ids.add(s.fromUserId);
+    ids.add(s.toUserId);
+    ids.add(s.createdBy);
+  });
+  (trip.exchangeRates ?? []).forEach((rate) => ids.add(rate.setBy));
+  return [...ids];
+}
+
+/**
+ * An export's content with user IDs swapped, for importing into a project
+ * where the same people have different IDs
+ * @param userIds - userId in the export -> userId to use; unlisted ones are kept
+ */
+export function remapTripUsers(content: TripExportContent, userIds: Record<string, string>): TripExportContent {
+  const user = (userId: string) => userIds[userId] ?? userId;
+  const remapCost = (c: Cost): Cost => ({
+    ...c,
+    ...(c.paidBy && { paidBy: user(c.paidBy) }),
+    ...(c.splitBetween && { splitBetween: c.splitBetween.map(user) }),
+    ...(c.splitValues && {
+      splitValues: Object.fromEntries(Object.entries(c.splitValues).map(([id, value]) => [user(id), value])),
+    }),
+  });
+  const remapItem = <T extends { createdBy: string; updatedBy?: string; cost?: Cost }>(item: T): T => ({
+    ...item,
+    createdBy: user(item.createdBy),
+    ...(item.updatedBy && { updatedBy: user(item.updatedBy) }),
+    ...(item.cost && { cost: remapCost(item.cost) }),
+  });
+
+  const { trip } = content;
+  return {
+    trip: {
+      ...trip,
+      createdBy: user(trip.createdBy),
+      participants: trip.participants.map((p) => ({ ...p, userId: user(p.userId) })),
+      ...(trip.lodging && { lodging: trip.lodging.map(remapItem) }),
+      ...(trip.settlements && {
+        settlements: trip.settlements.map((s) => ({
+          ...s,
+          fromUserId: user(s.fromUserId),
+          toUserId: user(s.toUserId),
+          createdBy: user(s.createdBy),
+        })),
+      }),
+      ...(trip.exchangeRates && {
+        exchangeRates: trip.exchangeRates.map((rate) => ({ ...rate, setBy: user(rate.setBy) })),
+      }),
+    },
+    days: content.days.map((d) => ({ ...d, activities: d.activities.map(remapItem) })),
+    expenses: content.expenses.map(remapItem),
+  };
+}
@@ -0,0 +1,688 @@
+/**
+ * iCalendar Utilities
+ * A trip's itinerary as an RFC 5545 calendar, for downloads and calendar feeds,
+ * and calendar events read back in as activities
+ *
+ * Every activity becomes a VEVENT whose UID is its activityId, so re-importing
+ * or re-fetching a calendar updates events instead of duplicating them. Timed
+ * activities keep their own time zone (a flight leaves in its origin's and
+ * lands in its destination's), described by a VTIMEZONE built from the
+ * runtime's zone data; activities without a start time are all-day events on
+ * their day.
+ *
+ * Reading goes the other way: TZIDs are taken as IANA zone names (or the
+ * X-LIC-LOCATION of their VTIMEZONE), and times in a zone this runtime doesn't
+ * know are read as local to the trip.
+ */
+import { Timestamp } from 'firebase/firestore';
+import type { Trip, Activity, ActivityType, CalendarScope, CalendarEvent, CalendarImportItem } from '../types';
+import { toCalendarDate, addCalendarDays, getTimeZoneOffset, fromZonedTime, isValidTimeZone } from './dates';
+import { getActivityTimeZone, getActivityEndTimeZone, formatFlightRoute, formatFlightDetails } from './activities';
+import { getAirport } from './airports';
+import { getBudgetCategoryLabel } from './budget';
+import { getCostShares } from './settlement';
+import { validateActivity } from './schedule';
+
+const PRODUCT_ID = '-//Trip Organizer//Trip Calendar//EN';
+
+/**
+ * Domain part of every UID, so activityIds can't clash with other calendars' events
+ */
+const UID_DOMAIN = 'trip-organizer';
+
+/**
+ * How often calendar apps should re-fetch a feed
+ */
+const REFRESH_INTERVAL = 'PT1H';
+
+/**
+ * Longest content line before folding, in octets (RFC 5545 3.1)
+ */
+const MAX_LINE_OCTETS = 75;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * Zones written as UTC ("...Z") instead of with a VTIMEZONE
+ */
+const UTC_ZONES = /^(Etc\/)?(UTC|UCT|GMT|Zulu|Universal)$/;
+
+/**
+ * Keywords that suggest an imported event's activity type, checked in order
+ */
+const TYPE_KEYWORDS: [ActivityType, RegExp][] = [
+  ['flight', /\b(flights?|fly|flying|airlines?|airways|boarding|departs? from [A-Z]{3}|[A-Z]{3}\s*(→|->|to)\s*[A-Z]{3})\b/i],
+  ['hotel', /\b(hotels?|hostels?|motel|inn|resort|airbnb|check[- ]?in|check[- ]?out|stay at|accommodation|lodging|guesthouse|b&b)\b/i],
+  ['restaurant', /\b(restaurants?|dinner|lunch|breakfast|brunch|caf[eé]|bistro|brasserie|trattoria|tavern|pub|bar|table for|food|drinks)\b/i],
+  ['transport', /\b(trains?|rail|bus|coach|ferry|taxi|uber|lyft|car rental|rental car|hire car|shuttle|transfer|metro|subway|tram|cruise)\b/i],
+  ['attraction', /\b(museums?|tours?|tickets?|gallery|galleries|exhibit(ion)?|concert|show|theat(er|re)|opera|park|zoo|aquarium|castle|palace|cathedral|temple|visit|sightseeing|excursion)\b/i],
+];
+
+/**
+ * A property as read from a content line, e.g. DTSTART;TZID=Europe/Paris:20250701T093000
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+type CalendarTrip = Pick<Trip, 'tripId' | 'title' | 'days' | 'participants'>;
+
+type ImportTrip = Pick<Trip, 'startDate' | 'endDate' | 'days'>;
+
+export interface CalendarOptions {
+  scope?: CalendarScope;       // Defaults to 'trip'
+  userId?: string;             // Who a 'participant' calendar is for
+  tripUrl?: string;            // Link back to the trip, added to every event
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a content line into lines of at most 75 octets, never inside a character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * DATE-TIME fields of an instant as read in UTC, e.g. "20250701T093000"
+ */
+function formatUtcFields(date: Date): string {
+  return (
+    `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  );
+}
+
+/**
+ * UTC DATE-TIME, e.g. "20250701T073000Z"
+ */
+function formatUtc(date: Date): string {
+  return `${formatUtcFields(date)}Z`;
+}
+
+/**
+ * Local DATE-TIME of an instant in a time zone, e.g. "20250701T093000"
+ */
+function formatLocal(date: Date, timeZone: string): string {
+  return formatUtcFields(new Date(date.getTime() + getTimeZoneOffset(date, timeZone)));
+}
+
+/**
+ * UTC offset as in TZOFFSETFROM/TZOFFSETTO, e.g. "+0530"
+ */
+function formatOffset(offset: number): string {
+  const minutes = Math.round(Math.abs(offset) / MS_PER_MINUTE);
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+/**
+ * A DTSTART or DTEND property for an instant in a time zone
+ */
+function formatTimeProperty(name: string, date: Date, timeZone: string): string {
+  return UTC_ZONES.test(timeZone)
+    ? `${name}:${formatUtc(date)}`
+    : `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}`;
+}
+
+/**
+ * Instants at which a time zone's offset changes between two instants
+ * Found day by day, then narrowed down to the minute
+ */
+function findOffsetChanges(timeZone: string, from: number, to: number): number[] {
+  const changes: number[] = [];
+  let previous = from;
+  let previousOffset = getTimeZoneOffset(new Date(from), timeZone);
+
+  for (let time = from + MS_PER_DAY; previous < to; time += MS_PER_DAY) {
+    const next = Math.min(time, to);
+    const offset = getTimeZoneOffset(new Date(next), timeZone);
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = next;
+      while (high - low > MS_PER_MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MS_PER_MINUTE) * MS_PER_MINUTE;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      changes.push(high);
+    }
+    previous = next;
+    previousOffset = offset;
+  }
+  return changes;
+}
+
+/**
+ * VTIMEZONE for a zone, with an observance for each offset it has between two instants
+ * Offsets above the zone's lowest that year are daylight saving time.
+ */
+function buildTimeZone(timeZone: string, from: number, to: number): string[] {
+  const year = new Date(from).getUTCFullYear();
+  const standardOffset = Math.min(
+    getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone),
+    getTimeZoneOffset(new Date(Date.UTC(year, 6, 1)), timeZone)
+  );
+
+  const observance = (onset: number, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      // The onset is local time as it was before the change
+      `DTSTART:${formatUtcFields(new Date(onset + offsetFrom))}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  let offset = getTimeZoneOffset(new Date(from), timeZone);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observance(from, offset, offset)];
+  findOffsetChanges(timeZone, from, to).forEach((change) => {
+    const offsetTo = getTimeZoneOffset(new Date(change), timeZone);
+    lines.push(...observance(change, offset, offsetTo));
+    offset = offsetTo;
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Whether an activity is one a participant takes part in
+ * Activities without a cost are everyone's; ones with a cost belong to
+ * whoever pays it and whoever has a share of it
+ */
+function isActivityFor(activity: Activity, userId: string, participantIds: string[]): boolean {
+  if (!activity.cost || !(activity.cost.amount > 0)) return true;
+  if (activity.cost.paidBy === userId) return true;
+  return (getCostShares(activity.cost, participantIds).get(userId) ?? 0) > 0;
+}
+
+/**
+ * LOCATION text of an activity: its place, or a flight's departure airport
+ */
+function describeLocation(activity: Activity): string {
+  if (activity.location) {
+    return [activity.location.name, activity.location.address].filter(Boolean).join(', ');
+  }
+  if (activity.flight) {
+    const airport = getAirport(activity.flight.origin.airport);
+    return airport ? `${airport.name} (${airport.iata})` : activity.flight.origin.airport;
+  }
+  return '';
+}
+
+/**
+ * GEO coordinates of an activity, from its place or a flight's departure airport
+ */
+function getCoordinates(activity: Activity): { lat: number; lng: number } | null {
+  if (activity.location?.coordinates) return activity.location.coordinates;
+  if (activity.flight) return getAirport(activity.flight.origin.airport)?.coordinates ?? null;
+  return null;
+}
+
+/**
+ * DESCRIPTION text of an activity
+ * Confirmation codes are left out: anyone holding a feed's link can read it
+ */
+function describeActivity(activity: Activity, tripUrl?: string): string {
+  const flight = activity.flight && [
+    formatFlightRoute(activity.flight),
+    activity.flight.carrier,
+    formatFlightDetails({ ...activity.flight, confirmationCode: undefined }),
+  ].filter(Boolean).join('\n');
+  return [flight, activity.description, activity.notes, tripUrl].filter(Boolean).join('\n\n');
+}
+
+/**
+ * A trip as an iCalendar document
+ * @param trip - Trip with its days and activities
+ * @param timeZone - Trip's time zone, which names each day's date
+ * @param options - Whose activities to include, and a link back to the trip
+ * @returns The .ics text, with CRLF line endings
+ */
+export function toICalendar(trip: CalendarTrip, timeZone: string, options: CalendarOptions = {}): string {
+  const { scope = 'trip', userId, tripUrl } = options;
+  const participantIds = trip.participants.map((p) => p.userId);
+  const person = scope === 'participant' ? trip.participants.find((p) => p.userId === userId) : undefined;
+  if (scope === 'participant' && !person) {
+    throw new Error('Not a participant of this trip');
+  }
+
+  const events: string[][] = [];
+  const zoneTimes = new Map<string, number[]>();     // Instants written in each zone
+  const useZone = (zone: string, date: Date) => {
+    zoneTimes.set(zone, [...(zoneTimes.get(zone) ?? []), date.getTime()]);
+  };
+
+  trip.days.forEach((day) => {
+    const date = toCalendarDate(day.date.toDate(), timeZone);
+    day.activities
+      .filter((activity) => !person || isActivityFor(activity, person.userId, participantIds))
+      .forEach((activity) => {
+        const lines = [
+          'BEGIN:VEVENT',
+          `UID:${activity.activityId}@${UID_DOMAIN}`,
+          `DTSTAMP:${formatUtc(activity.updatedAt.toDate())}`,
+          `CREATED:${formatUtc(activity.createdAt.toDate())}`,
+          `LAST-MODIFIED:${formatUtc(activity.updatedAt.toDate())}`,
+        ];
+
+        if (activity.startTime) {
+          const startZone = getActivityTimeZone(activity, timeZone);
+          const start = activity.startTime.toDate();
+          lines.push(formatTimeProperty('DTSTART', start, startZone));
+          useZone(startZone, start);
+          if (activity.endTime) {
+            const endZone = getActivityEndTimeZone(activity, timeZone);
+            const end = activity.endTime.toDate();
+            lines.push(formatTimeProperty('DTEND', end, endZone));
+            useZone(endZone, end);
+          }
+        } else {
+          lines.push(
+            `DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`,
+            `DTEND;VALUE=DATE:${addCalendarDays(date, 1).replace(/-/g, '')}`
+          );
+        }
+
+        lines.push(`SUMMARY:${escapeText(activity.title)}`);
+        const location = describeLocation(activity);
+        if (location) {
+          lines.push(`LOCATION:${escapeText(location)}`);
+        }
+        const coordinates = getCoordinates(activity);
+        if (coordinates) {
+          lines.push(`GEO:${coordinates.lat};${coordinates.lng}`);
+        }
+        const description = describeActivity(activity, tripUrl);
+        if (description) {
+          lines.push(`DESCRIPTION:${escapeText(description)}`);
+        }
+        lines.push(`CATEGORIES:${escapeText(getBudgetCategoryLabel(activity.type))}`);
+        if (tripUrl) {
+          lines.push(`URL:${tripUrl}`);
+        }
+        lines.push('END:VEVENT');
+        events.push(lines);
+      });
+  });
+
+  const name = person ? `${trip.title} (${person.displayName})` : trip.title;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+  [...zoneTimes]
+    .filter(([zone]) => !UTC_ZONES.test(zone))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .forEach(([zone, times]) => {
+      // A day either side, so every event falls inside an observance
+      lines.push(...buildTimeZone(zone, Math.min(...times) - MS_PER_DAY, Math.max(...times) + MS_PER_DAY));
+    });
+  events.forEach((event) => lines.push(...event));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a trip's calendar download, e.g. "summer-in-japan.ics"
+ */
+export function getCalendarFileName(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'trip'}.ics`;
+}
+
+/**
+ * Undo escapeText
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Physical lines joined back into content lines (RFC 5545 3.1)
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+/**
+ * Split a content line into its name, parameters and value
+ * A colon or semicolon inside a quoted parameter value doesn't count
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * IANA zone for a TZID, or undefined when this runtime doesn't know it
+ * Some calendars prefix the name with a path ("/mozilla.org/20050126_1/Europe/Paris")
+ * @param aliases - X-LIC-LOCATION of each VTIMEZONE in the file, by TZID
+ */
+function resolveTimeZone(tzid: string, aliases: Map<string, string>): string | undefined {
+  const candidates = [tzid, aliases.get(tzid), tzid.match(/[A-Za-z_]+\/[A-Za-z_+-]+(\/[A-Za-z_+-]+)?$/)?.[0]];
+  return candidates.find((zone): zone is string => !!zone && isValidTimeZone(zone));
+}
+
+/**
+ * A DTSTART/DTEND value: a date for all-day events, otherwise an instant
+ * @param timeZone - Zone for floating times and TZIDs that couldn't be resolved
+ */
+function parseTimeValue(
+  line: ContentLine,
+  timeZone: string,
+  aliases: Map<string, string>
+): { date: string } | { time: Date; timeZone?: string } | null {
+  const dateOnly = line.value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || line.params.VALUE === 'DATE') {
+    return dateOnly ? { date: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` } : null;
+  }
+
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (utc) {
+    return { time: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)) };
+  }
+  const zone = line.params.TZID ? resolveTimeZone(line.params.TZID, aliases) : undefined;
+  const time = fromZonedTime(`${year}-${month}-${day}`, zone ?? timeZone, `${hour}:${minute}`);
+  return { time: new Date(time.getTime() + Number(second) * 1000), timeZone: zone };
+}
+
+/**
+ * Length of a DURATION value (RFC 5545 3.3.6), e.g. "PT1H30M" or "P1W"
+ * @returns Milliseconds, or null if it can't be read
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0');
+  const total =
+    ((Number(weeks) * 7 + Number(days)) * 24 * 60 + Number(hours) * 60 + Number(minutes)) * MS_PER_MINUTE +
+    Number(seconds) * 1000;
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * An event from the properties of one VEVENT
+ * @returns null for events without a start, and cancelled ones
+ */
+function toCalendarEvent(lines: ContentLine[], timeZone: string, aliases: Map<string, string>): CalendarEvent | null {
+  const get = (name: string) => lines.find((line) => line.name === name);
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const startLine = get('DTSTART');
+  const start = startLine && parseTimeValue(startLine, timeZone, aliases);
+  if (!start) return null;
+
+  const endLine = get('DTEND') ?? get('DUE');
+  const end = endLine ? parseTimeValue(endLine, timeZone, aliases) : null;
+  const duration = get('DURATION') ? parseDuration(get('DURATION')!.value) : null;
+
+  const text = (name: string) => {
+    const value = get(name) && unescapeText(get(name)!.value).trim();
+    return value || undefined;
+  };
+  const event: CalendarEvent = {
+    title: text('SUMMARY') ?? 'Untitled event',
+    categories: lines
+      .filter((line) => line.name === 'CATEGORIES')
+      .flatMap((line) => line.value.split(/(?<!\\),/).map((category) => unescapeText(category).trim()))
+      .filter(Boolean),
+    recurring: !!get('RRULE'),
+  };
+  const uid = text('UID');
+  if (uid) event.uid = uid;
+  const description = text('DESCRIPTION');
+  if (description) event.description = description;
+  const location = text('LOCATION');
+  if (location) event.location = location;
+  const [lat, lng] = (get('GEO')?.value ?? '').split(/[;,]/).map(Number);
+  if (Number.isFinite(lat) && Number.isFinite(lng) && get('GEO')) {
+    event.coordinates = { lat, lng };
+  }
+
+  if ('date' in start) {
+    event.startDate = start.date;
+    // DTEND of an all-day event is the day after it ends
+    const endDate =
+      end && 'date' in end
+        ? addCalendarDays(end.date, -1)
+        : duration
+          ? addCalendarDays(start.date, Math.max(Math.round(duration / MS_PER_DAY) - 1, 0))
+          : start.date;
+    if (endDate > start.date) event.endDate = endDate;
+  } else {
+    event.startTime = start.time;
+    if (start.timeZone) event.timeZone = start.timeZone;
+    const endTime = end && 'time' in end ? end.time : duration ? new Date(start.time.getTime() + duration) : null;
+    if (endTime && endTime > start.time) event.endTime = endTime;
+  }
+  return event;
+}
+
+/**
+ * Events in an iCalendar file
+ * Only the first occurrence of a recurring event is read, and modified
+ * occurrences (RECURRENCE-ID) and cancelled events are skipped.
+ * @param text - Contents of the .ics file
+ * @param timeZone - Zone that floating times are local to (the trip's)
+ * @throws Error if it isn't an iCalendar file
+ */
+export function parseICalendar(text: string, timeZone: string): CalendarEvent[] {
+  const lines = unfoldLines(text)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+  if (!lines.some((line) => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    throw new Error('Not an iCalendar (.ics) file');
+  }
+
+  // Components nest, so track which one each property belongs to
+  const aliases = new Map<string, string>();
+  const eventLines: ContentLine[][] = [];
+  const stack: string[] = [];
+  let tzid = '';
+  lines.forEach((line) => {
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.toUpperCase());
+      if (stack[stack.length - 1] === 'VEVENT') eventLines.push([]);
+      return;
+    }
+    if (line.name === 'END') {
+      stack.pop();
+      return;
+    }
+    const component = stack[stack.length - 1];
+    if (component === 'VEVENT') {
+      eventLines[eventLines.length - 1].push(line);
+    } else if (component === 'VTIMEZONE' && line.name === 'TZID') {
+      tzid = line.value;
+    } else if (component === 'VTIMEZONE' && line.name === 'X-LIC-LOCATION') {
+      aliases.set(tzid, line.value);
+    }
+  });
+
+  const seenUids = new Set<string>();
+  return eventLines
+    .filter((event) => !event.some((line) => line.name === 'RECURRENCE-ID'))
+    .map((event) => toCalendarEvent(event, timeZone, aliases))
+    .filter((event): event is CalendarEvent => {
+      if (!event) return false;
+      if (!event.uid) return true;
+      if (seenUids.has(event.uid)) return false;
+      seenUids.add(event.uid);
+      return true;
+    });
+}
+
+/**
+ * Best guess at an activity type from an event's title, categories and description
+ * The title and categories are checked before the description
+ */
+export function guessActivityType(event: Pick<CalendarEvent, 'title' | 'categories' | 'description'>): ActivityType {
+  for (const text of [[event.title, ...event.categories].join(' '), event.description ?? '']) {
+    const plain = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    const match = TYPE_KEYWORDS.find(([, keywords]) => keywords.test(plain));
+    if (match) return match[0];
+  }
+  return 'other';
+}
+
+/**
+ * Title as compared for duplicates: case, accents, punctuation and spacing ignored
+ */
+function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * The activity an event would become
+ * Times in the trip's zone, UTC or a floating time leave the activity's zone unset
+ */
+function toActivityData(event: CalendarEvent, tripTimeZone: string): CalendarImportItem['activityData'] {
+  const activityData: CalendarImportItem['activityData'] = {
+    title: event.title,
+    type: guessActivityType(event),
+  };
+  if (event.description) activityData.description = event.description;
+  if (event.startTime) activityData.startTime = Timestamp.fromDate(event.startTime);
+  if (event.endTime) activityData.endTime = Timestamp.fromDate(event.endTime);
+  if (event.startTime && event.timeZone && event.timeZone !== tripTimeZone && !UTC_ZONES.test(event.timeZone)) {
+    activityData.timeZone = event.timeZone;
+  }
+  if (event.location || event.coordinates) {
+    // "Place, street, city": the first part names it and the rest is its address
+    const [name, ...address] = (event.location ?? event.title).split(/,\s*/);
+    activityData.location = { name };
+    if (address.length > 0) activityData.location.address = address.join(', ');
+    if (event.coordinates) activityData.location.coordinates = event.coordinates;
+  }
+  return activityData;
+}
+
+/**
+ * What importing calendar events into a trip would add
+ * Each event lands on the day of its local start date in the trip's time zone
+ * (all-day events on their first day); events that start outside the trip get
+ * no day. An event is a duplicate of an existing activity when it's one this
+ * app exported (same UID), or has the same title on the same day at the same
+ * start time, or without one.
+ * @param trip - Trip with its days and activities
+ * @param events - From parseICalendar
+ * @param timeZone - Trip's settings.timezone
+ */
+export function planCalendarImport(
+  trip: ImportTrip,
+  events: CalendarEvent[],
+  timeZone: string
+): CalendarImportItem[] {
+  const daysByDate = new Map(trip.days.map((day) => [toCalendarDate(day.date.toDate(), timeZone), day]));
+
+  return events.map((event) => {
+    const activityData = toActivityData(event, timeZone);
+    const date = event.startDate ?? toCalendarDate(event.startTime!, timeZone);
+    const day = daysByDate.get(date);
+    const fitsTrip = () =>
+      !!day && validateActivity({ activityId: '', ...activityData }, day.dayId, trip, timeZone).length === 0;
+    // Activities are dated in their own zone; one that starts the evening before
+    // elsewhere (an overnight flight in) is shown in the trip's zone instead
+    if (activityData.timeZone && !fitsTrip()) {
+      delete activityData.timeZone;
+    }
+    const item: CalendarImportItem = { event, dayId: fitsTrip() ? day!.dayId : null, activityData };
+
+    const exportedId = event.uid?.endsWith(`@${UID_DOMAIN}`) ? event.uid.slice(0, -UID_DOMAIN.length - 1) : null;
+    const title = normalizeTitle(event.title);
+    const duplicate = trip.days
+      .flatMap((tripDay) => tripDay.activities.map((activity) => ({ activity, dayId: tripDay.dayId })))
+      .find(({ activity, dayId }) => {
+        if (activity.activityId === exportedId) return true;
+        if (dayId !== day?.dayId || normalizeTitle(activity.title) !== title) return false;
+        return !activity.startTime || !event.startTime || activity.startTime.toMillis() === event.startTime.getTime();
+      });
+    if (duplicate) item.duplicateOf = duplicate.activity.activityId;
+    return item;
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Lodging Utilities
+ * Which stay covers which night, in calendar dates of the trip's time zone
+ *
+ * A "night" is named by the calendar date it starts on. A trip's nights run
+ * from its start date up to the day before its end date.
+ */
+import { Timestamp } from 'firebase/firestore';
+import type { Lodging } from '../types';
+import { toCalendarDate, addCalendarDays, diffCalendarDays, eachCalendarDate } from './dates';
+
+type LodgingDates = Pick<Lodging, 'checkInDate' | 'checkOutDate'>;
+
+/**
+ * Check for a real YYYY-MM-DD calendar date
+ */
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Number of nights a stay covers
+ */
+export function countNights(lodging: LodgingDates): number {
+  return diffCalendarDays(lodging.checkInDate, lodging.checkOutDate);
+}
+
+/**
+ * Whether a stay covers the night starting on a calendar date
+ */
+export function coversNight(lodging: LodgingDates, calendarDate: string): boolean {
+  return lodging.checkInDate <= calendarDate && calendarDate < lodging.checkOutDate;
+}
+
+/**
+ * Stays covering the night starting on a calendar date ("where we sleep tonight")
+ * More than one means the group is split up that night
+ */
+export function getLodgingForNight<L extends LodgingDates>(lodging: L[], calendarDate: string): L[] {
+  return lodging.filter((stay) => coversNight(stay, calendarDate));
+}
+
+/**
+ * Nights of a trip, as the calendar dates they start on
+ * The last day has no night: that's when the trip ends
+ */
+export function getTripNights(startDate: Timestamp, endDate: Timestamp, timeZone: string): string[] {
+  const start = toCalendarDate(startDate.toDate(), timeZone);
+  const end = toCalendarDate(endDate.toDate(), timeZone);
+  return end > start ? eachCalendarDate(start, addCalendarDays(end, -1)) : [];
+}
+
+/**
+ * Nights of a trip that no stay covers
+ */
+export function getUncoveredNights(
+  trip: { startDate: Timestamp; endDate: Timestamp; lodging?: LodgingDates[] },
+  timeZone: string
+): string[] {
+  const lodging = trip.lodging ?? [];
+  return getTripNights(trip.startDate, trip.endDate, timeZone).filter(
+    (night) => getLodgingForNight(lodging, night).length === 0
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Phone Number Utilities
+ * Normalization to E.164 (+<country code><number>), the format Firebase Auth expects
+ */
+
+/**
+ * Country calling code assumed when the user types a national number
+ */
+export const DEFAULT_COUNTRY_CODE = '1';
+
+/**
+ * E.164: a plus sign and up to 15 digits, no leading zero in the country code
+ */
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Check whether a string is already a valid E.164 phone number
+ * @param phoneNumber - Phone number to check
+ */
+export function isValidE164(phoneNumber: string): boolean {
+  return E164_PATTERN.test(phoneNumber);
+}
+
+/**
+ * Normalize user input to E.164
+ * Accepts spaces, dashes, dots and parentheses, a leading "00" instead of "+",
+ * and 10-digit national numbers in the default country (with or without a trunk "1").
+ * @param input - Phone number as typed
+ * @param defaultCountryCode - Calling code for numbers typed without one
+ * @returns E.164 phone number, or null if the input can't be one
+ */
+export function normalizePhoneNumber(
+  input: string,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  // Only formatting characters may appear besides the digits and a leading +/00
+  if (!/^(\+|00)?[\d\s().-]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, '');
+  let normalized: string;
+
+  if (trimmed.startsWith('+')) {
+    normalized = `+${digits}`;
+  } else if (trimmed.startsWith('00')) {
+    normalized = `+${digits.slice(2)}`;
+  } else if (defaultCountryCode === '1') {
+    // North American numbers are 10 digits, often typed with the trunk prefix
+    const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+    if (national.length !== 10) return null;
+    normalized = `+1${national}`;
+  } else {
+    normalized = `+${defaultCountryCode}${digits}`;
+  }
+
+  return isValidE164(normalized) ? normalized : null;
+}
+
+/**
+ * Format an E.164 number for display
+ * North American numbers become "+1 (415) 301-8471"; others are left as-is
+ * @param phoneNumber - E.164 phone number
+ */
+export function formatPhoneNumber(phoneNumber: string): string {
+  const match = /^\+1(\d{3})(\d{3})(\d{4})$/.exec(phoneNumber);
+  if (!match) return phoneNumber;
+  return `+1 (${match[1]}) ${match[2]}-${match[3]}`;
+}
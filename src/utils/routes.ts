@@ -0,0 +1,102 @@
+/**
+ * App Routes
+ * Mapping between URLs and the views App.tsx renders
+ *
+ *   /                                             dashboard
+ *   /trips/{tripId}                               trip
+ *   /trips/{tripId}/days/{dayId}#{activityId}     trip, scrolled to a day (and activity)
+ *   /share/{shareToken}                           public read-only trip, no sign-in
+ *   /invite/{inviteId}                            invite link
+ *
+ * Hosting rewrites every path to index.html (firebase.json), so any of these
+ * can be opened directly or after a reload.
+ */
+
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'trip'; tripId: string; dayId?: string; activityId?: string }
+  | { name: 'share'; shareToken: string }
+  | { name: 'invite'; inviteId: string };
+
+const TRIP_PATTERN = /^\/trips\/([^/]+)(?:\/days\/([^/]+))?\/?$/;
+const SHARE_PATTERN = /^\/share\/([^/]+)\/?$/;
+const INVITE_PATTERN = /^\/invite\/([^/]+)\/?$/;
+
+function decode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Route for a URL path and hash
+ * @param pathname - e.g. window.location.pathname
+ * @param hash - e.g. window.location.hash ("#activityId"); only used on day links
+ * @returns Route, or null if the URL doesn't name one
+ */
+export function parseRoute(pathname: string, hash: string = ''): Route | null {
+  if (pathname === '/' || pathname === '') {
+    return { name: 'dashboard' };
+  }
+
+  const trip = TRIP_PATTERN.exec(pathname);
+  if (trip) {
+    const tripId = decode(trip[1]);
+    const dayId = trip[2] ? decode(trip[2]) : undefined;
+    if (!tripId || dayId === null) return null;
+
+    const route: Route = { name: 'trip', tripId };
+    if (dayId) {
+      route.dayId = dayId;
+      const activityId = hash.length > 1 ? decode(hash.slice(1)) : null;
+      if (activityId) {
+        route.activityId = activityId;
+      }
+    }
+    return route;
+  }
+
+  const share = SHARE_PATTERN.exec(pathname);
+  if (share) {
+    const shareToken = decode(share[1]);
+    return shareToken ? { name: 'share', shareToken } : null;
+  }
+
+  const invite = INVITE_PATTERN.exec(pathname);
+  if (invite) {
+    const inviteId = decode(invite[1]);
+    return inviteId ? { name: 'invite', inviteId } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Path (and hash) for a route
+ * An activity is only addressable within its day
+ */
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'dashboard':
+      return '/';
+    case 'trip': {
+      const tripPath = `/trips/${encodeURIComponent(route.tripId)}`;
+      if (!route.dayId) return tripPath;
+      const dayPath = `${tripPath}/days/${encodeURIComponent(route.dayId)}`;
+      return route.activityId ? `${dayPath}#${encodeURIComponent(route.activityId)}` : dayPath;
+    }
+    case 'share':
+      return `/share/${encodeURIComponent(route.shareToken)}`;
+    case 'invite':
+      return `/invite/${encodeURIComponent(route.inviteId)}`;
+  }
+}
+
+/**
+ * Absolute URL for a route on the current host, for links people share
+ */
+export function routeUrl(route: Route): string {
+  return `${window.location.origin}${routePath(route)}`;
+}
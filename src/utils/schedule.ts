@@ -0,0 +1,242 @@
+/**
+ * Schedule Validation
+ * Checks a trip's itinerary for times that can't be right and plans worth a second look
+ *
+ * validateActivity covers what a single activity can get wrong on its own;
+ * those are the hard errors addActivity/updateActivity refuse. validateTrip
+ * adds what needs the whole trip: overlapping activities, plans before the
+ * flight in lands or after the flight home leaves, and nights with no lodging.
+ */
+import { Timestamp } from 'firebase/firestore';
+import type {
+  Activity,
+  Lodging,
+  ScheduleFinding,
+  InvalidTimesFinding,
+  OutsideTripFinding,
+  OverlapFinding,
+  FlightWindowFinding,
+  NightWithoutLodgingFinding,
+} from '../types';
+import { toCalendarDate, toWallClockTime } from './dates';
+import { getActivityTimeZone, getActivityEndTimeZone, formatFlightRoute } from './activities';
+import { getTripNights, getLodgingForNight } from './lodging';
+
+type ScheduledActivity = Pick<Activity, 'activityId' | 'title' | 'type' | 'startTime' | 'endTime' | 'timeZone' | 'flight'>;
+
+interface ScheduleTrip {
+  startDate: Timestamp;
+  endDate: Timestamp;
+  days: { dayId: string; date: Timestamp; activities: ScheduledActivity[] }[];
+  lodging?: Pick<Lodging, 'checkInDate' | 'checkOutDate'>[];
+}
+
+/**
+ * An activity placed on the trip's timeline
+ */
+interface TimedActivity {
+  dayId: string;
+  activity: ScheduledActivity;
+  start: number;               // ms
+  end: number;                 // ms; the start for activities without an end time
+}
+
+/**
+ * Order of findings on screen: errors first, then by kind
+ */
+const KIND_ORDER: ScheduleFinding['kind'][] = [
+  'invalid-times',
+  'outside-trip',
+  'overlap',
+  'before-arrival',
+  'after-departure',
+  'night-without-lodging',
+];
+
+/**
+ * Findings about one activity on its own
+ * @param activity - Activity as it would be saved
+ * @param dayId - Day the activity is listed under
+ * @param trip - Trip dates
+ * @param tripTimeZone - Trip's settings.timezone
+ * @returns Hard errors only: end before start, and starting outside the trip
+ */
+export function validateActivity(
+  activity: ScheduledActivity,
+  dayId: string,
+  trip: Pick<ScheduleTrip, 'startDate' | 'endDate'>,
+  tripTimeZone: string
+): (InvalidTimesFinding | OutsideTripFinding)[] {
+  const findings: (InvalidTimesFinding | OutsideTripFinding)[] = [];
+  const { activityId, startTime, endTime } = activity;
+
+  if (startTime && endTime && endTime.toMillis() <= startTime.toMillis()) {
+    findings.push({
+      kind: 'invalid-times',
+      severity: 'error',
+      dayId,
+      activityId,
+      message: `${activity.title}: the end time must be after the start time.`,
+    });
+  }
+
+  // Dated where the time was entered, so a flight leaving the day before in its
+  // own zone still counts as the trip's first day
+  const first = startTime ?? endTime;
+  if (first) {
+    const zone = startTime ? getActivityTimeZone(activity, tripTimeZone) : getActivityEndTimeZone(activity, tripTimeZone);
+    const date = toCalendarDate(first.toDate(), zone);
+    const tripStart = toCalendarDate(trip.startDate.toDate(), tripTimeZone);
+    const tripEnd = toCalendarDate(trip.endDate.toDate(), tripTimeZone);
+    if (date < tripStart || date > tripEnd) {
+      findings.push({
+        kind: 'outside-trip',
+        severity: 'error',
+        dayId,
+        activityId,
+        date,
+        message: `${activity.title} is on ${date}, outside the trip (${tripStart} to ${tripEnd}).`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Activities that run at the same time, reported once for each side
+ * Hotel stays are left out: they span the evening's plans by design
+ */
+function findOverlaps(timed: TimedActivity[]): OverlapFinding[] {
+  const findings: OverlapFinding[] = [];
+  const candidates = timed.filter(({ activity }) => activity.type !== 'hotel');
+
+  candidates.forEach((a, i) => {
+    for (const b of candidates.slice(i + 1)) {
+      if (b.start > a.start && b.start >= a.end) break;
+
+      for (const [self, other] of [[a, b], [b, a]]) {
+        findings.push({
+          kind: 'overlap',
+          severity: 'warning',
+          dayId: self.dayId,
+          activityId: self.activity.activityId,
+          otherDayId: other.dayId,
+          otherActivityId: other.activity.activityId,
+          message: `${self.activity.title} overlaps with ${other.activity.title}.`,
+        });
+      }
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Activities planned before the flight into the trip lands or after the flight home leaves
+ * The flight in is the first day's earliest flight, the flight home the last day's latest
+ */
+function findOutsideFlights(trip: ScheduleTrip, timed: TimedActivity[], tripTimeZone: string): FlightWindowFinding[] {
+  const findings: FlightWindowFinding[] = [];
+  const flightsOn = (dayId: string | undefined) =>
+    timed.filter((t) => t.dayId === dayId && t.activity.type === 'flight');
+
+  const arrival = flightsOn(trip.days[0]?.dayId)[0];
+  const departure = flightsOn(trip.days[trip.days.length - 1]?.dayId).pop();
+  const others = timed.filter((t) => t.activity.type !== 'flight');
+
+  const flightLabel = ({ activity }: TimedActivity) =>
+    activity.flight ? formatFlightRoute(activity.flight) : activity.title;
+  const localTime = (ms: number, zone: string) => toWallClockTime(new Date(ms), zone);
+
+  if (arrival) {
+    const landsAt = arrival.activity.endTime?.toMillis() ?? arrival.start;
+    const zone = getActivityEndTimeZone(arrival.activity, tripTimeZone);
+    others
+      .filter((t) => t.start < landsAt)
+      .forEach((t) => findings.push({
+        kind: 'before-arrival',
+        severity: 'warning',
+        dayId: t.dayId,
+        activityId: t.activity.activityId,
+        flightDayId: arrival.dayId,
+        flightActivityId: arrival.activity.activityId,
+        message: `${t.activity.title} starts before ${flightLabel(arrival)} lands (${localTime(landsAt, zone)}).`,
+      }));
+  }
+
+  if (departure && departure !== arrival) {
+    const zone = getActivityTimeZone(departure.activity, tripTimeZone);
+    others
+      .filter((t) => t.end > departure.start)
+      .forEach((t) => findings.push({
+        kind: 'after-departure',
+        severity: 'warning',
+        dayId: t.dayId,
+        activityId: t.activity.activityId,
+        flightDayId: departure.dayId,
+        flightActivityId: departure.activity.activityId,
+        message: `${t.activity.title} runs past the departure of ${flightLabel(departure)} (${localTime(departure.start, zone)}).`,
+      }));
+  }
+
+  return findings;
+}
+
+/**
+ * Nights of the trip that no lodging covers, on the day each night follows
+ */
+function findNightsWithoutLodging(trip: ScheduleTrip, tripTimeZone: string): NightWithoutLodgingFinding[] {
+  const lodging = trip.lodging ?? [];
+  const dayIdsByDate = new Map(trip.days.map((day) => [toCalendarDate(day.date.toDate(), tripTimeZone), day.dayId]));
+
+  return getTripNights(trip.startDate, trip.endDate, tripTimeZone)
+    .filter((night) => getLodgingForNight(lodging, night).length === 0 && dayIdsByDate.has(night))
+    .map((night) => ({
+      kind: 'night-without-lodging',
+      severity: 'warning',
+      dayId: dayIdsByDate.get(night)!,
+      night,
+      message: `No lodging for the night of ${night}.`,
+    }));
+}
+
+/**
+ * Check a whole trip's itinerary
+ * @param trip - Trip with its days, activities and lodging
+ * @param tripTimeZone - Trip's settings.timezone
+ * @returns Findings, errors first; empty when the schedule looks fine
+ */
+export function validateTrip(trip: ScheduleTrip, tripTimeZone: string): ScheduleFinding[] {
+  const timed: TimedActivity[] = trip.days
+    .flatMap((day) => day.activities.map((activity) => ({ dayId: day.dayId, activity })))
+    .filter(({ activity }) => activity.startTime)
+    .map(({ dayId, activity }) => {
+      const start = activity.startTime!.toMillis();
+      return { dayId, activity, start, end: Math.max(start, activity.endTime?.toMillis() ?? start) };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const findings: ScheduleFinding[] = [
+    ...trip.days.flatMap((day) =>
+      day.activities.flatMap((activity) => validateActivity(activity, day.dayId, trip, tripTimeZone))
+    ),
+    ...findOverlaps(timed),
+    ...findOutsideFlights(trip, timed, tripTimeZone),
+    ...findNightsWithoutLodging(trip, tripTimeZone),
+  ];
+
+  return findings.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+  );
+}
+
+/**
+ * Findings about an activity (overlaps are reported on both activities)
+ * @param findings - Findings from validateTrip
+ * @param activityId - Activity ID
+ */
+export function getActivityFindings(findings: ScheduleFinding[], activityId: string): ScheduleFinding[] {
+  return findings.filter((finding) => 'activityId' in finding && finding.activityId === activityId);
+}
@@ -0,0 +1,275 @@
+/**
+ * Settlement Utilities
+ * Who paid for what, who owes what, and the repayments that would settle up
+ *
+ * Amounts are worked out in the currency's minor units (cents, or yen for
+ * JPY), so shares always add up to the cost exactly: whatever can't be split
+ * evenly goes one unit at a time to the largest remainders. Each currency is
+ * balanced on its own; nothing here converts between currencies (see currency.ts).
+ */
+import type {
+  Trip,
+  Cost,
+  CurrencyBalances,
+  ParticipantBalance,
+  SettlementTransfer,
+} from '../types';
+import { getCurrencyDigits } from './currency';
+
+/**
+ * A cost on the trip and where it comes from
+ */
+export interface CostItem {
+  kind: 'activity' | 'lodging' | 'expense';
+  id: string;                  // activityId, lodgingId or expenseId
+  label: string;               // Activity title, stay name or expense description
+  dayId?: string;              // Set for activities
+  date?: string;               // Set for expenses (YYYY-MM-DD)
+  cost: Cost;
+}
+
+/**
+ * Gap allowed when percentages should add up to 100
+ */
+const PERCENT_TOLERANCE = 0.01;
+
+function toMinorUnits(amount: number, digits: number): number {
+  return Math.round(amount * 10 ** digits);
+}
+
+function fromMinorUnits(units: number, digits: number): number {
+  return units / 10 ** digits;
+}
+
+/**
+ * Divide a whole number of units in proportion to weights
+ * Each part is rounded down, then leftover units go to the largest remainders
+ * (earlier entries first on ties), so the parts add up to total
+ */
+function allocate(total: number, weights: Array<[string, number]>): Map<string, number> {
+  const sum = weights.reduce((acc, [, weight]) => acc + weight, 0);
+  const parts = weights.map(([userId, weight], index) => {
+    const exact = (total * weight) / sum;
+    // Tolerate float error just under a whole number
+    const units = Math.floor(exact + 1e-9);
+    return { userId, units, remainder: exact - units, index };
+  });
+
+  let leftover = total - parts.reduce((acc, part) => acc + part.units, 0);
+  [...parts]
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach((part) => {
+      if (leftover > 0) {
+        part.units += 1;
+        leftover -= 1;
+      }
+    });
+
+  const result = new Map<string, number>();
+  parts.forEach(({ userId, units }) => result.set(userId, (result.get(userId) ?? 0) + units));
+  return result;
+}
+
+/**
+ * Who a cost is split between, with their weights
+ * Equal splits go between splitBetween, or every participant when it's unset;
+ * the other modes use splitValues as weights. An exact split that adds up
+ * (see getCostSplitError) comes out as exactly its amounts.
+ */
+function getSplitWeights(cost: Cost, participantIds: string[]): Array<[string, number]> {
+  if ((cost.splitMode ?? 'equal') === 'equal') {
+    return [...new Set(cost.splitBetween ?? participantIds)].map((userId): [string, number] => [userId, 1]);
+  }
+  return Object.entries(cost.splitValues ?? {}).filter(([, value]) => value > 0);
+}
+
+/**
+ * Each person's share of a cost, in minor units
+ * With nobody to split between, the payer (if any) carries it all
+ */
+function getShareUnits(cost: Cost, participantIds: string[], digits: number): Map<string, number> {
+  const total = toMinorUnits(cost.amount, digits);
+  const weights = getSplitWeights(cost, participantIds);
+  if (weights.length === 0) {
+    return new Map(cost.paidBy ? [[cost.paidBy, total]] : []);
+  }
+  return allocate(total, weights);
+}
+
+/**
+ * Each person's share of a cost
+ * @param participantIds - Who an equal split without splitBetween goes between
+ * @returns userId -> share, adding up to the cost's amount
+ */
+export function getCostShares(cost: Cost, participantIds: string[]): Map<string, number> {
+  const digits = getCurrencyDigits(cost.currency);
+  const units = getShareUnits(cost, participantIds, digits);
+  return new Map([...units].map(([userId, share]) => [userId, fromMinorUnits(share, digits)]));
+}
+
+/**
+ * What's wrong with how a cost is split, if anything
+ * @returns A message to show, or null if the split is usable
+ */
+export function getCostSplitError(cost: Cost): string | null {
+  if (!Number.isFinite(cost.amount) || cost.amount < 0) {
+    return 'Cost must be a positive amount';
+  }
+
+  const mode = cost.splitMode ?? 'equal';
+  if (mode === 'equal') {
+    return cost.splitBetween && cost.splitBetween.length === 0
+      ? 'Pick at least one person to split the cost between'
+      : null;
+  }
+
+  const values = Object.values(cost.splitValues ?? {});
+  if (values.some((value) => !Number.isFinite(value) || value < 0)) {
+    return 'Split values must be positive numbers';
+  }
+  const sum = values.reduce((acc, value) => acc + value, 0);
+  if (sum <= 0) {
+    return 'Give at least one person part of the cost';
+  }
+
+  if (mode === 'exact') {
+    const digits = getCurrencyDigits(cost.currency);
+    const assigned = values.reduce((acc, value) => acc + toMinorUnits(value, digits), 0);
+    if (assigned !== toMinorUnits(cost.amount, digits)) {
+      return `Amounts add up to ${fromMinorUnits(assigned, digits).toFixed(digits)}, not ${cost.amount.toFixed(digits)}`;
+    }
+  }
+  if (mode === 'percent' && Math.abs(sum - 100) > PERCENT_TOLERANCE) {
+    return `Percentages add up to ${Number(sum.toFixed(2))}%, not 100%`;
+  }
+  return null;
+}
+
+/**
+ * Every cost on a trip: activities in itinerary order, then lodging, then expenses by date
+ */
+export function getTripCosts(trip: Pick<Trip, 'days' | 'lodging' | 'expenses'>): CostItem[] {
+  const items: CostItem[] = [];
+  trip.days.forEach((day) => {
+    day.activities.forEach((activity) => {
+      if (activity.cost) {
+        items.push({ kind: 'activity', id: activity.activityId, label: activity.title, dayId: day.dayId, cost: activity.cost });
+      }
+    });
+  });
+  (trip.lodging ?? []).forEach((stay) => {
+    if (stay.cost) {
+      items.push({ kind: 'lodging', id: stay.lodgingId, label: stay.name, cost: stay.cost });
+    }
+  });
+  (trip.expenses ?? []).forEach((expense) => {
+    items.push({ kind: 'expense', id: expense.expenseId, label: expense.description, date: expense.date, cost: expense.cost });
+  });
+  return items;
+}
+
+/**
+ * Everyone's balances, one entry per currency the trip's costs use
+ * Participants always get a row; anyone else a cost or repayment names (e.g.
+ * someone who has left) only when they're involved. Costs nobody paid count
+ * towards the total but not the balances.
+ * @param costs - Costs to balance; defaults to the trip's
+ * @returns Balances by currency code, in alphabetical order
+ */
+export function getTripBalances(
+  trip: Pick<Trip, 'days' | 'lodging' | 'expenses' | 'participants' | 'settlements'>,
+  costs: CostItem[] = getTripCosts(trip)
+): CurrencyBalances[] {
+  const participantIds = trip.participants.map((p) => p.userId);
+  const ledgers = new Map<string, { total: number; unassigned: number; rows: Map<string, ParticipantBalance> }>();
+
+  const ledger = (currency: string) => {
+    if (!ledgers.has(currency)) {
+      const rows = new Map(participantIds.map((userId) => [userId, emptyBalance(userId)]));
+      ledgers.set(currency, { total: 0, unassigned: 0, rows });
+    }
+    return ledgers.get(currency)!;
+  };
+  const row = (currency: string, userId: string) => {
+    const { rows } = ledger(currency);
+    if (!rows.has(userId)) rows.set(userId, emptyBalance(userId));
+    return rows.get(userId)!;
+  };
+
+  costs.forEach(({ cost }) => {
+    const digits = getCurrencyDigits(cost.currency);
+    const units = toMinorUnits(cost.amount, digits);
+    const entry = ledger(cost.currency);
+    entry.total += units;
+    if (!cost.paidBy) {
+      entry.unassigned += units;
+      return;
+    }
+    row(cost.currency, cost.paidBy).paid += units;
+    getShareUnits(cost, participantIds, digits).forEach((share, userId) => {
+      row(cost.currency, userId).owed += share;
+    });
+  });
+
+  (trip.settlements ?? []).forEach((settlement) => {
+    const units = toMinorUnits(settlement.amount, getCurrencyDigits(settlement.currency));
+    row(settlement.currency, settlement.fromUserId).repaid += units;
+    row(settlement.currency, settlement.toUserId).repaidTo += units;
+  });
+
+  return [...ledgers.keys()].sort().map((currency) => {
+    const { total, unassigned, rows } = ledgers.get(currency)!;
+    const digits = getCurrencyDigits(currency);
+    const toMajor = (units: number) => fromMinorUnits(units, digits);
+    return {
+      currency,
+      total: toMajor(total),
+      unassigned: toMajor(unassigned),
+      balances: [...rows.values()].map((balance) => ({
+        userId: balance.userId,
+        paid: toMajor(balance.paid),
+        owed: toMajor(balance.owed),
+        repaid: toMajor(balance.repaid),
+        repaidTo: toMajor(balance.repaidTo),
+        net: toMajor(balance.paid - balance.owed + balance.repaid - balance.repaidTo),
+      })),
+    };
+  });
+}
+
+function emptyBalance(userId: string): ParticipantBalance {
+  return { userId, paid: 0, owed: 0, repaid: 0, repaidTo: 0, net: 0 };
+}
+
+/**
+ * Repayments that would settle everyone's balances in one currency
+ * Repeatedly has whoever owes the most pay whoever is owed the most, so there
+ * is never more than one transfer fewer than the number of people with a balance
+ * @returns Transfers that bring every balance to zero
+ */
+export function getSettleUpTransfers({ currency, balances }: CurrencyBalances): SettlementTransfer[] {
+  const digits = getCurrencyDigits(currency);
+  const people = balances
+    .map(({ userId, net }, index) => ({ userId, units: toMinorUnits(net, digits), index }))
+    .filter(({ units }) => units !== 0);
+  const byLargest = (a: { units: number; index: number }, b: { units: number; index: number }) =>
+    Math.abs(b.units) - Math.abs(a.units) || a.index - b.index;
+
+  const transfers: SettlementTransfer[] = [];
+  for (;;) {
+    const creditor = people.filter((p) => p.units > 0).sort(byLargest)[0];
+    const debtor = people.filter((p) => p.units < 0).sort(byLargest)[0];
+    if (!creditor || !debtor) break;
+
+    const units = Math.min(creditor.units, -debtor.units);
+    creditor.units -= units;
+    debtor.units += units;
+    transfers.push({
+      fromUserId: debtor.userId,
+      toUserId: creditor.userId,
+      amount: fromMinorUnits(units, digits),
+      currency,
+    });
+  }
+  return transfers;
+}
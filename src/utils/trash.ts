@@ -0,0 +1,44 @@
+/**
+ * Trash Utilities
+ * How long deleted trips wait in the trash before they're purged
+ *
+ * The retention period comes from VITE_TRASH_RETENTION_DAYS, read by the app
+ * (to tell owners when a trip goes for good) and by scripts/purge-trash.ts
+ * (which does the purging), so both agree.
+ */
+import type { TripTrash } from '../types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention period from its configured value
+ * @param value - Whole number of days; unset means the default
+ * @throws Error if it isn't a whole number of days (0 purges everything in the trash)
+ */
+export function parseRetentionDays(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Trash retention must be a whole number of days, got "${value}"`);
+  }
+  return days;
+}
+
+/**
+ * When a trip in the trash becomes due for purging
+ */
+export function getPurgeDate(trash: Pick<TripTrash, 'deletedAt'>, retentionDays: number): Date {
+  return new Date(trash.deletedAt.toMillis() + retentionDays * MS_PER_DAY);
+}
+
+/**
+ * Latest deletion time that's due for purging now
+ * Trips deleted at or before it have been in the trash for the whole retention period
+ */
+export function getPurgeCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * MS_PER_DAY);
+}
@@ -0,0 +1,164 @@
+/**
+ * Budget Utility Tests
+ *
+ * Planned spend against a trip's budget per category, day and person, and the
+ * limits a new cost would go over (src/utils/budget.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBudgetReport, getBudgetOverruns, getBudgetCategoryLabel } from '../src/utils/budget';
+import type { Activity, Cost, ExchangeRate, Trip, TripBudget } from '../src/types';
+import { ANA, BEN, participant, day, activity, lodging, expense } from './fixtures';
+
+const EUR_TO_USD: ExchangeRate = { from: 'EUR', to: 'USD', rate: 1.2, date: '2025-06-01', source: 'manual' };
+
+const BUDGET: TripBudget = { total: 400, byType: { restaurant: 50, flight: 100 } };
+
+function paid(activityId: string, type: Activity['type'], cost: Cost): Activity {
+  return activity(activityId, { type, cost });
+}
+
+/**
+ * 1 to 3 July in UTC: dinner on the first day, a museum on the second, a taxi
+ * in yen (which has no rate) on the third, and two nights in a hotel
+ */
+function trip(fields: Partial<Pick<Trip, 'expenses'>> = {}): Pick<Trip, 'days' | 'lodging' | 'expenses' | 'participants'> {
+  return {
+    days: [
+      { ...day('day-1', '2025-07-01'), activities: [paid('dinner', 'restaurant', { amount: 60, currency: 'USD', paidBy: ANA })] },
+      {
+        ...day('day-2', '2025-07-02'),
+        activities: [paid('museum', 'attraction', { amount: 50, currency: 'EUR', paidBy: BEN, splitBetween: [BEN] })],
+      },
+      { ...day('day-3', '2025-07-03'), activities: [paid('taxi', 'transport', { amount: 1000, currency: 'JPY' }), activity('walk')] },
+    ],
+    lodging: [lodging('hotel', { cost: { amount: 200, currency: 'USD', paidBy: ANA } })],
+    participants: [participant(ANA), participant(BEN)],
+    ...fields,
+  };
+}
+
+function settings(budget?: TripBudget) {
+  return { currency: 'USD', timezone: 'UTC', ...(budget && { budget }) };
+}
+
+describe('getBudgetReport', () => {
+  const report = getBudgetReport(trip(), settings(BUDGET), [EUR_TO_USD]);
+
+  test('adds up planned spend in the trip\'s currency, leaving out costs it has no rate for', () => {
+    assert.equal(report.currency, 'USD');
+    assert.deepEqual(report.total, { planned: 320, budget: 400, remaining: 80 });
+    assert.deepEqual(report.unconverted, ['JPY']);
+  });
+
+  test('lists the categories with a limit or a cost, lodging as hotel', () => {
+    assert.deepEqual(report.byType, [
+      { type: 'flight', planned: 0, budget: 100, remaining: 100 },
+      { type: 'hotel', planned: 200 },
+      { type: 'restaurant', planned: 60, budget: 50, remaining: -10 },
+      { type: 'attraction', planned: 60 },
+    ]);
+  });
+
+  test('spreads lodging over its nights and counts down the total day by day', () => {
+    assert.deepEqual(
+      report.byDay.map(({ dayId, planned, cumulative, remaining }) => ({ dayId, planned, cumulative, remaining })),
+      [
+        { dayId: 'day-1', planned: 160, cumulative: 160, remaining: 240 },
+        { dayId: 'day-2', planned: 160, cumulative: 320, remaining: 80 },
+        { dayId: 'day-3', planned: 0, cumulative: 320, remaining: 80 },
+      ]
+    );
+  });
+
+  test('gives each person their share against an even split of the total', () => {
+    assert.deepEqual(report.byPerson, [
+      { userId: ANA, planned: 130, budget: 200, remaining: 70 },
+      { userId: BEN, planned: 190, budget: 200, remaining: 10 },
+    ]);
+  });
+
+  test('counts expenses under their category on their date', () => {
+    const withSnacks = getBudgetReport(
+      trip({ expenses: [expense('snacks', { category: 'restaurant', date: '2025-07-03', cost: { amount: 10, currency: 'EUR', paidBy: BEN } })] }),
+      settings(BUDGET),
+      [EUR_TO_USD]
+    );
+
+    assert.deepEqual(withSnacks.total, { planned: 332, budget: 400, remaining: 68 });
+    assert.deepEqual(withSnacks.byType.find((line) => line.type === 'restaurant'), {
+      type: 'restaurant',
+      planned: 72,
+      budget: 50,
+      remaining: -22,
+    });
+    assert.equal(withSnacks.byDay[2].planned, 12);
+  });
+
+  test('reports planned spend alone without a budget', () => {
+    const unbudgeted = getBudgetReport(trip(), settings(), [EUR_TO_USD]);
+
+    assert.deepEqual(unbudgeted.total, { planned: 320 });
+    assert.deepEqual(unbudgeted.byType.map((line) => line.type), ['hotel', 'restaurant', 'attraction']);
+    assert.equal(unbudgeted.byDay[0].remaining, undefined);
+    assert.equal(unbudgeted.byPerson[0].budget, undefined);
+  });
+});
+
+describe('getBudgetOverruns', () => {
+  test('names the category limit a new cost would go over', () => {
+    assert.deepEqual(
+      getBudgetOverruns(trip(), settings(BUDGET), [EUR_TO_USD], { type: 'restaurant', cost: { amount: 10, currency: 'USD' } }),
+      [{ type: 'restaurant', budget: 50, planned: 70 }]
+    );
+  });
+
+  test('names the overall limit, converting the cost first', () => {
+    assert.deepEqual(
+      getBudgetOverruns(trip(), settings(BUDGET), [EUR_TO_USD], { type: 'attraction', cost: { amount: 100, currency: 'EUR' } }),
+      [{ budget: 400, planned: 440 }]
+    );
+  });
+
+  test('does not count an edited activity\'s current cost twice', () => {
+    assert.deepEqual(
+      getBudgetOverruns(trip(), settings(BUDGET), [EUR_TO_USD], {
+        type: 'restaurant',
+        cost: { amount: 45, currency: 'USD' },
+        activityId: 'dinner',
+      }),
+      []
+    );
+  });
+
+  test('does not count an edited expense\'s current cost twice', () => {
+    const withSnacks = trip({ expenses: [expense('snacks', { category: 'restaurant', cost: { amount: 40, currency: 'USD' } })] });
+
+    const change = { type: 'restaurant' as const, cost: { amount: 45, currency: 'USD' } };
+
+    assert.deepEqual(getBudgetOverruns(withSnacks, settings(BUDGET), [EUR_TO_USD], { ...change, expenseId: 'snacks' }), [
+      { type: 'restaurant', budget: 50, planned: 105 },
+    ]);
+    assert.deepEqual(getBudgetOverruns(withSnacks, settings(BUDGET), [EUR_TO_USD], change), [
+      { type: 'restaurant', budget: 50, planned: 145 },
+      { budget: 400, planned: 405 },
+    ]);
+  });
+
+  test('says nothing without a budget, a cost, or a rate', () => {
+    const rates = [EUR_TO_USD];
+    assert.deepEqual(getBudgetOverruns(trip(), settings(), rates, { type: 'restaurant', cost: { amount: 500, currency: 'USD' } }), []);
+    assert.deepEqual(getBudgetOverruns(trip(), settings(BUDGET), rates, { type: 'restaurant' }), []);
+    assert.deepEqual(getBudgetOverruns(trip(), settings(BUDGET), rates, { type: 'restaurant', cost: { amount: 9000, currency: 'JPY' } }), []);
+  });
+});
+
+describe('getBudgetCategoryLabel', () => {
+  test('names categories for people', () => {
+    assert.equal(getBudgetCategoryLabel('restaurant'), 'Food & drink');
+    assert.equal(getBudgetCategoryLabel('hotel'), 'Lodging');
+  });
+});
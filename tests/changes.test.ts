@@ -0,0 +1,182 @@
+/**
+ * Change History Tests
+ *
+ * Diffs recorded in the change history, the checks undo makes before it
+ * reverts one, and reading entries back for the feed (src/utils/changes.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase/firestore';
+import {
+  isSameValue,
+  diffTrip,
+  diffDay,
+  diffActivity,
+  matchesFields,
+  revertFields,
+  isUndoable,
+  getChangeToUndo,
+  getChangedFieldNames,
+  describeChange,
+} from '../src/utils/changes';
+import type { ChangeOperation, TripChange } from '../src/types';
+import { ANA, BEN, CREATED_AT, at, tripDocument, day, activity } from './fixtures';
+
+function change(changeId: string, operation: ChangeOperation = 'activity.update', undoes?: string): TripChange {
+  return {
+    changeId,
+    tripId: 'trip-1',
+    actorId: ANA,
+    operation,
+    target: {},
+    label: changeId,
+    diffs: [],
+    ...(undoes && { undoes }),
+    createdAt: CREATED_AT,
+  };
+}
+
+describe('isSameValue', () => {
+  test('treats unset and null as the same', () => {
+    assert.equal(isSameValue(undefined, null), true);
+    assert.equal(isSameValue({ a: 1 }, { a: 1, b: null }), true);
+    assert.equal(isSameValue(0, null), false);
+    assert.equal(isSameValue('', undefined), false);
+  });
+
+  test('compares Timestamps by value and nested data deeply', () => {
+    assert.equal(isSameValue(at('2025-07-01T10:00:00Z'), at('2025-07-01T10:00:00Z')), true);
+    assert.equal(isSameValue(at('2025-07-01T10:00:00Z'), at('2025-07-01T10:00:01Z')), false);
+    assert.equal(isSameValue(at('2025-07-01T10:00:00Z'), { seconds: 1751364000, nanoseconds: 0 }), false);
+    assert.equal(isSameValue({ cost: { amount: 5, splitBetween: [ANA, BEN] } }, { cost: { amount: 5, splitBetween: [ANA, BEN] } }), true);
+    assert.equal(isSameValue([ANA, BEN], [BEN, ANA]), false);
+    assert.equal(isSameValue([ANA], [ANA, BEN]), false);
+  });
+});
+
+describe('diffs', () => {
+  test('record only the fields an update changed, without updatedAt and updatedBy', () => {
+    const before = tripDocument('trip-1', { description: 'Old' });
+    const after = { ...before, title: 'Renamed', description: undefined, updatedAt: at('2025-06-02T00:00:00Z') };
+
+    assert.deepEqual(diffTrip(before, after), {
+      document: 'trip',
+      before: { title: 'Trip trip-1', description: 'Old' },
+      after: { title: 'Renamed', description: null },
+    });
+  });
+
+  test('are null when nothing but the bookkeeping changed', () => {
+    const before = activity('museum');
+    const after = { ...before, updatedBy: BEN, updatedAt: at('2025-06-02T00:00:00Z') };
+
+    assert.equal(diffActivity('day-1', before, after), null);
+    assert.equal(diffDay(null, null), null);
+  });
+
+  test('hold the whole document when it is created or deleted, with unset fields as null', () => {
+    const museum = activity('museum', { description: undefined });
+
+    assert.deepEqual(diffActivity('day-1', null, museum), {
+      document: 'activity',
+      dayId: 'day-1',
+      activityId: 'museum',
+      before: null,
+      after: { ...museum, description: null },
+    });
+    assert.deepEqual(diffDay(day('day-1', '2025-07-01'), null), {
+      document: 'day',
+      dayId: 'day-1',
+      before: { dayId: 'day-1', date: at('2025-07-01T00:00:00Z') },
+      after: null,
+    });
+  });
+});
+
+describe('undo', () => {
+  const before = activity('museum', { title: 'Louvre', notes: 'Book ahead' });
+  const after = { ...before, title: 'Orsay', notes: undefined, updatedBy: BEN, updatedAt: at('2025-06-02T00:00:00Z') };
+  const diff = diffActivity('day-1', before, after)!;
+
+  test('reverts a document to how it was before the change', () => {
+    const { document, removed } = revertFields(after, diff.before!);
+
+    assert.equal(document.title, 'Louvre');
+    assert.equal(document.notes, 'Book ahead');
+    assert.deepEqual(removed, []);
+    assert.equal(after.title, 'Orsay', 'the current document is left as it is');
+  });
+
+  test('removes fields the change added', () => {
+    const { document, removed } = revertFields({ ...before, description: 'New' }, { description: null });
+
+    assert.equal('description' in document, false);
+    assert.deepEqual(removed, ['description']);
+  });
+
+  test('only goes ahead while the changed fields are as the change left them', () => {
+    assert.equal(matchesFields(after, diff.after), true);
+    assert.equal(
+      matchesFields({ ...after, updatedAt: Timestamp.now() }, diff.after),
+      true,
+      'a later touch alone does not block undo'
+    );
+    assert.equal(matchesFields({ ...after, type: 'restaurant' }, diff.after), true, 'other fields may change');
+    assert.equal(matchesFields({ ...after, title: 'Pompidou' }, diff.after), false);
+    assert.equal(matchesFields({ ...after, notes: 'Someone wrote this since' }, diff.after), false);
+  });
+
+  test('checks that created documents still exist and deleted ones still do not', () => {
+    const created = diffActivity('day-1', null, before)!;
+    const deleted = diffActivity('day-1', before, null)!;
+
+    assert.equal(matchesFields(before, created.after), true);
+    assert.equal(matchesFields(null, created.after), false);
+    assert.equal(matchesFields(null, deleted.after), true);
+    assert.equal(matchesFields(before, deleted.after), false);
+  });
+
+  test('skips changes that cannot be undone', () => {
+    assert.equal(isUndoable({ operation: 'activity.update' }), true);
+    assert.equal(isUndoable({ operation: 'participant.remove' }), true);
+    assert.equal(isUndoable({ operation: 'trip.share' }), false);
+    assert.equal(isUndoable({ operation: 'participant.join' }), false);
+    assert.equal(isUndoable({ operation: 'undo' }), false);
+  });
+
+  test('picks the newest change that has not been undone yet', () => {
+    assert.equal(getChangeToUndo([change('c3'), change('c2'), change('c1')])!.changeId, 'c3');
+    assert.equal(
+      getChangeToUndo([change('u2', 'undo', 'c3'), change('c3'), change('c2'), change('c1')])!.changeId,
+      'c2'
+    );
+    assert.equal(
+      getChangeToUndo([change('u2', 'undo', 'c2'), change('u1', 'undo', 'c1'), change('c2'), change('c1')]),
+      null
+    );
+    assert.equal(getChangeToUndo([]), null);
+  });
+});
+
+describe('reading changes back', () => {
+  test('lists the fields updates changed, once each', () => {
+    const entry = {
+      diffs: [
+        { document: 'activity' as const, before: { title: 'a', notes: null }, after: { title: 'b', notes: 'n' } },
+        { document: 'activity' as const, before: { title: 'c' }, after: { title: 'd' } },
+        { document: 'day' as const, before: null, after: { dayId: 'day-2' } },
+      ],
+    };
+
+    assert.deepEqual(getChangedFieldNames(entry), ['title', 'notes']);
+  });
+
+  test('describes what a change did', () => {
+    assert.equal(describeChange({ operation: 'activity.remove', label: 'Dinner at Luigi\'s' }), 'removed Dinner at Luigi\'s');
+    assert.equal(describeChange({ operation: 'lodging.add', label: 'Hotel du Nord' }), 'added the stay at Hotel du Nord');
+    assert.equal(describeChange({ operation: 'trip.update', label: 'Summer' }), 'updated the trip details');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Currency Utility Tests
+ *
+ * Rates, conversions and money formatting (src/utils/currency.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BUNDLED_RATE_SOURCE,
+  BUNDLED_RATES_DATE,
+  MANUAL_RATE_SOURCE,
+  isCurrencyCode,
+  getBundledCurrencies,
+  getBundledRate,
+  getManualRates,
+  getCurrencyDigits,
+  convertAmount,
+  convertTotal,
+  formatMoney,
+  formatConvertedAmount,
+  formatExchangeRate,
+} from '../src/utils/currency';
+import type { ExchangeRate } from '../src/types';
+import { ANA, CREATED_AT } from './fixtures';
+
+const EUR_TO_USD: ExchangeRate = { from: 'EUR', to: 'USD', rate: 1.2, date: '2025-06-01', source: MANUAL_RATE_SOURCE };
+const USD_TO_JPY: ExchangeRate = { from: 'USD', to: 'JPY', rate: 150, date: '2025-06-01', source: MANUAL_RATE_SOURCE };
+
+describe('isCurrencyCode', () => {
+  test('accepts three upper-case letters only', () => {
+    assert.equal(isCurrencyCode('EUR'), true);
+    assert.equal(isCurrencyCode('eur'), false);
+    assert.equal(isCurrencyCode('EURO'), false);
+    assert.equal(isCurrencyCode('E1R'), false);
+    assert.equal(isCurrencyCode(''), false);
+  });
+});
+
+describe('bundled rates', () => {
+  test('lists the bundled currencies in alphabetical order', () => {
+    const currencies = getBundledCurrencies();
+    assert.deepEqual(currencies, [...currencies].sort());
+    assert.ok(currencies.includes('USD'));
+    assert.ok(currencies.every(isCurrencyCode));
+  });
+
+  test('gives rates between any two bundled currencies, going through the dollar', () => {
+    const rate = getBundledRate('EUR', 'GBP')!;
+    assert.equal(rate.from, 'EUR');
+    assert.equal(rate.to, 'GBP');
+    assert.equal(rate.date, BUNDLED_RATES_DATE);
+    assert.equal(rate.source, BUNDLED_RATE_SOURCE);
+    assert.ok(Math.abs(rate.rate * getBundledRate('GBP', 'EUR')!.rate - 1) < 1e-12);
+    assert.equal(getBundledRate('USD', 'USD')!.rate, 1);
+  });
+
+  test('has no rate for a currency outside the table', () => {
+    assert.equal(getBundledRate('XXX', 'USD'), null);
+    assert.equal(getBundledRate('USD', 'XXX'), null);
+  });
+});
+
+describe('getManualRates', () => {
+  test('keeps only the rates into the trip\'s current currency', () => {
+    const overrides = [
+      { from: 'EUR', to: 'USD', rate: 1.2, date: '2025-06-01', setBy: ANA, setAt: CREATED_AT },
+      { from: 'EUR', to: 'GBP', rate: 0.85, date: '2025-06-01', setBy: ANA, setAt: CREATED_AT },
+    ];
+
+    assert.deepEqual(getManualRates(overrides, 'USD'), [EUR_TO_USD]);
+    assert.deepEqual(getManualRates(undefined, 'USD'), []);
+  });
+});
+
+describe('getCurrencyDigits', () => {
+  test('follows the currency\'s minor unit', () => {
+    assert.equal(getCurrencyDigits('USD'), 2);
+    assert.equal(getCurrencyDigits('JPY'), 0);
+    assert.equal(getCurrencyDigits('BHD'), 3);
+  });
+
+  test('falls back to two digits for codes Intl rejects', () => {
+    assert.equal(getCurrencyDigits('nope'), 2);
+  });
+});
+
+describe('convertAmount', () => {
+  test('leaves an amount in the target currency as it is, without a rate', () => {
+    assert.deepEqual(convertAmount(10, 'USD', 'USD', []), { amount: 10, currency: 'USD', original: { amount: 10, currency: 'USD' } });
+  });
+
+  test('converts with the rate, rounded to the target currency', () => {
+    assert.deepEqual(convertAmount(10.005, 'EUR', 'USD', [EUR_TO_USD]), {
+      amount: 12.01,
+      currency: 'USD',
+      original: { amount: 10.005, currency: 'EUR' },
+      rate: EUR_TO_USD,
+    });
+    assert.equal(convertAmount(3.33, 'USD', 'JPY', [USD_TO_JPY])!.amount, 500);
+  });
+
+  test('uses a rate the other way round, inverted', () => {
+    const converted = convertAmount(12, 'USD', 'EUR', [EUR_TO_USD])!;
+    assert.equal(converted.amount, 10);
+    assert.equal(converted.rate!.from, 'USD');
+    assert.equal(converted.rate!.to, 'EUR');
+    assert.ok(Math.abs(converted.rate!.rate - 1 / 1.2) < 1e-12);
+  });
+
+  test('returns null without a rate', () => {
+    assert.equal(convertAmount(10, 'GBP', 'USD', [EUR_TO_USD]), null);
+  });
+});
+
+describe('convertTotal', () => {
+  test('adds each currency up before converting it once, largest first', () => {
+    const total = convertTotal(
+      [
+        { amount: 5, currency: 'EUR' },
+        { amount: 20, currency: 'USD' },
+        { amount: 5, currency: 'EUR' },
+        { amount: 7, currency: 'GBP' },
+      ],
+      'USD',
+      [EUR_TO_USD]
+    );
+
+    assert.equal(total.amount, 32);
+    assert.equal(total.currency, 'USD');
+    assert.deepEqual(
+      total.items.map((item) => [item.original.amount, item.original.currency, item.amount]),
+      [
+        [20, 'USD', 20],
+        [10, 'EUR', 12],
+      ]
+    );
+    assert.deepEqual(total.unconverted, [{ amount: 7, currency: 'GBP' }]);
+  });
+
+  test('does not let float error build up in the sum', () => {
+    const total = convertTotal(
+      [0.1, 0.2, 0.3].map((amount) => ({ amount, currency: 'USD' })),
+      'USD',
+      []
+    );
+    assert.equal(total.amount, 0.6);
+  });
+});
+
+describe('formatting', () => {
+  test('formats money in the given locale', () => {
+    assert.equal(formatMoney(1234.5, 'USD', 'en-US'), '$1,234.50');
+    assert.equal(formatMoney(1234, 'JPY', 'en-US'), '¥1,234');
+  });
+
+  test('falls back to the amount and code for currencies Intl rejects', () => {
+    assert.equal(formatMoney(3, 'nope', 'en-US'), '3.00 nope');
+  });
+
+  test('shows a converted amount with the original next to it', () => {
+    assert.equal(formatConvertedAmount(convertAmount(100, 'EUR', 'USD', [EUR_TO_USD])!, 'en-US'), '$120.00 (€100.00)');
+    assert.equal(formatConvertedAmount(convertAmount(100, 'USD', 'USD', [])!, 'en-US'), '$100.00');
+  });
+
+  test('describes a rate to five significant digits', () => {
+    assert.equal(formatExchangeRate({ ...EUR_TO_USD, rate: 1.169612 }, 'en-US'), '1 EUR = 1.1696 USD');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Date and Time Zone Tests
+ *
+ * Calendar-date math and wall-clock times in a trip's time zone, across DST
+ * changes (src/utils/dates.ts), and the activity times built on them
+ * (src/utils/activities.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isValidTimeZone,
+  getTimeZoneOffset,
+  toCalendarDate,
+  fromZonedTime,
+  addCalendarDays,
+  diffCalendarDays,
+  eachCalendarDate,
+  toWallClockTime,
+} from '../src/utils/dates';
+import { toActivityTimes, toWallClockTimes } from '../src/utils/activities';
+import { at } from './fixtures';
+
+const PARIS = 'Europe/Paris';
+const NEW_YORK = 'America/New_York';
+
+function iso(date: Date): string {
+  return date.toISOString();
+}
+
+describe('time zones', () => {
+  test('knows IANA zones and rejects made-up ones', () => {
+    assert.equal(isValidTimeZone(PARIS), true);
+    assert.equal(isValidTimeZone('UTC'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus'), false);
+  });
+
+  test('gives offsets in milliseconds, including half and quarter hours', () => {
+    const midsummer = new Date('2025-07-01T00:00:00.500Z');
+    assert.equal(getTimeZoneOffset(midsummer, PARIS), 2 * 60 * 60 * 1000);
+    assert.equal(getTimeZoneOffset(midsummer, NEW_YORK), -4 * 60 * 60 * 1000);
+    assert.equal(getTimeZoneOffset(midsummer, 'Asia/Kolkata'), 330 * 60 * 1000);
+    assert.equal(getTimeZoneOffset(midsummer, 'Asia/Kathmandu'), 345 * 60 * 1000);
+  });
+
+  test('dates an instant by the wall clock in the zone, not in UTC', () => {
+    const lateEvening = new Date('2025-06-30T23:30:00Z');
+    assert.equal(toCalendarDate(lateEvening, 'UTC'), '2025-06-30');
+    assert.equal(toCalendarDate(lateEvening, 'Asia/Tokyo'), '2025-07-01');
+    assert.equal(toCalendarDate(lateEvening, 'Pacific/Honolulu'), '2025-06-30');
+    assert.equal(toWallClockTime(lateEvening, 'Asia/Tokyo'), '08:30');
+    assert.equal(toWallClockTime(lateEvening, 'Pacific/Kiritimati'), '13:30');
+  });
+});
+
+describe('fromZonedTime', () => {
+  test('reads a wall-clock time in the zone\'s offset for that date', () => {
+    assert.equal(iso(fromZonedTime('2025-07-01', PARIS, '09:30')), '2025-07-01T07:30:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-01-15', PARIS, '09:30')), '2025-01-15T08:30:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-07-01', NEW_YORK)), '2025-07-01T04:00:00.000Z');
+  });
+
+  test('moves a time the clocks skip forward by the change, east and west of UTC', () => {
+    // Paris: 02:00 CET became 03:00 CEST on 30 March 2025
+    assert.equal(iso(fromZonedTime('2025-03-30', PARIS, '01:59')), '2025-03-30T00:59:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-03-30', PARIS, '02:30')), '2025-03-30T01:30:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-03-30', PARIS, '03:30')), '2025-03-30T01:30:00.000Z');
+
+    // New York: 02:00 EST became 03:00 EDT on 9 March 2025
+    assert.equal(iso(fromZonedTime('2025-03-09', NEW_YORK, '02:30')), '2025-03-09T07:30:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-03-09', NEW_YORK, '03:30')), '2025-03-09T07:30:00.000Z');
+  });
+
+  test('takes the first of a time that happens twice, east and west of UTC', () => {
+    // Paris: 03:00 CEST became 02:00 CET on 26 October 2025
+    assert.equal(iso(fromZonedTime('2025-10-26', PARIS, '02:30')), '2025-10-26T00:30:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-10-26', PARIS, '03:00')), '2025-10-26T02:00:00.000Z');
+
+    // New York: 02:00 EDT became 01:00 EST on 2 November 2025
+    assert.equal(iso(fromZonedTime('2025-11-02', NEW_YORK, '01:30')), '2025-11-02T05:30:00.000Z');
+    assert.equal(iso(fromZonedTime('2025-11-02', NEW_YORK, '02:00')), '2025-11-02T07:00:00.000Z');
+
+    // Lord Howe Island moves its clocks by half an hour
+    assert.equal(iso(fromZonedTime('2025-04-06', 'Australia/Lord_Howe', '01:45')), '2025-04-05T14:45:00.000Z');
+  });
+
+  test('gives back every wall-clock time of a DST day that exists', () => {
+    const days: Array<[string, string]> = [
+      ['2025-03-30', PARIS],
+      ['2025-10-26', PARIS],
+      ['2025-03-09', NEW_YORK],
+      ['2025-11-02', NEW_YORK],
+    ];
+    const skipped = new Set(['2025-03-30 02:00', '2025-03-30 02:30', '2025-03-09 02:00', '2025-03-09 02:30']);
+
+    days.forEach(([date, timeZone]) => {
+      for (let minutes = 0; minutes < 24 * 60; minutes += 30) {
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+        if (skipped.has(`${date} ${time}`)) continue;
+
+        const instant = fromZonedTime(date, timeZone, time);
+        assert.equal(toCalendarDate(instant, timeZone), date, `${date} ${time} ${timeZone}`);
+        assert.equal(toWallClockTime(instant, timeZone), time, `${date} ${time} ${timeZone}`);
+      }
+    });
+  });
+});
+
+describe('calendar dates', () => {
+  test('adds days across months, years and leap days', () => {
+    assert.equal(addCalendarDays('2024-02-28', 1), '2024-02-29');
+    assert.equal(addCalendarDays('2025-02-28', 1), '2025-03-01');
+    assert.equal(addCalendarDays('2025-12-31', 1), '2026-01-01');
+    assert.equal(addCalendarDays('2025-03-01', -1), '2025-02-28');
+    assert.equal(addCalendarDays('2025-03-29', 2), '2025-03-31', 'a DST change is still a whole day');
+  });
+
+  test('counts whole days between dates, negative going back', () => {
+    assert.equal(diffCalendarDays('2025-03-29', '2025-03-31'), 2);
+    assert.equal(diffCalendarDays('2025-10-27', '2025-10-25'), -2);
+    assert.equal(diffCalendarDays('2024-12-31', '2025-12-31'), 365);
+  });
+
+  test('lists every date from start to end, inclusive', () => {
+    assert.deepEqual(eachCalendarDate('2025-10-25', '2025-10-27'), ['2025-10-25', '2025-10-26', '2025-10-27']);
+    assert.deepEqual(eachCalendarDate('2025-07-01', '2025-07-01'), ['2025-07-01']);
+    assert.deepEqual(eachCalendarDate('2025-07-02', '2025-07-01'), []);
+  });
+});
+
+describe('activity times', () => {
+  test('puts an end time before the start time on the next day, across a DST change', () => {
+    // The night the Paris clocks go forward is an hour short
+    const dayDate = at('2025-03-28T23:00:00Z');
+    const times = toActivityTimes(dayDate, PARIS, PARIS, '23:00', '04:00');
+
+    assert.equal(iso(times.startTime!.toDate()), '2025-03-29T22:00:00.000Z');
+    assert.equal(iso(times.endTime!.toDate()), '2025-03-30T02:00:00.000Z');
+    assert.deepEqual(toWallClockTimes(times, PARIS), { startTime: '23:00', endTime: '04:00' });
+  });
+
+  test('reads times in the activity\'s zone on the date of the trip\'s day', () => {
+    // 1 July in Paris starts on 30 June in UTC
+    const dayDate = at('2025-06-30T22:00:00Z');
+    const times = toActivityTimes(dayDate, PARIS, 'Asia/Tokyo', '08:00', '');
+
+    assert.equal(iso(times.startTime!.toDate()), '2025-06-30T23:00:00.000Z');
+    assert.equal(times.endTime, undefined);
+    assert.deepEqual(toWallClockTimes({ ...times, timeZone: 'Asia/Tokyo' }, PARIS), { startTime: '08:00', endTime: '' });
+  });
+});
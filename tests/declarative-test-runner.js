@@ -8,7 +8,7 @@
 
 import { chromium } from '@playwright/test';
 import { initializeApp } from 'firebase/app';
-import { getFirestore, doc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { getFirestore, doc, getDoc, collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import { Application } from '../scripts/test-framework/ScreenObjects.js';
 import dotenv from 'dotenv';
 
@@ -219,15 +219,31 @@ class DeclarativeTestRunner {
     }
   }
 
+  /**
+   * Load a trip's days (with activities) from its subcollections
+   */
+  async loadDays(tripRef) {
+    const daysSnapshot = await getDocs(query(collection(tripRef, 'days'), orderBy('date', 'asc')));
+    return Promise.all(
+      daysSnapshot.docs.map(async (dayDoc) => {
+        const activitiesSnapshot = await getDocs(
+          query(collection(dayDoc.ref, 'activities'), orderBy('createdAt', 'asc'))
+        );
+        return { ...dayDoc.data(), activities: activitiesSnapshot.docs.map((a) => a.data()) };
+      })
+    );
+  }
+
   /**
    * Verify database state
    */
   async verifyDatabase(dbCheck) {
     let docData;
+    let docRef;
 
     // Get document by ID or query
     if (dbCheck.id) {
-      const docRef = doc(this.db, dbCheck.collection, dbCheck.id);
+      docRef = doc(this.db, dbCheck.collection, dbCheck.id);
       const docSnap = await getDoc(docRef);
       if (!docSnap.exists()) {
         throw new Error(`Document not found: ${dbCheck.collection}/${dbCheck.id}`);
@@ -243,6 +259,12 @@ class DeclarativeTestRunner {
         throw new Error(`No documents found matching query`);
       }
       docData = snapshot.docs[0].data();
+      docRef = snapshot.docs[0].ref;
+    }
+
+    // Trip days and activities live in subcollections
+    if (dbCheck.collection === 'trips') {
+      docData.days = await this.loadDays(docRef);
     }
 
     // Assert fields
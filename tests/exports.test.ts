@@ -0,0 +1,252 @@
+/**
+ * Trip Export Utility Tests
+ *
+ * The export format's $timestamp encoding, validation of imported files and
+ * remapping user IDs between projects (src/utils/exports.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase/firestore';
+import {
+  TRIP_EXPORT_FORMAT,
+  TRIP_EXPORT_VERSION,
+  toTripExport,
+  fromTripExport,
+  validateTripExport,
+  getTripExportUserIds,
+  getTripExportFileName,
+  remapTripUsers,
+} from '../src/utils/exports';
+import type { TimestampFactory } from '../src/utils/exports';
+import type { Day, Expense, TripDocument, TripExport } from '../src/types';
+import { ANA, BEN, at, participant, tripDocument as storedTrip, activity, lodging, expense, settlement } from './fixtures';
+
+// Nanoseconds a JavaScript Date can't hold, so a round trip through Date would lose them
+const CREATED_AT = new Timestamp(1748764800, 123456789);
+const EXPORTED_AT = new Timestamp(1751328000, 0);
+
+const stamps = { createdAt: CREATED_AT, updatedAt: CREATED_AT };
+
+function tripDocument(fields: Partial<TripDocument> = {}): TripDocument {
+  return storedTrip('trip-1', {
+    title: 'Summer in Japan',
+    endDate: at('2025-07-02T00:00:00Z'),
+    participants: [
+      participant(ANA, { role: 'owner', joinedAt: CREATED_AT }),
+      participant(BEN, { phoneNumber: '+14155550001', role: 'viewer', joinedAt: CREATED_AT }),
+    ],
+    participantIds: [ANA, BEN],
+    roles: { [ANA]: 'owner', [BEN]: 'viewer' },
+    lodging: [
+      lodging('ryokan', {
+        checkOutDate: '2025-07-02',
+        cost: { amount: 30000, currency: 'JPY', paidBy: BEN, splitBetween: [ANA, BEN] },
+        createdBy: BEN,
+        updatedBy: BEN,
+        ...stamps,
+      }),
+    ],
+    settlements: [{ ...settlement(ANA, BEN, 15000, 'JPY'), settlementId: 'repaid', createdAt: CREATED_AT }],
+    exchangeRates: [{ from: 'JPY', to: 'USD', rate: 0.0068, date: '2025-07-01', setBy: ANA, setAt: CREATED_AT }],
+    settings: { currency: 'USD', timezone: 'Asia/Tokyo', isPublic: true, shareToken: 'share-token' },
+    ...stamps,
+    ...fields,
+  });
+}
+
+function days(): Day[] {
+  const temple = activity('temple', {
+    title: 'Temple',
+    startTime: at('2025-07-01T01:00:00Z'),
+    cost: { amount: 1000, currency: 'JPY', paidBy: ANA, splitMode: 'shares', splitValues: { [ANA]: 1, [BEN]: 1 } },
+    updatedBy: BEN,
+    ...stamps,
+  });
+  return [{ dayId: 'day-1', date: at('2025-06-30T15:00:00Z'), activities: [temple] }];
+}
+
+function expenses(): Expense[] {
+  return [
+    expense('train', {
+      description: 'Train tickets',
+      category: 'transport',
+      date: '2025-07-01',
+      cost: { amount: 5000, currency: 'JPY', paidBy: BEN },
+      activityId: 'temple',
+      receipts: [{ url: 'https://example.com/receipt.jpg', fileName: 'receipt.jpg', fileType: 'image/jpeg' }],
+      createdBy: BEN,
+      updatedBy: BEN,
+      ...stamps,
+    }),
+  ];
+}
+
+/**
+ * An export as it would be read from a file
+ */
+function exportFile(): TripExport {
+  return JSON.parse(JSON.stringify(toTripExport(tripDocument(), days(), expenses(), EXPORTED_AT)));
+}
+
+describe('$timestamp encoding', () => {
+  test('writes every Timestamp as seconds and nanoseconds', () => {
+    const data = exportFile();
+
+    assert.equal(data.format, TRIP_EXPORT_FORMAT);
+    assert.equal(data.version, TRIP_EXPORT_VERSION);
+    assert.deepEqual(data.exportedAt, { $timestamp: { seconds: 1751328000, nanoseconds: 0 } });
+    assert.deepEqual(data.trip.createdAt, { $timestamp: { seconds: 1748764800, nanoseconds: 123456789 } });
+    assert.deepEqual(data.trip.participants[0].joinedAt, data.trip.createdAt);
+    assert.deepEqual(data.days[0].activities[0].startTime, { $timestamp: { seconds: 1751331600, nanoseconds: 0 } });
+  });
+
+  test('leaves out participantIds, roles and trash, and undefined fields', () => {
+    const trip = tripDocument({
+      description: undefined,
+      trash: { deletedAt: CREATED_AT, deletedBy: ANA, participantIds: [ANA, BEN], ownerIds: [ANA] },
+    });
+    const data = toTripExport(trip, [], []);
+
+    assert.equal('participantIds' in data.trip, false);
+    assert.equal('roles' in data.trip, false);
+    assert.equal('trash' in data.trip, false);
+    assert.equal('description' in data.trip, false);
+  });
+
+  test('reads back the same documents, to the nanosecond', () => {
+    const { participantIds: _participantIds, roles: _roles, ...trip } = tripDocument();
+    const content = fromTripExport(exportFile());
+
+    assert.deepEqual(content, { trip, days: days(), expenses: expenses() });
+    assert.ok(content.trip.createdAt instanceof Timestamp);
+    assert.equal(content.trip.createdAt.nanoseconds, 123456789);
+  });
+
+  test('encodes Timestamps from another SDK, and decodes with the factory it is given', () => {
+    // firebase-admin's Timestamp isn't the app's class, but has the same shape
+    const foreign = { seconds: 1748764800, nanoseconds: 5, toMillis: () => 1748764800000 };
+    const data = toTripExport(tripDocument({ createdAt: foreign as unknown as Timestamp }), [], []);
+    assert.deepEqual(data.trip.createdAt, { $timestamp: { seconds: 1748764800, nanoseconds: 5 } });
+
+    const made: Timestamp[] = [];
+    const toTimestamp: TimestampFactory = (seconds, nanoseconds) => {
+      made.push(new Timestamp(seconds, nanoseconds));
+      return made[made.length - 1];
+    };
+    const { trip } = fromTripExport(JSON.parse(JSON.stringify(data)), toTimestamp);
+    assert.ok(made.includes(trip.createdAt));
+    assert.ok(made.includes(trip.participants[0].joinedAt));
+    assert.equal(trip.createdAt.nanoseconds, 5);
+  });
+});
+
+describe('validateTripExport', () => {
+  test('accepts an export this version wrote', () => {
+    assert.deepEqual(validateTripExport(exportFile()), []);
+  });
+
+  test('rejects files that are not exports, or from a newer version', () => {
+    assert.deepEqual(validateTripExport(null), ['Not a trip export (format must be "trip-organizer.trip")']);
+    assert.deepEqual(validateTripExport({ ...exportFile(), format: 'other' }), [
+      'Not a trip export (format must be "trip-organizer.trip")',
+    ]);
+    assert.deepEqual(validateTripExport({ ...exportFile(), version: 0 }), ['version must be a whole number from 1']);
+    assert.deepEqual(validateTripExport({ ...exportFile(), version: TRIP_EXPORT_VERSION + 1 }), [
+      `version ${TRIP_EXPORT_VERSION + 1} is newer than this app can read (up to ${TRIP_EXPORT_VERSION})`,
+    ]);
+  });
+
+  test('names every field that is missing or of the wrong type, with its path', () => {
+    const data: any = exportFile();
+    delete data.trip.title;
+    data.trip.startDate = '2025-07-01';
+    data.days[0].activities[0].type = 'party';
+    data.days[0].activities[0].cost.amount = 'a lot';
+    data.expenses[0].createdAt = { $timestamp: { seconds: 1, nanoseconds: 1e9 } };
+    data.trip.participants[1].role = 'admin';
+
+    assert.deepEqual(validateTripExport(data), [
+      'trip.title is missing',
+      'trip.startDate must be a timestamp ({ "$timestamp": { "seconds", "nanoseconds" } })',
+      'trip.participants[1].role must be one of owner, editor, viewer',
+      'days[0].activities[0].type must be one of flight, hotel, transport, restaurant, attraction, other',
+      'days[0].activities[0].cost.amount must be a number',
+      'expenses[0].createdAt must be a timestamp ({ "$timestamp": { "seconds", "nanoseconds" } })',
+    ]);
+  });
+
+  test('checks content once the shape is right', () => {
+    const data: any = exportFile();
+    data.trip.settings.timezone = 'Mars/Olympus';
+    data.trip.settings.currency = 'yen';
+    data.trip.endDate = { $timestamp: { seconds: 0, nanoseconds: 0 } };
+    data.trip.lodging[0].checkInDate = '1 July';
+    data.days[0].activities.push(data.days[0].activities[0]);
+    data.expenses[0].activityId = 'missing';
+
+    assert.deepEqual(validateTripExport(data), [
+      'trip.settings.timezone "Mars/Olympus" isn\'t a known time zone',
+      'trip.settings.currency "yen" isn\'t a currency code',
+      'trip.endDate is before trip.startDate',
+      'trip.lodging[0] dates must be YYYY-MM-DD',
+      'activity ID "temple" is used more than once',
+      'expenses[0].activityId "missing" isn\'t an activity in this trip',
+    ]);
+  });
+
+  test('lets fields it does not know about through', () => {
+    const data: any = exportFile();
+    data.trip.addedLater = { anything: true };
+
+    assert.deepEqual(validateTripExport(data), []);
+  });
+});
+
+describe('remapTripUsers', () => {
+  const NEW_ANA = 'user-ana-2';
+
+  test('swaps a user ID everywhere it appears and keeps the others', () => {
+    const { trip, days: [day], expenses: [expense] } = remapTripUsers(fromTripExport(exportFile()), { [ANA]: NEW_ANA });
+
+    assert.equal(trip.createdBy, NEW_ANA);
+    assert.deepEqual(trip.participants.map((p) => p.userId), [NEW_ANA, BEN]);
+    assert.deepEqual(trip.lodging![0].cost!.splitBetween, [NEW_ANA, BEN]);
+    assert.equal(trip.lodging![0].createdBy, BEN);
+    assert.equal(trip.settlements![0].fromUserId, NEW_ANA);
+    assert.equal(trip.settlements![0].toUserId, BEN);
+    assert.equal(trip.exchangeRates![0].setBy, NEW_ANA);
+
+    const [activityItem] = day.activities;
+    assert.equal(activityItem.createdBy, NEW_ANA);
+    assert.equal(activityItem.updatedBy, BEN);
+    assert.equal(activityItem.cost!.paidBy, NEW_ANA);
+    assert.deepEqual(activityItem.cost!.splitValues, { [NEW_ANA]: 1, [BEN]: 1 });
+    assert.equal(expense.cost.paidBy, BEN);
+  });
+
+  test('leaves the content it was given unchanged', () => {
+    const content = fromTripExport(exportFile());
+    remapTripUsers(content, { [ANA]: NEW_ANA });
+
+    assert.equal(content.trip.createdBy, ANA);
+    assert.equal(content.days[0].activities[0].cost!.paidBy, ANA);
+  });
+
+  test('lists every user an export refers to', () => {
+    const content = fromTripExport(exportFile());
+
+    assert.deepEqual(getTripExportUserIds(content).sort(), [ANA, BEN]);
+    assert.deepEqual(getTripExportUserIds(remapTripUsers(content, { [ANA]: NEW_ANA })).sort(), [NEW_ANA, BEN].sort());
+  });
+});
+
+describe('getTripExportFileName', () => {
+  test('makes a file name from the title', () => {
+    assert.equal(getTripExportFileName('Summer in Japan'), 'summer-in-japan.json');
+    assert.equal(getTripExportFileName('  Ça va, Zürich?! '), 'ca-va-zurich.json');
+    assert.equal(getTripExportFileName('東京'), 'trip.json');
+  });
+});
@@ -0,0 +1,1074 @@
+/**
+ * Firestore Security Rules Tests
+ *
+ * Checks firestore.rules against the role matrix in SCHEMA.md.
+ * Runs in the Firestore emulator - no real project is touched:
+ *
+ *   npm run test:rules
+ *
+ * (firebase emulators:exec starts the emulator, sets FIRESTORE_EMULATOR_HOST
+ * and runs this file with node's built-in test runner)
+ */
+
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import {
+  initializeTestEnvironment,
+  assertFails,
+  assertSucceeds,
+} from '@firebase/rules-unit-testing';
+import {
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  collection,
+  query,
+  where,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const TRIP_ID = 'trip-rules';
+const DAY_ID = 'day-1';
+const ACTIVITY_ID = 'activity-1';
+const EXPENSE_ID = 'expense-1';
+
+const OWNER = 'user-owner';
+const EDITOR = 'user-editor';
+const VIEWER = 'user-viewer';
+const STRANGER = 'user-stranger';
+
+function participant(userId, role) {
+  return {
+    userId,
+    phoneNumber: '+14155550000',
+    displayName: userId,
+    role,
+    // Fixed, so entries built in a test match the seeded ones
+    joinedAt: Timestamp.fromDate(new Date('2025-06-01T00:00:00Z')),
+  };
+}
+
+function buildTrip(overrides = {}) {
+  const participants = [
+    participant(OWNER, 'owner'),
+    participant(EDITOR, 'editor'),
+    participant(VIEWER, 'viewer'),
+  ];
+  return {
+    tripId: TRIP_ID,
+    title: 'Rules Test Trip',
+    description: '',
+    startDate: Timestamp.fromDate(new Date('2025-07-01T00:00:00Z')),
+    endDate: Timestamp.fromDate(new Date('2025-07-03T00:00:00Z')),
+    participants,
+    participantIds: participants.map((p) => p.userId),
+    roles: Object.fromEntries(participants.map((p) => [p.userId, p.role])),
+    createdBy: OWNER,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    settings: { currency: 'USD', timezone: 'UTC', isPublic: false },
+    ...overrides,
+  };
+}
+
+function buildExpense(overrides = {}) {
+  return {
+    expenseId: EXPENSE_ID,
+    description: 'Groceries',
+    category: 'restaurant',
+    date: '2025-07-01',
+    cost: { amount: 42, currency: 'USD', paidBy: OWNER },
+    receipts: [],
+    createdBy: OWNER,
+    createdAt: Timestamp.now(),
+    updatedBy: OWNER,
+    updatedAt: Timestamp.now(),
+    ...overrides,
+  };
+}
+
+let testEnv;
+
+const STRANGER_PHONE = '+14155550199';
+
+/** Firestore as seen by a signed-in user (or signed out when userId is null) */
+function dbAs(userId, token = {}) {
+  return userId
+    ? testEnv.authenticatedContext(userId, token).firestore()
+    : testEnv.unauthenticatedContext().firestore();
+}
+
+async function seed(trip = buildTrip()) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, 'trips', TRIP_ID), trip);
+    await setDoc(doc(db, 'trips', TRIP_ID, 'days', DAY_ID), {
+      dayId: DAY_ID,
+      date: trip.startDate,
+    });
+    await setDoc(doc(db, 'trips', TRIP_ID, 'days', DAY_ID, 'activities', ACTIVITY_ID), {
+      activityId: ACTIVITY_ID,
+      title: 'Museum',
+      type: 'attraction',
+      attachments: [],
+      createdBy: OWNER,
+      createdAt: Timestamp.now(),
+      updatedBy: OWNER,
+      updatedAt: Timestamp.now(),
+    });
+    await setDoc(doc(db, 'trips', TRIP_ID, 'expenses', EXPENSE_ID), buildExpense());
+    for (const userId of [OWNER, EDITOR, VIEWER, STRANGER]) {
+      await setDoc(doc(db, 'users', userId), {
+        userId,
+        phoneNumber: '+14155550000',
+        displayName: userId,
+        tripIds: userId === STRANGER ? [] : [TRIP_ID],
+      });
+    }
+  });
+}
+
+function buildInvite(overrides = {}) {
+  return {
+    inviteId: 'invite-link',
+    tripId: TRIP_ID,
+    tripTitle: 'Rules Test Trip',
+    kind: 'link',
+    role: 'viewer',
+    invitedBy: EDITOR,
+    invitedByName: EDITOR,
+    status: 'pending',
+    expiresAt: Timestamp.fromMillis(Date.now() + 24 * 60 * 60 * 1000),
+    maxUses: 5,
+    useCount: 0,
+    acceptedBy: [],
+    declinedBy: [],
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    ...overrides,
+  };
+}
+
+async function seedInvite(invite) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), 'invites', invite.inviteId), invite);
+  });
+}
+
+/** The two writes of addParticipant with an inviteId, as one batch */
+function redeemInvite(db, invite, userId, role = invite.role) {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'invites', invite.inviteId), {
+    useCount: invite.useCount + 1,
+    acceptedBy: [...invite.acceptedBy, userId],
+    status: invite.useCount + 1 === invite.maxUses ? 'accepted' : 'pending',
+  });
+  batch.update(doc(db, 'trips', TRIP_ID), {
+    participants: arrayUnion({ ...participant(userId, role), inviteId: invite.inviteId }),
+    participantIds: arrayUnion(userId),
+    [`roles.${userId}`]: role,
+  });
+  return batch.commit();
+}
+
+const SHARE_TOKEN = 'abc123';
+
+const PUBLIC_SETTINGS = { currency: 'USD', timezone: 'UTC', isPublic: true, shareToken: SHARE_TOKEN };
+
+async function seedShare(shareToken = SHARE_TOKEN, tripId = TRIP_ID) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore(), 'shares', shareToken), {
+      shareToken,
+      tripId,
+      createdBy: OWNER,
+      createdAt: Timestamp.now(),
+    });
+  });
+}
+
+/** The writes of rotateShareToken: new settings and the new link, retiring the old one */
+function publishShare(db, shareToken, previousToken = null) {
+  const batch = writeBatch(db);
+  if (previousToken) {
+    batch.delete(doc(db, 'shares', previousToken));
+  }
+  batch.update(doc(db, 'trips', TRIP_ID), { settings: { ...PUBLIC_SETTINGS, shareToken } });
+  batch.set(doc(db, 'shares', shareToken), {
+    shareToken,
+    tripId: TRIP_ID,
+    createdBy: OWNER,
+    createdAt: Timestamp.now(),
+  });
+  return batch.commit();
+}
+
+/** Trip fields after replacing one participant's role */
+function withRole(trip, userId, role) {
+  const participants = trip.participants.map((p) => (p.userId === userId ? { ...p, role } : p));
+  return {
+    participants,
+    roles: Object.fromEntries(participants.map((p) => [p.userId, p.role])),
+  };
+}
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-trip-organizer',
+    firestore: {
+      rules: readFileSync(join(__dirname, '..', 'firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed();
+});
+
+after(async () => {
+  await testEnv?.cleanup();
+});
+
+describe('trips: reading', () => {
+  test('participants of every role can read the trip and its itinerary', async () => {
+    for (const userId of [OWNER, EDITOR, VIEWER]) {
+      const db = dbAs(userId);
+      await assertSucceeds(getDoc(doc(db, 'trips', TRIP_ID)));
+      await assertSucceeds(getDocs(collection(db, 'trips', TRIP_ID, 'days')));
+      await assertSucceeds(
+        getDocs(collection(db, 'trips', TRIP_ID, 'days', DAY_ID, 'activities'))
+      );
+    }
+  });
+
+  test('non-participants and signed-out users cannot read a private trip', async () => {
+    for (const userId of [STRANGER, null]) {
+      const db = dbAs(userId);
+      await assertFails(getDoc(doc(db, 'trips', TRIP_ID)));
+      await assertFails(getDocs(collection(db, 'trips', TRIP_ID, 'days')));
+    }
+  });
+
+  test('a publicly shared trip is readable without signing in', async () => {
+    await seed(buildTrip({ settings: PUBLIC_SETTINGS }));
+    await seedShare();
+    const db = dbAs(null);
+    await assertSucceeds(getDoc(doc(db, 'shares', SHARE_TOKEN)));
+    await assertSucceeds(getDoc(doc(db, 'trips', TRIP_ID)));
+    await assertSucceeds(getDocs(collection(db, 'trips', TRIP_ID, 'days')));
+    await assertFails(updateDoc(doc(db, 'trips', TRIP_ID), { title: 'Vandalized' }));
+  });
+
+  test('isPublic without a share token is not public', async () => {
+    await seed(buildTrip({ settings: { currency: 'USD', timezone: 'UTC', isPublic: true } }));
+    await assertFails(getDoc(doc(dbAs(null), 'trips', TRIP_ID)));
+  });
+
+  test('a share token without its published link is not public', async () => {
+    await seed(buildTrip({ settings: PUBLIC_SETTINGS }));
+    await assertFails(getDoc(doc(dbAs(null), 'trips', TRIP_ID)));
+
+    // A link published for another trip doesn't count either
+    await seedShare(SHARE_TOKEN, 'other-trip');
+    await assertFails(getDoc(doc(dbAs(null), 'trips', TRIP_ID)));
+  });
+
+  test('users can list only their own trips', async () => {
+    const mine = (db, userId) =>
+      query(collection(db, 'trips'), where('participantIds', 'array-contains', userId));
+
+    await assertSucceeds(getDocs(mine(dbAs(VIEWER), VIEWER)));
+    await assertFails(getDocs(mine(dbAs(STRANGER), VIEWER)));
+    await assertFails(getDocs(collection(dbAs(STRANGER), 'trips')));
+  });
+
+  test('a missing trip reads as not found', async () => {
+    const snapshot = await assertSucceeds(getDoc(doc(dbAs(STRANGER), 'trips', 'no-such-trip')));
+    if (snapshot.exists()) throw new Error('expected no document');
+  });
+});
+
+describe('trips: creating', () => {
+  test('a user can create a trip they own, together with its days', async () => {
+    const db = dbAs(STRANGER);
+    const creator = participant(STRANGER, 'owner');
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'trips', 'new-trip'), {
+      ...buildTrip(),
+      tripId: 'new-trip',
+      participants: [creator],
+      participantIds: [STRANGER],
+      roles: { [STRANGER]: 'owner' },
+      createdBy: STRANGER,
+    });
+    batch.set(doc(db, 'trips', 'new-trip', 'days', 'd1'), { dayId: 'd1', date: Timestamp.now() });
+    await assertSucceeds(batch.commit());
+  });
+
+  test('a copied trip can be created with its activities in the same batch', async () => {
+    const db = dbAs(STRANGER);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'trips', 'copy'), {
+      ...buildTrip(),
+      tripId: 'copy',
+      participants: [participant(STRANGER, 'owner')],
+      participantIds: [STRANGER],
+      roles: { [STRANGER]: 'owner' },
+      createdBy: STRANGER,
+    });
+    batch.set(doc(db, 'trips', 'copy', 'days', 'd1'), { dayId: 'd1', date: Timestamp.now() });
+    batch.set(doc(db, 'trips', 'copy', 'days', 'd1', 'activities', 'a1'), {
+      activityId: 'a1',
+      title: 'Museum',
+      type: 'attraction',
+      createdBy: STRANGER,
+      createdAt: Timestamp.now(),
+      updatedBy: STRANGER,
+      updatedAt: Timestamp.now(),
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  test('a trip cannot be created on behalf of someone else', async () => {
+    const db = dbAs(STRANGER);
+    await assertFails(
+      setDoc(doc(db, 'trips', 'new-trip'), {
+        ...buildTrip(),
+        tripId: 'new-trip',
+        participants: [participant(OWNER, 'owner')],
+        participantIds: [OWNER],
+        roles: { [OWNER]: 'owner' },
+        createdBy: OWNER,
+      })
+    );
+  });
+});
+
+describe('trips: editing', () => {
+  test('owners and editors can edit trip details', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), { title: 'By owner' }));
+    await assertSucceeds(updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), { title: 'By editor' }));
+  });
+
+  test('viewers and strangers cannot edit trip details', async () => {
+    await assertFails(updateDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID), { title: 'By viewer' }));
+    await assertFails(updateDoc(doc(dbAs(STRANGER), 'trips', TRIP_ID), { title: 'By stranger' }));
+  });
+
+  test('nobody can change who created the trip', async () => {
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), { createdBy: EDITOR }));
+  });
+
+  test('participantIds and roles must stay in sync', async () => {
+    await assertFails(
+      updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), {
+        participantIds: [OWNER, EDITOR, VIEWER, STRANGER],
+      })
+    );
+  });
+});
+
+describe('trips: participants', () => {
+  test('editors can add a participant', async () => {
+    const trip = buildTrip();
+    const participants = [...trip.participants, participant(STRANGER, 'viewer')];
+    await assertSucceeds(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), {
+        participants,
+        participantIds: participants.map((p) => p.userId),
+        roles: { ...trip.roles, [STRANGER]: 'viewer' },
+      })
+    );
+  });
+
+  test('editors can change a non-owner role', async () => {
+    await assertSucceeds(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), withRole(buildTrip(), VIEWER, 'editor'))
+    );
+  });
+
+  test('editors cannot grant or revoke the owner role', async () => {
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), withRole(buildTrip(), VIEWER, 'owner'))
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), withRole(buildTrip(), OWNER, 'viewer'))
+    );
+  });
+
+  test('owners can grant the owner role', async () => {
+    await assertSucceeds(
+      updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), withRole(buildTrip(), EDITOR, 'owner'))
+    );
+  });
+
+  test('the last owner cannot be demoted', async () => {
+    await assertFails(
+      updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), withRole(buildTrip(), OWNER, 'editor'))
+    );
+  });
+
+  test('viewers cannot change roles', async () => {
+    await assertFails(
+      updateDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID), withRole(buildTrip(), VIEWER, 'editor'))
+    );
+  });
+
+  test('any participant can refresh denormalized participant data', async () => {
+    const trip = buildTrip();
+    await assertSucceeds(
+      updateDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID), {
+        participants: trip.participants.map((p) =>
+          p.userId === VIEWER ? { ...p, displayName: 'Renamed Viewer' } : p
+        ),
+        updatedAt: Timestamp.now(),
+      })
+    );
+  });
+
+  test("participants cannot change their own role or phone, or anyone else's entry", async () => {
+    const trip = buildTrip();
+    const updateViewerEntry = (changes) =>
+      updateDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID), {
+        participants: trip.participants.map((p) => (p.userId === VIEWER ? { ...p, ...changes } : p)),
+        updatedAt: Timestamp.now(),
+      });
+
+    await assertFails(updateViewerEntry({ role: 'owner' }));
+    await assertFails(updateViewerEntry({ phoneNumber: '+15550000000' }));
+    await assertFails(
+      updateDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID), {
+        participants: trip.participants.map((p) =>
+          p.userId === EDITOR ? { ...p, displayName: 'Renamed Editor', role: 'viewer' } : p
+        ),
+        updatedAt: Timestamp.now(),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID), {
+        participants: trip.participants.map((p) => ({ ...p, displayName: `${p.displayName}!` })),
+        updatedAt: Timestamp.now(),
+      })
+    );
+  });
+});
+
+describe('invites', () => {
+  test('editors can invite, but only owners can invite an owner', async () => {
+    await assertSucceeds(
+      setDoc(doc(dbAs(EDITOR), 'invites', 'new-invite'), buildInvite({ inviteId: 'new-invite' }))
+    );
+    await assertFails(
+      setDoc(
+        doc(dbAs(EDITOR), 'invites', 'owner-invite'),
+        buildInvite({ inviteId: 'owner-invite', role: 'owner' })
+      )
+    );
+    await assertSucceeds(
+      setDoc(
+        doc(dbAs(OWNER), 'invites', 'owner-invite'),
+        buildInvite({ inviteId: 'owner-invite', role: 'owner', invitedBy: OWNER })
+      )
+    );
+  });
+
+  test('viewers and strangers cannot invite', async () => {
+    await assertFails(
+      setDoc(
+        doc(dbAs(VIEWER), 'invites', 'new-invite'),
+        buildInvite({ inviteId: 'new-invite', invitedBy: VIEWER })
+      )
+    );
+    await assertFails(
+      setDoc(
+        doc(dbAs(STRANGER), 'invites', 'new-invite'),
+        buildInvite({ inviteId: 'new-invite', invitedBy: STRANGER })
+      )
+    );
+  });
+
+  test('anyone with a link can join with its role', async () => {
+    const invite = buildInvite();
+    await seedInvite(invite);
+    await assertSucceeds(getDoc(doc(dbAs(STRANGER), 'invites', invite.inviteId)));
+    await assertSucceeds(redeemInvite(dbAs(STRANGER), invite, STRANGER));
+  });
+
+  test('joining needs the invite write in the same batch', async () => {
+    await seedInvite(buildInvite());
+    await assertFails(
+      updateDoc(doc(dbAs(STRANGER), 'trips', TRIP_ID), {
+        participants: arrayUnion({ ...participant(STRANGER, 'viewer'), inviteId: 'invite-link' }),
+        participantIds: arrayUnion(STRANGER),
+        [`roles.${STRANGER}`]: 'viewer',
+      })
+    );
+  });
+
+  test('an invite cannot be redeemed with a different role', async () => {
+    const invite = buildInvite();
+    await seedInvite(invite);
+    await assertFails(redeemInvite(dbAs(STRANGER), invite, STRANGER, 'editor'));
+  });
+
+  test('joining leaves everyone already on the trip as they were', async () => {
+    const invite = buildInvite();
+    await seedInvite(invite);
+    const joined = { ...participant(STRANGER, 'viewer'), inviteId: invite.inviteId };
+    const redeemWith = (participants, participantIds) => {
+      const db = dbAs(STRANGER);
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'invites', invite.inviteId), {
+        useCount: 1,
+        acceptedBy: [STRANGER],
+        status: 'pending',
+      });
+      batch.update(doc(db, 'trips', TRIP_ID), {
+        participants,
+        participantIds,
+        [`roles.${STRANGER}`]: 'viewer',
+      });
+      return batch.commit();
+    };
+    const { participants, participantIds } = buildTrip();
+
+    // Renaming the editor while joining
+    await assertFails(
+      redeemWith(
+        [participants[0], { ...participants[1], displayName: 'Someone else' }, participants[2], joined],
+        [...participantIds, STRANGER]
+      )
+    );
+    // Swapping the viewer out for a copy of the newcomer
+    await assertFails(
+      redeemWith([participants[0], participants[1], joined, joined], [...participantIds, STRANGER])
+    );
+    // Dropping the viewer from participantIds
+    await assertFails(
+      redeemWith([...participants, joined], [OWNER, EDITOR, STRANGER, STRANGER])
+    );
+    await assertSucceeds(redeemWith([...participants, joined], [...participantIds, STRANGER]));
+  });
+
+  test('expired, revoked and used-up invites cannot be redeemed', async () => {
+    const expired = buildInvite({ inviteId: 'expired', expiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+    const revoked = buildInvite({ inviteId: 'revoked', status: 'revoked' });
+    const usedUp = buildInvite({ inviteId: 'used-up', maxUses: 1, useCount: 1, acceptedBy: [VIEWER], status: 'accepted' });
+    for (const invite of [expired, revoked, usedUp]) {
+      await seedInvite(invite);
+      await assertFails(redeemInvite(dbAs(STRANGER), invite, STRANGER));
+    }
+  });
+
+  test('phone invites can be listed, accepted and declined only by that phone', async () => {
+    const invite = buildInvite({ inviteId: 'invite-phone', kind: 'phone', phoneNumber: STRANGER_PHONE, maxUses: 1 });
+    await seedInvite(invite);
+    const mine = query(
+      collection(dbAs(STRANGER, { phone_number: STRANGER_PHONE }), 'invites'),
+      where('phoneNumber', '==', STRANGER_PHONE),
+      where('status', '==', 'pending')
+    );
+    await assertSucceeds(getDocs(mine));
+    await assertFails(
+      getDocs(
+        query(
+          collection(dbAs(VIEWER, { phone_number: '+14155550000' }), 'invites'),
+          where('phoneNumber', '==', STRANGER_PHONE)
+        )
+      )
+    );
+    await assertFails(redeemInvite(dbAs(STRANGER, { phone_number: '+14155550000' }), invite, STRANGER));
+    await assertFails(
+      updateDoc(doc(dbAs(VIEWER, { phone_number: '+14155550000' }), 'invites', invite.inviteId), {
+        status: 'declined',
+      })
+    );
+    await assertSucceeds(
+      updateDoc(doc(dbAs(STRANGER, { phone_number: STRANGER_PHONE }), 'invites', invite.inviteId), {
+        status: 'declined',
+      })
+    );
+  });
+
+  test('owners and editors can list and revoke a trip\'s invites', async () => {
+    await seedInvite(buildInvite());
+    const tripInvites = (userId) =>
+      getDocs(
+        query(
+          collection(dbAs(userId), 'invites'),
+          where('tripId', '==', TRIP_ID),
+          where('status', '==', 'pending')
+        )
+      );
+    await assertSucceeds(tripInvites(EDITOR));
+    await assertFails(tripInvites(VIEWER));
+    await assertFails(updateDoc(doc(dbAs(VIEWER), 'invites', 'invite-link'), { status: 'revoked' }));
+    await assertSucceeds(updateDoc(doc(dbAs(EDITOR), 'invites', 'invite-link'), { status: 'revoked' }));
+  });
+});
+
+describe('share links', () => {
+  test('share links can be looked up by token but never listed', async () => {
+    await seedShare();
+    await assertSucceeds(getDoc(doc(dbAs(null), 'shares', SHARE_TOKEN)));
+    await assertFails(getDocs(collection(dbAs(null), 'shares')));
+    await assertFails(getDocs(collection(dbAs(STRANGER), 'shares')));
+    await assertFails(
+      getDocs(query(collection(dbAs(OWNER), 'shares'), where('tripId', '==', TRIP_ID)))
+    );
+  });
+
+  test('owners can publish, rotate and revoke the share link', async () => {
+    const db = dbAs(OWNER);
+    await assertSucceeds(publishShare(db, SHARE_TOKEN));
+    await assertSucceeds(publishShare(db, 'rotated456', SHARE_TOKEN));
+    await assertSucceeds(getDoc(doc(dbAs(null), 'trips', TRIP_ID, 'days', DAY_ID)));
+
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'shares', 'rotated456'));
+    batch.update(doc(db, 'trips', TRIP_ID), {
+      settings: { ...PUBLIC_SETTINGS, shareToken: 'rotated456', isPublic: false },
+    });
+    await assertSucceeds(batch.commit());
+    await assertFails(getDoc(doc(dbAs(null), 'trips', TRIP_ID)));
+  });
+
+  test('editors and viewers cannot publish or revoke the share link', async () => {
+    for (const userId of [EDITOR, VIEWER, STRANGER]) {
+      await assertFails(publishShare(dbAs(userId), SHARE_TOKEN));
+    }
+
+    await seed(buildTrip({ settings: PUBLIC_SETTINGS }));
+    await seedShare();
+    const db = dbAs(EDITOR);
+    await assertFails(deleteDoc(doc(db, 'shares', SHARE_TOKEN)));
+    await assertFails(
+      updateDoc(doc(db, 'trips', TRIP_ID), { settings: { ...PUBLIC_SETTINGS, isPublic: false } })
+    );
+    await assertFails(
+      updateDoc(doc(db, 'trips', TRIP_ID), { settings: { ...PUBLIC_SETTINGS, shareToken: 'mine' } })
+    );
+    // Other settings are still theirs to change
+    await assertSucceeds(
+      updateDoc(doc(db, 'trips', TRIP_ID), { settings: { ...PUBLIC_SETTINGS, currency: 'EUR' } })
+    );
+  });
+
+  test('a share link must match the trip it is published with', async () => {
+    const db = dbAs(OWNER);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'trips', TRIP_ID), { settings: PUBLIC_SETTINGS });
+    batch.set(doc(db, 'shares', 'other-token'), {
+      shareToken: 'other-token',
+      tripId: TRIP_ID,
+      createdBy: OWNER,
+      createdAt: Timestamp.now(),
+    });
+    await assertFails(batch.commit());
+  });
+});
+
+describe('trips: deleting', () => {
+  test('only owners can delete a trip', async () => {
+    await assertFails(deleteDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID)));
+    await assertFails(deleteDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID)));
+    await assertSucceeds(deleteDoc(doc(dbAs(OWNER), 'trips', TRIP_ID)));
+  });
+});
+
+describe('trips: trash', () => {
+  const PARTICIPANT_IDS = [OWNER, EDITOR, VIEWER];
+
+  function buildTrash(overrides = {}) {
+    return {
+      deletedAt: Timestamp.now(),
+      deletedBy: OWNER,
+      participantIds: PARTICIPANT_IDS,
+      ownerIds: [OWNER],
+      ...overrides,
+    };
+  }
+
+  async function seedTrashed() {
+    await seed(buildTrip({ trash: buildTrash(), participantIds: [] }));
+  }
+
+  test('only owners can move a trip to the trash', async () => {
+    const fields = { trash: buildTrash(), participantIds: [] };
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), { ...fields, trash: buildTrash({ deletedBy: EDITOR }) })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), { trash: buildTrash() })
+    );
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), fields));
+  });
+
+  test('trips in the trash are hidden from everyone but their owners', async () => {
+    await seedTrashed();
+    for (const userId of [EDITOR, VIEWER]) {
+      const db = dbAs(userId);
+      await assertFails(getDoc(doc(db, 'trips', TRIP_ID)));
+      await assertFails(getDocs(collection(db, 'trips', TRIP_ID, 'days')));
+      await assertFails(getDocs(collection(db, 'trips', TRIP_ID, 'changes')));
+      const trips = await assertSucceeds(
+        getDocs(query(collection(db, 'trips'), where('participantIds', 'array-contains', userId)))
+      );
+      assert.equal(trips.size, 0);
+    }
+
+    const db = dbAs(OWNER);
+    await assertSucceeds(getDoc(doc(db, 'trips', TRIP_ID)));
+    await assertSucceeds(getDocs(collection(db, 'trips', TRIP_ID, 'days')));
+    const trash = await assertSucceeds(
+      getDocs(query(collection(db, 'trips'), where('trash.ownerIds', 'array-contains', OWNER)))
+    );
+    assert.equal(trash.size, 1);
+    await assertFails(
+      getDocs(query(collection(dbAs(EDITOR), 'trips'), where('trash.ownerIds', 'array-contains', OWNER)))
+    );
+  });
+
+  test('nobody can edit a trip in the trash or its itinerary', async () => {
+    await seedTrashed();
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), { title: 'Still here?' }));
+    await assertFails(updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), { title: 'Still here?' }));
+    await assertFails(
+      setDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'days', 'day-x'), { dayId: 'day-x', date: Timestamp.now() })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'days', DAY_ID, 'activities', ACTIVITY_ID), {
+        title: 'Nope',
+      })
+    );
+    await assertFails(deleteDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'days', DAY_ID)));
+    await assertFails(
+      setDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'expenses', 'expense-x'), buildExpense({ expenseId: 'expense-x' }))
+    );
+    await assertFails(deleteDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'expenses', EXPENSE_ID)));
+    await assertFails(
+      setDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'calendarFeeds', OWNER), {
+        userId: OWNER,
+        feedToken: 'token',
+        scope: 'trip',
+        createdAt: Timestamp.now(),
+      })
+    );
+  });
+
+  test('only owners can restore a trip, with the participants it had', async () => {
+    await seedTrashed();
+    const restore = { trash: deleteField(), participantIds: PARTICIPANT_IDS };
+    await assertFails(updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID), restore));
+    await assertFails(
+      updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), { ...restore, participantIds: [OWNER] })
+    );
+    await assertSucceeds(updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID), restore));
+    await assertSucceeds(getDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID)));
+  });
+
+  test('owners can purge a trip from the trash', async () => {
+    await seedTrashed();
+    const db = dbAs(OWNER);
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'trips', TRIP_ID, 'days', DAY_ID, 'activities', ACTIVITY_ID));
+    batch.delete(doc(db, 'trips', TRIP_ID, 'days', DAY_ID));
+    batch.delete(doc(db, 'trips', TRIP_ID, 'expenses', EXPENSE_ID));
+    batch.delete(doc(db, 'trips', TRIP_ID));
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('days and activities', () => {
+  test('owners and editors can add, edit and remove days and activities', async () => {
+    for (const userId of [OWNER, EDITOR]) {
+      const db = dbAs(userId);
+      const dayRef = doc(db, 'trips', TRIP_ID, 'days', `day-${userId}`);
+      const activityRef = doc(db, 'trips', TRIP_ID, 'days', DAY_ID, 'activities', ACTIVITY_ID);
+
+      await assertSucceeds(setDoc(dayRef, { dayId: dayRef.id, date: Timestamp.now() }));
+      await assertSucceeds(updateDoc(activityRef, { title: `Edited by ${userId}` }));
+      await assertSucceeds(deleteDoc(dayRef));
+    }
+  });
+
+  test('viewers and strangers cannot change days or activities', async () => {
+    for (const userId of [VIEWER, STRANGER]) {
+      const db = dbAs(userId);
+      await assertFails(
+        setDoc(doc(db, 'trips', TRIP_ID, 'days', 'day-x'), { dayId: 'day-x', date: Timestamp.now() })
+      );
+      await assertFails(
+        updateDoc(doc(db, 'trips', TRIP_ID, 'days', DAY_ID, 'activities', ACTIVITY_ID), {
+          title: 'Nope',
+        })
+      );
+      await assertFails(deleteDoc(doc(db, 'trips', TRIP_ID, 'days', DAY_ID)));
+    }
+  });
+});
+
+describe('expenses', () => {
+  test('participants of every role can read expenses', async () => {
+    for (const userId of [OWNER, EDITOR, VIEWER]) {
+      await assertSucceeds(getDocs(collection(dbAs(userId), 'trips', TRIP_ID, 'expenses')));
+    }
+  });
+
+  test('strangers and the public cannot read expenses, even on a shared trip', async () => {
+    await seed(buildTrip({ settings: PUBLIC_SETTINGS }));
+    await seedShare();
+    for (const userId of [STRANGER, null]) {
+      await assertFails(getDocs(collection(dbAs(userId), 'trips', TRIP_ID, 'expenses')));
+    }
+  });
+
+  test('owners and editors can add, edit and remove expenses', async () => {
+    for (const userId of [OWNER, EDITOR]) {
+      const db = dbAs(userId);
+      const expenseRef = doc(db, 'trips', TRIP_ID, 'expenses', `expense-${userId}`);
+
+      await assertSucceeds(setDoc(expenseRef, buildExpense({ expenseId: expenseRef.id, createdBy: userId })));
+      await assertSucceeds(updateDoc(expenseRef, { description: `Edited by ${userId}` }));
+      await assertSucceeds(deleteDoc(expenseRef));
+    }
+  });
+
+  test('viewers and strangers cannot change expenses', async () => {
+    for (const userId of [VIEWER, STRANGER]) {
+      const db = dbAs(userId);
+      await assertFails(
+        setDoc(doc(db, 'trips', TRIP_ID, 'expenses', 'expense-x'), buildExpense({ expenseId: 'expense-x' }))
+      );
+      await assertFails(updateDoc(doc(db, 'trips', TRIP_ID, 'expenses', EXPENSE_ID), { description: 'Nope' }));
+      await assertFails(deleteDoc(doc(db, 'trips', TRIP_ID, 'expenses', EXPENSE_ID)));
+    }
+  });
+});
+
+describe('change history', () => {
+  function buildChange(changeId, actorId, overrides = {}) {
+    return {
+      changeId,
+      tripId: TRIP_ID,
+      actorId,
+      operation: 'activity.update',
+      target: { dayId: DAY_ID, activityId: ACTIVITY_ID },
+      label: 'Museum',
+      diffs: [],
+      createdAt: serverTimestamp(),
+      ...overrides,
+    };
+  }
+
+  test('owners and editors can append their own changes', async () => {
+    for (const userId of [OWNER, EDITOR]) {
+      const changeId = `change-${userId}`;
+      await assertSucceeds(
+        setDoc(doc(dbAs(userId), 'trips', TRIP_ID, 'changes', changeId), buildChange(changeId, userId))
+      );
+    }
+  });
+
+  test('nobody can record a change in someone else\'s name or with a made-up time', async () => {
+    await assertFails(
+      setDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'changes', 'change-x'), buildChange('change-x', OWNER))
+    );
+    await assertFails(
+      setDoc(
+        doc(dbAs(EDITOR), 'trips', TRIP_ID, 'changes', 'change-x'),
+        buildChange('change-x', EDITOR, { createdAt: Timestamp.fromDate(new Date('2020-01-01T00:00:00Z')) })
+      )
+    );
+  });
+
+  test('viewers and strangers cannot append changes', async () => {
+    for (const userId of [VIEWER, STRANGER]) {
+      await assertFails(
+        setDoc(doc(dbAs(userId), 'trips', TRIP_ID, 'changes', 'change-x'), buildChange('change-x', userId))
+      );
+    }
+  });
+
+  test('participants can read the history; strangers cannot', async () => {
+    await assertSucceeds(getDocs(collection(dbAs(VIEWER), 'trips', TRIP_ID, 'changes')));
+    await assertFails(getDocs(collection(dbAs(STRANGER), 'trips', TRIP_ID, 'changes')));
+  });
+
+  test('entries cannot be edited, and only owners can delete them', async () => {
+    const changeId = 'change-editor';
+    await assertSucceeds(
+      setDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'changes', changeId), buildChange(changeId, EDITOR))
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'changes', changeId), { label: 'Something else' })
+    );
+    await assertFails(updateDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'changes', changeId), { diffs: [] }));
+    await assertFails(deleteDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'changes', changeId)));
+    await assertSucceeds(deleteDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'changes', changeId)));
+  });
+});
+
+describe('calendar feeds', () => {
+  function buildFeed(userId, overrides = {}) {
+    return { userId, feedToken: `token-${userId}`, scope: 'trip', createdAt: Timestamp.now(), ...overrides };
+  }
+
+  test('participants of every role can turn on their own feed and read everyone\'s', async () => {
+    for (const userId of [OWNER, EDITOR, VIEWER]) {
+      const db = dbAs(userId);
+      await assertSucceeds(setDoc(doc(db, 'trips', TRIP_ID, 'calendarFeeds', userId), buildFeed(userId)));
+      await assertSucceeds(getDocs(collection(db, 'trips', TRIP_ID, 'calendarFeeds')));
+    }
+  });
+
+  test('nobody can turn on a feed for someone else or for a trip they are not in', async () => {
+    await assertFails(
+      setDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'calendarFeeds', VIEWER), buildFeed(VIEWER))
+    );
+    await assertFails(
+      setDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID, 'calendarFeeds', VIEWER), buildFeed(OWNER))
+    );
+    await assertFails(
+      setDoc(doc(dbAs(STRANGER), 'trips', TRIP_ID, 'calendarFeeds', STRANGER), buildFeed(STRANGER))
+    );
+    await assertFails(getDocs(collection(dbAs(STRANGER), 'trips', TRIP_ID, 'calendarFeeds')));
+    await assertFails(getDocs(collection(dbAs(null), 'trips', TRIP_ID, 'calendarFeeds')));
+  });
+
+  test('people turn off their own feed; owners and editors remove other people\'s', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      for (const userId of [OWNER, EDITOR, VIEWER, STRANGER]) {
+        await setDoc(doc(db, 'trips', TRIP_ID, 'calendarFeeds', userId), buildFeed(userId));
+      }
+    });
+
+    await assertFails(deleteDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID, 'calendarFeeds', EDITOR)));
+    await assertSucceeds(deleteDoc(doc(dbAs(VIEWER), 'trips', TRIP_ID, 'calendarFeeds', VIEWER)));
+    await assertSucceeds(deleteDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'calendarFeeds', STRANGER)));
+    await assertSucceeds(deleteDoc(doc(dbAs(OWNER), 'trips', TRIP_ID, 'calendarFeeds', EDITOR)));
+  });
+});
+
+describe('presence', () => {
+  test('participants can write their own presence and read everyone else\'s', async () => {
+    const db = dbAs(VIEWER);
+    await assertSucceeds(
+      setDoc(doc(db, 'trips', TRIP_ID, 'presence', VIEWER), {
+        userId: VIEWER,
+        lastSeen: Timestamp.now(),
+        currentlyViewing: true,
+      })
+    );
+    await assertSucceeds(getDocs(collection(db, 'trips', TRIP_ID, 'presence')));
+  });
+
+  test('nobody can write presence for someone else or for a trip they are not in', async () => {
+    await assertFails(
+      setDoc(doc(dbAs(EDITOR), 'trips', TRIP_ID, 'presence', VIEWER), { userId: VIEWER })
+    );
+    await assertFails(
+      setDoc(doc(dbAs(STRANGER), 'trips', TRIP_ID, 'presence', STRANGER), { userId: STRANGER })
+    );
+  });
+});
+
+describe('users', () => {
+  test('users can create and edit only their own profile', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(VIEWER), 'users', VIEWER), { displayName: 'Me' }));
+    await assertFails(updateDoc(doc(dbAs(VIEWER), 'users', OWNER), { displayName: 'Not me' }));
+    await assertFails(
+      setDoc(doc(dbAs(VIEWER), 'users', 'someone-new'), { userId: 'someone-new', tripIds: [] })
+    );
+  });
+
+  test('adding someone to a trip may update only their tripIds', async () => {
+    await assertSucceeds(
+      updateDoc(doc(dbAs(EDITOR), 'users', STRANGER), { tripIds: arrayUnion(TRIP_ID) })
+    );
+  });
+
+  test('others may add or remove only one trip ID, for a trip they edit', async () => {
+    await assertSucceeds(
+      updateDoc(doc(dbAs(OWNER), 'users', VIEWER), { tripIds: arrayRemove(TRIP_ID) })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(VIEWER), 'users', STRANGER), { tripIds: arrayUnion(TRIP_ID) })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(STRANGER), 'users', EDITOR), { tripIds: arrayRemove(TRIP_ID) })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'users', STRANGER), { tripIds: arrayUnion(TRIP_ID, 'other-trip') })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'users', STRANGER), { tripIds: arrayUnion('other-trip') })
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(EDITOR), 'users', OWNER), { tripIds: ['other-trip'] })
+    );
+  });
+
+  test('signed-out users cannot read profiles', async () => {
+    await assertFails(getDoc(doc(dbAs(null), 'users', OWNER)));
+  });
+});
+
+describe('templates', () => {
+  function buildTemplate(ownerId) {
+    return {
+      templateId: `template-${ownerId}`,
+      ownerId,
+      name: 'Offsite',
+      sourceTripId: TRIP_ID,
+      content: { title: 'Offsite', days: [], lodging: [] },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+  }
+
+  test('users can save, list and delete their own templates', async () => {
+    const db = dbAs(VIEWER);
+    const templateRef = doc(db, 'templates', `template-${VIEWER}`);
+    await assertSucceeds(setDoc(templateRef, buildTemplate(VIEWER)));
+    await assertSucceeds(getDoc(templateRef));
+    await assertSucceeds(getDocs(query(collection(db, 'templates'), where('ownerId', '==', VIEWER))));
+    await assertSucceeds(deleteDoc(templateRef));
+  });
+
+  test('templates cannot be saved for someone else or changed once saved', async () => {
+    await assertFails(
+      setDoc(doc(dbAs(VIEWER), 'templates', `template-${OWNER}`), buildTemplate(OWNER))
+    );
+    await assertSucceeds(
+      setDoc(doc(dbAs(OWNER), 'templates', `template-${OWNER}`), buildTemplate(OWNER))
+    );
+    await assertFails(
+      updateDoc(doc(dbAs(OWNER), 'templates', `template-${OWNER}`), { name: 'Renamed' })
+    );
+  });
+
+  test('nobody else can read, list or delete a template', async () => {
+    await assertSucceeds(
+      setDoc(doc(dbAs(OWNER), 'templates', `template-${OWNER}`), buildTemplate(OWNER))
+    );
+    const db = dbAs(EDITOR);
+    await assertFails(getDoc(doc(db, 'templates', `template-${OWNER}`)));
+    await assertFails(getDocs(query(collection(db, 'templates'), where('ownerId', '==', OWNER))));
+    await assertFails(deleteDoc(doc(db, 'templates', `template-${OWNER}`)));
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Test Fixtures
+ *
+ * People, trips and itinerary items shared by the unit tests. Each builder
+ * fills in the required fields; tests pass only the fields they care about.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import type { NewTripDocument } from '../src/services/persistence';
+import type { Activity, DayDocument, Expense, Lodging, Participant, Settlement, TripDocument } from '../src/types';
+
+export const ANA = 'user-ana';
+export const BEN = 'user-ben';
+export const CAL = 'user-cal';
+
+/**
+ * Timestamp of an ISO date-time
+ */
+export function at(iso: string): Timestamp {
+  return Timestamp.fromDate(new Date(iso));
+}
+
+/**
+ * When fixtures were created and last updated, unless a test says otherwise
+ */
+export const CREATED_AT = at('2025-06-01T00:00:00Z');
+
+export function participant(userId: string, fields: Partial<Participant> = {}): Participant {
+  return { userId, phoneNumber: '+14155550000', displayName: userId, role: 'editor', joinedAt: CREATED_AT, ...fields };
+}
+
+/**
+ * A trip document as services write it, owned by ANA
+ */
+export function newTrip(tripId: string, fields: Partial<NewTripDocument> = {}): NewTripDocument {
+  return {
+    tripId,
+    title: `Trip ${tripId}`,
+    startDate: at('2025-07-01T00:00:00Z'),
+    endDate: at('2025-07-03T00:00:00Z'),
+    participants: [participant(ANA, { role: 'owner' })],
+    participantIds: [ANA],
+    roles: { [ANA]: 'owner' },
+    createdBy: ANA,
+    settings: { currency: 'USD', timezone: 'UTC', isPublic: false },
+    ...fields,
+  };
+}
+
+/**
+ * A trip document as stored, owned by ANA
+ */
+export function tripDocument(tripId: string, fields: Partial<TripDocument> = {}): TripDocument {
+  return { ...newTrip(tripId), createdAt: CREATED_AT, updatedAt: CREATED_AT, ...fields };
+}
+
+/**
+ * A day at UTC midnight of a calendar date
+ */
+export function day(dayId: string, date: string): DayDocument {
+  return { dayId, date: at(`${date}T00:00:00Z`) };
+}
+
+export function activity(activityId: string, fields: Partial<Activity> = {}): Activity {
+  return {
+    activityId,
+    title: activityId,
+    type: 'attraction',
+    createdBy: ANA,
+    createdAt: CREATED_AT,
+    updatedBy: ANA,
+    updatedAt: CREATED_AT,
+    ...fields,
+  };
+}
+
+/**
+ * A stay for the nights of 1 and 2 July
+ */
+export function lodging(lodgingId: string, fields: Partial<Lodging> = {}): Lodging {
+  return {
+    lodgingId,
+    name: lodgingId,
+    checkInDate: '2025-07-01',
+    checkOutDate: '2025-07-03',
+    createdBy: ANA,
+    createdAt: CREATED_AT,
+    updatedBy: ANA,
+    updatedAt: CREATED_AT,
+    ...fields,
+  };
+}
+
+/**
+ * A 20 USD expense on 2 July, paid by ANA
+ */
+export function expense(expenseId: string, fields: Partial<Expense> = {}): Expense {
+  return {
+    expenseId,
+    description: expenseId,
+    category: 'other',
+    date: '2025-07-02',
+    cost: { amount: 20, currency: 'USD', paidBy: ANA },
+    receipts: [],
+    createdBy: ANA,
+    createdAt: CREATED_AT,
+    updatedBy: ANA,
+    updatedAt: CREATED_AT,
+    ...fields,
+  };
+}
+
+/**
+ * A repayment from one person to another
+ */
+export function settlement(fromUserId: string, toUserId: string, amount: number, currency = 'USD'): Settlement {
+  return {
+    settlementId: `${fromUserId}-${toUserId}`,
+    fromUserId,
+    toUserId,
+    amount,
+    currency,
+    createdBy: fromUserId,
+    createdAt: CREATED_AT,
+  };
+}
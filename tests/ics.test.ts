@@ -0,0 +1,304 @@
+/**
+ * iCalendar Utility Tests
+ *
+ * Exporting a trip as .ics, reading calendars back in, line folding and
+ * duplicate detection on import (src/utils/ics.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase/firestore';
+import { toICalendar, getCalendarFileName, parseICalendar, planCalendarImport, guessActivityType } from '../src/utils/ics';
+import { fromZonedTime } from '../src/utils/dates';
+import type { Activity, Day, Trip } from '../src/types';
+import { ANA, BEN, participant, activity } from './fixtures';
+
+const TIME_ZONE = 'Europe/Paris';
+
+/**
+ * An instant given as wall-clock time in a zone
+ */
+function localTime(date: string, time: string, timeZone = TIME_ZONE): Timestamp {
+  return Timestamp.fromDate(fromZonedTime(date, timeZone, time));
+}
+
+/**
+ * A day starting at midnight in the trip's zone
+ */
+function tripDay(date: string, activities: Activity[] = []): Day {
+  return { dayId: `day-${date}`, date: localTime(date, '00:00'), activities };
+}
+
+function trip(days: Day[]): Pick<Trip, 'tripId' | 'title' | 'days' | 'participants' | 'startDate' | 'endDate'> {
+  return {
+    tripId: 'trip-1',
+    title: 'Summer in France',
+    days,
+    participants: [participant(ANA), participant(BEN)],
+    startDate: days[0].date,
+    endDate: days[days.length - 1].date,
+  };
+}
+
+/**
+ * Unfolded content lines of a calendar
+ */
+function contentLines(ics: string): string[] {
+  return ics.replace(/\r\n[ \t]/g, '').split('\r\n').filter(Boolean);
+}
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR', ''].join('\r\n');
+}
+
+describe('toICalendar and parseICalendar', () => {
+  const louvre = activity('louvre', {
+    title: 'Louvre; tickets, entrance',
+    description: 'Meet at the pyramid\nBring the \\ printed tickets',
+    startTime: localTime('2025-07-01', '09:30'),
+    endTime: localTime('2025-07-01', '12:00'),
+    location: { name: 'Musée du Louvre', address: 'Rue de Rivoli, Paris', coordinates: { lat: 48.8606, lng: 2.3376 } },
+  });
+  const call = activity('call', {
+    title: 'Call home',
+    type: 'other',
+    startTime: localTime('2025-07-01', '08:00', 'Asia/Tokyo'),
+    timeZone: 'Asia/Tokyo',
+  });
+  const picnic = activity('picnic', { title: 'Picnic', type: 'restaurant' });
+  const itinerary = trip([tripDay('2025-07-01', [louvre, call]), tripDay('2025-07-02', [picnic])]);
+
+  test('reads back every activity as it was exported', () => {
+    const events = parseICalendar(toICalendar(itinerary, TIME_ZONE, { tripUrl: 'https://example.com/trip' }), TIME_ZONE);
+
+    assert.deepEqual(
+      events.map((event) => event.uid),
+      ['louvre@trip-organizer', 'call@trip-organizer', 'picnic@trip-organizer']
+    );
+
+    const [museum, phone, lunch] = events;
+    assert.equal(museum.title, 'Louvre; tickets, entrance');
+    assert.equal(
+      museum.description,
+      'Meet at the pyramid\nBring the \\ printed tickets\n\nhttps://example.com/trip'
+    );
+    assert.equal(museum.location, 'Musée du Louvre, Rue de Rivoli, Paris');
+    assert.deepEqual(museum.coordinates, { lat: 48.8606, lng: 2.3376 });
+    assert.deepEqual(museum.categories, ['Attractions']);
+    assert.equal(museum.startTime!.getTime(), louvre.startTime!.toMillis());
+    assert.equal(museum.endTime!.getTime(), louvre.endTime!.toMillis());
+    assert.equal(museum.timeZone, TIME_ZONE);
+
+    assert.equal(phone.startTime!.getTime(), call.startTime!.toMillis());
+    assert.equal(phone.timeZone, 'Asia/Tokyo');
+
+    assert.equal(lunch.startDate, '2025-07-02');
+    assert.equal(lunch.endDate, undefined);
+    assert.equal(lunch.startTime, undefined);
+  });
+
+  test('writes one event per activity, UID from its activityId, with escaped text', () => {
+    const lines = contentLines(toICalendar(itinerary, TIME_ZONE, { tripUrl: 'https://example.com/trip' }));
+
+    assert.deepEqual(
+      lines.filter((line) => line.startsWith('UID:')),
+      ['UID:louvre@trip-organizer', 'UID:call@trip-organizer', 'UID:picnic@trip-organizer']
+    );
+    assert.ok(lines.includes('SUMMARY:Louvre\\; tickets\\, entrance'));
+    assert.ok(
+      lines.includes('DESCRIPTION:Meet at the pyramid\\nBring the \\\\ printed tickets\\n\\nhttps://example.com/trip')
+    );
+    assert.ok(lines.includes('LOCATION:Musée du Louvre\\, Rue de Rivoli\\, Paris'));
+    assert.ok(lines.includes('GEO:48.8606;2.3376'));
+    assert.ok(lines.includes('CATEGORIES:Attractions'));
+    assert.ok(lines.includes('URL:https://example.com/trip'));
+  });
+
+  test('describes every zone it uses with a VTIMEZONE', () => {
+    const ics = toICalendar(itinerary, TIME_ZONE);
+
+    assert.match(ics, /BEGIN:VTIMEZONE\r\nTZID:Asia\/Tokyo\r\n/);
+    assert.match(ics, /BEGIN:VTIMEZONE\r\nTZID:Europe\/Paris\r\n/);
+    assert.match(ics, /DTSTART;TZID=Europe\/Paris:20250701T093000\r\n/);
+    assert.match(ics, /DTSTART;VALUE=DATE:20250702\r\nDTEND;VALUE=DATE:20250703\r\n/);
+  });
+
+  test('writes UTC times without a VTIMEZONE', () => {
+    const ics = toICalendar(trip([tripDay('2025-07-01', [activity('walk', { startTime: localTime('2025-07-01', '10:00', 'UTC') })])]), 'UTC');
+
+    assert.doesNotMatch(ics, /VTIMEZONE/);
+    assert.match(ics, /DTSTART:20250701T100000Z\r\n/);
+  });
+
+  test('keeps only the activities a participant pays for or shares in a participant calendar', () => {
+    const mine = activity('mine', { cost: { amount: 20, currency: 'EUR', paidBy: BEN, splitBetween: [ANA, BEN] } });
+    const theirs = activity('theirs', { cost: { amount: 20, currency: 'EUR', paidBy: BEN, splitBetween: [BEN] } });
+    const everyone = activity('everyone');
+    const ics = toICalendar(trip([tripDay('2025-07-01', [mine, theirs, everyone])]), TIME_ZONE, {
+      scope: 'participant',
+      userId: ANA,
+    });
+
+    assert.deepEqual(
+      parseICalendar(ics, TIME_ZONE).map((event) => event.uid),
+      ['mine@trip-organizer', 'everyone@trip-organizer']
+    );
+    assert.match(ics, /X-WR-CALNAME:Summer in France \(user-ana\)\r\n/);
+    assert.throws(
+      () => toICalendar(itinerary, TIME_ZONE, { scope: 'participant', userId: 'user-stranger' }),
+      /Not a participant of this trip/
+    );
+  });
+
+  test('rejects text that is not a calendar', () => {
+    assert.throws(() => parseICalendar('BEGIN:VCARD\r\nEND:VCARD\r\n', TIME_ZONE), /Not an iCalendar/);
+  });
+});
+
+describe('line folding', () => {
+  test('folds lines longer than 75 octets without splitting a character', () => {
+    const notes = 'Déjà vu à la crêperie — ' + 'très bon, '.repeat(20) + '🥞 fin';
+    const ics = toICalendar(trip([tripDay('2025-07-01', [activity('crepes', { notes })])]), TIME_ZONE);
+    const encoder = new TextEncoder();
+
+    assert.ok(ics.endsWith('\r\n'));
+    const lines = ics.slice(0, -2).split('\r\n');
+    assert.ok(lines.some((line) => line.startsWith(' ')), 'the notes are long enough to be folded');
+    lines.forEach((line) => {
+      assert.ok(encoder.encode(line).length <= 75, `"${line}" is longer than 75 octets`);
+      assert.ok(!line.includes('�'));
+    });
+
+    const [event] = parseICalendar(ics, TIME_ZONE);
+    assert.equal(event.description, notes);
+  });
+
+  test('unfolds continuation lines that start with a space or a tab', () => {
+    const [event] = parseICalendar(
+      calendar('BEGIN:VEVENT', 'UID:folded', 'DTSTART;VALUE=DATE:20250701', 'SUMMARY:Boat', ' trip on the', '\t Seine', 'END:VEVENT'),
+      TIME_ZONE
+    );
+    assert.equal(event.title, 'Boattrip on the Seine');
+  });
+});
+
+describe('parseICalendar', () => {
+  test('reads each UID once, and skips cancelled events and changed occurrences', () => {
+    const events = parseICalendar(
+      calendar(
+        'BEGIN:VEVENT', 'UID:a', 'DTSTART:20250701T080000Z', 'SUMMARY:First', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:a', 'DTSTART:20250702T080000Z', 'SUMMARY:Same UID', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:b', 'DTSTART:20250701T080000Z', 'STATUS:CANCELLED', 'SUMMARY:Cancelled', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:c', 'RRULE:FREQ=DAILY', 'DTSTART:20250701T080000Z', 'SUMMARY:Daily', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:c', 'RECURRENCE-ID:20250702T080000Z', 'DTSTART:20250702T090000Z', 'SUMMARY:Moved', 'END:VEVENT',
+        'BEGIN:VEVENT', 'SUMMARY:No start', 'END:VEVENT'
+      ),
+      TIME_ZONE
+    );
+
+    assert.deepEqual(
+      events.map(({ uid, title, recurring }) => ({ uid, title, recurring })),
+      [
+        { uid: 'a', title: 'First', recurring: false },
+        { uid: 'c', title: 'Daily', recurring: true },
+      ]
+    );
+  });
+
+  test('reads floating times in the trip\'s zone, and durations as end times', () => {
+    const [event] = parseICalendar(
+      calendar('BEGIN:VEVENT', 'DTSTART:20250701T093000', 'DURATION:PT1H30M', 'SUMMARY:Tour', 'END:VEVENT'),
+      TIME_ZONE
+    );
+
+    assert.equal(event.startTime!.getTime(), localTime('2025-07-01', '09:30').toMillis());
+    assert.equal(event.endTime!.getTime(), localTime('2025-07-01', '11:00').toMillis());
+    assert.equal(event.timeZone, undefined);
+  });
+
+  test('resolves TZIDs through X-LIC-LOCATION', () => {
+    const [event] = parseICalendar(
+      calendar(
+        'BEGIN:VTIMEZONE', 'TZID:Tokyo Standard Time', 'X-LIC-LOCATION:Asia/Tokyo', 'END:VTIMEZONE',
+        'BEGIN:VEVENT', 'DTSTART;TZID="Tokyo Standard Time":20250701T080000', 'SUMMARY:Call', 'END:VEVENT'
+      ),
+      TIME_ZONE
+    );
+
+    assert.equal(event.timeZone, 'Asia/Tokyo');
+    assert.equal(event.startTime!.toISOString(), '2025-06-30T23:00:00.000Z');
+  });
+
+  test('ends multi-day all-day events on the day before DTEND', () => {
+    const [event] = parseICalendar(
+      calendar('BEGIN:VEVENT', 'DTSTART;VALUE=DATE:20250701', 'DTEND;VALUE=DATE:20250704', 'SUMMARY:Festival', 'END:VEVENT'),
+      TIME_ZONE
+    );
+
+    assert.equal(event.startDate, '2025-07-01');
+    assert.equal(event.endDate, '2025-07-03');
+  });
+});
+
+describe('planCalendarImport', () => {
+  const dinner = activity('dinner', { title: 'Dinner at Chez Janou', type: 'restaurant', startTime: localTime('2025-07-01', '20:00') });
+  const museum = activity('museum', { title: 'Orsay' });
+  const itinerary = trip([tripDay('2025-07-01', [dinner, museum]), tripDay('2025-07-02')]);
+
+  function plan(...lines: string[]) {
+    return planCalendarImport(itinerary, parseICalendar(calendar(...lines), TIME_ZONE), TIME_ZONE);
+  }
+
+  test('spots activities this app exported by their UID', () => {
+    const items = planCalendarImport(itinerary, parseICalendar(toICalendar(itinerary, TIME_ZONE), TIME_ZONE), TIME_ZONE);
+
+    assert.deepEqual(
+      items.map((item) => item.duplicateOf),
+      ['dinner', 'museum']
+    );
+  });
+
+  test('spots the same title on the same day at the same time, ignoring case and accents', () => {
+    const [sameTime, otherTime, otherDay, untimed] = plan(
+      'BEGIN:VEVENT', 'DTSTART;TZID=Europe/Paris:20250701T200000', 'SUMMARY:DINNER at chez janou!', 'END:VEVENT',
+      'BEGIN:VEVENT', 'DTSTART;TZID=Europe/Paris:20250701T210000', 'SUMMARY:Dinner at Chez Janou', 'END:VEVENT',
+      'BEGIN:VEVENT', 'DTSTART;TZID=Europe/Paris:20250702T200000', 'SUMMARY:Dinner at Chez Janou', 'END:VEVENT',
+      'BEGIN:VEVENT', 'DTSTART;TZID=Europe/Paris:20250701T150000', 'SUMMARY:Orsày', 'END:VEVENT'
+    );
+
+    assert.equal(sameTime.duplicateOf, 'dinner');
+    assert.equal(otherTime.duplicateOf, undefined);
+    assert.equal(otherDay.duplicateOf, undefined);
+    assert.equal(untimed.duplicateOf, 'museum', 'an activity without a time matches any time that day');
+  });
+
+  test('puts each event on the day of its local start date, or on none outside the trip', () => {
+    const [late, outside] = plan(
+      'BEGIN:VEVENT', 'DTSTART:20250701T223000Z', 'SUMMARY:Night train', 'LOCATION:Gare de Lyon, Paris', 'END:VEVENT',
+      'BEGIN:VEVENT', 'DTSTART;VALUE=DATE:20250710', 'SUMMARY:Back home', 'END:VEVENT'
+    );
+
+    assert.equal(late.dayId, 'day-2025-07-02');
+    assert.equal(late.activityData.type, 'transport');
+    assert.deepEqual(late.activityData.location, { name: 'Gare de Lyon', address: 'Paris' });
+    assert.equal(outside.dayId, null);
+  });
+});
+
+describe('guessActivityType', () => {
+  test('checks the title and categories before the description', () => {
+    assert.equal(guessActivityType({ title: 'AF 1234 CDG → NRT', categories: [] }), 'flight');
+    assert.equal(guessActivityType({ title: 'Check-in', categories: [], description: 'Dinner after' }), 'hotel');
+    assert.equal(guessActivityType({ title: 'Meet Sam', categories: [], description: 'At the café' }), 'restaurant');
+    assert.equal(guessActivityType({ title: 'Meet Sam', categories: [] }), 'other');
+  });
+});
+
+describe('getCalendarFileName', () => {
+  test('slugs the title, dropping accents', () => {
+    assert.equal(getCalendarFileName('Été à Paris!'), 'ete-a-paris.ics');
+    assert.equal(getCalendarFileName('  '), 'trip.ics');
+  });
+});
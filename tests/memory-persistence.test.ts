@@ -0,0 +1,384 @@
+/**
+ * In-Memory Persistence Tests
+ *
+ * Checks that createMemoryPersistence behaves like the Firestore backend in
+ * the ways the services rely on (see src/services/persistence/memory.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryPersistence } from '../src/services/persistence/memory';
+import type { TripDocument } from '../src/types';
+import { ANA, BEN, at, participant, newTrip, day, activity, expense, settlement } from './fixtures';
+
+/**
+ * A clock that moves one second on every read, so stamps are distinct and predictable
+ */
+function createClock(start = '2025-06-01T00:00:00Z') {
+  let seconds = at(start).seconds;
+  return () => new Timestamp(seconds++, 0);
+}
+
+/**
+ * A trip running over the given calendar dates
+ */
+function tripBetween(tripId: string, startDate: string, endDate: string) {
+  return newTrip(tripId, { startDate: at(`${startDate}T00:00:00Z`), endDate: at(`${endDate}T00:00:00Z`) });
+}
+
+describe('trips', () => {
+  test('createTrip stamps the trip and stores its days and activities in order', async () => {
+    const { trips } = createMemoryPersistence({ now: () => at('2025-06-15T12:00:00Z') });
+    const stored = await trips.createTrip(
+      newTrip('trip-1'),
+      [day('day-2', '2025-07-02'), day('day-1', '2025-07-01')],
+      [
+        { dayId: 'day-1', activity: activity('later', { createdAt: at('2025-06-02T00:00:00Z') }) },
+        { dayId: 'day-1', activity: activity('earlier') },
+      ]
+    );
+
+    assert.ok(stored.createdAt.isEqual(at('2025-06-15T12:00:00Z')));
+    assert.ok(stored.updatedAt.isEqual(at('2025-06-15T12:00:00Z')));
+    assert.deepEqual(await trips.getTrip('trip-1'), stored);
+
+    const days = await trips.loadDays('trip-1');
+    assert.deepEqual(days.map((d) => d.dayId), ['day-1', 'day-2']);
+    assert.deepEqual(days[0].activities.map((a) => a.activityId), ['earlier', 'later']);
+    assert.deepEqual(days[1].activities, []);
+  });
+
+  test('createTrip stores the expenses it is given', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), [], [], [expense('later', { createdAt: at('2025-06-02T00:00:00Z') }), expense('earlier')]);
+
+    assert.deepEqual((await trips.loadExpenses('trip-1')).map((e) => e.expenseId), ['earlier', 'later']);
+  });
+
+  test('returns copies, so changing what was read leaves the store as it was', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+
+    const trip = (await trips.getTrip('trip-1'))!;
+    trip.title = 'Changed';
+    trip.participants[0].displayName = 'Changed';
+
+    const stored = (await trips.getTrip('trip-1'))!;
+    assert.equal(stored.title, 'Trip trip-1');
+    assert.equal(stored.participants[0].displayName, ANA);
+  });
+
+  test('rejects undefined field values, as Firestore does', async () => {
+    const { trips } = createMemoryPersistence();
+    const trip = newTrip('trip-1', { description: undefined });
+
+    await assert.rejects(trips.createTrip(trip, []), /Unsupported field value: undefined/);
+    assert.equal(await trips.getTrip('trip-1'), null);
+  });
+
+  test('updateTrips stamps updatedAt and updates nested maps through dotted paths', async () => {
+    const { trips } = createMemoryPersistence({ now: createClock() });
+    const created = await trips.createTrip(newTrip('trip-1'), []);
+
+    await trips.updateTrips([
+      { tripId: 'trip-1', fields: { ['roles.' + BEN]: 'viewer', title: 'Renamed' } as Partial<TripDocument> },
+    ]);
+
+    const updated = (await trips.getTrip('trip-1'))!;
+    assert.equal(updated.title, 'Renamed');
+    assert.deepEqual(updated.roles, { [ANA]: 'owner', [BEN]: 'viewer' });
+    assert.ok(updated.updatedAt.toMillis() > created.updatedAt.toMillis());
+  });
+
+  test('updating a trip that does not exist fails and writes nothing else in the batch', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+
+    await assert.rejects(
+      trips.updateTrips([
+        { tripId: 'trip-1', fields: { title: 'Renamed' } },
+        { tripId: 'missing', fields: { title: 'Renamed' } },
+      ]),
+      /No document to update: trips\/missing/
+    );
+    assert.equal((await trips.getTrip('trip-1'))!.title, 'Trip trip-1');
+  });
+
+  test('listUserTrips pages through a user\'s trips, newest start date first', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(tripBetween('trip-a', '2025-01-01', '2025-01-02'), []);
+    await trips.createTrip(tripBetween('trip-b', '2025-03-01', '2025-03-02'), []);
+    await trips.createTrip(tripBetween('trip-c', '2025-03-01', '2025-03-02'), []);
+    await trips.createTrip(newTrip('trip-d', { participantIds: [BEN] }), []);
+
+    const first = await trips.listUserTrips(ANA, { limit: 2 });
+    assert.deepEqual(first.map((t) => t.tripId), ['trip-c', 'trip-b']);
+
+    const last = first[first.length - 1];
+    const next = await trips.listUserTrips(ANA, {
+      limit: 2,
+      cursor: { startDate: last.startDate, tripId: last.tripId },
+    });
+    assert.deepEqual(next.map((t) => t.tripId), ['trip-a']);
+  });
+
+  test('setCalendarFeed keeps one feed per participant', async () => {
+    const { trips } = createMemoryPersistence({ now: () => at('2025-06-15T12:00:00Z') });
+    await trips.createTrip(newTrip('trip-1'), []);
+
+    await trips.setCalendarFeed('trip-1', { userId: ANA, feedToken: 'first', scope: 'trip' });
+    const feed = await trips.setCalendarFeed('trip-1', { userId: ANA, feedToken: 'second', scope: 'participant' });
+
+    assert.ok(feed.createdAt.isEqual(at('2025-06-15T12:00:00Z')));
+    assert.deepEqual(await trips.listCalendarFeeds('trip-1'), [feed]);
+    assert.deepEqual(await trips.getCalendarFeed('trip-1', ANA), feed);
+
+    await trips.deleteCalendarFeed('trip-1', ANA);
+    assert.equal(await trips.getCalendarFeed('trip-1', ANA), null);
+  });
+
+  test('deleteTrip removes the trip with everything under it', async () => {
+    const { trips } = createMemoryPersistence();
+    const stored = await trips.createTrip(
+      newTrip('trip-1'),
+      [day('day-1', '2025-07-01')],
+      [{ dayId: 'day-1', activity: activity('activity-1') }]
+    );
+    await trips.runTransaction(async (transaction) => transaction.setExpense('trip-1', expense('expense-1')), {
+      maxAttempts: 5,
+    });
+    await trips.setCalendarFeed('trip-1', { userId: ANA, feedToken: 'token', scope: 'trip' });
+
+    await trips.deleteTrip({ ...stored, days: [] });
+
+    assert.equal(await trips.getTrip('trip-1'), null);
+    assert.deepEqual(await trips.loadDays('trip-1'), []);
+    assert.deepEqual(await trips.loadActivities('trip-1', 'day-1'), []);
+    assert.deepEqual(await trips.loadExpenses('trip-1'), []);
+    assert.deepEqual(await trips.listCalendarFeeds('trip-1'), []);
+  });
+});
+
+describe('transactions', () => {
+  test('commit every write together', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), [day('day-1', '2025-07-01')]);
+
+    const title = await trips.runTransaction(
+      async (transaction) => {
+        const trip = await transaction.getTrip('trip-1');
+        transaction.setActivity('trip-1', 'day-1', activity('later', { createdAt: at('2025-06-02T00:00:00Z') }));
+        transaction.setActivity('trip-1', 'day-1', activity('earlier'));
+        transaction.updateDay('trip-1', 'day-1', { title: 'Arrival' });
+        transaction.updateTrip('trip-1', {});
+        return trip!.title;
+      },
+      { maxAttempts: 5 }
+    );
+
+    assert.equal(title, 'Trip trip-1');
+    const [stored] = await trips.loadDays('trip-1');
+    assert.equal(stored.title, 'Arrival');
+    assert.deepEqual(stored.activities.map((a) => a.activityId), ['earlier', 'later']);
+  });
+
+  test('write nothing when the update function throws', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), [day('day-1', '2025-07-01')]);
+
+    await assert.rejects(
+      trips.runTransaction(
+        async (transaction) => {
+          transaction.updateTrip('trip-1', { title: 'Renamed' });
+          throw new Error('Changed my mind');
+        },
+        { maxAttempts: 5 }
+      ),
+      /Changed my mind/
+    );
+    assert.equal((await trips.getTrip('trip-1'))!.title, 'Trip trip-1');
+  });
+
+  test('write nothing when one of the writes fails', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), [day('day-1', '2025-07-01')]);
+
+    await assert.rejects(
+      trips.runTransaction(
+        async (transaction) => {
+          transaction.updateDay('trip-1', 'day-1', { title: 'Arrival' });
+          transaction.updateActivity('trip-1', 'day-1', 'missing', { title: 'Renamed' });
+        },
+        { maxAttempts: 5 }
+      ),
+      /No document to update/
+    );
+    const [stored] = await trips.loadDays('trip-1');
+    assert.equal(stored.title, undefined);
+  });
+
+  test('reject reads after the first write, as Firestore does', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+
+    await assert.rejects(
+      trips.runTransaction(
+        async (transaction) => {
+          transaction.updateTrip('trip-1', {});
+          await transaction.getTrip('trip-1');
+        },
+        { maxAttempts: 5 }
+      ),
+      /all reads to be executed before all writes/
+    );
+  });
+
+  test('setExpense and deleteExpense write expenses, read back in creation order', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+
+    await trips.runTransaction(
+      async (transaction) => {
+        transaction.setExpense('trip-1', expense('later', { createdAt: at('2025-06-02T00:00:00Z') }));
+        transaction.setExpense('trip-1', expense('earlier'));
+        transaction.setExpense('trip-1', expense('dropped'));
+      },
+      { maxAttempts: 5 }
+    );
+    await trips.runTransaction(
+      async (transaction) => {
+        const earlier = await transaction.getExpense('trip-1', 'earlier');
+        transaction.setExpense('trip-1', { ...earlier!, description: 'Groceries' });
+        transaction.deleteExpense('trip-1', 'dropped');
+      },
+      { maxAttempts: 5 }
+    );
+
+    const stored = await trips.loadExpenses('trip-1');
+    assert.deepEqual(stored.map((e) => e.expenseId), ['earlier', 'later']);
+    assert.equal(stored[0].description, 'Groceries');
+  });
+
+  test('rerun when another transaction changed what they read, so neither write is lost', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+    let runs = 0;
+
+    const appendSettlement = (settlementId: string) =>
+      trips.runTransaction(
+        async (transaction) => {
+          runs++;
+          const trip = await transaction.getTrip('trip-1');
+          // Let the other transaction read the same trip before either commits
+          await new Promise((resolve) => setImmediate(resolve));
+          const repayment = { ...settlement(BEN, ANA, 10), settlementId };
+          transaction.updateTrip('trip-1', { settlements: [...(trip!.settlements ?? []), repayment] });
+        },
+        { maxAttempts: 5 }
+      );
+    await Promise.all([appendSettlement('a'), appendSettlement('b')]);
+
+    const trip = (await trips.getTrip('trip-1'))!;
+    assert.deepEqual(trip.settlements!.map((s) => s.settlementId), ['a', 'b']);
+    assert.equal(runs, 3);
+  });
+
+  test('fail with aborted once they have lost every attempt', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+    let runs = 0;
+
+    await assert.rejects(
+      trips.runTransaction(
+        async (transaction) => {
+          runs++;
+          await transaction.getTrip('trip-1');
+          await trips.updateTrips([{ tripId: 'trip-1', fields: { title: `Changed ${runs}` } }]);
+          transaction.updateTrip('trip-1', { title: 'Lost' });
+        },
+        { maxAttempts: 3 }
+      ),
+      { code: 'aborted' }
+    );
+    assert.equal(runs, 3);
+    assert.equal((await trips.getTrip('trip-1'))!.title, 'Changed 3');
+  });
+
+  test('joinTrip adds the participant once, with their role', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), []);
+    const viewer = participant(BEN, { role: 'viewer', joinedAt: at('2025-06-02T00:00:00Z') });
+
+    for (let i = 0; i < 2; i++) {
+      await trips.runTransaction(async (transaction) => transaction.joinTrip('trip-1', viewer), { maxAttempts: 5 });
+    }
+
+    const trip = (await trips.getTrip('trip-1'))!;
+    assert.deepEqual(trip.participantIds, [ANA, BEN]);
+    assert.deepEqual(trip.participants.map((p) => p.userId), [ANA, BEN]);
+    assert.equal(trip.roles[BEN], 'viewer');
+  });
+});
+
+describe('listeners', () => {
+  test('watchTrip delivers the trip after subscribing, then every change', async () => {
+    const { trips } = createMemoryPersistence({ now: createClock() });
+    await trips.createTrip(newTrip('trip-1'), []);
+
+    const titles: Array<string | null> = [];
+    const unsubscribe = trips.watchTrip('trip-1', (trip) => titles.push(trip?.title ?? null), assert.fail);
+    assert.deepEqual(titles, [], 'the first snapshot arrives asynchronously');
+
+    await Promise.resolve();
+    await trips.updateTrips([{ tripId: 'trip-1', fields: { title: 'Renamed' } }]);
+    unsubscribe();
+    await trips.updateTrips([{ tripId: 'trip-1', fields: { title: 'Unseen' } }]);
+
+    assert.deepEqual(titles, ['Trip trip-1', 'Renamed']);
+  });
+
+  test('watchDays reports added, modified and removed days', async () => {
+    const { trips } = createMemoryPersistence();
+    await trips.createTrip(newTrip('trip-1'), [day('day-1', '2025-07-01')]);
+
+    const batches: string[][] = [];
+    const unsubscribe = trips.watchDays(
+      'trip-1',
+      (changes) => batches.push(changes.map((change) => `${change.type} ${change.day.dayId}`)),
+      assert.fail
+    );
+    await Promise.resolve();
+
+    await trips.runTransaction(
+      async (transaction) => {
+        transaction.setActivity('trip-1', 'day-1', activity('activity-1'));
+        transaction.setDay('trip-1', day('day-2', '2025-07-02'));
+      },
+      { maxAttempts: 5 }
+    );
+    await trips.runTransaction(async (transaction) => transaction.deleteDay('trip-1', 'day-2'), {
+      maxAttempts: 5,
+    });
+    unsubscribe();
+
+    assert.deepEqual(batches, [['added day-1'], ['modified day-1', 'added day-2'], ['removed day-2']]);
+  });
+});
+
+describe('users', () => {
+  test('addTripId and removeTripId keep a trip in the list at most once', async () => {
+    const { users } = createMemoryPersistence();
+    const { phoneNumber, displayName } = participant(ANA);
+    await users.createUser({ userId: ANA, phoneNumber, displayName, tripIds: [] });
+
+    await users.addTripId(ANA, 'trip-1');
+    await users.addTripId(ANA, 'trip-1');
+    await users.addTripId(ANA, 'trip-2');
+    await users.removeTripId(ANA, 'trip-1');
+
+    assert.deepEqual((await users.getUser(ANA))!.tripIds, ['trip-2']);
+  });
+});
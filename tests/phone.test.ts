@@ -0,0 +1,68 @@
+/**
+ * Phone Number Utility Tests
+ *
+ * Normalizing typed phone numbers to E.164 and formatting them for display
+ * (src/utils/phone.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isValidE164, normalizePhoneNumber, formatPhoneNumber } from '../src/utils/phone';
+
+describe('normalizePhoneNumber', () => {
+  test('reads North American numbers with or without the trunk 1 and formatting', () => {
+    assert.equal(normalizePhoneNumber('(415) 555-0132'), '+14155550132');
+    assert.equal(normalizePhoneNumber('415.555.0132'), '+14155550132');
+    assert.equal(normalizePhoneNumber('1 415 555 0132'), '+14155550132');
+    assert.equal(normalizePhoneNumber('  4155550132  '), '+14155550132');
+  });
+
+  test('keeps the country code of international numbers, after a + or 00', () => {
+    assert.equal(normalizePhoneNumber('+44 20 7946 0958'), '+442079460958');
+    assert.equal(normalizePhoneNumber('0044 20 7946 0958'), '+442079460958');
+    assert.equal(normalizePhoneNumber('+1 (415) 555-0132'), '+14155550132');
+  });
+
+  test('puts another default country code in front of national numbers', () => {
+    assert.equal(normalizePhoneNumber('6 12 34 56 78', '33'), '+33612345678');
+  });
+
+  test('rejects national numbers of the wrong length', () => {
+    assert.equal(normalizePhoneNumber('555-0132'), null);
+    assert.equal(normalizePhoneNumber('2 415 555 0132'), null);
+    assert.equal(normalizePhoneNumber('415 555 01322'), null);
+  });
+
+  test('rejects input that is not a phone number', () => {
+    assert.equal(normalizePhoneNumber(''), null);
+    assert.equal(normalizePhoneNumber('   '), null);
+    assert.equal(normalizePhoneNumber('call me'), null);
+    assert.equal(normalizePhoneNumber('+1 415 555 0132 ext 5'), null);
+    assert.equal(normalizePhoneNumber('++14155550132'), null);
+  });
+
+  test('rejects numbers E.164 does not allow', () => {
+    assert.equal(normalizePhoneNumber('+0 415 555 0132'), null, 'country codes do not start with 0');
+    assert.equal(normalizePhoneNumber('+1234567'), null, 'too short');
+    assert.equal(normalizePhoneNumber('+1234567890123456'), null, 'longer than 15 digits');
+  });
+});
+
+describe('isValidE164', () => {
+  test('accepts only a plus sign and 8 to 15 digits', () => {
+    assert.equal(isValidE164('+14155550132'), true);
+    assert.equal(isValidE164('+123456789012345'), true);
+    assert.equal(isValidE164('14155550132'), false);
+    assert.equal(isValidE164('+1 415 555 0132'), false);
+    assert.equal(isValidE164('+1234567890123456'), false);
+  });
+});
+
+describe('formatPhoneNumber', () => {
+  test('groups North American numbers and leaves others as they are', () => {
+    assert.equal(formatPhoneNumber('+14155550132'), '+1 (415) 555-0132');
+    assert.equal(formatPhoneNumber('+442079460958'), '+442079460958');
+  });
+});
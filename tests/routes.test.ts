@@ -0,0 +1,83 @@
+/**
+ * Route Tests
+ *
+ * Reading routes from URLs and writing URLs for routes (src/utils/routes.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRoute, routePath } from '../src/utils/routes';
+import type { Route } from '../src/utils/routes';
+
+describe('parseRoute', () => {
+  test('reads the dashboard, share and invite routes', () => {
+    assert.deepEqual(parseRoute('/'), { name: 'dashboard' });
+    assert.deepEqual(parseRoute(''), { name: 'dashboard' });
+    assert.deepEqual(parseRoute('/share/token-1'), { name: 'share', shareToken: 'token-1' });
+    assert.deepEqual(parseRoute('/invite/invite-1/'), { name: 'invite', inviteId: 'invite-1' });
+  });
+
+  test('reads trips, their days and an activity from the hash', () => {
+    assert.deepEqual(parseRoute('/trips/trip-1'), { name: 'trip', tripId: 'trip-1' });
+    assert.deepEqual(parseRoute('/trips/trip-1/'), { name: 'trip', tripId: 'trip-1' });
+    assert.deepEqual(parseRoute('/trips/trip-1/days/day-1'), { name: 'trip', tripId: 'trip-1', dayId: 'day-1' });
+    assert.deepEqual(parseRoute('/trips/trip-1/days/day-1', '#activity-1'), {
+      name: 'trip',
+      tripId: 'trip-1',
+      dayId: 'day-1',
+      activityId: 'activity-1',
+    });
+  });
+
+  test('only reads an activity on a day link, and ignores an empty hash', () => {
+    assert.deepEqual(parseRoute('/trips/trip-1', '#activity-1'), { name: 'trip', tripId: 'trip-1' });
+    assert.deepEqual(parseRoute('/trips/trip-1/days/day-1', '#'), { name: 'trip', tripId: 'trip-1', dayId: 'day-1' });
+  });
+
+  test('decodes escaped segments', () => {
+    assert.deepEqual(parseRoute('/trips/a%20b/days/d%2F1', '#x%23y'), {
+      name: 'trip',
+      tripId: 'a b',
+      dayId: 'd/1',
+      activityId: 'x#y',
+    });
+  });
+
+  test('rejects unknown paths and segments that do not decode', () => {
+    assert.equal(parseRoute('/trips'), null);
+    assert.equal(parseRoute('/trips/trip-1/days'), null);
+    assert.equal(parseRoute('/trips/trip-1/days/day-1/activities/a'), null);
+    assert.equal(parseRoute('/settings'), null);
+    assert.equal(parseRoute('/trips/%E0%A4%A'), null);
+    assert.equal(parseRoute('/trips/trip-1/days/%E0'), null);
+    assert.equal(parseRoute('/share/%'), null);
+  });
+});
+
+describe('routePath', () => {
+  test('writes paths that parseRoute reads back as the same route', () => {
+    const routes: Route[] = [
+      { name: 'dashboard' },
+      { name: 'trip', tripId: 'trip-1' },
+      { name: 'trip', tripId: 'a b', dayId: 'd/1' },
+      { name: 'trip', tripId: 'a b', dayId: 'd/1', activityId: 'x#y' },
+      { name: 'share', shareToken: 'token/1' },
+      { name: 'invite', inviteId: 'invite?1' },
+    ];
+
+    routes.forEach((route) => {
+      const [pathname, hash] = routePath(route).split(/(?=#)/);
+      assert.deepEqual(parseRoute(pathname, hash), route);
+    });
+  });
+
+  test('leaves out an activity without a day', () => {
+    assert.equal(routePath({ name: 'trip', tripId: 'trip-1', activityId: 'activity-1' }), '/trips/trip-1');
+    assert.equal(
+      routePath({ name: 'trip', tripId: 'trip 1', dayId: 'day-1', activityId: 'activity-1' }),
+      '/trips/trip%201/days/day-1#activity-1'
+    );
+  });
+});
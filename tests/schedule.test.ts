@@ -0,0 +1,247 @@
+/**
+ * Schedule Validation Tests
+ *
+ * Impossible activity times, overlaps, plans outside the flights in and out,
+ * and nights without lodging (src/utils/schedule.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase/firestore';
+import { validateActivity, validateTrip, getActivityFindings } from '../src/utils/schedule';
+import { fromZonedTime, addCalendarDays } from '../src/utils/dates';
+import type { Activity, FlightDetails, ScheduleFinding } from '../src/types';
+import { activity } from './fixtures';
+
+const PARIS = 'Europe/Paris';
+
+/**
+ * An instant given as wall-clock time in a zone
+ */
+function localTime(date: string, time: string, timeZone = PARIS): Timestamp {
+  return Timestamp.fromDate(fromZonedTime(date, timeZone, time));
+}
+
+/**
+ * An activity from start to end on a date in Paris; an end before the start is the next morning
+ */
+function planned(activityId: string, date: string, start: string, end?: string, fields: Partial<Activity> = {}): Activity {
+  const endDate = end && end < start ? addCalendarDays(date, 1) : date;
+  return activity(activityId, {
+    startTime: localTime(date, start),
+    ...(end && { endTime: localTime(endDate, end) }),
+    ...fields,
+  });
+}
+
+const LONDON_TO_PARIS: FlightDetails = {
+  flightNumber: 'BA 304',
+  origin: { airport: 'LHR', timeZone: 'Europe/London' },
+  destination: { airport: 'CDG', timeZone: PARIS },
+};
+
+const PARIS_TO_NEW_YORK: FlightDetails = {
+  flightNumber: 'AF 6',
+  origin: { airport: 'CDG', timeZone: PARIS },
+  destination: { airport: 'JFK', timeZone: 'America/New_York' },
+};
+
+/**
+ * Paris, 1 to 3 July 2025, one day per date
+ */
+function trip(activities: Record<string, Activity[]>, lodging = [{ checkInDate: '2025-07-01', checkOutDate: '2025-07-03' }]) {
+  const dates = ['2025-07-01', '2025-07-02', '2025-07-03'];
+  return {
+    startDate: localTime(dates[0], '00:00'),
+    endDate: localTime(dates[2], '00:00'),
+    days: dates.map((date) => ({ dayId: `day-${date}`, date: localTime(date, '00:00'), activities: activities[date] ?? [] })),
+    lodging,
+  };
+}
+
+function summarize(findings: ScheduleFinding[]): string[] {
+  return findings.map((finding) => `${finding.kind} ${'activityId' in finding ? finding.activityId : finding.dayId}`);
+}
+
+describe('validateActivity', () => {
+  test('rejects an end time that is not after the start time', () => {
+    const backwards = activity('backwards', { startTime: localTime('2025-07-01', '10:00'), endTime: localTime('2025-07-01', '09:00') });
+    const instant = activity('instant', { startTime: localTime('2025-07-01', '10:00'), endTime: localTime('2025-07-01', '10:00') });
+
+    assert.deepEqual(validateActivity(backwards, 'day-1', trip({}), PARIS), [
+      {
+        kind: 'invalid-times',
+        severity: 'error',
+        dayId: 'day-1',
+        activityId: 'backwards',
+        message: 'backwards: the end time must be after the start time.',
+      },
+    ]);
+    assert.equal(validateActivity(instant, 'day-1', trip({}), PARIS)[0].kind, 'invalid-times');
+  });
+
+  test('rejects times outside the trip\'s dates in the trip\'s zone', () => {
+    const lateNight = planned('late', '2025-07-03', '23:30');
+    const nextMorning = planned('early', '2025-07-04', '00:30');
+
+    assert.deepEqual(validateActivity(lateNight, 'day-3', trip({}), PARIS), []);
+    assert.deepEqual(validateActivity(nextMorning, 'day-3', trip({}), PARIS), [
+      {
+        kind: 'outside-trip',
+        severity: 'error',
+        dayId: 'day-3',
+        activityId: 'early',
+        date: '2025-07-04',
+        message: 'early is on 2025-07-04, outside the trip (2025-07-01 to 2025-07-03).',
+      },
+    ]);
+  });
+
+  test('dates a flight where it departs, and an end-only activity where it ends', () => {
+    // 00:30 in Paris on 1 July is still 30 June in London
+    const fromLondon = activity('flight', {
+      type: 'flight',
+      flight: LONDON_TO_PARIS,
+      startTime: localTime('2025-06-30', '23:30', 'Europe/London'),
+    });
+    const checkOut = activity('check-out', { endTime: localTime('2025-07-01', '11:00') });
+
+    assert.deepEqual(summarize(validateActivity(fromLondon, 'day-1', trip({}), PARIS)), ['outside-trip flight']);
+    assert.deepEqual(validateActivity(checkOut, 'day-1', trip({}), PARIS), []);
+  });
+});
+
+describe('validateTrip', () => {
+  test('reports overlapping activities once on each side', () => {
+    const findings = validateTrip(
+      trip({
+        '2025-07-01': [
+          planned('museum', '2025-07-01', '09:00', '11:00'),
+          planned('walk', '2025-07-01', '10:30', '12:00'),
+          planned('lunch', '2025-07-01', '12:00', '13:00'),
+          planned('coffee', '2025-07-01', '13:00'),
+        ],
+      }),
+      PARIS
+    );
+
+    assert.deepEqual(summarize(findings), ['overlap museum', 'overlap walk']);
+    assert.equal(findings[0].message, 'museum overlaps with walk.');
+    assert.deepEqual(summarize(getActivityFindings(findings, 'walk')), ['overlap walk']);
+  });
+
+  test('counts activities that start together as overlapping, even without end times', () => {
+    const findings = validateTrip(
+      trip({ '2025-07-02': [planned('tour', '2025-07-02', '10:00'), planned('call', '2025-07-02', '10:00')] }),
+      PARIS
+    );
+
+    assert.deepEqual(summarize(findings), ['overlap tour', 'overlap call']);
+  });
+
+  test('finds overlaps past midnight, across days, and with long activities', () => {
+    const findings = validateTrip(
+      trip({
+        '2025-07-01': [planned('party', '2025-07-01', '22:00', '02:00'), planned('show', '2025-07-01', '22:30', '23:00')],
+        '2025-07-02': [planned('night-walk', '2025-07-02', '01:00', '01:30')],
+      }),
+      PARIS
+    );
+
+    const overlaps = findings.filter((finding) => finding.kind === 'overlap');
+    assert.deepEqual(
+      overlaps.map((finding) => finding.kind === 'overlap' && `${finding.activityId}/${finding.otherActivityId} ${finding.otherDayId}`),
+      [
+        'party/show day-2025-07-01',
+        'show/party day-2025-07-01',
+        'party/night-walk day-2025-07-02',
+        'night-walk/party day-2025-07-01',
+      ]
+    );
+  });
+
+  test('leaves hotel stays and activities without a time out of overlaps', () => {
+    const findings = validateTrip(
+      trip({
+        '2025-07-01': [
+          planned('hotel', '2025-07-01', '15:00', '11:00', { type: 'hotel' }),
+          planned('dinner', '2025-07-01', '20:00', '22:00'),
+          activity('picnic'),
+        ],
+      }),
+      PARIS
+    );
+
+    assert.deepEqual(findings, []);
+  });
+
+  test('flags plans before the flight in lands and after the flight home leaves', () => {
+    const findings = validateTrip(
+      trip({
+        '2025-07-01': [
+          planned('breakfast', '2025-07-01', '07:00', '07:30'),
+          activity('in', {
+            type: 'flight',
+            flight: LONDON_TO_PARIS,
+            startTime: localTime('2025-07-01', '07:05', 'Europe/London'),
+            endTime: localTime('2025-07-01', '09:20'),
+          }),
+          planned('louvre', '2025-07-01', '11:00', '13:00'),
+        ],
+        '2025-07-03': [
+          planned('lunch', '2025-07-03', '12:00', '13:00'),
+          activity('out', {
+            type: 'flight',
+            flight: PARIS_TO_NEW_YORK,
+            startTime: localTime('2025-07-03', '16:30'),
+            endTime: localTime('2025-07-03', '19:00', 'America/New_York'),
+          }),
+          planned('shopping', '2025-07-03', '15:30', '17:00'),
+        ],
+      }),
+      PARIS
+    );
+
+    const windows = findings.filter((finding) => finding.kind === 'before-arrival' || finding.kind === 'after-departure');
+    assert.deepEqual(summarize(windows), ['before-arrival breakfast', 'after-departure shopping']);
+    assert.equal(windows[0].message, 'breakfast starts before BA 304 · LHR → CDG lands (09:20).');
+    assert.equal(windows[1].message, 'shopping runs past the departure of AF 6 · CDG → JFK (16:30).');
+  });
+
+  test('reports each night no stay covers, on the day it follows', () => {
+    const findings = validateTrip(trip({}, [{ checkInDate: '2025-07-01', checkOutDate: '2025-07-02' }]), PARIS);
+
+    assert.deepEqual(findings, [
+      {
+        kind: 'night-without-lodging',
+        severity: 'warning',
+        dayId: 'day-2025-07-02',
+        night: '2025-07-02',
+        message: 'No lodging for the night of 2025-07-02.',
+      },
+    ]);
+  });
+
+  test('lists errors before warnings', () => {
+    const findings = validateTrip(
+      trip(
+        {
+          '2025-07-01': [planned('a', '2025-07-01', '10:00', '12:00'), planned('b', '2025-07-01', '11:00', '12:00')],
+          '2025-07-02': [planned('c', '2025-07-02', '10:00', '09:00', { endTime: localTime('2025-07-02', '09:00') })],
+        },
+        []
+      ),
+      PARIS
+    );
+
+    assert.deepEqual(summarize(findings), [
+      'invalid-times c',
+      'overlap a',
+      'overlap b',
+      'night-without-lodging day-2025-07-01',
+      'night-without-lodging day-2025-07-02',
+    ]);
+  });
+});
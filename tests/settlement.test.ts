@@ -0,0 +1,279 @@
+/**
+ * Settlement Utility Tests
+ *
+ * Cost splits, balances and settle-up transfers (src/utils/settlement.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getCostShares,
+  getCostSplitError,
+  getTripCosts,
+  getTripBalances,
+  getSettleUpTransfers,
+} from '../src/utils/settlement';
+import type { Activity, Cost, Day, Trip } from '../src/types';
+import { ANA, BEN, CAL, CREATED_AT, participant, activity, lodging, expense, settlement } from './fixtures';
+
+type BalancedTrip = Parameters<typeof getTripBalances>[0];
+
+function trip(fields: Partial<BalancedTrip> = {}): BalancedTrip {
+  return { days: [], participants: [ANA, BEN, CAL].map((userId) => participant(userId)), ...fields };
+}
+
+/**
+ * One day with the given activities
+ */
+function itinerary(...activities: Activity[]): Trip['days'] {
+  const day: Day = { dayId: 'day-1', date: CREATED_AT, activities };
+  return [day];
+}
+
+/**
+ * An activity with a cost
+ */
+function paid(activityId: string, cost: Cost): Activity {
+  return activity(activityId, { type: 'restaurant', cost });
+}
+
+function shares(cost: Cost, participantIds = [ANA, BEN, CAL]): Record<string, number> {
+  return Object.fromEntries(getCostShares(cost, participantIds));
+}
+
+describe('getCostShares', () => {
+  test('splits equally between every participant when splitBetween is unset', () => {
+    assert.deepEqual(shares({ amount: 30, currency: 'USD', paidBy: ANA }), { [ANA]: 10, [BEN]: 10, [CAL]: 10 });
+  });
+
+  test('gives the cents that do not divide evenly to the first people', () => {
+    assert.deepEqual(shares({ amount: 10, currency: 'USD' }), { [ANA]: 3.34, [BEN]: 3.33, [CAL]: 3.33 });
+  });
+
+  test('rounds to the currency\'s smallest unit', () => {
+    assert.deepEqual(shares({ amount: 1000, currency: 'JPY' }), { [ANA]: 334, [BEN]: 333, [CAL]: 333 });
+  });
+
+  test('splits only between splitBetween when set', () => {
+    assert.deepEqual(shares({ amount: 20, currency: 'USD', splitBetween: [BEN, CAL] }), { [BEN]: 10, [CAL]: 10 });
+  });
+
+  test('uses splitValues as weights for shares and percentages', () => {
+    assert.deepEqual(
+      shares({ amount: 90, currency: 'USD', splitMode: 'shares', splitValues: { [ANA]: 2, [BEN]: 1 } }),
+      { [ANA]: 60, [BEN]: 30 }
+    );
+    assert.deepEqual(
+      shares({ amount: 50, currency: 'EUR', splitMode: 'percent', splitValues: { [ANA]: 80, [BEN]: 20, [CAL]: 0 } }),
+      { [ANA]: 40, [BEN]: 10 }
+    );
+  });
+
+  test('keeps exact amounts as they are', () => {
+    assert.deepEqual(
+      shares({ amount: 25.5, currency: 'USD', splitMode: 'exact', splitValues: { [ANA]: 20.25, [BEN]: 5.25 } }),
+      { [ANA]: 20.25, [BEN]: 5.25 }
+    );
+  });
+
+  test('leaves the whole cost with the payer when there is nobody to split it between', () => {
+    assert.deepEqual(shares({ amount: 12, currency: 'USD', paidBy: BEN, splitMode: 'shares', splitValues: {} }), {
+      [BEN]: 12,
+    });
+    assert.deepEqual(shares({ amount: 12, currency: 'USD', splitMode: 'shares', splitValues: {} }), {});
+  });
+});
+
+describe('getCostSplitError', () => {
+  test('accepts usable splits', () => {
+    assert.equal(getCostSplitError({ amount: 10, currency: 'USD' }), null);
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitMode: 'exact', splitValues: { [ANA]: 7.5, [BEN]: 2.5 } }),
+      null
+    );
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitMode: 'percent', splitValues: { [ANA]: 33.33, [BEN]: 66.67 } }),
+      null
+    );
+  });
+
+  test('rejects negative amounts and empty equal splits', () => {
+    assert.equal(getCostSplitError({ amount: -1, currency: 'USD' }), 'Cost must be a positive amount');
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitBetween: [] }),
+      'Pick at least one person to split the cost between'
+    );
+  });
+
+  test('rejects split values that are negative or all zero', () => {
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitMode: 'shares', splitValues: { [ANA]: -1 } }),
+      'Split values must be positive numbers'
+    );
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitMode: 'shares', splitValues: { [ANA]: 0 } }),
+      'Give at least one person part of the cost'
+    );
+  });
+
+  test('rejects exact amounts and percentages that do not add up', () => {
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitMode: 'exact', splitValues: { [ANA]: 7, [BEN]: 2 } }),
+      'Amounts add up to 9.00, not 10.00'
+    );
+    assert.equal(
+      getCostSplitError({ amount: 10, currency: 'USD', splitMode: 'percent', splitValues: { [ANA]: 50, [BEN]: 40 } }),
+      'Percentages add up to 90%, not 100%'
+    );
+  });
+});
+
+describe('getTripCosts', () => {
+  test('lists activities with a cost in itinerary order, then lodging, then expenses', () => {
+    const costs = getTripCosts({
+      days: itinerary(paid('dinner', { amount: 60, currency: 'USD' }), activity('walk'), paid('taxi', { amount: 15, currency: 'USD' })),
+      lodging: [lodging('hotel', { cost: { amount: 200, currency: 'USD' } }), lodging('friends')],
+      expenses: [expense('groceries')],
+    });
+
+    assert.deepEqual(
+      costs.map(({ kind, id, dayId, date }) => ({ kind, id, dayId, date })),
+      [
+        { kind: 'activity', id: 'dinner', dayId: 'day-1', date: undefined },
+        { kind: 'activity', id: 'taxi', dayId: 'day-1', date: undefined },
+        { kind: 'lodging', id: 'hotel', dayId: undefined, date: undefined },
+        { kind: 'expense', id: 'groceries', dayId: undefined, date: '2025-07-02' },
+      ]
+    );
+  });
+});
+
+describe('getTripBalances', () => {
+  test('balances each currency on its own, in alphabetical order', () => {
+    const ledgers = getTripBalances(
+      trip({
+        days: itinerary(paid('taxi', { amount: 20, currency: 'EUR', paidBy: BEN, splitBetween: [BEN, CAL] })),
+        lodging: [lodging('hotel', { cost: { amount: 300, currency: 'USD', paidBy: ANA } })],
+      })
+    );
+
+    assert.deepEqual(ledgers, [
+      {
+        currency: 'EUR',
+        total: 20,
+        unassigned: 0,
+        balances: [
+          { userId: ANA, paid: 0, owed: 0, repaid: 0, repaidTo: 0, net: 0 },
+          { userId: BEN, paid: 20, owed: 10, repaid: 0, repaidTo: 0, net: 10 },
+          { userId: CAL, paid: 0, owed: 10, repaid: 0, repaidTo: 0, net: -10 },
+        ],
+      },
+      {
+        currency: 'USD',
+        total: 300,
+        unassigned: 0,
+        balances: [
+          { userId: ANA, paid: 300, owed: 100, repaid: 0, repaidTo: 0, net: 200 },
+          { userId: BEN, paid: 0, owed: 100, repaid: 0, repaidTo: 0, net: -100 },
+          { userId: CAL, paid: 0, owed: 100, repaid: 0, repaidTo: 0, net: -100 },
+        ],
+      },
+    ]);
+  });
+
+  test('counts costs nobody paid towards the total only', () => {
+    const [usd] = getTripBalances(
+      trip({
+        days: itinerary(paid('taxi', { amount: 15, currency: 'USD' })),
+        expenses: [expense('tip', { cost: { amount: 5, currency: 'USD' } })],
+      })
+    );
+
+    assert.equal(usd.total, 20);
+    assert.equal(usd.unassigned, 20);
+    assert.ok(usd.balances.every((balance) => balance.net === 0));
+  });
+
+  test('counts repayments towards both people\'s balances', () => {
+    const [usd] = getTripBalances(
+      trip({
+        lodging: [lodging('hotel', { cost: { amount: 300, currency: 'USD', paidBy: ANA } })],
+        settlements: [settlement(BEN, ANA, 100)],
+      })
+    );
+
+    assert.deepEqual(
+      usd.balances.map(({ userId, repaid, repaidTo, net }) => ({ userId, repaid, repaidTo, net })),
+      [
+        { userId: ANA, repaid: 0, repaidTo: 100, net: 100 },
+        { userId: BEN, repaid: 100, repaidTo: 0, net: 0 },
+        { userId: CAL, repaid: 0, repaidTo: 0, net: -100 },
+      ]
+    );
+  });
+
+  test('splits expenses like any other cost', () => {
+    const [usd] = getTripBalances(
+      trip({ expenses: [expense('groceries', { cost: { amount: 30, currency: 'USD', paidBy: CAL, splitBetween: [BEN, CAL] } })] })
+    );
+
+    assert.deepEqual(
+      usd.balances.map(({ userId, net }) => ({ userId, net })),
+      [
+        { userId: ANA, net: 0 },
+        { userId: BEN, net: -15 },
+        { userId: CAL, net: 15 },
+      ]
+    );
+  });
+
+  test('keeps a row for someone who left but is still part of a cost', () => {
+    const [usd] = getTripBalances(
+      trip({
+        participants: [participant(ANA), participant(BEN)],
+        days: itinerary(paid('taxi', { amount: 30, currency: 'USD', paidBy: CAL, splitBetween: [ANA, BEN, CAL] })),
+      })
+    );
+
+    assert.deepEqual(
+      usd.balances.map(({ userId, net }) => ({ userId, net })),
+      [
+        { userId: ANA, net: -10 },
+        { userId: BEN, net: -10 },
+        { userId: CAL, net: 20 },
+      ]
+    );
+  });
+});
+
+describe('getSettleUpTransfers', () => {
+  test('has whoever owes the most pay whoever is owed the most', () => {
+    const [usd] = getTripBalances(
+      trip({
+        days: itinerary(paid('taxi', { amount: 30, currency: 'USD', paidBy: BEN })),
+        lodging: [lodging('hotel', { cost: { amount: 300, currency: 'USD', paidBy: ANA } })],
+      })
+    );
+
+    assert.deepEqual(getSettleUpTransfers(usd), [
+      { fromUserId: CAL, toUserId: ANA, amount: 110, currency: 'USD' },
+      { fromUserId: BEN, toUserId: ANA, amount: 80, currency: 'USD' },
+    ]);
+  });
+
+  test('brings every balance to zero once the transfers are recorded', () => {
+    const costs = {
+      days: itinerary(paid('taxi', { amount: 10, currency: 'USD', paidBy: BEN, splitMode: 'shares', splitValues: { [ANA]: 1, [CAL]: 2 } })),
+      lodging: [lodging('hotel', { cost: { amount: 100, currency: 'USD', paidBy: ANA } })],
+    };
+    const [usd] = getTripBalances(trip(costs));
+    const transfers = getSettleUpTransfers(usd);
+
+    const settlements = transfers.map((t) => settlement(t.fromUserId, t.toUserId, t.amount));
+    const [settled] = getTripBalances(trip({ ...costs, settlements }));
+    assert.ok(settled.balances.every((balance) => balance.net === 0));
+    assert.deepEqual(getSettleUpTransfers(settled), []);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Trip Service Tests
+ *
+ * The trip service end to end on the in-memory backend: what it writes,
+ * who may write it, and what ends up in the trip's history
+ * (src/services/trip.service.ts).
+ *
+ *   npm test
+ */
+
+import { describe, test, beforeEach, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryPersistence, setPersistence, getPersistence } from '../src/services/persistence';
+import { createUser, getUser } from '../src/services/user.service';
+import {
+  createTrip,
+  getTrip,
+  addParticipant,
+  addActivity,
+  updateActivity,
+  removeActivity,
+  moveActivity,
+  copyActivity,
+  updateTrip,
+  undoLastChange,
+  removeParticipant,
+  rotateCalendarFeed,
+  getCalendarFeed,
+  setTripBudget,
+} from '../src/services/trip.service';
+import {
+  PermissionDeniedError,
+  ScheduleValidationError,
+  ChangeHistoryError,
+  TripConflictError,
+  DaysOutOfRangeError,
+} from '../src/services/errors';
+import { toCalendarDate } from '../src/utils/dates';
+import type { Trip } from '../src/types';
+import { ANA, BEN, CAL, at } from './fixtures';
+
+/**
+ * Ana's trip to Paris, 1 to 3 July; Ben joins as a viewer
+ */
+async function planTrip(): Promise<Trip> {
+  const trip = await createTrip(ANA, '+14155550000', 'Ana', {
+    title: 'Paris',
+    startDate: at('2025-06-30T22:00:00Z'),
+    endDate: at('2025-07-02T22:00:00Z'),
+    settings: { currency: 'EUR', timezone: 'Europe/Paris' },
+  });
+  await addParticipant(
+    trip.tripId,
+    { userId: BEN, phoneNumber: '+14155550001', displayName: 'Ben', role: 'viewer' },
+    ANA
+  );
+  return trip;
+}
+
+before(() => {
+  // Services log every failure; the tests below check the errors themselves
+  mock.method(console, 'error', () => {});
+});
+
+after(() => {
+  mock.restoreAll();
+  setPersistence(null);
+});
+
+beforeEach(async () => {
+  setPersistence(createMemoryPersistence());
+  await createUser(ANA, { phoneNumber: '+14155550000', displayName: 'Ana' });
+  await createUser(BEN, { phoneNumber: '+14155550001', displayName: 'Ben' });
+});
+
+describe('createTrip', () => {
+  test('gives the trip a day per date in its time zone and lists it for the owner', async () => {
+    const { tripId } = await planTrip();
+    const trip = (await getTrip(tripId))!;
+
+    assert.deepEqual(
+      trip.days.map((day) => toCalendarDate(day.date.toDate(), 'Europe/Paris')),
+      ['2025-07-01', '2025-07-02', '2025-07-03']
+    );
+    assert.equal(trip.roles[ANA], 'owner');
+    assert.deepEqual((await getUser(ANA))!.tripIds, [tripId]);
+  });
+});
+
+describe('updateTrip', () => {
+  /**
+   * A trip's days as calendar dates in a time zone
+   */
+  function dates(trip: Trip, timeZone: string): string[] {
+    return trip.days.map((day) => toCalendarDate(day.date.toDate(), timeZone));
+  }
+
+  test('moving the dates keeps the days both ranges share and replaces the rest', async () => {
+    const { tripId, days } = await planTrip();
+    await addActivity(tripId, days[1].dayId, ANA, { title: 'Louvre', type: 'attraction' });
+
+    // 1-3 July becomes 2-4 July
+    await updateTrip(tripId, { startDate: at('2025-07-01T22:00:00Z'), endDate: at('2025-07-03T22:00:00Z') }, ANA);
+
+    const trip = (await getTrip(tripId))!;
+    assert.deepEqual(dates(trip, 'Europe/Paris'), ['2025-07-02', '2025-07-03', '2025-07-04']);
+    assert.deepEqual(trip.days.slice(0, 2).map((day) => day.dayId), [days[1].dayId, days[2].dayId]);
+    assert.deepEqual(trip.days[0].activities.map((a) => a.title), ['Louvre']);
+    assert.ok(!trip.days.some((day) => day.dayId === days[0].dayId));
+  });
+
+  test('moving to dates that don\'t overlap replaces every empty day', async () => {
+    const { tripId, days } = await planTrip();
+
+    await updateTrip(tripId, { startDate: at('2025-08-09T22:00:00Z'), endDate: at('2025-08-10T22:00:00Z') }, ANA);
+
+    const trip = (await getTrip(tripId))!;
+    assert.deepEqual(dates(trip, 'Europe/Paris'), ['2025-08-10', '2025-08-11']);
+    assert.ok(!trip.days.some((day) => days.some((old) => old.dayId === day.dayId)));
+  });
+
+  test('refuses to drop a day that still has activities, and changes nothing', async () => {
+    const { tripId, days } = await planTrip();
+    await addActivity(tripId, days[2].dayId, ANA, { title: 'Louvre', type: 'attraction' });
+
+    await assert.rejects(updateTrip(tripId, { endDate: at('2025-07-01T22:00:00Z') }, ANA), (error) => {
+      assert.ok(error instanceof DaysOutOfRangeError);
+      assert.deepEqual(error.days, [
+        { dayId: days[2].dayId, date: '2025-07-03', title: undefined, activityCount: 1 },
+      ]);
+      return true;
+    });
+    const trip = (await getTrip(tripId))!;
+    assert.deepEqual(trip.days.map((day) => day.dayId), days.map((day) => day.dayId));
+    assert.equal(trip.endDate.toMillis(), at('2025-07-02T22:00:00Z').toMillis());
+  });
+
+  test('gives a trip across a DST change one day per date, each at local midnight', async () => {
+    const { tripId } = await planTrip();
+
+    // Clocks go forward in Paris at 02:00 on 30 March
+    await updateTrip(tripId, { startDate: at('2025-03-28T23:00:00Z'), endDate: at('2025-03-31T22:00:00Z') }, ANA);
+
+    const trip = (await getTrip(tripId))!;
+    assert.deepEqual(dates(trip, 'Europe/Paris'), ['2025-03-29', '2025-03-30', '2025-03-31', '2025-04-01']);
+    assert.deepEqual(
+      trip.days.map((day) => day.date.toDate().toISOString()),
+      ['2025-03-28T23:00:00.000Z', '2025-03-29T23:00:00.000Z', '2025-03-30T22:00:00.000Z', '2025-03-31T22:00:00.000Z']
+    );
+  });
+
+  test('a new time zone keeps each day\'s date and activities, re-dated to local midnight there', async () => {
+    const { tripId, days } = await planTrip();
+    await addActivity(tripId, days[0].dayId, ANA, { title: 'Louvre', type: 'attraction' });
+
+    // The same dates, 1-3 July, now from midnight in New York
+    await updateTrip(
+      tripId,
+      {
+        startDate: at('2025-07-01T04:00:00Z'),
+        endDate: at('2025-07-03T04:00:00Z'),
+        settings: { currency: 'EUR', timezone: 'America/New_York', isPublic: false },
+      },
+      ANA
+    );
+
+    const trip = (await getTrip(tripId))!;
+    assert.deepEqual(trip.days.map((day) => day.dayId), days.map((day) => day.dayId));
+    assert.deepEqual(dates(trip, 'America/New_York'), ['2025-07-01', '2025-07-02', '2025-07-03']);
+    assert.equal(trip.days[0].date.toDate().toISOString(), '2025-07-01T04:00:00.000Z');
+    assert.deepEqual(trip.days[0].activities.map((a) => a.title), ['Louvre']);
+  });
+});
+
+describe('activities', () => {
+  test('are stamped with who last changed them, and every change is in the history', async () => {
+    const { tripId, days } = await planTrip();
+    const dayId = days[0].dayId;
+
+    await addActivity(tripId, dayId, ANA, { title: 'Louvre', type: 'attraction' });
+    const [added] = (await getTrip(tripId))!.days[0].activities;
+    await updateActivity(tripId, dayId, added.activityId, ANA, { title: 'Orsay', notes: 'Book ahead' });
+    await removeActivity(tripId, dayId, added.activityId, ANA);
+
+    const history = await getPersistence().trips.listChanges(tripId, {});
+    assert.deepEqual(
+      history.map(({ operation, label }) => ({ operation, label })),
+      [
+        { operation: 'activity.remove', label: 'Orsay' },
+        { operation: 'activity.update', label: 'Orsay' },
+        { operation: 'activity.add', label: 'Louvre' },
+        { operation: 'participant.add', label: 'Ben' },
+      ]
+    );
+    assert.deepEqual(history[1].diffs[0].before, { title: 'Louvre', notes: null });
+    assert.deepEqual((await getTrip(tripId))!.days[0].activities, []);
+  });
+
+  test('can only be changed by owners and editors', async () => {
+    const { tripId, days } = await planTrip();
+
+    await assert.rejects(
+      addActivity(tripId, days[0].dayId, BEN, { title: 'Louvre', type: 'attraction' }),
+      PermissionDeniedError
+    );
+    assert.deepEqual((await getTrip(tripId))!.days[0].activities, []);
+  });
+
+  test('must end after they start', async () => {
+    const { tripId, days } = await planTrip();
+
+    await assert.rejects(
+      addActivity(tripId, days[0].dayId, ANA, {
+        title: 'Louvre',
+        type: 'attraction',
+        startTime: at('2025-07-01T10:00:00Z'),
+        endTime: at('2025-07-01T09:00:00Z'),
+      }),
+      ScheduleValidationError
+    );
+  });
+});
+
+describe('transactions', () => {
+  /**
+   * Make every trip transaction fail with a Firestore error code
+   */
+  function failTransactions(code: string, message: string) {
+    mock.method(getPersistence().trips, 'runTransaction', async () => {
+      throw Object.assign(new Error(message), { code });
+    });
+  }
+
+  test('that kept colliding with other changes are reported as conflicts', async () => {
+    const { tripId, days } = await planTrip();
+    failTransactions('aborted', 'Transaction failed: the documents it read kept changing.');
+
+    await assert.rejects(
+      addActivity(tripId, days[0].dayId, ANA, { title: 'Louvre', type: 'attraction' }),
+      TripConflictError
+    );
+  });
+
+  test('that failed for any other reason are not', async () => {
+    const { tripId, days } = await planTrip();
+    failTransactions('failed-precondition', 'The query requires an index.');
+
+    await assert.rejects(
+      addActivity(tripId, days[0].dayId, ANA, { title: 'Louvre', type: 'attraction' }),
+      (error) => {
+        assert.ok(!(error instanceof TripConflictError));
+        assert.match((error as Error).message, /requires an index/);
+        return true;
+      }
+    );
+  });
+});
+
+describe('moving and copying activities', () => {
+  /**
+   * Louvre at 10:00 on the first day, breakfast on the second
+   */
+  async function planItinerary() {
+    const { tripId, days } = await planTrip();
+    const [first, second] = days.map((day) => day.dayId);
+    await addActivity(tripId, first, ANA, { title: 'Louvre', type: 'attraction', startTime: at('2025-07-01T08:00:00Z') });
+    await addActivity(tripId, second, ANA, { title: 'Breakfast', type: 'restaurant' });
+    const [louvre] = (await getTrip(tripId))!.days[0].activities;
+    return { tripId, first, second, louvre };
+  }
+
+  test('move an activity to its place on another day, at the same local time', async () => {
+    const { tripId, first, second, louvre } = await planItinerary();
+
+    await moveActivity(tripId, first, louvre.activityId, { dayId: second, index: 0 }, ANA);
+
+    const trip = (await getTrip(tripId))!;
+    assert.deepEqual(trip.days[0].activities, []);
+    assert.deepEqual(trip.days[1].activities.map((a) => a.title), ['Louvre', 'Breakfast']);
+    assert.equal(trip.days[1].activities[0].startTime!.toDate().toISOString(), '2025-07-02T08:00:00.000Z');
+  });
+
+  test('copy an activity to the end of a day as a new activity', async () => {
+    const { tripId, first, second, louvre } = await planItinerary();
+
+    const copy = await copyActivity(tripId, first, louvre.activityId, { dayId: second }, ANA);
+
+    const trip = (await getTrip(tripId))!;
+    assert.notEqual(copy.activityId, louvre.activityId);
+    assert.deepEqual(trip.days[0].activities.map((a) => a.activityId), [louvre.activityId]);
+    assert.deepEqual(trip.days[1].activities.map((a) => a.title), ['Breakfast', 'Louvre']);
+    assert.equal(trip.days[1].activities[1].activityId, copy.activityId);
+  });
+});
+
+describe('setTripBudget', () => {
+  test('takes a limit of zero, but not a negative one', async () => {
+    const { tripId } = await planTrip();
+
+    await setTripBudget(tripId, { total: 500, byType: { flight: 0 } }, ANA);
+    assert.deepEqual((await getTrip(tripId))!.settings?.budget, { total: 500, byType: { flight: 0 } });
+
+    await assert.rejects(setTripBudget(tripId, { total: -1 }, ANA), /zero or more/);
+    assert.equal((await getTrip(tripId))!.settings?.budget?.total, 500);
+  });
+});
+
+describe('undoLastChange', () => {
+  test('puts back what the actor\'s last change replaced', async () => {
+    const { tripId, days } = await planTrip();
+    await addActivity(tripId, days[0].dayId, ANA, { title: 'Louvre', type: 'attraction', notes: 'Book ahead' });
+    const [louvre] = (await getTrip(tripId))!.days[0].activities;
+    await updateActivity(tripId, days[0].dayId, louvre.activityId, ANA, { title: 'Orsay', notes: undefined });
+
+    await undoLastChange(tripId, ANA);
+
+    const [restored] = (await getTrip(tripId))!.days[0].activities;
+    assert.equal(restored.title, 'Louvre');
+    assert.equal(restored.notes, 'Book ahead');
+  });
+
+  test('will not delete a day someone has since added activities to', async () => {
+    const { tripId } = await planTrip();
+    await createUser(CAL, { phoneNumber: '+14155550002', displayName: 'Cal' });
+    await addParticipant(tripId, { userId: CAL, phoneNumber: '+14155550002', displayName: 'Cal', role: 'editor' }, ANA);
+    await updateTrip(tripId, { endDate: at('2025-07-03T22:00:00Z') }, ANA);
+    const added = (await getTrip(tripId))!.days[3];
+    await addActivity(tripId, added.dayId, CAL, { title: 'Versailles', type: 'attraction' });
+
+    await assert.rejects(undoLastChange(tripId, ANA), (error) => {
+      assert.ok(error instanceof ChangeHistoryError);
+      assert.equal(error.code, 'changed-since');
+      return true;
+    });
+    assert.equal((await getTrip(tripId))!.days.length, 4);
+  });
+});
+
+describe('calendar feeds', () => {
+  // Feeds link back to the trip in the app, at the page's origin
+  before(() => {
+    Object.assign(globalThis, { window: { location: { origin: 'https://trips.example' } } });
+  });
+
+  after(() => {
+    Reflect.deleteProperty(globalThis, 'window');
+  });
+
+  test('are republished after every change, and removed once their person leaves', async () => {
+    const { tripId, days } = await planTrip();
+    const feed = await rotateCalendarFeed(tripId, BEN, 'trip');
+    const { calendars } = getPersistence();
+    const published = mock.method(calendars, 'publishCalendar');
+    const unpublished = mock.method(calendars, 'unpublishCalendar');
+
+    await addActivity(tripId, days[0].dayId, ANA, { title: 'Louvre', type: 'attraction' });
+    assert.equal(published.mock.callCount(), 1);
+    const [, republished, ics] = published.mock.calls[0].arguments;
+    assert.equal(republished.feedToken, feed.feedToken);
+    assert.match(ics, /SUMMARY:Louvre/);
+
+    await removeParticipant(tripId, BEN, ANA);
+    assert.equal(published.mock.callCount(), 1);
+    assert.equal(unpublished.mock.calls[0].arguments[1].feedToken, feed.feedToken);
+    assert.equal(await getCalendarFeed(tripId, BEN), null);
+  });
+});